@@ -9,6 +9,8 @@ import { registerRunCommand } from '../commands/run.js';
 import { registerReportCommand } from '../commands/report.js';
 import { registerHistoryCommand } from '../commands/history.js';
 import { registerNotifyCommand } from '../commands/notify.js';
+import { registerTimingCommand } from '../commands/timing.js';
+import { registerWatchCommand } from '../commands/watch.js';
 
 // --- Helpers ---
 
@@ -22,7 +24,7 @@ function createProgram(): Command {
 // --- Command Registration ---
 
 describe('CLI command registration', () => {
-  it('should register all 7 commands', () => {
+  it('should register all 9 commands', () => {
     const program = createProgram();
 
     registerMergeCommand(program);
@@ -32,6 +34,8 @@ describe('CLI command registration', () => {
     registerReportCommand(program);
     registerHistoryCommand(program);
     registerNotifyCommand(program);
+    registerTimingCommand(program);
+    registerWatchCommand(program);
 
     const commandNames = program.commands.map((c) => c.name());
     expect(commandNames).toContain('merge');
@@ -41,7 +45,9 @@ describe('CLI command registration', () => {
     expect(commandNames).toContain('report');
     expect(commandNames).toContain('history');
     expect(commandNames).toContain('notify');
-    expect(commandNames).toHaveLength(7);
+    expect(commandNames).toContain('timing');
+    expect(commandNames).toContain('watch');
+    expect(commandNames).toHaveLength(9);
   });
 });
 
@@ -57,6 +63,10 @@ describe('merge command', () => {
 
     expect(optionNames).toContain('--input');
     expect(optionNames).toContain('--output');
+    expect(optionNames).toContain('--plan');
+    expect(optionNames).toContain('--default-branch');
+    expect(optionNames).toContain('--junit');
+    expect(optionNames).toContain('--quarantine');
     expect(optionNames).toContain('--verbose');
   });
 
@@ -111,7 +121,23 @@ describe('plan command', () => {
     expect(optionNames).toContain('--target-duration');
     expect(optionNames).toContain('--max-shards');
     expect(optionNames).toContain('--risk-factor');
+    expect(optionNames).toContain('--estimator');
+    expect(optionNames).toContain('--risk-model');
     expect(optionNames).toContain('--test-dir');
+    expect(optionNames).toContain('--queue-dir');
+    expect(optionNames).toContain('--overhead');
+    expect(optionNames).toContain('--constraints');
+    expect(optionNames).toContain('--shard-setup');
+    expect(optionNames).toContain('--file-overhead');
+    expect(optionNames).toContain('--optimize');
+    expect(optionNames).toContain('--tradeoff');
+    expect(optionNames).toContain('--workers');
+    expect(optionNames).toContain('--fully-parallel');
+    expect(optionNames).toContain('--last-run');
+    expect(optionNames).toContain('--split-projects');
+    expect(optionNames).toContain('--runner-weights');
+    expect(optionNames).toContain('--branch');
+    expect(optionNames).toContain('--default-branch');
   });
 });
 
@@ -127,7 +153,11 @@ describe('run command', () => {
 
     expect(optionNames).toContain('--shard-plan');
     expect(optionNames).toContain('--shard-index');
+    expect(optionNames).toContain('--queue');
+    expect(optionNames).toContain('--queue-batch');
+    expect(optionNames).toContain('--runner-id');
     expect(optionNames).toContain('--run-id');
+    expect(optionNames).toContain('--quarantine');
   });
 });
 
@@ -146,6 +176,7 @@ describe('report command', () => {
     expect(optionNames).toContain('--output');
     expect(optionNames).toContain('--history');
     expect(optionNames).toContain('--open');
+    expect(optionNames).toContain('--default-branch');
   });
 });
 
@@ -164,6 +195,11 @@ describe('history command', () => {
     expect(optionNames).toContain('--failing');
     expect(optionNames).toContain('--limit');
     expect(optionNames).toContain('--format');
+    expect(optionNames).toContain('--branch');
+    expect(optionNames).toContain('--default-branch');
+    expect(optionNames).toEqual(
+      expect.arrayContaining(['--suggest-quarantine', '--quarantine', '--window', '--threshold', '--min-runs', '--stable-runs', '--write']),
+    );
   });
 });
 
@@ -185,3 +221,99 @@ describe('notify command', () => {
     expect(optionNames).toContain('--report-url');
   });
 });
+
+// --- Timing command ---
+
+describe('timing command', () => {
+  it('should register show, diff, import, set, promote and prune subcommands', () => {
+    const program = createProgram();
+    registerTimingCommand(program);
+
+    const cmd = program.commands.find((c) => c.name() === 'timing')!;
+    expect(cmd.commands.map((c) => c.name())).toEqual(['show', 'diff', 'import', 'set', 'promote', 'prune']);
+  });
+
+  it('should accept documented options for show and diff', () => {
+    const program = createProgram();
+    registerTimingCommand(program);
+
+    const cmd = program.commands.find((c) => c.name() === 'timing')!;
+    const show = cmd.commands.find((c) => c.name() === 'show')!.options.map((o) => o.long);
+    const diff = cmd.commands.find((c) => c.name() === 'diff')!.options.map((o) => o.long);
+
+    expect(show).toEqual(expect.arrayContaining(['--timing', '--tests', '--file', '--estimator', '--limit', '--format']));
+    expect(diff).toEqual(expect.arrayContaining(['--estimator', '--limit', '--format', '--all']));
+  });
+
+  it('should take files as arguments for import and set', () => {
+    const program = createProgram();
+    registerTimingCommand(program);
+
+    const cmd = program.commands.find((c) => c.name() === 'timing')!;
+    const importCmd = cmd.commands.find((c) => c.name() === 'import')!;
+    const setCmd = cmd.commands.find((c) => c.name() === 'set')!;
+
+    expect(importCmd.registeredArguments.map((a) => a.variadic)).toEqual([true]);
+    expect(importCmd.options.map((o) => o.long)).toEqual(expect.arrayContaining(['--timing', '--history', '--no-history']));
+    expect(setCmd.registeredArguments.map((a) => a.required)).toEqual([true, false]);
+    expect(setCmd.options.map((o) => o.long)).toContain('--clear');
+  });
+
+  it('should register a promote subcommand with documented options', () => {
+    const program = createProgram();
+    registerTimingCommand(program);
+
+    const cmd = program.commands.find((c) => c.name() === 'timing')!;
+    const promote = cmd.commands.find((c) => c.name() === 'promote')!;
+    const optionNames = promote.options.map((o) => o.long);
+
+    expect(optionNames).toContain('--branch');
+    expect(optionNames).toContain('--timing');
+    expect(optionNames).toContain('--history');
+    expect(optionNames).toContain('--default-branch');
+  });
+
+  it('should require --branch for promote', () => {
+    const program = createProgram();
+    registerTimingCommand(program);
+
+    const promote = program.commands
+      .find((c) => c.name() === 'timing')!
+      .commands.find((c) => c.name() === 'promote')!;
+    const branchOpt = promote.options.find((o) => o.long === '--branch');
+
+    expect(branchOpt?.mandatory).toBe(true);
+  });
+
+  it('should register a prune subcommand with documented options', () => {
+    const program = createProgram();
+    registerTimingCommand(program);
+
+    const prune = program.commands
+      .find((c) => c.name() === 'timing')!
+      .commands.find((c) => c.name() === 'prune')!;
+    const optionNames = prune.options.map((o) => o.long);
+
+    expect(optionNames).toContain('--timing');
+    expect(optionNames).toContain('--max-age');
+    expect(optionNames).toContain('--root-dir');
+    expect(optionNames).toContain('--dry-run');
+    expect(prune.options.find((o) => o.long === '--max-age')?.defaultValue).toBe('30');
+  });
+});
+
+// --- Watch command ---
+
+describe('watch command', () => {
+  it('should accept all documented options', () => {
+    const program = createProgram();
+    registerWatchCommand(program);
+
+    const cmd = program.commands.find((c) => c.name() === 'watch')!;
+    const optionNames = cmd.options.map((o) => o.long);
+
+    expect(optionNames).toEqual(
+      expect.arrayContaining(['--input', '--run-id', '--interval', '--timeout', '--verbose']),
+    );
+  });
+});
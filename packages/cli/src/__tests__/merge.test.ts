@@ -0,0 +1,179 @@
+/** Tests for reading shard results in the merge command. */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { RunEvent, RunResult, TestResult } from '@sorry-currents/core';
+
+import { readShardResults } from '../commands/merge.js';
+
+// --- Helpers ---
+
+function makeTest(id: string, shardIndex: number): TestResult {
+  return {
+    id,
+    file: `${id}.spec.ts`,
+    title: id,
+    project: 'chromium',
+    status: 'passed',
+    duration: 1000,
+    retries: 0,
+    isFlaky: false,
+    errors: [],
+    annotations: [],
+    tags: [],
+    attachments: [],
+    startedAt: '2025-01-15T10:00:01.000Z',
+    workerId: 0,
+    shardIndex,
+  };
+}
+
+function makeShardResult(shardIndex: number, tests: TestResult[]): RunResult {
+  return {
+    id: 'run-1',
+    timestamp: '2025-01-15T10:00:00.000Z',
+    duration: 5000,
+    status: 'passed',
+    totalTests: tests.length,
+    passedTests: tests.length,
+    failedTests: 0,
+    skippedTests: 0,
+    flakyTests: 0,
+    shardCount: 3,
+    shardIndex,
+    tests,
+    environment: { os: 'linux', nodeVersion: '20.0.0', playwrightVersion: '1.40.0', ci: 'github-actions' },
+    git: { branch: 'main', commit: 'abc', commitMessage: 'msg', author: 'dev' },
+    config: { workers: 1, projects: ['chromium'], retries: 0, timeout: 30_000 },
+  };
+}
+
+/** A work-queue runner's `run-begin` has no shard */
+function runBegin(shardIndex: number | undefined, ids: string[]): RunEvent {
+  return {
+    type: 'run-begin',
+    timestamp: '2025-01-15T10:00:00.000Z',
+    runId: 'run-1',
+    totalTests: ids.length,
+    ...(shardIndex !== undefined ? { shardIndex, shardTotal: 3 } : {}),
+    tests: ids.map((id) => ({ id, file: `${id}.spec.ts`, title: id, project: 'chromium' })),
+  };
+}
+
+async function writeLog(path: string, events: RunEvent[]): Promise<void> {
+  await writeFile(path, events.map((e) => JSON.stringify(e) + '\n').join(''), 'utf-8');
+}
+
+// --- readShardResults ---
+
+describe('readShardResults', () => {
+  let inputDir: string;
+
+  beforeEach(async () => {
+    inputDir = await mkdtemp(join(tmpdir(), 'sorry-currents-merge-'));
+  });
+
+  afterEach(async () => {
+    await rm(inputDir, { recursive: true, force: true });
+  });
+
+  it('should find a crashed shard next to finished ones in a shared run directory', async () => {
+    const runDir = join(inputDir, 'runs', 'run-1');
+    await mkdir(join(runDir, 'tests'), { recursive: true });
+
+    // Shards 1 and 3 finished; shard 2 died after reporting one of its two tests
+    const finished = { 1: [makeTest('a', 1)], 3: [makeTest('d', 3)] };
+    for (const [index, tests] of Object.entries(finished)) {
+      const result = JSON.stringify(makeShardResult(Number(index), tests));
+      await writeFile(join(runDir, `shard-${index}-of-3.json`), result, 'utf-8');
+      await writeFile(join(runDir, 'run-result.json'), result, 'utf-8');
+      await writeLog(join(runDir, `events-shard-${index}-of-3.ndjson`), [
+        runBegin(Number(index), tests.map((t) => t.id)),
+        { type: 'run-end', timestamp: '2025-01-15T10:00:05.000Z', status: 'passed', duration: 5000 },
+      ]);
+    }
+    await writeLog(join(runDir, 'events-shard-2-of-3.ndjson'), [runBegin(2, ['b', 'c'])]);
+    for (const test of [makeTest('a', 1), makeTest('b', 2), makeTest('d', 3)]) {
+      await writeFile(join(runDir, 'tests', `${test.id}.json`), JSON.stringify(test), 'utf-8');
+    }
+
+    const result = await readShardResults(inputDir);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.map((r) => r.shardIndex).sort()).toEqual([1, 2, 3]);
+    const crashed = result.value.find((r) => r.crashedShards)!;
+    expect(crashed.tests.map((t) => t.id)).toEqual(['b']);
+    expect(crashed.crashedShards).toEqual([
+      { runId: 'run-1', shardIndex: 2, reportedTests: 1, missingTests: [{ id: 'c', file: 'c.spec.ts', title: 'c', project: 'chromium' }] },
+    ]);
+  });
+
+  it('should read one result per work-queue runner sharing a run ID', async () => {
+    const runDir = join(inputDir, 'runs', 'run-1');
+    await mkdir(join(runDir, 'tests'), { recursive: true });
+
+    // Both runners consolidated into the same run directory; b's run-result.json overwrote a's
+    for (const [runner, test] of [['a', makeTest('a', 1)], ['b', makeTest('b', 1)]] as const) {
+      const result = JSON.stringify({ ...makeShardResult(1, [{ ...test, shardIndex: undefined }]), shardIndex: undefined, shardCount: 1 });
+      await writeFile(join(runDir, `shard-runner-${runner}.json`), result, 'utf-8');
+      await writeFile(join(runDir, 'run-result.json'), result, 'utf-8');
+      await writeLog(join(runDir, `events-runner-${runner}.ndjson`), [
+        runBegin(undefined, []),
+        { type: 'run-end', timestamp: '2025-01-15T10:00:05.000Z', status: 'passed', duration: 5000 },
+      ]);
+    }
+
+    const result = await readShardResults(inputDir);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.flatMap((r) => r.tests.map((t) => t.id)).sort()).toEqual(['a', 'b']);
+    expect(result.value.some((r) => r.crashedShards)).toBe(false);
+  });
+
+  it('should rebuild a crashed work-queue runner from the tests its log saw', async () => {
+    const runDir = join(inputDir, 'runs', 'run-1');
+    await mkdir(join(runDir, 'tests'), { recursive: true });
+    const finishedTest = { ...makeTest('a', 1), shardIndex: undefined };
+    const crashedTest = { ...makeTest('b', 1), shardIndex: undefined };
+
+    await writeFile(join(runDir, 'shard-runner-a.json'), JSON.stringify(makeShardResult(1, [finishedTest])), 'utf-8');
+    await writeLog(join(runDir, 'events-runner-b.ndjson'), [
+      runBegin(undefined, []),
+      { type: 'batch-begin', timestamp: '2025-01-15T10:00:00.000Z', batchRunId: 'run-1-b-batch-1', totalTests: 2,
+        tests: ['b', 'c'].map((id) => ({ id, file: `${id}.spec.ts`, title: id, project: 'chromium' })) },
+      { type: 'test-begin', timestamp: '2025-01-15T10:00:01.000Z', testId: 'b', title: 'b', file: 'b.spec.ts', project: 'chromium', retry: 0 },
+    ]);
+    for (const test of [finishedTest, crashedTest]) {
+      await writeFile(join(runDir, 'tests', `${test.id}.json`), JSON.stringify(test), 'utf-8');
+    }
+
+    const result = await readShardResults(inputDir);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toHaveLength(2);
+    const crashed = result.value.find((r) => r.crashedShards)!;
+    expect(crashed.tests.map((t) => t.id)).toEqual(['b']);
+    expect(crashed.crashedShards![0]!.missingTests.map((t) => t.id)).toEqual(['c']);
+  });
+
+  it('should rebuild a run directory with per-test files but no result or log', async () => {
+    const runDir = join(inputDir, 'shard-2', 'runs', 'run-1');
+    await mkdir(join(runDir, 'tests'), { recursive: true });
+    await writeFile(join(runDir, 'tests', 'b.json'), JSON.stringify(makeTest('b', 2)), 'utf-8');
+    await mkdir(join(inputDir, 'shard-1'), { recursive: true });
+    await writeFile(join(inputDir, 'shard-1', 'run-result.json'), JSON.stringify(makeShardResult(1, [makeTest('a', 1)])), 'utf-8');
+
+    const result = await readShardResults(inputDir);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toHaveLength(2);
+    expect(result.value[1]).toMatchObject({ status: 'interrupted', shardIndex: 2, totalTests: 1 });
+  });
+});
@@ -0,0 +1,62 @@
+/** Tests for dropping timing data of deleted specs in the plan command. */
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { ShardTimingData } from '@sorry-currents/core';
+
+import { partitionDeletedSpecs } from '../commands/plan.js';
+
+// --- Helpers ---
+
+function entry(testId: string, file: string): ShardTimingData {
+  return {
+    testId,
+    file,
+    project: 'default',
+    avgDuration: 1000,
+    p95Duration: 1000,
+    samples: 1,
+    stdDev: 0,
+    lastDurations: [1000],
+  };
+}
+
+// --- partitionDeletedSpecs ---
+
+describe('partitionDeletedSpecs', () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), 'sorry-currents-plan-'));
+    await mkdir(join(cwd, 'e2e'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('should keep timing for existing specs of any extension Playwright matches', async () => {
+    for (const file of ['login.spec.js', 'cart.spec.tsx', 'api.test.mjs']) {
+      await writeFile(join(cwd, 'e2e', file), '', 'utf-8');
+    }
+    const data = ['login.spec.js', 'cart.spec.tsx', 'api.test.mjs'].map((file) => entry(file, `e2e/${file}`));
+
+    const { fresh, stale } = partitionDeletedSpecs(data, 'e2e', cwd);
+
+    expect(fresh).toHaveLength(3);
+    expect(stale).toHaveLength(0);
+  });
+
+  it('should drop timing for deleted specs under the test directory only', async () => {
+    await writeFile(join(cwd, 'e2e', 'kept.spec.ts'), '', 'utf-8');
+    const data = [entry('kept', 'e2e/kept.spec.ts'), entry('gone', 'e2e/gone.spec.js'), entry('other', 'unit/x.spec.ts')];
+
+    const { fresh, stale } = partitionDeletedSpecs(data, 'e2e', cwd);
+
+    expect(fresh.map((e) => e.testId)).toEqual(['kept', 'other']);
+    expect(stale.map((e) => e.testId)).toEqual(['gone']);
+  });
+});
@@ -0,0 +1,85 @@
+/** Tests for spawning Playwright from the run command. */
+import { EventEmitter } from 'node:events';
+import { availableParallelism } from 'node:os';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('node:child_process', () => ({ spawn: vi.fn() }));
+
+import { spawn } from 'node:child_process';
+
+import { queueBatchSize, runPlaywright } from '../commands/run.js';
+
+// --- Helpers ---
+
+/** Make the next spawn return a child that emits `event` with `arg` */
+function spawnEmitting(event: 'close' | 'error', arg: unknown): void {
+  vi.mocked(spawn).mockImplementationOnce(() => {
+    const child = new EventEmitter();
+    queueMicrotask(() => child.emit(event, arg));
+    return child as ReturnType<typeof spawn>;
+  });
+}
+
+// --- runPlaywright ---
+
+describe('runPlaywright', () => {
+  beforeEach(() => {
+    vi.mocked(spawn).mockReset();
+  });
+
+  it('should pass the test files, project and run ID to Playwright', async () => {
+    spawnEmitting('close', 0);
+
+    const code = await runPlaywright(['a.spec.ts', 'b.spec.ts'], 'run-1', ['--workers=2'], 'chromium');
+
+    expect(code).toBe(0);
+    const [command, args, options] = vi.mocked(spawn).mock.calls[0]!;
+    expect(command).toBe('npx');
+    expect(args).toEqual(['playwright', 'test', 'a.spec.ts', 'b.spec.ts', '--project=chromium', '--workers=2']);
+    expect(options?.env?.['SORRY_CURRENTS_RUN_ID']).toBe('run-1');
+  });
+
+  it('should pass a project name to Playwright without a shell to expand it', async () => {
+    spawnEmitting('close', 0);
+
+    await runPlaywright(['a.spec.ts'], 'run-1', [], 'mobile $HOME `id`');
+
+    const [, args, options] = vi.mocked(spawn).mock.calls[0]!;
+    expect(args).toContain('--project=mobile $HOME `id`');
+    expect(options?.shell).toBeFalsy();
+  });
+
+  it('should pass through the Playwright exit code', async () => {
+    spawnEmitting('close', 1);
+    expect(await runPlaywright([], undefined, [])).toBe(1);
+  });
+
+  it('should exit 2 when Playwright cannot be started', async () => {
+    spawnEmitting('error', new Error('spawn npx ENOENT'));
+    expect(await runPlaywright(['a.spec.ts'], 'run-1', [])).toBe(2);
+  });
+
+  it('should report failure when Playwright is killed by a signal', async () => {
+    spawnEmitting('close', null);
+    expect(await runPlaywright(['a.spec.ts'], 'run-1', [])).toBe(1);
+  });
+});
+
+// --- queueBatchSize ---
+
+describe('queueBatchSize', () => {
+  it('should claim one file per Playwright worker', () => {
+    expect(queueBatchSize(['--workers=4'])).toBe(4);
+    expect(queueBatchSize(['--workers', '3', '--headed'])).toBe(3);
+    expect(queueBatchSize(['-j', '6'])).toBe(6);
+  });
+
+  it('should fall back to half the CPU cores', () => {
+    const fallback = Math.max(1, Math.floor(availableParallelism() / 2));
+
+    expect(queueBatchSize([])).toBe(fallback);
+    expect(queueBatchSize(['--workers=50%'])).toBe(fallback);
+    expect(queueBatchSize(['--workers=0'])).toBe(fallback);
+  });
+});
@@ -1,3 +1,5 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
 import { resolve } from 'node:path';
 
 import type { Command } from 'commander';
@@ -6,8 +8,17 @@ import {
   ConsoleLogger,
   LogLevel,
   readHistory,
+  readBranchData,
+  detectBranch,
+  DEFAULT_BRANCH,
   DEFAULT_HISTORY_PATH,
   formatDuration,
+  readQuarantine,
+  writeQuarantine,
+  suggestQuarantineChanges,
+  applyQuarantineSuggestions,
+  DEFAULT_QUARANTINE_PATH,
+  type Logger,
   type TestHistory,
 } from '@sorry-currents/core';
 
@@ -18,6 +29,15 @@ interface HistoryOptions {
   readonly limit?: string;
   readonly format?: string;
   readonly input?: string;
+  readonly branch?: string;
+  readonly defaultBranch?: string;
+  readonly suggestQuarantine?: boolean;
+  readonly quarantine: string;
+  readonly window: string;
+  readonly threshold: string;
+  readonly minRuns: string;
+  readonly stableRuns: string;
+  readonly write?: boolean;
   readonly verbose?: boolean;
 }
 
@@ -31,6 +51,15 @@ export function registerHistoryCommand(program: Command): void {
     .option('--limit <n>', 'Number of results to show', '20')
     .option('--format <type>', 'Output format: table | json', 'table')
     .option('--input <path>', 'Path to history file', DEFAULT_HISTORY_PATH)
+    .option('--branch <name>', 'Show history for this branch (auto-detected from CI env)')
+    .option('--default-branch <name>', 'Branch whose history is stored at the plain path', DEFAULT_BRANCH)
+    .option('--suggest-quarantine', 'Propose quarantine changes from recent runs, as a diff to the quarantine file')
+    .option('--quarantine <path>', 'Quarantine file to propose changes to', DEFAULT_QUARANTINE_PATH)
+    .option('--window <n>', 'Recent runs to judge flakiness over', '20')
+    .option('--threshold <percent>', 'Quarantine tests flaky in more than this share of the window', '10')
+    .option('--min-runs <n>', 'Fewest runs in the window before a test is judged', '5')
+    .option('--stable-runs <n>', 'Release quarantined tests after this many clean passes in a row', '20')
+    .option('--write', 'Apply the proposed changes to the quarantine file')
     .option('--verbose', 'Enable debug logging')
     .action(async (options: HistoryOptions) => {
       const logger = new ConsoleLogger(
@@ -40,11 +69,17 @@ export function registerHistoryCommand(program: Command): void {
       const historyPath = resolve(options.input ?? DEFAULT_HISTORY_PATH);
       const historyDir = resolve(historyPath, '..');
 
-      // Read from history.json in the same directory as default timing data
-      const result = await readHistory(
+      // Read from history.json in the same directory as default timing data,
+      // with the branch's own entries laid over the default branch's
+      const branch = options.branch ?? detectBranch();
+      const result = await readBranchData(
         historyPath.endsWith('.json')
           ? historyPath
           : resolve(historyDir, 'history.json'),
+        branch,
+        options.defaultBranch ?? DEFAULT_BRANCH,
+        readHistory,
+        (entry) => entry.id,
       );
 
       if (!result.ok) {
@@ -56,7 +91,7 @@ export function registerHistoryCommand(program: Command): void {
         return;
       }
 
-      const history = result.value;
+      const history = result.value.entries;
 
       if (history.length === 0) {
         logger.info('No history data found. Run tests with sorry-currents reporter and generate a report first.');
@@ -66,6 +101,11 @@ export function registerHistoryCommand(program: Command): void {
       const limit = parseInt(options.limit ?? '20', 10);
       const format = options.format ?? 'table';
 
+      if (options.suggestQuarantine) {
+        await suggestQuarantine(history, options, format, logger);
+        return;
+      }
+
       // Default: show flaky if no specific filter
       const showFlaky = options.flaky || (!options.slow && !options.failing);
 
@@ -103,6 +143,103 @@ export function registerHistoryCommand(program: Command): void {
     });
 }
 
+/**
+ * Print proposed quarantine changes as a unified diff of the quarantine file
+ * (or JSON), and write them back with `--write`.
+ */
+async function suggestQuarantine(
+  history: readonly TestHistory[],
+  options: HistoryOptions,
+  format: string,
+  logger: Logger,
+): Promise<void> {
+  const window = parseInt(options.window, 10);
+  const threshold = parseFloat(options.threshold) / 100;
+  const minRuns = parseInt(options.minRuns, 10);
+  const stableRuns = parseInt(options.stableRuns, 10);
+  if ([window, minRuns, stableRuns].some((n) => !Number.isInteger(n) || n < 1) || !(threshold >= 0 && threshold < 1)) {
+    logger.error('--window, --min-runs and --stable-runs must be positive integers, --threshold a percentage below 100');
+    process.exit(2);
+  }
+
+  const listResult = await readQuarantine(options.quarantine);
+  if (!listResult.ok) {
+    logger.error(listResult.error.message, listResult.error.context);
+    process.exit(2);
+    return;
+  }
+
+  const suggestions = suggestQuarantineChanges(history, listResult.value, {
+    window,
+    threshold,
+    minRuns,
+    stableRuns,
+  });
+  const proposed = applyQuarantineSuggestions(listResult.value, suggestions);
+  const changed = suggestions.add.length + suggestions.remove.length > 0;
+
+  if (format === 'json') {
+    process.stdout.write(JSON.stringify({ ...suggestions, quarantine: proposed }, null, 2) + '\n');
+  } else if (!changed) {
+    logger.info('No quarantine changes to suggest', { path: options.quarantine });
+  } else {
+    const before = existsSync(options.quarantine) ? await readFile(options.quarantine, 'utf-8') : '';
+    process.stdout.write(unifiedDiff(options.quarantine, before, JSON.stringify(proposed, null, 2) + '\n'));
+    logger.info('Suggested quarantine changes', {
+      add: suggestions.add.length,
+      remove: suggestions.remove.length,
+    });
+  }
+
+  if (options.write && changed) {
+    const writeResult = await writeQuarantine(options.quarantine, proposed);
+    if (!writeResult.ok) {
+      logger.error(writeResult.error.message, writeResult.error.context);
+      process.exit(2);
+    }
+    logger.info('Quarantine file updated', { path: options.quarantine });
+  }
+}
+
+/**
+ * A single-hunk unified diff of two texts, line by line, that `git apply` and
+ * `patch` accept. Quarantine files are small, so a plain LCS table is fine.
+ */
+function unifiedDiff(path: string, before: string, after: string): string {
+  const a = before === '' ? [] : before.replace(/\n$/, '').split('\n');
+  const b = after.replace(/\n$/, '').split('\n');
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(` ${a[i++]}`);
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      lines.push(`-${a[i++]}`);
+    } else {
+      lines.push(`+${b[j++]}`);
+    }
+  }
+
+  const hunk = (start: number, count: number): string => `${count === 0 ? 0 : start},${count}`;
+  return [
+    `--- ${before === '' ? '/dev/null' : `a/${path}`}`,
+    `+++ b/${path}`,
+    `@@ -${hunk(1, a.length)} +${hunk(1, b.length)} @@`,
+    ...lines,
+  ].join('\n') + '\n';
+}
+
 function renderFlakyTable(items: readonly TestHistory[]): void {
   const header = padRow(['Flakiness %', 'Flaky/Total', 'Test', 'File']);
   const sep = '-'.repeat(header.length);
@@ -1,64 +1,135 @@
+import { existsSync } from 'node:fs';
 import { readdir, readFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { basename, dirname, join } from 'node:path';
 
 import type { Command } from 'commander';
 
 import {
   type RunResult,
   RunResultSchema,
+  type RunEvent,
+  type ShardPlan,
+  ShardPlanSchema,
+  type ShardTimingData,
   AppError,
   ConsoleLogger,
   LogLevel,
   mergeRunResults,
+  formatDuration,
   ok,
   err,
   type Result,
   updateTimingData,
   readTimingData,
   writeTimingData,
+  readBranchData,
+  branchDataPath,
+  branchEntriesToWrite,
+  DEFAULT_BRANCH,
   DEFAULT_TIMING_DATA_PATH,
+  readOverheadData,
+  writeOverheadData,
+  estimateShardOverhead,
+  updateOverheadData,
+  junitXmlToRunResult,
+  reconstructRunResult,
+  isEventLogFileName,
+  readEventLog,
+  readRunTestFiles,
+  readQuarantine,
+  markQuarantinedTests,
+  DEFAULT_QUARANTINE_PATH,
+  analyzePlanAccuracy,
+  readPlanAccuracy,
+  updatePlanAccuracy,
+  writePlanAccuracy,
 } from '@sorry-currents/core';
 
 const DEFAULT_INPUT_DIR = '.sorry-currents/shards';
 const DEFAULT_OUTPUT_DIR = '.sorry-currents';
+const DEFAULT_PLAN_PATH = '.sorry-currents/shard-plan.json';
 
 interface MergeOptions {
   readonly input: string;
   readonly output: string;
+  readonly plan: string;
+  readonly defaultBranch: string;
+  readonly quarantine: string;
+  readonly junit?: boolean;
   readonly verbose?: boolean;
 }
 
+/**
+ * `shard-<i>-of-<n>.json` — written by the reporter of a sharded run next to
+ * `run-result.json` — or `shard-runner-<id>.json`, by `run --queue` runner `id`
+ */
+const SHARD_RESULT_FILE = /^shard-(?:\d+-of-\d+|runner-([\w.-]+))\.json$/;
+
+/** `events-shard-<i>-of-<n>.ndjson` — the event log of shard `i` */
+const SHARD_EVENT_LOG = /^events-shard-(\d+)-of-\d+\.ndjson$/;
+
+/** `events-runner-<id>.ndjson` — the event log of work-queue runner `id` */
+const RUNNER_EVENT_LOG = /^events-runner-([\w.-]+)\.ndjson$/;
+
+/** Where to rebuild a crashed shard from */
+interface CrashedShardSource {
+  readonly runDir: string;
+  /** The shard's own event log, if it wrote one */
+  readonly log?: string;
+  /** Set when the directory is shared — only this shard's per-test files belong to it */
+  readonly shardIndex?: number;
+  /** Set for a work-queue runner — only the per-test files of tests in its log belong to it */
+  readonly runnerId?: string;
+}
+
 /**
  * Read and validate all shard result JSON files from a directory.
+ * Shards that crashed before the reporter's `onEnd` are rebuilt as
+ * interrupted results. A shard counts as crashed when its event log has no
+ * matching result in the same directory — so a crashed shard is found even
+ * when its siblings share the directory and finished — or, for directories
+ * without event logs, when there are per-test files but no result at all.
+ * With `junit`, JUnit XML reports of runs without the sorry-currents reporter
+ * are converted and merged too, after the sorry-currents results.
  */
-async function readShardResults(
+export async function readShardResults(
   inputDir: string,
+  junit: boolean = false,
 ): Promise<Result<RunResult[]>> {
   const logger = new ConsoleLogger(LogLevel.INFO);
 
-  let files: string[];
+  let entries: string[];
   try {
-    const entries = await readdir(inputDir, { recursive: true });
-    files = entries
-      .filter((f) => f.endsWith('.json') && f.includes('run-result'))
-      .map((f) => join(inputDir, f));
+    entries = await readdir(inputDir, { recursive: true });
   } catch (error) {
     return err(
       AppError.fileNotFound(inputDir),
     );
   }
 
-  if (files.length === 0) {
-    return err(
-      new AppError(
-        'FILE_NOT_FOUND' as never,
-        `No shard result files found in ${inputDir}`,
-        { inputDir },
-      ),
-    );
-  }
+  // Shards sharing a directory each write a shard file but overwrite each
+  // other's run-result.json, so the shard files are the ones to read there
+  const shardFileDirs = new Set(
+    entries.filter((f) => SHARD_RESULT_FILE.test(basename(f))).map((f) => dirname(f)),
+  );
+  const files = entries
+    .filter((f) => {
+      const name = basename(f);
+      if (SHARD_RESULT_FILE.test(name)) return true;
+      if (!name.endsWith('.json') || !name.includes('run-result')) return false;
+      return !(name === 'run-result.json' && shardFileDirs.has(dirname(f)));
+    })
+    .map((f) => join(inputDir, f));
+  const junitFiles = junit
+    ? entries.filter((f) => f.endsWith('.xml')).map((f) => join(inputDir, f))
+    : [];
 
   const results: RunResult[] = [];
+  /**
+   * Shards with a result, by directory — the shard index, the runner ID for
+   * work-queue runners, `undefined` for unsharded runs
+   */
+  const finished = new Map<string, Set<number | string | undefined>>();
   for (const file of files) {
     try {
       const raw = await readFile(file, 'utf-8');
@@ -74,6 +145,9 @@ async function readShardResults(
       }
 
       results.push(validated.data);
+      const shards = finished.get(dirname(file)) ?? new Set();
+      shards.add(SHARD_RESULT_FILE.exec(basename(file))?.[1] ?? validated.data.shardIndex);
+      finished.set(dirname(file), shards);
     } catch (error) {
       logger.warn('Failed to read shard result', {
         file,
@@ -82,12 +156,52 @@ async function readShardResults(
     }
   }
 
+  const crashed = findCrashedShards(inputDir, entries, finished);
+  if (files.length === 0 && crashed.length === 0 && junitFiles.length === 0) {
+    return err(
+      new AppError(
+        'FILE_NOT_FOUND' as never,
+        `No shard result files found in ${inputDir}`,
+        { inputDir },
+      ),
+    );
+  }
+
+  for (const source of crashed) {
+    const recovered = await recoverCrashedRun(source);
+    if (!recovered) continue;
+    logger.warn('Recovered a shard that crashed before writing its run result', {
+      dir: source.runDir,
+      ...(source.shardIndex !== undefined ? { shardIndex: source.shardIndex } : {}),
+      ...(source.runnerId !== undefined ? { runnerId: source.runnerId } : {}),
+      reportedTests: recovered.totalTests,
+      missingTests: recovered.crashedShards?.[0]?.missingTests.length ?? 0,
+    });
+    results.push(recovered);
+  }
+
+  for (const file of junitFiles) {
+    try {
+      const converted = junitXmlToRunResult(await readFile(file, 'utf-8'), file);
+      if (!converted.ok) {
+        logger.warn('Skipping unreadable JUnit report', { file, error: converted.error.message });
+        continue;
+      }
+      results.push(converted.value);
+    } catch (error) {
+      logger.warn('Failed to read JUnit report', {
+        file,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   if (results.length === 0) {
     return err(
       new AppError(
         'SCHEMA_VALIDATION' as never,
         'No valid shard results found after validation',
-        { inputDir, filesScanned: files.length },
+        { inputDir, filesScanned: files.length + crashed.length + junitFiles.length },
       ),
     );
   }
@@ -95,6 +209,111 @@ async function readShardResults(
   return ok(results);
 }
 
+/**
+ * Shards that left an event log or per-test files but no result. Each event
+ * log without a result for its shard — or work-queue runner — in the same
+ * directory is one crashed shard; a directory with per-test files but neither event logs nor results
+ * is one crashed run (written before the reporter kept event logs).
+ */
+function findCrashedShards(
+  inputDir: string,
+  entries: readonly string[],
+  finished: ReadonlyMap<string, ReadonlySet<number | string | undefined>>,
+): CrashedShardSource[] {
+  const crashed: CrashedShardSource[] = [];
+  const dirsWithLogs = new Set<string>();
+
+  for (const entry of entries.filter((f) => isEventLogFileName(basename(f))).sort()) {
+    const runDir = join(inputDir, dirname(entry));
+    dirsWithLogs.add(runDir);
+
+    const shard = SHARD_EVENT_LOG.exec(basename(entry));
+    const shardIndex = shard ? parseInt(shard[1]!, 10) : undefined;
+    const runnerId = RUNNER_EVENT_LOG.exec(basename(entry))?.[1];
+    const owner = shardIndex ?? runnerId;
+    const done = finished.get(runDir);
+    const hasResult = owner !== undefined ? done?.has(owner) === true : done !== undefined;
+    if (!hasResult) {
+      crashed.push({ runDir, log: join(inputDir, entry), shardIndex, runnerId });
+    }
+  }
+
+  const testDirs = new Set(
+    entries
+      .filter((f) => f.endsWith('.json') && basename(dirname(f)) === 'tests')
+      .map((f) => dirname(dirname(join(inputDir, f)))),
+  );
+  for (const runDir of [...testDirs].sort()) {
+    if (!dirsWithLogs.has(runDir) && !finished.has(runDir)) {
+      crashed.push({ runDir });
+    }
+  }
+
+  return crashed;
+}
+
+/**
+ * Rebuild the result of a crashed shard from the per-test files and the
+ * event log it wrote before the crash — only its own, when it shared the
+ * directory with other shards or work-queue runners. Unreadable files — like
+ * one cut short by the crash — are skipped. Returns undefined when nothing is
+ * usable.
+ */
+async function recoverCrashedRun(source: CrashedShardSource): Promise<RunResult | undefined> {
+  const logger = new ConsoleLogger(LogLevel.INFO);
+
+  const { tests, skipped } = await readRunTestFiles(source.runDir);
+  for (const file of skipped) {
+    logger.warn('Skipping invalid test result', { file });
+  }
+
+  let events: RunEvent[] = [];
+  if (source.log) {
+    const log = await readEventLog(source.log);
+    if (log.ok) {
+      events = log.value;
+    } else {
+      logger.warn('Skipping unreadable event log', { file: source.log, error: log.error.message });
+    }
+  }
+
+  // A work-queue runner's tests are the ones its log saw
+  const logged = new Set(events.flatMap((e) => (e.type === 'test-begin' || e.type === 'test-end' ? [e.testId] : [])));
+  const own = source.shardIndex !== undefined
+    ? tests.filter((t) => t.shardIndex === source.shardIndex)
+    : source.runnerId !== undefined
+      ? tests.filter((t) => logged.has(t.id))
+      : tests;
+
+  if (own.length === 0 && events.length === 0) {
+    return undefined;
+  }
+  return reconstructRunResult(basename(source.runDir), own, events);
+}
+
+/**
+ * Read the shard plan the merged run was executed from.
+ * Returns undefined when there is no plan (native or dynamic sharding).
+ */
+async function readShardPlan(
+  path: string,
+): Promise<Result<ShardPlan | undefined>> {
+  if (!existsSync(path)) {
+    return ok(undefined);
+  }
+
+  try {
+    const raw = await readFile(path, 'utf-8');
+    const validated = ShardPlanSchema.safeParse(JSON.parse(raw) as unknown);
+    if (!validated.success) {
+      return err(AppError.validation(validated.error, path));
+    }
+    return ok(validated.data);
+  } catch (cause) {
+    return err(AppError.fileParseError(path, cause as Error));
+  }
+}
+
 export function registerMergeCommand(program: Command): void {
   program
     .command('merge')
@@ -109,6 +328,22 @@ export function registerMergeCommand(program: Command): void {
       'Output directory',
       DEFAULT_OUTPUT_DIR,
     )
+    .option(
+      '--plan <path>',
+      'Shard plan the run was executed from, for predicted vs actual analysis',
+      DEFAULT_PLAN_PATH,
+    )
+    .option(
+      '--default-branch <name>',
+      'Branch whose timing data is stored at the plain path; other branches get their own copy',
+      DEFAULT_BRANCH,
+    )
+    .option(
+      '--quarantine <path>',
+      'Quarantine list — failures of the tests on it do not fail the merged run',
+      DEFAULT_QUARANTINE_PATH,
+    )
+    .option('--junit', 'Also merge JUnit XML reports found in --input, from runs without the sorry-currents reporter')
     .option('--verbose', 'Enable debug logging')
     .action(async (options: MergeOptions) => {
       const logger = new ConsoleLogger(
@@ -117,16 +352,36 @@ export function registerMergeCommand(program: Command): void {
 
       logger.info('Merging shard results', { input: options.input });
 
-      const readResult = await readShardResults(options.input);
+      const readResult = await readShardResults(options.input, options.junit);
       if (!readResult.ok) {
         logger.error(readResult.error.message, readResult.error.context);
         process.exit(2);
       }
 
-      const shardResults = readResult.value;
-      logger.info('Found shard results', { count: shardResults.length });
+      logger.info('Found shard results', { count: readResult.value.length });
+
+      const quarantineResult = await readQuarantine(options.quarantine);
+      if (!quarantineResult.ok) {
+        logger.error(quarantineResult.error.message, quarantineResult.error.context);
+        process.exit(2);
+      }
+      const quarantine = quarantineResult.value;
+      const shardResults = readResult.value.map((r) => ({
+        ...r,
+        tests: markQuarantinedTests(r.tests, quarantine),
+      }));
 
       const merged = mergeRunResults(shardResults);
+      // A crashed shard's duration stops at the crash, so it says nothing about how long the shard takes
+      const finishedShards = shardResults.filter((r) => !r.crashedShards);
+      if (merged.quarantinedTests) {
+        logger.info('Quarantined tests', {
+          tests: merged.quarantinedTests,
+          failed: merged.tests.filter(
+            (t) => t.quarantined && (t.status === 'failed' || t.status === 'timedOut'),
+          ).length,
+        });
+      }
 
       // Write merged result
       const { writeFile: fsWriteFile, mkdir } = await import('node:fs/promises');
@@ -135,28 +390,101 @@ export function registerMergeCommand(program: Command): void {
       await mkdir(options.output, { recursive: true });
       await fsWriteFile(outputPath, JSON.stringify(merged, null, 2) + '\n', 'utf-8');
 
-      // Generate timing-data.json from merged results for next run's shard balancer
+      // Generate timing-data.json from merged results for next run's shard balancer.
+      // Branches other than the default keep their own entries, seeded from the default branch's.
       const timingDataPath = pathJoin(options.output, 'timing-data.json');
-      const existingTimingResult = await readTimingData(timingDataPath);
-      const existingTiming = existingTimingResult.ok ? existingTimingResult.value : [];
+      const branchTimingPath = branchDataPath(timingDataPath, merged.git.branch, options.defaultBranch);
+      const timingKey = (entry: ShardTimingData): string => entry.testId;
+      const branchTimingResult = await readBranchData(
+        timingDataPath,
+        merged.git.branch,
+        options.defaultBranch,
+        readTimingData,
+        timingKey,
+      );
+      const branchTiming = branchTimingResult.ok
+        ? branchTimingResult.value
+        : { path: branchTimingPath, isDefault: branchTimingPath === timingDataPath, own: [], entries: [] };
+      const existingTiming = [...branchTiming.entries];
       const updatedTiming = updateTimingData(existingTiming, merged.tests);
-      const timingWriteResult = await writeTimingData(timingDataPath, updatedTiming);
+      const storedTiming = branchEntriesToWrite(
+        branchTiming,
+        updatedTiming,
+        merged.tests.map((t) => t.id),
+        timingKey,
+      );
+      const timingWriteResult = await writeTimingData(branchTiming.path, storedTiming);
 
       if (timingWriteResult.ok) {
         logger.info('Timing data generated', {
-          path: timingDataPath,
-          tests: updatedTiming.length,
+          path: branchTiming.path,
+          tests: storedTiming.length,
+          ...(!branchTiming.isDefault ? { branch: merged.git.branch } : {}),
         });
       } else {
         logger.warn('Failed to write timing data', timingWriteResult.error.context);
       }
 
+      // Compare the plan's per-shard estimates with what each shard really took.
+      // File estimates are the timing data the plan was built from, before this run.
+      const planResult = await readShardPlan(options.plan);
+      if (!planResult.ok) {
+        logger.warn('Failed to read shard plan', planResult.error.context);
+      } else if (!planResult.value) {
+        logger.debug('No shard plan found, skipping plan accuracy', { path: options.plan });
+      } else {
+        const accuracy = analyzePlanAccuracy(planResult.value, finishedShards, existingTiming);
+        if (!accuracy) {
+          logger.debug('No shard results match the plan, skipping plan accuracy');
+        } else {
+          const accuracyPath = pathJoin(options.output, 'plan-accuracy.json');
+          const existingAccuracyResult = await readPlanAccuracy(accuracyPath);
+          const existingAccuracy = existingAccuracyResult.ok ? existingAccuracyResult.value : [];
+          const accuracyWriteResult = await writePlanAccuracy(
+            accuracyPath,
+            updatePlanAccuracy(existingAccuracy, accuracy),
+          );
+
+          if (accuracyWriteResult.ok) {
+            logger.info('Plan accuracy analysed', {
+              path: accuracyPath,
+              balanceRatio: accuracy.balanceRatio,
+              meanError: `${accuracy.meanAbsolutePercentError}%`,
+            });
+          } else {
+            logger.warn('Failed to write plan accuracy', accuracyWriteResult.error.context);
+          }
+        }
+      }
+
+      // Learn per-shard/per-file overhead from the unmerged shard results —
+      // the merged result has lost each shard's own wall-clock duration
+      const overheadEstimate = estimateShardOverhead(finishedShards);
+      if (overheadEstimate) {
+        const overheadPath = pathJoin(options.output, 'overhead-data.json');
+        const existingOverheadResult = await readOverheadData(overheadPath);
+        const existingOverhead = existingOverheadResult.ok ? existingOverheadResult.value : undefined;
+        const updatedOverhead = updateOverheadData(existingOverhead, overheadEstimate);
+        const overheadWriteResult = await writeOverheadData(overheadPath, updatedOverhead);
+
+        if (overheadWriteResult.ok) {
+          logger.info('Overhead data updated', {
+            path: overheadPath,
+            shardSetup: formatDuration(updatedOverhead.shardSetup),
+            perFile: formatDuration(updatedOverhead.perFile),
+          });
+        } else {
+          logger.warn('Failed to write overhead data', overheadWriteResult.error.context);
+        }
+      }
+
       logger.info('Merge complete', {
         output: outputPath,
         totalTests: merged.totalTests,
         passed: merged.passedTests,
         failed: merged.failedTests,
         flaky: merged.flakyTests,
+        ...(merged.quarantinedTests ? { quarantined: merged.quarantinedTests } : {}),
         status: merged.status,
       });
     });
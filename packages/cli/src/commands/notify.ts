@@ -16,6 +16,7 @@ import {
   buildGitHubStatusPayload,
   buildSlackPayload,
   buildWebhookPayload,
+  readPlanAccuracy,
   type RunResult,
   type Logger,
   type GitHubCommentPayload,
@@ -303,12 +304,19 @@ export function registerNotifyCommand(program: Command): void {
             );
           }
 
+          // Shard balance section — only when merge analysed this run against a plan
+          const accuracyResult = await readPlanAccuracy(join(inputDir, 'plan-accuracy.json'));
+          const planAccuracy = accuracyResult.ok
+            ? accuracyResult.value.find((a) => a.runId === runResult.id)
+            : undefined;
+
           const payload = buildGitHubCommentBody({
             runResult,
             owner: ghRepo.owner,
             repo: ghRepo.repo,
             prNumber,
             reportUrl: options.reportUrl,
+            planAccuracy,
           });
 
           if (options.format === 'json') {
@@ -1,13 +1,33 @@
-import { writeFile, readdir } from 'node:fs/promises';
-import { join, relative } from 'node:path';
+import { writeFile, readdir, readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join, relative, resolve, sep } from 'node:path';
 
 import type { Command } from 'commander';
 
 import {
   type ShardTimingData,
+  type ShardPlan,
+  type DurationEstimator,
+  DURATION_ESTIMATORS,
+  type RunConfig,
+  RunResultSchema,
+  type Logger,
   ConsoleLogger,
   LogLevel,
   readTimingData,
+  partitionStaleTimingData,
+  readBranchData,
+  detectBranch,
+  DEFAULT_BRANCH,
+  readOverheadData,
+  DEFAULT_OVERHEAD_DATA_PATH,
+  readShardConstraints,
+  checkShardConstraints,
+  DEFAULT_CONSTRAINTS_PATH,
+  AppError,
+  findTestDeclarations,
+  findTestTags,
+  writeWorkQueue,
   DEFAULT_TIMING_DATA_PATH,
   formatDuration,
 } from '@sorry-currents/core';
@@ -17,7 +37,18 @@ import {
   listStrategies,
   timingDataToEntries,
   calculateOptimalShardCount,
+  calculateDurationFloor,
+  createWorkQueue,
+  estimateNewFiles,
+  computeTradeoffCurve,
+  selectShardCount,
+  OPTIMIZE_OBJECTIVES,
+  RISK_MODELS,
+  type OptimizeObjective,
+  type RiskModel,
+  type TradeoffPoint,
   type TestTimingEntry,
+  type NewFileInfo,
 } from '@sorry-currents/shard-balancer';
 
 /** Default estimated duration for tests with no history (30 seconds) */
@@ -26,16 +57,35 @@ const DEFAULT_TEST_DURATION = 30_000;
 /** Maximum number of shards when auto-calculating */
 const DEFAULT_MAX_SHARDS = 10;
 
+/** Merged result of the previous run — source of the Playwright worker config */
+const DEFAULT_LAST_RUN_PATH = '.sorry-currents/merged-run-result.json';
+
 interface PlanOptions {
   readonly shards?: string;
+  readonly runnerWeights?: string;
   readonly targetDuration?: string;
   readonly maxShards?: string;
   readonly riskFactor?: string;
+  readonly riskModel: string;
+  readonly estimator: string;
   readonly timing: string;
+  readonly branch?: string;
+  readonly defaultBranch: string;
+  readonly overhead: string;
+  readonly constraints: string;
+  readonly shardSetup?: string;
+  readonly fileOverhead?: string;
+  readonly workers?: string;
+  readonly fullyParallel?: boolean;
+  readonly splitProjects?: boolean;
+  readonly lastRun: string;
   readonly testDir?: string;
   readonly output?: string;
   readonly outputMatrix?: boolean;
+  readonly queueDir?: string;
   readonly strategy: string;
+  readonly optimize: string;
+  readonly tradeoff?: string | boolean;
   readonly defaultTimeout: string;
   readonly verbose?: boolean;
 }
@@ -45,6 +95,10 @@ export function registerPlanCommand(program: Command): void {
     .command('plan')
     .description('Generate an optimized shard execution plan')
     .option('--shards <n>', 'Number of shards (overrides --target-duration)')
+    .option(
+      '--runner-weights <list>',
+      'Relative runner speed per shard, e.g. 1,1,2,2 — sets the shard count',
+    )
     .option(
       '--target-duration <seconds>',
       'Target wall-clock time per shard — auto-calculates shard count',
@@ -59,16 +113,73 @@ export function registerPlanCommand(program: Command): void {
       'Path to timing data',
       DEFAULT_TIMING_DATA_PATH,
     )
+    .option(
+      '--branch <name>',
+      'Branch to read timing data for (default: detected from CI)',
+    )
+    .option(
+      '--default-branch <name>',
+      'Branch whose timing data other branches fall back to',
+      DEFAULT_BRANCH,
+    )
+    .option(
+      '--overhead <path>',
+      'Path to learned shard overhead data',
+      DEFAULT_OVERHEAD_DATA_PATH,
+    )
+    .option(
+      '--constraints <path>',
+      'Path to together/apart/pinToShard placement rules',
+      DEFAULT_CONSTRAINTS_PATH,
+    )
+    .option(
+      '--shard-setup <seconds>',
+      'Fixed setup cost per shard, install and browser download included (overrides the learned value, which covers Playwright startup only)',
+    )
+    .option(
+      '--file-overhead <ms>',
+      'Startup cost per spec file (overrides learned value)',
+    )
+    .option(
+      '--workers <n>',
+      'Playwright workers per shard (default: from the last run)',
+    )
+    .option(
+      '--fully-parallel',
+      'Tests within a file run in parallel (default: from the last run)',
+    )
+    .option(
+      '--split-projects',
+      'Balance (file, project) pairs so a file\'s projects can run on different shards',
+    )
+    .option(
+      '--last-run <path>',
+      'Previous run result to read the worker config from',
+      DEFAULT_LAST_RUN_PATH,
+    )
     .option('--output <path>', 'Write plan to file (default: stdout)')
     .option(
       '--output-matrix',
       'Output GitHub Actions matrix JSON to stdout',
     )
+    .option(
+      '--queue-dir <dir>',
+      'Also write a work queue for `run --queue` (dynamic mode) to this directory',
+    )
     .option(
       '--strategy <name>',
       `Balancing strategy: ${listStrategies().join(' | ')}`,
       'lpt',
     )
+    .option(
+      '--optimize <objective>',
+      `Shard count objective: ${OPTIMIZE_OBJECTIVES.join(' | ')}`,
+      'time',
+    )
+    .option(
+      '--tradeoff [format]',
+      'Print wall-clock vs billed time for 1..max-shards to stderr: table | json',
+    )
     .option(
       '--test-dir <path>',
       'Directory to scan for spec files (merges with timing data to discover new tests)',
@@ -83,6 +194,16 @@ export function registerPlanCommand(program: Command): void {
       'Variance padding multiplier (0=average only, 1=+1 stddev, 2=+2 stddev)',
       '1',
     )
+    .option(
+      '--risk-model <model>',
+      'How --risk-factor pads: stddev (avg + k·σ) | quantile (matching percentile of recorded durations)',
+      'stddev',
+    )
+    .option(
+      '--estimator <name>',
+      `Duration statistic per test: ${DURATION_ESTIMATORS.join(' | ')}`,
+      'mean',
+    )
     .option('--verbose', 'Enable debug logging')
     .action(async (options: PlanOptions) => {
       const logger = new ConsoleLogger(
@@ -94,11 +215,53 @@ export function registerPlanCommand(program: Command): void {
         ? parseFloat(options.targetDuration) * 1000
         : undefined;
 
-      // Validate that at least one shard sizing option is provided
-      if (!options.shards && !options.targetDuration) {
+      if (!(OPTIMIZE_OBJECTIVES as readonly string[]).includes(options.optimize)) {
+        logger.error('Unknown optimize objective', {
+          value: options.optimize,
+          available: OPTIMIZE_OBJECTIVES,
+        });
+        process.exit(2);
+      }
+      const objective = options.optimize as OptimizeObjective;
+
+      if (!(DURATION_ESTIMATORS as readonly string[]).includes(options.estimator)) {
+        logger.error('Unknown duration estimator', {
+          value: options.estimator,
+          available: DURATION_ESTIMATORS,
+        });
+        process.exit(2);
+      }
+      const estimator = options.estimator as DurationEstimator;
+
+      const tradeoffFormat = options.tradeoff === true ? 'table' : options.tradeoff;
+      if (tradeoffFormat !== undefined && tradeoffFormat !== 'table' && tradeoffFormat !== 'json') {
+        logger.error('Invalid trade-off format — use table or json', { value: options.tradeoff });
+        process.exit(2);
+      }
+
+      // Runner weights fix the shard count — one weight per shard
+      const capacities = options.runnerWeights?.split(',').map((w) => parseFloat(w.trim()));
+      if (capacities && !capacities.every((w) => Number.isFinite(w) && w > 0)) {
+        logger.error('Invalid runner weights — use positive numbers, e.g. 1,1,2,2', {
+          value: options.runnerWeights,
+        });
+        process.exit(2);
+      }
+      if (capacities && options.shards && parseInt(options.shards, 10) !== capacities.length) {
+        logger.error('--shards does not match the number of --runner-weights', {
+          shards: options.shards,
+          runnerWeights: capacities.length,
+        });
+        process.exit(2);
+      }
+      const fixedShards = options.shards ?? (capacities ? String(capacities.length) : undefined);
+
+      // Validate that at least one shard sizing option is provided —
+      // cost and balanced objectives can choose from 1..max-shards on their own
+      if (!fixedShards && !options.targetDuration && objective === 'time') {
         logger.error(
           'Either --shards or --target-duration is required',
-          { hint: 'Use --target-duration 30 for auto-calculation or --shards 3 for a fixed count' },
+          { hint: 'Use --target-duration 30 for auto-calculation, --shards 3 for a fixed count, or --optimize cost' },
         );
         process.exit(2);
       }
@@ -109,6 +272,7 @@ export function registerPlanCommand(program: Command): void {
       }
 
       const defaultDuration = parseInt(options.defaultTimeout, 10) || DEFAULT_TEST_DURATION;
+      const splitFiles = options.strategy === 'lpt-split';
 
       // Parse risk factor for variance-aware balancing
       const riskFactor = parseFloat(options.riskFactor ?? '1');
@@ -117,21 +281,130 @@ export function registerPlanCommand(program: Command): void {
         process.exit(2);
       }
 
-      // Read timing data
-      const timingResult = await readTimingData(options.timing);
+      if (!(RISK_MODELS as readonly string[]).includes(options.riskModel)) {
+        logger.error('Unknown risk model', {
+          value: options.riskModel,
+          available: RISK_MODELS,
+        });
+        process.exit(2);
+      }
+      const riskModel = options.riskModel as RiskModel;
+
+      // Read timing data — the branch's own entries over the default branch's
+      const branch = options.branch ?? detectBranch();
+      const timingResult = await readBranchData(
+        options.timing,
+        branch,
+        options.defaultBranch,
+        readTimingData,
+        (entry) => entry.testId,
+      );
       if (!timingResult.ok) {
         logger.error(timingResult.error.message, timingResult.error.context);
         process.exit(2);
       }
 
-      const timingData: ShardTimingData[] = timingResult.value;
+      // Spec files on disk when --test-dir is given
+      const discoveredFiles = options.testDir ? await discoverTestFiles(options.testDir) : undefined;
+      let timingData: ShardTimingData[] = [...timingResult.value.entries];
+      if (options.testDir) {
+        const { fresh, stale } = partitionDeletedSpecs(timingData, options.testDir);
+        if (stale.length > 0) {
+          logger.info('Dropped timing data for files no longer on disk', {
+            files: [...new Set(stale.map((e) => e.file))],
+            tests: stale.length,
+          });
+        }
+        timingData = fresh;
+      }
       const isColdStart = timingData.length === 0;
 
+      // Per-shard and per-file overhead — explicit flags win over learned data
+      const overheadResult = await readOverheadData(options.overhead);
+      if (!overheadResult.ok) {
+        logger.warn('Ignoring unreadable overhead data', overheadResult.error.context);
+      }
+      const learnedOverhead = overheadResult.ok ? overheadResult.value : undefined;
+      const overhead = {
+        shardSetup: options.shardSetup !== undefined
+          ? parseFloat(options.shardSetup) * 1000
+          : learnedOverhead?.shardSetup ?? 0,
+        perFile: options.fileOverhead !== undefined
+          ? parseFloat(options.fileOverhead)
+          : learnedOverhead?.perFile ?? 0,
+      };
+      if (
+        !Number.isFinite(overhead.shardSetup) || overhead.shardSetup < 0 ||
+        !Number.isFinite(overhead.perFile) || overhead.perFile < 0
+      ) {
+        logger.error('Invalid overhead — must be a non-negative number', {
+          shardSetup: options.shardSetup,
+          fileOverhead: options.fileOverhead,
+        });
+        process.exit(2);
+      }
+      // Playwright parallelism inside each shard — explicit flags win over the last run
+      const lastRunConfig = await readLastRunConfig(options.lastRun);
+      const workers = options.workers !== undefined
+        ? parseInt(options.workers, 10)
+        : lastRunConfig?.workers ?? 1;
+      if (!Number.isFinite(workers) || workers < 1) {
+        logger.error('Invalid worker count', { value: options.workers });
+        process.exit(2);
+      }
+      const fullyParallel = options.fullyParallel ?? lastRunConfig?.fullyParallel ?? false;
+      if (workers > 1) {
+        logger.info('Simulating Playwright workers per shard', {
+          workers,
+          fullyParallel,
+          source: options.workers !== undefined ? 'flag' : options.lastRun,
+        });
+      }
+      const splitProjects = options.splitProjects ?? false;
+
+      const constraintsResult = await readShardConstraints(options.constraints);
+      if (!constraintsResult.ok) {
+        logger.error(constraintsResult.error.message, constraintsResult.error.context);
+        process.exit(2);
+      }
+      const constraints = constraintsResult.value;
+      const constraintCount =
+        constraints.together.length + constraints.apart.length + constraints.pinToShard.length;
+      if (constraintCount > 0) {
+        logger.info('Applying shard constraints', {
+          together: constraints.together.length,
+          apart: constraints.apart.length,
+          pinToShard: constraints.pinToShard.length,
+        });
+        if (options.queueDir) {
+          logger.warn('Constraints are not applied to the work queue — runners claim files in any combination', {
+            queueDir: options.queueDir,
+          });
+        }
+      }
+
+      const balanceOptions = { overhead, workers, fullyParallel, splitProjects, constraints, capacities };
+
+      if (overhead.shardSetup > 0 || overhead.perFile > 0) {
+        logger.info('Modelling shard overhead', {
+          shardSetup: formatDuration(overhead.shardSetup),
+          perFile: formatDuration(overhead.perFile),
+          learnedSamples: learnedOverhead?.samples ?? 0,
+        });
+      }
+
+      if (options.queueDir && isColdStart && !options.testDir) {
+        logger.error('--queue-dir needs a test list — pass --test-dir when there is no timing data yet', {
+          queueDir: options.queueDir,
+        });
+        process.exit(2);
+      }
+
       // Determine shard count
       let shardCount: number;
-      if (options.shards) {
+      if (fixedShards) {
         // Explicit override always wins
-        shardCount = parseInt(options.shards, 10);
+        shardCount = parseInt(fixedShards, 10);
         if (!Number.isFinite(shardCount) || shardCount < 1) {
           logger.error('Invalid shard count', { value: options.shards });
           process.exit(2);
@@ -145,8 +418,8 @@ export function registerPlanCommand(program: Command): void {
             { maxShards },
           );
         } else {
-          const entries = timingDataToEntries(timingData, defaultDuration, riskFactor);
-          shardCount = calculateOptimalShardCount(entries, targetDurationMs, maxShards);
+          const entries = timingDataToEntries(timingData, defaultDuration, riskFactor, estimator, riskModel);
+          shardCount = calculateOptimalShardCount(entries, targetDurationMs, maxShards, { ...balanceOptions, splitFiles });
           logger.info('Auto-calculated shard count', {
             shardCount,
             targetDuration: `${options.targetDuration}s`,
@@ -154,8 +427,8 @@ export function registerPlanCommand(program: Command): void {
           });
         }
       } else {
-        // Should be unreachable due to earlier validation
-        shardCount = 1;
+        // --optimize cost|balanced without a target — chosen from the trade-off curve below
+        shardCount = maxShards;
       }
 
       if (isColdStart) {
@@ -165,13 +438,22 @@ export function registerPlanCommand(program: Command): void {
         logger.warn(
           'Smart balancing will activate after the first run generates timing data.',
         );
+        logger.warn(
+          'To start balanced, seed it from existing Playwright reports: sorry-currents timing import <report.json|blob.zip|junit.xml>',
+        );
       } else {
         logger.info('Loaded timing data', {
           tests: timingData.length,
           path: options.timing,
+          ...(!timingResult.value.isDefault
+            ? { branch, branchTests: timingResult.value.own.length }
+            : {}),
         });
-        if (riskFactor > 0) {
-          logger.info('Variance-aware balancing enabled', { riskFactor });
+        if (estimator !== 'mean') {
+          logger.info('Using duration estimator', { estimator });
+        }
+        if (riskFactor > 0 && estimator !== 'p95') {
+          logger.info('Variance-aware balancing enabled', { riskFactor, riskModel });
         }
       }
 
@@ -191,8 +473,7 @@ export function registerPlanCommand(program: Command): void {
         // Cold start: we have no test list.
         // If --test-dir is provided, discover files and create entries so the
         // balancer can distribute them properly even without timing data.
-        if (options.testDir) {
-          const discoveredFiles = await discoverTestFiles(options.testDir);
+        if (discoveredFiles) {
           entries = discoveredFiles.map(file => ({
             testId: `discovered:${file}`,
             file,
@@ -203,8 +484,8 @@ export function registerPlanCommand(program: Command): void {
             defaultDuration: formatDuration(defaultDuration),
           });
           // Recalculate shard count using discovered file count
-          if (!options.shards && targetDurationMs !== undefined) {
-            shardCount = calculateOptimalShardCount(entries, targetDurationMs, maxShards);
+          if (!fixedShards && targetDurationMs !== undefined) {
+            shardCount = calculateOptimalShardCount(entries, targetDurationMs, maxShards, { ...balanceOptions, splitFiles });
             logger.info('Auto-calculated shard count from discovered files', { shardCount });
           }
         } else if (options.outputMatrix) {
@@ -255,41 +536,99 @@ export function registerPlanCommand(program: Command): void {
           }));
         }
       } else {
-        entries = timingDataToEntries(timingData, defaultDuration, riskFactor);
+        entries = timingDataToEntries(timingData, defaultDuration, riskFactor, estimator, riskModel);
 
         // Discover test files from disk and merge with timing data.
-        // Any spec file not in timing data gets defaultDuration so new files are never silently dropped.
-        if (options.testDir) {
-          const discoveredFiles = await discoverTestFiles(options.testDir);
+        // Any spec file not in timing data is estimated from similar tests so new files are never silently dropped.
+        if (discoveredFiles) {
           const knownFiles = new Set(entries.map(e => e.file));
-          let newFileCount = 0;
-          for (const file of discoveredFiles) {
-            if (!knownFiles.has(file)) {
-              entries.push({
-                testId: `discovered:${file}`,
-                file,
-                estimatedDuration: defaultDuration,
-              });
-              newFileCount++;
-            }
+          const newFiles = await describeNewFiles(discoveredFiles.filter((file) => !knownFiles.has(file)));
+          const estimates = estimateNewFiles(entries, newFiles, defaultDuration);
+          for (const estimate of estimates) {
+            entries.push({
+              testId: `discovered:${estimate.file}`,
+              file: estimate.file,
+              estimatedDuration: estimate.estimatedDuration,
+            });
+            logger.info('Estimated new test file', {
+              file: estimate.file,
+              heuristic: estimate.heuristic,
+              tests: newFiles.find((f) => f.file === estimate.file)?.testCount,
+              estimate: formatDuration(estimate.estimatedDuration),
+            });
           }
-          if (newFileCount > 0) {
+          if (estimates.length > 0) {
             logger.info('Discovered new test files not in timing data', {
-              newFiles: newFileCount,
+              newFiles: estimates.length,
               totalFiles: discoveredFiles.length,
-              defaultDuration: formatDuration(defaultDuration),
             });
             // Recalculate shard count if auto-calculating
-            if (!options.shards && targetDurationMs !== undefined) {
-              shardCount = calculateOptimalShardCount(entries, targetDurationMs, maxShards);
+            if (!fixedShards && targetDurationMs !== undefined) {
+              shardCount = calculateOptimalShardCount(entries, targetDurationMs, maxShards, { ...balanceOptions, splitFiles });
               logger.info('Recalculated shard count after file discovery', { shardCount });
             }
           }
         }
+
+        if (splitFiles) {
+          entries = await verifyTestLocations(entries, logger);
+          if (!fixedShards && targetDurationMs !== undefined) {
+            shardCount = calculateOptimalShardCount(entries, targetDurationMs, maxShards, { ...balanceOptions, splitFiles });
+          }
+        }
+      }
+
+      if (targetDurationMs !== undefined && !isColdStart) {
+        const floor = calculateDurationFloor(entries, { ...balanceOptions, splitFiles });
+        if (floor > targetDurationMs) {
+          logger.warn('Target duration is unreachable — a single unit of work takes longer', {
+            floor: formatDuration(floor),
+            targetDuration: `${options.targetDuration}s`,
+            hint: splitFiles
+              ? 'The longest test alone exceeds the target'
+              : 'Use --strategy lpt-split to split oversized spec files by test',
+          });
+        }
+      }
+
+      // Weigh billed runner time against wall-clock time across shard counts
+      const optimizeCount = !fixedShards && objective !== 'time';
+      if (optimizeCount || tradeoffFormat) {
+        if (isColdStart) {
+          logger.warn('Cold start — no timing data to build a trade-off curve from', {
+            shardCount,
+          });
+        } else {
+          const curve = computeTradeoffCurve(entries, strategy, maxShards, balanceOptions);
+          if (optimizeCount) {
+            shardCount = selectShardCount(curve, objective, targetDurationMs);
+            logger.info('Optimized shard count', { objective, shardCount });
+          }
+          if (tradeoffFormat === 'json') {
+            process.stderr.write(
+              JSON.stringify({ objective, selected: shardCount, curve }, null, 2) + '\n',
+            );
+          } else if (tradeoffFormat === 'table') {
+            renderTradeoffTable(curve, shardCount, targetDurationMs);
+          }
+        }
       }
 
       // Generate shard plan
-      const plan = strategy.balance(entries, shardCount);
+      const plan: ShardPlan = { ...strategy.balance(entries, shardCount, balanceOptions), estimator };
+
+      const violations = checkShardConstraints(plan, constraints);
+      if (violations.length > 0) {
+        const error = AppError.shardPlanMismatch(
+          `Shard plan cannot satisfy ${violations.length} constraint(s) from ${options.constraints}`,
+          {
+            shards: plan.shards.length,
+            violations: violations.map((v) => `${v.rule}: ${v.message}`),
+          },
+        );
+        logger.error(error.message, error.context);
+        process.exit(2);
+      }
 
       logger.info('Shard plan generated', {
         strategy: strategy.name,
@@ -300,8 +639,24 @@ export function registerPlanCommand(program: Command): void {
         improvement: plan.improvement !== undefined
           ? `${plan.improvement}%`
           : 'N/A',
+        ...(plan.improvementOverLpt !== undefined
+          ? { improvementOverLpt: `${plan.improvementOverLpt}%` }
+          : {}),
       });
 
+      if (options.queueDir) {
+        const queue = createWorkQueue(entries);
+        const queueResult = await writeWorkQueue(options.queueDir, queue);
+        if (!queueResult.ok) {
+          logger.error(queueResult.error.message, queueResult.error.context);
+          process.exit(2);
+        }
+        logger.info('Work queue written', {
+          path: options.queueDir,
+          items: queue.length,
+        });
+      }
+
       const planJson = JSON.stringify(plan, null, 2) + '\n';
 
       // Output as GitHub Actions matrix
@@ -310,6 +665,7 @@ export function registerPlanCommand(program: Command): void {
           include: plan.shards.map((shard) => ({
             shardIndex: shard.shardIndex,
             shardTotal: plan.shards.length,
+            ...(shard.capacity !== undefined ? { capacity: shard.capacity } : {}),
           })),
         };
         process.stdout.write(JSON.stringify(matrix));
@@ -346,9 +702,134 @@ export function registerPlanCommand(program: Command): void {
     });
 }
 
+/**
+ * Read the worker config of the previous run, if its merged result is around.
+ * Best-effort — a missing or unreadable file just means "use the defaults".
+ */
+async function readLastRunConfig(path: string): Promise<RunConfig | undefined> {
+  if (!existsSync(path)) return undefined;
+  try {
+    const validated = RunResultSchema.safeParse(JSON.parse(await readFile(path, 'utf-8')) as unknown);
+    return validated.success ? validated.data.config : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Print the trade-off curve to stderr, marking the chosen shard count.
+ * stdout stays reserved for the plan or matrix.
+ */
+function renderTradeoffTable(
+  curve: readonly TradeoffPoint[],
+  selected: number,
+  targetDurationMs: number | undefined,
+): void {
+  const pad = (cols: string[]): string =>
+    cols.map((c, i) => c.padEnd([8, 14, 16, 12][i] ?? 10)).join('  ');
+
+  const header = pad(['Shards', 'Wall clock', 'Billed', 'Target']);
+  process.stderr.write(header + '\n' + '-'.repeat(header.length) + '\n');
+  for (const point of curve) {
+    process.stderr.write(
+      pad([
+        `${point.shardCount}${point.shardCount === selected ? ' ←' : ''}`,
+        formatDuration(point.wallClock),
+        `${(point.billed / 60_000).toFixed(1)} runner-min`,
+        targetDurationMs === undefined ? '—' : point.wallClock <= targetDurationMs ? 'met' : 'missed',
+      ]).trimEnd() + '\n',
+    );
+  }
+}
+
+/**
+ * Drop line numbers for files whose recorded test locations no longer match
+ * the test declarations on disk, so `lpt-split` keeps them whole.
+ *
+ * Splitting a file into `file:line` filters is only safe when every test in
+ * it is accounted for — a test added since the last run, or one that moved,
+ * would otherwise match no filter and silently never run.
+ */
+async function verifyTestLocations(
+  entries: readonly TestTimingEntry[],
+  logger: Logger,
+): Promise<TestTimingEntry[]> {
+  const knownLines = new Map<string, Set<number>>();
+  for (const entry of entries) {
+    if (entry.line === undefined) continue;
+    const lines = knownLines.get(entry.file) ?? new Set<number>();
+    lines.add(entry.line);
+    knownLines.set(entry.file, lines);
+  }
+
+  const stale = new Set<string>();
+  for (const [file, lines] of knownLines) {
+    let declared: number[];
+    try {
+      declared = findTestDeclarations(await readFile(file, 'utf-8'));
+    } catch {
+      declared = [];
+    }
+    if (declared.length !== lines.size || !declared.every((line) => lines.has(line))) {
+      stale.add(file);
+    }
+  }
+
+  if (stale.size > 0) {
+    logger.debug('Test locations out of date — files will not be split', {
+      files: [...stale],
+    });
+  }
+
+  return entries.map((entry) =>
+    stale.has(entry.file) ? { ...entry, line: undefined } : entry,
+  );
+}
+
+/**
+ * Read each new spec file's test count and tags, the inputs for estimating
+ * it from similar tests. Unreadable files are described as empty.
+ */
+async function describeNewFiles(files: readonly string[]): Promise<NewFileInfo[]> {
+  return Promise.all(
+    files.map(async (file) => {
+      try {
+        const source = await readFile(file, 'utf-8');
+        return {
+          file,
+          testCount: findTestDeclarations(source).length,
+          tags: findTestTags(source),
+        };
+      } catch {
+        return { file, testCount: 0 };
+      }
+    }),
+  );
+}
+
+/**
+ * Split timing data into entries for files that exist and entries for files
+ * under `testDir` that are gone — deleted or renamed specs that `run` would
+ * otherwise pass to Playwright. Files outside `testDir` aren't checked.
+ * Paths are relative to `cwd`, as Playwright reports them.
+ */
+export function partitionDeletedSpecs(
+  timingData: readonly ShardTimingData[],
+  testDir: string,
+  cwd: string = process.cwd(),
+): { readonly fresh: ShardTimingData[]; readonly stale: ShardTimingData[] } {
+  const dir = relative(cwd, resolve(cwd, testDir));
+  return partitionStaleTimingData(timingData, {
+    fileExists: (file) => (dir !== '' && !file.startsWith(dir + sep)) || existsSync(resolve(cwd, file)),
+  });
+}
+
+/** Playwright's default `testMatch`: `**\/*.@(spec|test).?(c|m)[jt]s?(x)` */
+const TEST_FILE_PATTERN = /\.(spec|test)\.[cm]?[jt]sx?$/;
+
 /**
  * Recursively discover test spec files in a directory.
- * Returns relative paths matching *.spec.ts / *.test.ts patterns.
+ * Returns relative paths matching Playwright's default `testMatch`.
  */
 async function discoverTestFiles(dirPath: string): Promise<string[]> {
   const results: string[] = [];
@@ -361,7 +842,7 @@ async function discoverTestFiles(dirPath: string): Promise<string[]> {
         await walk(fullPath);
       } else if (
         entry.isFile() &&
-        (entry.name.endsWith('.spec.ts') || entry.name.endsWith('.test.ts'))
+        TEST_FILE_PATTERN.test(entry.name)
       ) {
         // Use path relative to cwd, matching Playwright's file references
         results.push(relative(process.cwd(), fullPath));
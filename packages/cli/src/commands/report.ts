@@ -15,6 +15,13 @@ import {
   updateHistory,
   DEFAULT_HISTORY_PATH,
   formatDuration,
+  readPlanAccuracy,
+  readBranchData,
+  branchDataPath,
+  branchEntriesToWrite,
+  DEFAULT_BRANCH,
+  type TestHistory,
+  runResultToJUnitXml,
 } from '@sorry-currents/core';
 
 import { ReportBuilder } from '@sorry-currents/html-report';
@@ -25,6 +32,7 @@ interface ReportOptions {
   readonly output?: string;
   readonly history?: boolean;
   readonly open?: boolean;
+  readonly defaultBranch?: string;
   readonly verbose?: boolean;
 }
 
@@ -32,11 +40,16 @@ export function registerReportCommand(program: Command): void {
   program
     .command('report')
     .description('Generate reports from run results')
-    .option('--format <type>', 'Report format: html | json | markdown', 'html')
+    .option('--format <type>', 'Report format: html | json | markdown | junit', 'html')
     .option('--input <dir>', 'Results directory', '.sorry-currents')
     .option('--output <dir>', 'Report output directory', '.sorry-currents/report')
     .option('--history', 'Include historical comparison data')
     .option('--open', 'Open HTML report in browser after generation')
+    .option(
+      '--default-branch <name>',
+      'Branch whose history is stored at the plain path; other branches get their own copy',
+      DEFAULT_BRANCH,
+    )
     .option('--verbose', 'Enable debug logging')
     .action(async (options: ReportOptions) => {
       const logger = new ConsoleLogger(
@@ -75,16 +88,33 @@ export function registerReportCommand(program: Command): void {
         duration: formatDuration(runResult.duration),
       });
 
-      // Update history with this run's data
+      // Update history with this run's data, scoped to the run's branch
       const historyPath = join(inputDir, 'history.json');
-      const existingHistory = await readHistory(historyPath);
-      const historyData = existingHistory.ok ? existingHistory.value : [];
-      const updatedHistory = updateHistory(historyData, runResult.tests);
+      const defaultBranch = options.defaultBranch ?? DEFAULT_BRANCH;
+      const branchHistoryPath = branchDataPath(historyPath, runResult.git.branch, defaultBranch);
+      const historyKey = (entry: TestHistory): string => entry.id;
+      const existingHistory = await readBranchData(
+        historyPath,
+        runResult.git.branch,
+        defaultBranch,
+        readHistory,
+        historyKey,
+      );
+      const branchHistory = existingHistory.ok
+        ? existingHistory.value
+        : { path: branchHistoryPath, isDefault: branchHistoryPath === historyPath, own: [], entries: [] };
+      const updatedHistory = updateHistory([...branchHistory.entries], runResult.tests);
 
       // Persist updated history
-      const writeResult = await writeHistory(historyPath, updatedHistory);
+      const storedHistory = branchEntriesToWrite(
+        branchHistory,
+        updatedHistory,
+        runResult.tests.map((t) => t.id),
+        historyKey,
+      );
+      const writeResult = await writeHistory(branchHistory.path, storedHistory);
       if (writeResult.ok) {
-        logger.debug('History updated', { tests: updatedHistory.length, path: historyPath });
+        logger.debug('History updated', { tests: storedHistory.length, path: branchHistory.path });
       } else {
         logger.warn('Failed to write history', writeResult.error.context);
       }
@@ -108,6 +138,14 @@ export function registerReportCommand(program: Command): void {
         return;
       }
 
+      if (format === 'junit') {
+        await mkdir(outputDir, { recursive: true });
+        const junitPath = join(outputDir, 'junit.xml');
+        await writeFile(junitPath, runResultToJUnitXml(runResult), 'utf-8');
+        logger.info('JUnit report generated', { path: junitPath });
+        return;
+      }
+
       // HTML report (default)
       const builder = new ReportBuilder()
         .withRunResult(runResult)
@@ -117,6 +155,13 @@ export function registerReportCommand(program: Command): void {
         builder.withHistory(updatedHistory);
       }
 
+      const accuracyResult = await readPlanAccuracy(join(inputDir, 'plan-accuracy.json'));
+      if (accuracyResult.ok && accuracyResult.value.length > 0) {
+        builder.withPlanAccuracy(accuracyResult.value);
+      } else if (!accuracyResult.ok) {
+        logger.warn('Failed to read plan accuracy', accuracyResult.error.context);
+      }
+
       const result = builder.build();
       if (!result.ok) {
         logger.error('Failed to build HTML report', { error: result.error.message });
@@ -161,6 +206,19 @@ function generateMarkdownReport(runResult: RunResult): string {
     '',
   ];
 
+  for (const crash of runResult.crashedShards ?? []) {
+    lines.push(`## Shard ${crash.shardIndex ?? 1} Crashed`, '');
+    lines.push(`${crash.reportedTests} tests reported before the shard stopped; ${crash.missingTests.length} never did.`, '');
+    if (crash.missingTests.length > 0) {
+      lines.push('| Test | File | Project |');
+      lines.push('|------|------|---------|');
+      for (const t of crash.missingTests) {
+        lines.push(`| ${t.title} | ${t.file} | ${t.project} |`);
+      }
+      lines.push('');
+    }
+  }
+
   const failed = runResult.tests.filter((t) => t.status === 'failed' || t.status === 'timedOut');
   if (failed.length > 0) {
     lines.push('## Failed Tests', '');
@@ -0,0 +1,616 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { extname, join, resolve } from 'node:path';
+
+import type { Command } from 'commander';
+
+import {
+  ConsoleLogger,
+  LogLevel,
+  type Logger,
+  type Result,
+  ok,
+  err,
+  AppError,
+  type ShardTimingData,
+  type TestHistory,
+  type TestResult,
+  type DurationEstimator,
+  DURATION_ESTIMATORS,
+  readTimingData,
+  writeTimingData,
+  updateTimingData,
+  updateHistory,
+  overrideFileDuration,
+  summarizeTimingByFile,
+  diffTimingData,
+  estimateDuration,
+  playwrightJsonToTestResults,
+  playwrightBlobToTestResults,
+  playwrightBlobEventsToTestResults,
+  junitXmlToTestResults,
+  formatDuration,
+  readHistory,
+  writeHistory,
+  branchDataPath,
+  overlayEntries,
+  removeBranchData,
+  partitionStaleTimingData,
+  DEFAULT_BRANCH,
+  DEFAULT_TIMING_DATA_PATH,
+  DEFAULT_HISTORY_PATH,
+} from '@sorry-currents/core';
+
+interface ShowOptions {
+  readonly timing: string;
+  readonly tests?: boolean;
+  readonly file?: string;
+  readonly estimator: string;
+  readonly limit: string;
+  readonly format: string;
+  readonly verbose?: boolean;
+}
+
+interface DiffOptions {
+  readonly estimator: string;
+  readonly limit: string;
+  readonly format: string;
+  readonly all?: boolean;
+  readonly verbose?: boolean;
+}
+
+interface ImportOptions {
+  readonly timing: string;
+  /** History file to update too — `false` with `--no-history`. */
+  readonly history: string | false;
+  readonly verbose?: boolean;
+}
+
+interface SetOptions {
+  readonly timing: string;
+  readonly clear?: boolean;
+  readonly verbose?: boolean;
+}
+
+interface PromoteOptions {
+  readonly branch: string;
+  readonly timing: string;
+  readonly history: string;
+  readonly defaultBranch: string;
+  readonly verbose?: boolean;
+}
+
+interface PruneOptions {
+  readonly timing: string;
+  readonly maxAge: string;
+  readonly rootDir: string;
+  readonly dryRun?: boolean;
+  readonly verbose?: boolean;
+}
+
+/** First bytes of a zip archive — blob reports are zips */
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/** How to read, write and key one kind of branch-scoped data file */
+interface DataFile<T> {
+  readonly label: string;
+  readonly path: string;
+  readonly read: (path: string) => Promise<Result<T[]>>;
+  readonly write: (path: string, entries: readonly T[]) => Promise<Result<void>>;
+  readonly key: (entry: T) => string;
+}
+
+export function registerTimingCommand(program: Command): void {
+  const timing = program
+    .command('timing')
+    .description('Inspect and manage timing and history data');
+
+  timing
+    .command('show')
+    .description('Show per-file (or per-test) estimates, σ and samples')
+    .option('--timing <path>', 'Path to timing data', DEFAULT_TIMING_DATA_PATH)
+    .option('--tests', 'List individual tests instead of files')
+    .option('--file <text>', 'Only files whose path contains this text')
+    .option('--estimator <name>', `Duration statistic: ${DURATION_ESTIMATORS.join(' | ')}`, 'mean')
+    .option('--limit <n>', 'Number of rows to show', '20')
+    .option('--format <type>', 'Output format: table | json', 'table')
+    .option('--verbose', 'Enable debug logging')
+    .action(async (options: ShowOptions) => {
+      const logger = new ConsoleLogger(
+        options.verbose ? LogLevel.DEBUG : LogLevel.INFO,
+      );
+      const estimator = parseEstimator(options.estimator, logger);
+      const limit = parseLimit(options.limit, logger);
+
+      const timingPath = resolve(options.timing);
+      const result = await readTimingData(timingPath);
+      if (!result.ok) {
+        logger.error(result.error.message, result.error.context);
+        process.exit(2);
+        return;
+      }
+
+      const data = options.file
+        ? result.value.filter((e) => e.file.includes(options.file!))
+        : result.value;
+      if (data.length === 0) {
+        logger.info('No timing data found', { path: timingPath, ...(options.file ? { file: options.file } : {}) });
+        return;
+      }
+
+      if (options.tests) {
+        const tests = data
+          .map((entry) => ({ entry, estimate: estimateDuration(entry, estimator) }))
+          .sort((a, b) => b.estimate - a.estimate)
+          .slice(0, limit);
+        if (options.format === 'json') {
+          process.stdout.write(JSON.stringify(tests.map(({ entry, estimate }) => ({ ...entry, estimate })), null, 2) + '\n');
+          return;
+        }
+        logger.info(`\nSlowest Tests (${tests.length} of ${data.length}, ${estimator})\n`);
+        renderTable(
+          ['Estimate', 'σ', 'Samples', 'Project', 'File', 'Test'],
+          tests.map(({ entry, estimate }) => [
+            formatDuration(estimate) + (entry.overrideDuration !== undefined ? '*' : ''),
+            formatDuration(entry.stdDev),
+            String(entry.samples),
+            entry.project,
+            entry.line !== undefined ? `${entry.file}:${entry.line}` : entry.file,
+            entry.testId,
+          ]),
+        );
+        return;
+      }
+
+      const files = summarizeTimingByFile(data, estimator);
+      const shown = files.slice(0, limit);
+      if (options.format === 'json') {
+        process.stdout.write(JSON.stringify(shown, null, 2) + '\n');
+        return;
+      }
+      const total = files.reduce((sum, f) => sum + f.estimate, 0);
+      logger.info(
+        `\nSlowest Files (${shown.length} of ${files.length}, ${data.length} tests, ${formatDuration(total)} total, ${estimator})\n`,
+      );
+      renderTable(
+        ['Estimate', 'σ', 'Tests', 'Min samples', 'File'],
+        shown.map((f) => [
+          formatDuration(f.estimate) + (f.overridden ? '*' : ''),
+          formatDuration(f.stdDev),
+          String(f.tests),
+          String(f.samples),
+          f.file,
+        ]),
+      );
+      if (shown.some((f) => f.overridden)) {
+        process.stderr.write('\n* manual override (timing set)\n');
+      }
+    });
+
+  timing
+    .command('diff <a> <b>')
+    .description('Compare per-file estimates of two timing data files')
+    .option('--estimator <name>', `Duration statistic: ${DURATION_ESTIMATORS.join(' | ')}`, 'mean')
+    .option('--limit <n>', 'Number of rows to show', '20')
+    .option('--format <type>', 'Output format: table | json', 'table')
+    .option('--all', 'Include files whose estimate is unchanged')
+    .option('--verbose', 'Enable debug logging')
+    .action(async (a: string, b: string, options: DiffOptions) => {
+      const logger = new ConsoleLogger(
+        options.verbose ? LogLevel.DEBUG : LogLevel.INFO,
+      );
+      const estimator = parseEstimator(options.estimator, logger);
+      const limit = parseLimit(options.limit, logger);
+
+      const [before, after] = await Promise.all([readTimingData(resolve(a)), readTimingData(resolve(b))]);
+      if (!before.ok) {
+        logger.error(before.error.message, before.error.context);
+        process.exit(2);
+        return;
+      }
+      if (!after.ok) {
+        logger.error(after.error.message, after.error.context);
+        process.exit(2);
+        return;
+      }
+
+      const diff = diffTimingData(before.value, after.value, estimator)
+        .filter((d) => options.all || d.status !== 'unchanged');
+      const shown = diff.slice(0, limit);
+
+      if (options.format === 'json') {
+        process.stdout.write(JSON.stringify(shown, null, 2) + '\n');
+        return;
+      }
+
+      const count = (status: string): number => diff.filter((d) => d.status === status).length;
+      const totalBefore = summarizeTimingByFile(before.value, estimator).reduce((sum, f) => sum + f.estimate, 0);
+      const totalAfter = summarizeTimingByFile(after.value, estimator).reduce((sum, f) => sum + f.estimate, 0);
+      logger.info(
+        `\nTiming diff: ${formatDuration(totalBefore)} → ${formatDuration(totalAfter)} total ` +
+        `(${count('changed')} changed, ${count('added')} added, ${count('removed')} removed)\n`,
+      );
+      if (shown.length === 0) return;
+
+      renderTable(
+        ['Change', 'Before', 'After', 'Tests', 'File'],
+        shown.map((d) => [
+          d.status === 'changed' || d.status === 'unchanged' ? formatChange(d.before, d.after) : d.status,
+          d.status === 'added' ? '—' : formatDuration(d.before),
+          d.status === 'removed' ? '—' : formatDuration(d.after),
+          d.testsBefore === d.testsAfter ? String(d.testsAfter) : `${d.testsBefore} → ${d.testsAfter}`,
+          d.file,
+        ]),
+      );
+    });
+
+  timing
+    .command('import <reports...>')
+    .description('Seed timing and history data from Playwright JSON or blob reports, or JUnit XML files')
+    .option('--timing <path>', 'Path to timing data to update', DEFAULT_TIMING_DATA_PATH)
+    .option('--history <path>', 'Path to history data to update', DEFAULT_HISTORY_PATH)
+    .option('--no-history', 'Only update timing data')
+    .option('--verbose', 'Enable debug logging')
+    .action(async (reports: string[], options: ImportOptions) => {
+      const logger = new ConsoleLogger(
+        options.verbose ? LogLevel.DEBUG : LogLevel.INFO,
+      );
+
+      const timingPath = resolve(options.timing);
+      const existingTiming = await readTimingData(timingPath);
+      if (!existingTiming.ok) {
+        logger.error(existingTiming.error.message, existingTiming.error.context);
+        process.exit(2);
+        return;
+      }
+
+      const historyPath = options.history !== false ? resolve(options.history) : undefined;
+      const existingHistory = historyPath ? await readHistory(historyPath) : ok([]);
+      if (!existingHistory.ok) {
+        logger.error(existingHistory.error.message, existingHistory.error.context);
+        process.exit(2);
+        return;
+      }
+
+      const runs: { readonly path: string; readonly tests: TestResult[] }[] = [];
+      for (const report of reports) {
+        const results = await readReportResults(resolve(report));
+        if (!results.ok) {
+          logger.error(results.error.message, { ...results.error.context, cause: results.error.cause?.message });
+          process.exit(2);
+          return;
+        }
+        if (results.value.length === 0) {
+          logger.warn('No test results in report', { path: report });
+          continue;
+        }
+        runs.push({ path: report, tests: results.value });
+      }
+
+      // Each report counts as one run. Oldest first, so recent runs weigh most in the EWMA and sketch.
+      runs.sort((a, b) => earliestStart(a.tests) - earliestStart(b.tests));
+
+      let timingData = existingTiming.value;
+      let history = existingHistory.value;
+      for (const run of runs) {
+        timingData = updateTimingData(timingData, run.tests);
+        if (historyPath) {
+          history = updateHistory(history, run.tests);
+        }
+        logger.info('Imported report', {
+          path: run.path,
+          tests: run.tests.length,
+          startedAt: new Date(earliestStart(run.tests)).toISOString(),
+        });
+      }
+
+      const timingWrite = await writeTimingData(timingPath, timingData);
+      if (!timingWrite.ok) {
+        logger.error('Failed to write timing data', timingWrite.error.context);
+        process.exit(2);
+        return;
+      }
+      logger.info('Timing data updated', {
+        tests: timingData.length,
+        added: timingData.length - existingTiming.value.length,
+        path: timingPath,
+      });
+
+      if (historyPath) {
+        const historyWrite = await writeHistory(historyPath, history);
+        if (!historyWrite.ok) {
+          logger.error('Failed to write history', historyWrite.error.context);
+          process.exit(2);
+          return;
+        }
+        logger.info('History updated', { tests: history.length, path: historyPath });
+      }
+    });
+
+  timing
+    .command('set <file> [seconds]')
+    .description('Override the estimate of a spec file (split across its tests), or --clear the override')
+    .option('--timing <path>', 'Path to timing data', DEFAULT_TIMING_DATA_PATH)
+    .option('--clear', 'Remove the override and go back to recorded durations')
+    .option('--verbose', 'Enable debug logging')
+    .action(async (file: string, seconds: string | undefined, options: SetOptions) => {
+      const logger = new ConsoleLogger(
+        options.verbose ? LogLevel.DEBUG : LogLevel.INFO,
+      );
+
+      const durationSeconds = seconds !== undefined ? parseFloat(seconds) : undefined;
+      if (options.clear === (seconds !== undefined)) {
+        logger.error('Pass either a duration in seconds or --clear');
+        process.exit(2);
+        return;
+      }
+      if (durationSeconds !== undefined && (!Number.isFinite(durationSeconds) || durationSeconds < 0)) {
+        logger.error('Invalid duration — must be a non-negative number of seconds', { value: seconds });
+        process.exit(2);
+        return;
+      }
+
+      const timingPath = resolve(options.timing);
+      const result = await readTimingData(timingPath);
+      if (!result.ok) {
+        logger.error(result.error.message, result.error.context);
+        process.exit(2);
+        return;
+      }
+
+      const updated = overrideFileDuration(
+        result.value,
+        file,
+        durationSeconds !== undefined ? Math.round(durationSeconds * 1000) : undefined,
+      );
+      if (!updated) {
+        logger.error('No timing data for file — it must have run (or been imported) at least once', {
+          file,
+          path: timingPath,
+        });
+        process.exit(2);
+        return;
+      }
+
+      const writeResult = await writeTimingData(timingPath, updated);
+      if (!writeResult.ok) {
+        logger.error('Failed to write timing data', writeResult.error.context);
+        process.exit(2);
+        return;
+      }
+      if (durationSeconds === undefined) {
+        logger.info('Cleared estimate override', { file });
+      } else {
+        logger.info('Set estimate override', {
+          file,
+          estimate: formatDuration(durationSeconds * 1000),
+          tests: updated.filter((e) => e.file === file).length,
+        });
+      }
+    });
+
+  timing
+    .command('promote')
+    .description('Fold a branch\'s timing and history data into the default branch (e.g. after its PR merges)')
+    .requiredOption('--branch <name>', 'Branch whose data to promote')
+    .option('--timing <path>', 'Path to the default branch\'s timing data', DEFAULT_TIMING_DATA_PATH)
+    .option('--history <path>', 'Path to the default branch\'s history data', DEFAULT_HISTORY_PATH)
+    .option('--default-branch <name>', 'Branch to promote into', DEFAULT_BRANCH)
+    .option('--verbose', 'Enable debug logging')
+    .action(async (options: PromoteOptions) => {
+      const logger = new ConsoleLogger(
+        options.verbose ? LogLevel.DEBUG : LogLevel.INFO,
+      );
+
+      if (options.branch === options.defaultBranch) {
+        logger.error('Cannot promote the default branch into itself', { branch: options.branch });
+        process.exit(2);
+        return;
+      }
+
+      const timingFile: DataFile<ShardTimingData> = {
+        label: 'timing data',
+        path: resolve(options.timing),
+        read: readTimingData,
+        write: writeTimingData,
+        key: (entry) => entry.testId,
+      };
+      const historyFile: DataFile<TestHistory> = {
+        label: 'history',
+        path: resolve(options.history),
+        read: readHistory,
+        write: writeHistory,
+        key: (entry) => entry.id,
+      };
+
+      const timingResult = await promoteFile(timingFile, options, logger);
+      const result = timingResult.ok
+        ? await promoteFile(historyFile, options, logger)
+        : timingResult;
+      if (!result.ok) {
+        logger.error('Failed to promote branch data', {
+          branch: options.branch,
+          error: result.error.message,
+        });
+        process.exit(2);
+      }
+    });
+
+  timing
+    .command('prune')
+    .description('Remove timing entries of tests that were deleted, renamed or haven\'t run in a while')
+    .option('--timing <path>', 'Path to timing data', DEFAULT_TIMING_DATA_PATH)
+    .option('--max-age <days>', 'Remove tests not seen in a run for this many days', '30')
+    .option('--root-dir <dir>', 'Directory test file paths are relative to (Playwright rootDir)', '.')
+    .option('--dry-run', 'List stale entries without rewriting the file')
+    .option('--verbose', 'Enable debug logging')
+    .action(async (options: PruneOptions) => {
+      const logger = new ConsoleLogger(
+        options.verbose ? LogLevel.DEBUG : LogLevel.INFO,
+      );
+
+      const maxAgeDays = parseFloat(options.maxAge);
+      if (!Number.isFinite(maxAgeDays) || maxAgeDays < 0) {
+        logger.error('Invalid --max-age — must be a non-negative number of days', { value: options.maxAge });
+        process.exit(2);
+        return;
+      }
+
+      const timingPath = resolve(options.timing);
+      const timingResult = await readTimingData(timingPath);
+      if (!timingResult.ok) {
+        logger.error(timingResult.error.message, timingResult.error.context);
+        process.exit(2);
+        return;
+      }
+
+      const { fresh, stale } = partitionStaleTimingData(timingResult.value, {
+        maxAgeMs: maxAgeDays * 24 * 60 * 60 * 1000,
+        fileExists: (file) => existsSync(join(options.rootDir, file)),
+      });
+
+      if (stale.length === 0) {
+        logger.info('No stale timing entries', { tests: fresh.length, path: timingPath });
+        return;
+      }
+
+      for (const entry of stale) {
+        logger.debug('Stale timing entry', { testId: entry.testId, file: entry.file, lastSeen: entry.lastSeen });
+      }
+      const staleFiles = [...new Set(stale.map((e) => e.file))].sort();
+
+      if (options.dryRun) {
+        logger.info('Stale timing entries (dry run, nothing written)', {
+          stale: stale.length,
+          kept: fresh.length,
+          files: staleFiles,
+        });
+        return;
+      }
+
+      const writeResult = await writeTimingData(timingPath, fresh);
+      if (!writeResult.ok) {
+        logger.error('Failed to write timing data', writeResult.error.context);
+        process.exit(2);
+        return;
+      }
+
+      logger.info('Pruned stale timing entries', {
+        pruned: stale.length,
+        kept: fresh.length,
+        files: staleFiles,
+        path: timingPath,
+      });
+    });
+}
+
+/**
+ * Lay a branch's own entries over the default branch's file, then drop the
+ * branch's copy so the next run on that branch starts from the promoted data.
+ */
+async function promoteFile<T>(
+  file: DataFile<T>,
+  options: PromoteOptions,
+  logger: Logger,
+): Promise<Result<void>> {
+  const branchPath = branchDataPath(file.path, options.branch, options.defaultBranch);
+
+  const ownResult = await file.read(branchPath);
+  if (!ownResult.ok) return ownResult;
+  if (ownResult.value.length === 0) {
+    logger.info(`No branch ${file.label} to promote`, { branch: options.branch, path: branchPath });
+    return ok(undefined);
+  }
+
+  const baseResult = await file.read(file.path);
+  if (!baseResult.ok) return baseResult;
+
+  const merged = overlayEntries(baseResult.value, ownResult.value, file.key);
+  const writeResult = await file.write(file.path, merged);
+  if (!writeResult.ok) return writeResult;
+
+  logger.info(`Promoted ${file.label}`, {
+    branch: options.branch,
+    into: options.defaultBranch,
+    tests: ownResult.value.length,
+    path: file.path,
+  });
+
+  return removeBranchData(file.path, options.branch, options.defaultBranch);
+}
+
+/**
+ * Read a report file as test results. The format is picked by extension or
+ * content: a Playwright blob report (`.zip`, or its unzipped `.jsonl` events),
+ * JUnit XML, or Playwright JSON reporter output.
+ */
+async function readReportResults(path: string): Promise<Result<TestResult[]>> {
+  if (!existsSync(path)) {
+    return err(AppError.fileNotFound(path));
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = await readFile(path);
+  } catch (cause) {
+    return err(AppError.fileParseError(path, cause as Error));
+  }
+
+  const extension = extname(path).toLowerCase();
+  if (extension === '.zip' || buffer.subarray(0, 4).equals(ZIP_MAGIC)) {
+    return playwrightBlobToTestResults(buffer, path);
+  }
+
+  const raw = buffer.toString('utf-8');
+  if (extension === '.jsonl') {
+    return playwrightBlobEventsToTestResults(raw, path);
+  }
+  if (extension === '.xml' || raw.trimStart().startsWith('<')) {
+    return junitXmlToTestResults(raw, path);
+  }
+  try {
+    return playwrightJsonToTestResults(JSON.parse(raw) as unknown, path);
+  } catch (cause) {
+    return err(AppError.fileParseError(path, cause as Error));
+  }
+}
+
+/** Start of the first test in a run, for ordering imported reports */
+function earliestStart(tests: readonly TestResult[]): number {
+  return tests.reduce((min, t) => Math.min(min, Date.parse(t.startedAt)), Infinity);
+}
+
+function parseEstimator(value: string, logger: Logger): DurationEstimator {
+  if (!(DURATION_ESTIMATORS as readonly string[]).includes(value)) {
+    logger.error('Unknown duration estimator', { value, available: DURATION_ESTIMATORS });
+    process.exit(2);
+  }
+  return value as DurationEstimator;
+}
+
+function parseLimit(value: string, logger: Logger): number {
+  const limit = parseInt(value, 10);
+  if (!Number.isFinite(limit) || limit < 1) {
+    logger.error('Invalid row limit — must be a positive integer', { value });
+    process.exit(2);
+  }
+  return limit;
+}
+
+function formatChange(before: number, after: number): string {
+  const delta = after - before;
+  const sign = delta >= 0 ? '+' : '-';
+  const percent = before > 0 ? ` (${sign}${Math.round((Math.abs(delta) / before) * 100)}%)` : '';
+  return `${sign}${formatDuration(Math.abs(delta))}${percent}`;
+}
+
+function renderTable(header: readonly string[], rows: readonly (readonly string[])[]): void {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i]?.length ?? 0)));
+  const format = (cols: readonly string[]): string =>
+    cols.map((c, i) => (i === cols.length - 1 ? c : c.padEnd(widths[i]!))).join('  ');
+  const headerRow = format(header);
+  process.stderr.write(headerRow + '\n' + '-'.repeat(headerRow.length) + '\n');
+  for (const row of rows) {
+    process.stderr.write(format(row) + '\n');
+  }
+}
@@ -0,0 +1,235 @@
+import { open, readdir } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+
+import type { Command } from 'commander';
+
+import {
+  ConsoleLogger,
+  LogLevel,
+  isEventLogFileName,
+  parseRunEvents,
+  summarizeRunProgress,
+  AppError,
+  ErrorCode,
+  ok,
+  err,
+  type Result,
+  type RunEvent,
+  type RunProgress,
+  type TestEndEvent,
+} from '@sorry-currents/core';
+
+interface WatchOptions {
+  readonly input: string;
+  readonly runId?: string;
+  readonly interval: string;
+  readonly timeout?: string;
+  readonly verbose?: boolean;
+}
+
+/** An event log being followed — read up to `offset`, `pending` holding a line still being written */
+interface LogTail {
+  readonly path: string;
+  offset: number;
+  pending: Buffer;
+  readonly events: RunEvent[];
+  /** Events already printed */
+  reported: number;
+}
+
+const BAR_WIDTH = 30;
+
+export function registerWatchCommand(program: Command): void {
+  program
+    .command('watch')
+    .description('Follow a run in progress from the event logs its shards write')
+    .option('--input <dir>', 'Results directory — shared by the shards, or where their output is synced', '.sorry-currents')
+    .option('--run-id <id>', 'Run to follow (defaults to the most recently started)')
+    .option('--interval <ms>', 'How often to check the logs for new events', '1000')
+    .option('--timeout <seconds>', 'Give up when the run has not finished after this long')
+    .option('--verbose', 'Enable debug logging')
+    .action(async (options: WatchOptions) => {
+      const logger = new ConsoleLogger(
+        options.verbose ? LogLevel.DEBUG : LogLevel.INFO,
+      );
+
+      const inputDir = resolve(options.input);
+      const interval = Math.max(100, parseInt(options.interval, 10) || 1000);
+      const deadline = options.timeout
+        ? Date.now() + parseFloat(options.timeout) * 1000
+        : Number.POSITIVE_INFINITY;
+      const tty = process.stderr.isTTY === true;
+
+      const tails = new Map<string, LogTail>();
+      let runId = options.runId;
+      let lastLine = '';
+      let waiting = false;
+
+      for (;;) {
+        // Shards may start after the watcher, so look for new logs on every pass
+        for (const path of await findEventLogs(inputDir)) {
+          if (!tails.has(path)) {
+            logger.debug('Following event log', { path });
+            tails.set(path, { path, offset: 0, pending: Buffer.alloc(0), events: [], reported: 0 });
+          }
+        }
+
+        for (const tail of [...tails.values()]) {
+          const read = await readNewEvents(tail);
+          if (!read.ok) {
+            if (tty && lastLine) process.stderr.write('\n');
+            logger.error('Failed to read event log', { path: tail.path, error: read.error.message });
+            process.exit(2);
+          }
+          if (read.value === undefined) {
+            // Cleaned up or moved by its writer — whatever it said is stale
+            logger.debug('Event log disappeared, no longer following it', { path: tail.path });
+            tails.delete(tail.path);
+            continue;
+          }
+          tail.events.push(...read.value);
+        }
+
+        runId ??= latestRunId([...tails.values()]);
+        const logs = [...tails.values()].filter((t) => runIdOf(t) !== undefined && runIdOf(t) === runId);
+
+        if (logs.length === 0) {
+          if (!waiting) {
+            logger.info('Waiting for event logs', { inputDir, runId });
+            waiting = true;
+          }
+        } else {
+          for (const tail of logs) {
+            for (const event of tail.events.slice(tail.reported)) {
+              if (event.type === 'test-end' && (event.status === 'failed' || event.status === 'timedOut')) {
+                if (tty && lastLine) process.stderr.write('\r\x1b[K');
+                process.stderr.write(formatFailure(event) + '\n');
+                if (tty) lastLine = '';
+              }
+            }
+            tail.reported = tail.events.length;
+          }
+
+          const progress = summarizeRunProgress(logs.map((t) => t.events));
+          const line = formatProgress(progress);
+          if (tty) {
+            process.stderr.write('\r\x1b[K' + line);
+          } else if (line !== lastLine) {
+            process.stderr.write(line + '\n');
+          }
+          lastLine = line;
+
+          if (progress.done) {
+            if (tty) process.stderr.write('\n');
+            logger.info('Run finished', {
+              runId,
+              status: progress.status,
+              passed: progress.passed,
+              failed: progress.failed,
+              flaky: progress.flaky,
+              skipped: progress.skipped,
+            });
+            process.exit(progress.status === 'passed' ? 0 : 1);
+          }
+        }
+
+        if (Date.now() >= deadline) {
+          if (tty && lastLine) process.stderr.write('\n');
+          logger.error('Timed out waiting for the run to finish', { runId, timeout: `${options.timeout}s` });
+          process.exit(2);
+        }
+
+        await new Promise((r) => setTimeout(r, interval));
+      }
+    });
+}
+
+// --- Helpers ---
+
+/** Event logs anywhere under `dir` — none while it doesn't exist yet */
+async function findEventLogs(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { recursive: true });
+    return entries.filter((f) => isEventLogFileName(basename(f))).map((f) => join(dir, f)).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read what was appended to a log since the last read — `undefined` once the
+ * log is gone. Polling with reads rather than `fs.watch` keeps this working on
+ * network filesystems.
+ */
+async function readNewEvents(tail: LogTail): Promise<Result<RunEvent[] | undefined>> {
+  let handle: Awaited<ReturnType<typeof open>>;
+  try {
+    handle = await open(tail.path, 'r');
+  } catch (cause) {
+    if ((cause as NodeJS.ErrnoException).code === 'ENOENT') {
+      return ok(undefined);
+    }
+    return err(
+      new AppError(ErrorCode.FILE_NOT_FOUND, `Failed to read event log: ${tail.path}`, { path: tail.path }, cause as Error),
+    );
+  }
+  try {
+    const { size } = await handle.stat();
+    if (size <= tail.offset) {
+      return ok([]);
+    }
+    const chunk = Buffer.alloc(size - tail.offset);
+    const { bytesRead } = await handle.read(chunk, 0, chunk.length, tail.offset);
+    tail.offset += bytesRead;
+
+    // Only complete lines are parsed — the rest waits for the next read
+    const data = Buffer.concat([tail.pending, chunk.subarray(0, bytesRead)]);
+    const end = data.lastIndexOf(0x0a) + 1;
+    tail.pending = data.subarray(end);
+    return parseRunEvents(data.subarray(0, end).toString('utf-8'), tail.path);
+  } finally {
+    await handle.close();
+  }
+}
+
+function runIdOf(tail: LogTail): string | undefined {
+  const begin = tail.events.find((e) => e.type === 'run-begin');
+  return begin?.type === 'run-begin' ? begin.runId : undefined;
+}
+
+/** Run of the most recently started log */
+function latestRunId(tails: readonly LogTail[]): string | undefined {
+  let latest: { runId: string; timestamp: string } | undefined;
+  for (const tail of tails) {
+    for (const event of tail.events) {
+      if (event.type === 'run-begin' && (!latest || event.timestamp > latest.timestamp)) {
+        latest = { runId: event.runId, timestamp: event.timestamp };
+      }
+    }
+  }
+  return latest?.runId;
+}
+
+function formatProgress(progress: RunProgress): string {
+  const ratio = progress.totalTests > 0 ? Math.min(1, progress.completed / progress.totalTests) : 0;
+  const filled = Math.round(ratio * BAR_WIDTH);
+  const parts = [
+    `[${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)}] ${progress.completed}/${progress.totalTests}`,
+    `${progress.passed} passed`,
+    `${progress.failed} failed`,
+    `${progress.flaky} flaky`,
+    `${progress.skipped} skipped`,
+    `${progress.running} running`,
+  ];
+  if (progress.shards > 1) {
+    parts.push(`shards ${progress.shardsFinished}/${progress.shards} done`);
+  }
+  return parts.join(' · ');
+}
+
+function formatFailure(event: TestEndEvent): string {
+  const title = event.title.replace(/^ > /, '');
+  const attempt = event.retry > 0 ? ` (retry #${event.retry})` : '';
+  const error = event.error ? ` — ${event.error}` : '';
+  return `✗ ${title}${attempt} [${event.status}]${error}`;
+}
@@ -9,6 +9,8 @@ import { registerRunCommand } from './commands/run.js';
 import { registerReportCommand } from './commands/report.js';
 import { registerHistoryCommand } from './commands/history.js';
 import { registerNotifyCommand } from './commands/notify.js';
+import { registerTimingCommand } from './commands/timing.js';
+import { registerWatchCommand } from './commands/watch.js';
 
 const program = new Command();
 
@@ -27,5 +29,7 @@ registerRunCommand(program);
 registerReportCommand(program);
 registerHistoryCommand(program);
 registerNotifyCommand(program);
+registerTimingCommand(program);
+registerWatchCommand(program);
 
 program.parse();
@@ -0,0 +1,149 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  branchDataPath,
+  overlayEntries,
+  readBranchData,
+  branchEntriesToWrite,
+  removeBranchData,
+  readTimingData,
+  writeTimingData,
+  type ShardTimingData,
+} from '../index.js';
+
+function makeTiming(testId: string, avgDuration: number): ShardTimingData {
+  return {
+    testId,
+    file: `${testId}.spec.ts`,
+    project: 'default',
+    avgDuration,
+    p95Duration: avgDuration,
+    samples: 1,
+    stdDev: 0,
+    lastDurations: [avgDuration],
+  };
+}
+
+const byTestId = (entry: ShardTimingData): string => entry.testId;
+
+describe('branchDataPath', () => {
+  it('should keep the plain path for the default branch', () => {
+    expect(branchDataPath('.sorry-currents/timing-data.json', 'main')).toBe('.sorry-currents/timing-data.json');
+  });
+
+  it('should keep the plain path when the branch is unknown', () => {
+    expect(branchDataPath('.sorry-currents/timing-data.json', undefined)).toBe('.sorry-currents/timing-data.json');
+    expect(branchDataPath('.sorry-currents/timing-data.json', 'unknown')).toBe('.sorry-currents/timing-data.json');
+  });
+
+  it('should nest other branches under branches/, URI-encoded', () => {
+    expect(branchDataPath(join('.sorry-currents', 'timing-data.json'), 'feature/login')).toBe(
+      join('.sorry-currents', 'branches', 'feature%2Flogin', 'timing-data.json'),
+    );
+  });
+
+  it('should honour a custom default branch', () => {
+    expect(branchDataPath('data/history.json', 'develop', 'develop')).toBe('data/history.json');
+    expect(branchDataPath('data/history.json', 'main', 'develop')).toBe(join('data', 'branches', 'main', 'history.json'));
+  });
+});
+
+describe('overlayEntries', () => {
+  it('should replace base entries with overlay entries of the same key and append new ones', () => {
+    const base = [makeTiming('a', 1000), makeTiming('b', 2000)];
+    const overlay = [makeTiming('b', 5000), makeTiming('c', 3000)];
+
+    const result = overlayEntries(base, overlay, byTestId);
+
+    expect(result.map((e) => [e.testId, e.avgDuration])).toEqual([['a', 1000], ['b', 5000], ['c', 3000]]);
+  });
+});
+
+describe('branchEntriesToWrite', () => {
+  const updated = [makeTiming('a', 1000), makeTiming('b', 2000), makeTiming('c', 3000)];
+
+  it('should store everything on the default branch', () => {
+    const data = { path: 'x', isDefault: true, own: [], entries: [] };
+    expect(branchEntriesToWrite(data, updated, [], byTestId)).toHaveLength(3);
+  });
+
+  it('should store only entries the branch has recorded on other branches', () => {
+    const data = { path: 'x', isDefault: false, own: [makeTiming('a', 900)], entries: [] };
+    const result = branchEntriesToWrite(data, updated, ['c'], byTestId);
+    expect(result.map((e) => e.testId)).toEqual(['a', 'c']);
+  });
+});
+
+describe('readBranchData / removeBranchData', () => {
+  let dir: string;
+  let mainPath: string;
+
+  beforeEach(async () => {
+    dir = join(tmpdir(), `sorry-currents-branch-${Date.now()}`);
+    await mkdir(dir, { recursive: true });
+    mainPath = join(dir, 'timing-data.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should fall back to the default branch when the branch has no data', async () => {
+    await writeTimingData(mainPath, [makeTiming('a', 1000)]);
+
+    const result = await readBranchData(mainPath, 'feature/x', 'main', readTimingData, byTestId);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.isDefault).toBe(false);
+      expect(result.value.own).toEqual([]);
+      expect(result.value.entries.map((e) => e.testId)).toEqual(['a']);
+      expect(result.value.path).toBe(branchDataPath(mainPath, 'feature/x'));
+    }
+  });
+
+  it('should lay the branch entries over the default branch', async () => {
+    await writeTimingData(mainPath, [makeTiming('a', 1000), makeTiming('b', 2000)]);
+    await writeTimingData(branchDataPath(mainPath, 'feature/x'), [makeTiming('b', 9000)]);
+
+    const result = await readBranchData(mainPath, 'feature/x', 'main', readTimingData, byTestId);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.entries.map((e) => e.avgDuration)).toEqual([1000, 9000]);
+    }
+  });
+
+  it('should read only the plain path on the default branch', async () => {
+    await writeTimingData(mainPath, [makeTiming('a', 1000)]);
+
+    const result = await readBranchData(mainPath, 'main', 'main', readTimingData, byTestId);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.isDefault).toBe(true);
+      expect(result.value.path).toBe(mainPath);
+    }
+  });
+
+  it('should propagate read errors', async () => {
+    await writeFile(mainPath, 'not json', 'utf-8');
+
+    const result = await readBranchData(mainPath, 'feature/x', 'main', readTimingData, byTestId);
+    expect(result.ok).toBe(false);
+  });
+
+  it('should remove a branch file and ignore missing ones', async () => {
+    const branchPath = branchDataPath(mainPath, 'feature/x');
+    await writeTimingData(branchPath, [makeTiming('a', 1000)]);
+
+    expect((await removeBranchData(mainPath, 'feature/x')).ok).toBe(true);
+    expect(existsSync(branchPath)).toBe(false);
+    expect(existsSync(dirname(branchPath))).toBe(false);
+    expect((await removeBranchData(mainPath, 'feature/x')).ok).toBe(true);
+  });
+});
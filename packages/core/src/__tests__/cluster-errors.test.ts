@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { clusterErrors, clustersToSummaries, type TestResult } from '../index.js';
+import { clusterErrors, clustersToSummaries, type TestAttempt, type TestResult } from '../index.js';
 
 const makeTestResult = (overrides: Partial<TestResult> & { id: string; file: string }): TestResult => ({
   id: overrides.id,
@@ -18,6 +18,17 @@ const makeTestResult = (overrides: Partial<TestResult> & { id: string; file: str
   startedAt: overrides.startedAt ?? new Date().toISOString(),
   workerId: overrides.workerId ?? 0,
   shardIndex: overrides.shardIndex,
+  attempts: overrides.attempts,
+});
+
+const makeAttempt = (retry: number, status: TestAttempt['status'], messages: string[] = []): TestAttempt => ({
+  retry,
+  status,
+  duration: 1000,
+  errors: messages.map((message) => ({ message })),
+  attachments: [],
+  startedAt: '2024-01-15T10:00:00.000Z',
+  workerId: retry,
 });
 
 describe('clusterErrors', () => {
@@ -119,6 +130,25 @@ describe('clusterErrors', () => {
     expect(clusters).toEqual([]);
   });
 
+  it('should cluster the failed attempts of flaky tests', () => {
+    const results = [
+      makeTestResult({
+        id: 'flaky', file: 'a.spec.ts', status: 'passed', retries: 1, isFlaky: true,
+        attempts: [makeAttempt(0, 'failed', ['Connection reset']), makeAttempt(1, 'passed')],
+      }),
+      makeTestResult({
+        id: 'failed', file: 'b.spec.ts', status: 'failed', retries: 1,
+        errors: [{ message: 'Connection reset' }],
+        attempts: [makeAttempt(0, 'timedOut', ['Timeout']), makeAttempt(1, 'failed', ['Connection reset'])],
+      }),
+    ];
+    const clusters = clusterErrors(results);
+    expect(clusters.map((c) => [c.message, c.testIds])).toEqual([
+      ['Connection reset', ['flaky', 'failed']],
+      ['Timeout', ['failed']],
+    ]);
+  });
+
   it('should preserve example stack trace', () => {
     const results = [
       makeTestResult({
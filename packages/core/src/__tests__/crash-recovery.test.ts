@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  batchRunEvents,
+  reconstructRunResult,
+  RunResultSchema,
+  type RunEvent,
+  type TestResult,
+} from '../index.js';
+
+function makeTest(id: string, overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    id,
+    file: 'tests/a.spec.ts',
+    title: ` > chromium > a.spec.ts > ${id}`,
+    project: 'chromium',
+    status: 'passed',
+    duration: 1000,
+    retries: 0,
+    isFlaky: false,
+    errors: [],
+    annotations: [],
+    tags: [],
+    attachments: [],
+    startedAt: '2025-01-15T10:00:01.000Z',
+    workerId: 0,
+    ...overrides,
+  };
+}
+
+function planned(id: string) {
+  return { id, file: 'tests/a.spec.ts', title: ` > chromium > a.spec.ts > ${id}`, project: 'chromium' };
+}
+
+describe('reconstructRunResult', () => {
+  it('should rebuild an interrupted result listing the planned tests that never reported', () => {
+    const events: RunEvent[] = [
+      {
+        type: 'run-begin',
+        timestamp: '2025-01-15T10:00:00.000Z',
+        runId: 'run-7',
+        totalTests: 3,
+        shardIndex: 2,
+        shardTotal: 4,
+        tests: [planned('t1'), planned('t2'), planned('t3')],
+      },
+    ];
+    const tests = [
+      makeTest('t1'),
+      makeTest('t2', { status: 'failed', startedAt: '2025-01-15T10:00:02.000Z', duration: 3000 }),
+    ];
+
+    const result = reconstructRunResult('fallback-id', tests, events);
+
+    expect(result).toMatchObject({
+      id: 'run-7',
+      status: 'interrupted',
+      timestamp: '2025-01-15T10:00:00.000Z',
+      duration: 5000,
+      totalTests: 2,
+      passedTests: 1,
+      failedTests: 1,
+      shardCount: 4,
+      shardIndex: 2,
+    });
+    expect(result.crashedShards).toEqual([
+      { runId: 'run-7', shardIndex: 2, reportedTests: 2, missingTests: [planned('t3')] },
+    ]);
+    expect(RunResultSchema.safeParse(result).success).toBe(true);
+  });
+
+  it('should fall back to tests that began but never ended without a planned list', () => {
+    const events: RunEvent[] = [
+      { type: 'run-begin', timestamp: '2025-01-15T10:00:00.000Z', runId: 'run-7', totalTests: 2 },
+      { type: 'test-begin', timestamp: '2025-01-15T10:00:01.000Z', testId: 't1', title: 't1', file: 'tests/a.spec.ts', project: 'chromium', retry: 0 },
+      { type: 'test-begin', timestamp: '2025-01-15T10:00:03.000Z', testId: 't2', title: 't2', file: 'tests/a.spec.ts', project: 'chromium', retry: 0 },
+    ];
+
+    const result = reconstructRunResult('run-7', [makeTest('t1')], events);
+
+    expect(result.crashedShards?.[0]?.missingTests.map((t) => t.id)).toEqual(['t2']);
+  });
+
+  it('should work from per-test files alone', () => {
+    const result = reconstructRunResult('run-7', [makeTest('t1', { shardIndex: 3 })]);
+
+    expect(result).toMatchObject({ id: 'run-7', status: 'interrupted', shardIndex: 3, duration: 1000 });
+    expect(result.crashedShards?.[0]?.missingTests).toEqual([]);
+    expect(RunResultSchema.safeParse(result).success).toBe(true);
+  });
+});
+
+describe('batchRunEvents', () => {
+  const runner: RunEvent[] = [
+    { type: 'run-begin', timestamp: '2025-01-15T10:00:00.000Z', runId: 'run-7', totalTests: 0, shardIndex: 2, shardTotal: 4 },
+    { type: 'batch-begin', timestamp: '2025-01-15T10:00:00.500Z', batchRunId: 'run-7-batch-1', totalTests: 1, tests: [planned('t1')] },
+    { type: 'batch-end', timestamp: '2025-01-15T10:00:01.000Z', batchRunId: 'run-7-batch-1', status: 'passed', duration: 500 },
+    { type: 'batch-begin', timestamp: '2025-01-15T10:00:02.000Z', batchRunId: 'run-7-batch-2', totalTests: 2, tests: [planned('t2'), planned('t3')] },
+    { type: 'test-begin', timestamp: '2025-01-15T10:00:03.000Z', testId: 't2', title: 't2', file: 'tests/a.spec.ts', project: 'chromium', retry: 0 },
+    { type: 'batch-end', timestamp: '2025-01-15T10:00:05.000Z', batchRunId: 'run-7-batch-2', status: 'interrupted', duration: 3000 },
+    { type: 'run-end', timestamp: '2025-01-15T10:00:06.000Z', status: 'interrupted', duration: 6000 },
+  ];
+
+  it('should keep the runner start and only the batch\'s own events', () => {
+    expect(batchRunEvents(runner, 'run-7-batch-2').map((e) => e.type)).toEqual([
+      'run-begin',
+      'batch-begin',
+      'test-begin',
+      'batch-end',
+    ]);
+    expect(batchRunEvents(runner, 'run-7-batch-1')).toHaveLength(3);
+    expect(batchRunEvents(runner, 'run-7-batch-9')).toEqual([runner[0]]);
+  });
+
+  it('should rebuild a crashed batch from its slice of the runner\'s log', () => {
+    const tests = [makeTest('t2', { startedAt: '2025-01-15T10:00:03.000Z' })];
+    const result = reconstructRunResult('run-7-batch-2', tests, batchRunEvents(runner, 'run-7-batch-2'));
+
+    expect(result).toMatchObject({
+      timestamp: '2025-01-15T10:00:02.000Z',
+      duration: 3000,
+      shardIndex: 2,
+      shardCount: 4,
+    });
+    expect(result.crashedShards).toEqual([
+      { runId: 'run-7', shardIndex: 2, reportedTests: 1, missingTests: [planned('t3')] },
+    ]);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { detectCI } from '../utils/detect-ci.js';
+import { detectBranch, detectCI } from '../utils/detect-ci.js';
 
 describe('detectCI', () => {
   it('should detect GitHub Actions', () => {
@@ -36,3 +36,21 @@ describe('detectCI', () => {
     expect(result).toBe('github-actions');
   });
 });
+
+describe('detectBranch', () => {
+  it('should prefer the pull request head branch on GitHub', () => {
+    expect(detectBranch({ GITHUB_HEAD_REF: 'feature/login', GITHUB_REF_NAME: '42/merge' })).toBe('feature/login');
+  });
+
+  it('should use GITHUB_REF_NAME on push builds', () => {
+    expect(detectBranch({ GITHUB_HEAD_REF: '', GITHUB_REF_NAME: 'main' })).toBe('main');
+  });
+
+  it('should detect GitLab branches', () => {
+    expect(detectBranch({ CI_COMMIT_REF_NAME: 'develop' })).toBe('develop');
+  });
+
+  it('should return undefined when no branch variable is set', () => {
+    expect(detectBranch({})).toBeUndefined();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { detectFlaky } from '../utils/detect-flaky.js';
+import { detectFlaky, failedAttemptErrors } from '../utils/detect-flaky.js';
 
 describe('detectFlaky', () => {
   it('should return true when test passed with retries', () => {
@@ -29,3 +29,25 @@ describe('detectFlaky', () => {
     expect(detectFlaky({ status: 'interrupted', retries: 0 })).toBe(false);
   });
 });
+
+describe('failedAttemptErrors', () => {
+  const attempt = { duration: 1000, attachments: [], startedAt: '2024-01-15T10:00:00.000Z', workerId: 0 };
+
+  it('should collect errors of failed and timed out attempts in order', () => {
+    const errors = failedAttemptErrors({
+      status: 'passed',
+      errors: [],
+      attempts: [
+        { ...attempt, retry: 0, status: 'failed', errors: [{ message: 'first' }] },
+        { ...attempt, retry: 1, status: 'timedOut', errors: [{ message: 'second' }] },
+        { ...attempt, retry: 2, status: 'passed', errors: [] },
+      ],
+    });
+    expect(errors.map((e) => e.message)).toEqual(['first', 'second']);
+  });
+
+  it('should fall back to final errors without attempts', () => {
+    expect(failedAttemptErrors({ status: 'failed', errors: [{ message: 'boom' }] })).toEqual([{ message: 'boom' }]);
+    expect(failedAttemptErrors({ status: 'passed', errors: [{ message: 'ignored' }] })).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  addToSketch,
+  sketchFromDurations,
+  sketchQuantile,
+  DurationSketchSchema,
+  type DurationSketch,
+} from '../index.js';
+
+function sketchOf(durations: readonly number[]): DurationSketch {
+  return sketchFromDurations(durations)!;
+}
+
+describe('addToSketch', () => {
+  it('should start a sketch from a single duration', () => {
+    const sketch = addToSketch(undefined, 1500);
+    expect(sketch.centroids).toEqual([[1500, 1]]);
+  });
+
+  it('should keep centroids sorted by mean', () => {
+    const sketch = sketchOf([3000, 1000, 2000]);
+    const means = sketch.centroids.map(([mean]) => mean);
+    expect(means).toEqual([...means].sort((a, b) => a - b));
+  });
+
+  it('should stay bounded in size', () => {
+    const durations = Array.from({ length: 500 }, (_, i) => (i * 7919) % 10_000);
+    expect(sketchOf(durations).centroids.length).toBeLessThanOrEqual(25);
+  });
+
+  it('should decay the weight of earlier samples', () => {
+    const sketch = sketchOf([1000, 1000, 1000]);
+    const weight = sketch.centroids.reduce((sum, [, w]) => sum + w, 0);
+    // 1 + 0.98 + 0.98²
+    expect(weight).toBeCloseTo(2.94, 2);
+  });
+
+  it('should produce sketches that pass schema validation', () => {
+    const sketch = sketchOf(Array.from({ length: 300 }, (_, i) => i * 10));
+    expect(DurationSketchSchema.safeParse(sketch).success).toBe(true);
+  });
+});
+
+describe('sketchQuantile', () => {
+  it('should return 0 for an empty sketch', () => {
+    expect(sketchQuantile({ centroids: [] }, 0.95)).toBe(0);
+  });
+
+  it('should return the only value of a single-sample sketch', () => {
+    expect(sketchQuantile(addToSketch(undefined, 4200), 0.99)).toBe(4200);
+  });
+
+  it('should estimate p50/p90/p95/p99 of a uniform distribution', () => {
+    // 1..100 seconds in shuffled order, so decay doesn't favour one end
+    const durations = Array.from({ length: 100 }, (_, i) => (((i * 37) % 100) + 1) * 100);
+    const sketch = sketchOf(durations);
+
+    expect(sketchQuantile(sketch, 0.5)).toBeGreaterThan(4500);
+    expect(sketchQuantile(sketch, 0.5)).toBeLessThan(5500);
+    expect(sketchQuantile(sketch, 0.9)).toBeGreaterThan(8500);
+    expect(sketchQuantile(sketch, 0.95)).toBeGreaterThan(9000);
+    expect(sketchQuantile(sketch, 0.99)).toBeGreaterThan(9500);
+    expect(sketchQuantile(sketch, 0.99)).toBeLessThanOrEqual(10_000);
+  });
+
+  it('should be monotonic in the quantile', () => {
+    const sketch = sketchOf([500, 800, 1200, 4000, 900, 700, 20_000, 1100]);
+    const values = [0, 0.25, 0.5, 0.75, 0.9, 0.95, 0.99, 1].map((q) => sketchQuantile(sketch, q));
+    expect(values).toEqual([...values].sort((a, b) => a - b));
+  });
+
+  it('should forget a one-off outlier as newer samples arrive', () => {
+    const sketch = sketchOf([60_000, ...Array<number>(40).fill(1000)]);
+    expect(sketchQuantile(sketch, 0.95)).toBe(1000);
+  });
+});
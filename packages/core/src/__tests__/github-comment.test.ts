@@ -97,6 +97,50 @@ describe('buildGitHubCommentBody', () => {
     expect(payload.body).toContain('2');
   });
 
+  it('should list quarantined tests apart from failures', () => {
+    const runResult = makeRunResult({
+      quarantinedTests: 1,
+      tests: [
+        {
+          id: 't1', file: 'search.spec.ts', title: 'should autocomplete', project: 'default',
+          status: 'failed', duration: 3000, retries: 1, isFlaky: false,
+          errors: [{ message: 'Timed out' }], annotations: [], tags: [], attachments: [],
+          startedAt: '2025-01-15T10:00:00.000Z', workerId: 0, quarantined: true,
+        },
+      ],
+    });
+
+    const payload = buildGitHubCommentBody({
+      runResult,
+      owner: 'o',
+      repo: 'r',
+      prNumber: 1,
+    });
+
+    expect(payload.body).toContain('| Quarantined | 1 🔒 |');
+    expect(payload.body).toContain('Quarantined Tests');
+    expect(payload.body).toContain('| `search.spec.ts > should autocomplete` | failed | 1 |');
+    expect(payload.body).not.toContain('### ❌ Failed Tests');
+  });
+
+  it('should flag crashed shards with the tests that never reported', () => {
+    const missingTests = Array.from({ length: 22 }, (_, i) => ({
+      id: `m${i}`, file: 'cart.spec.ts', title: `case ${i}`, project: 'default',
+    }));
+    const runResult = makeRunResult({
+      status: 'interrupted',
+      crashedShards: [{ runId: 'run-1', shardIndex: 3, reportedTests: 40, missingTests }],
+    });
+
+    const payload = buildGitHubCommentBody({ runResult, owner: 'o', repo: 'r', prNumber: 1 });
+
+    expect(payload.body).toContain('### 💥 Shard 3 crashed');
+    expect(payload.body).toContain('40 tests reported before the shard stopped; 22 never did.');
+    expect(payload.body).toContain('- `cart.spec.ts > case 19`');
+    expect(payload.body).not.toContain('case 20`');
+    expect(payload.body).toContain('- …and 2 more');
+  });
+
   it('should include report URL when provided', () => {
     const payload = buildGitHubCommentBody({
       runResult: makeRunResult(),
@@ -120,6 +164,43 @@ describe('buildGitHubCommentBody', () => {
     expect(payload.body).not.toContain('Full Report');
   });
 
+  it('should include shard balance when plan accuracy is provided', () => {
+    const payload = buildGitHubCommentBody({
+      runResult: makeRunResult(),
+      owner: 'o',
+      repo: 'r',
+      prNumber: 1,
+      planAccuracy: {
+        runId: 'run-1',
+        timestamp: '2025-01-15T10:00:00.000Z',
+        strategy: 'lpt',
+        shards: [
+          { shardIndex: 1, predicted: 100_000, actual: 110_000 },
+          { shardIndex: 2, predicted: 100_000, actual: 90_000 },
+        ],
+        balanceRatio: 1.22,
+        meanAbsolutePercentError: 10,
+        worstFiles: [],
+      },
+    });
+
+    expect(payload.body).toContain('Shard Balance');
+    expect(payload.body).toContain('Balance ratio **1.22**');
+    expect(payload.body).toContain('+10.0%');
+    expect(payload.body).toContain('-10.0%');
+  });
+
+  it('should not include shard balance without plan accuracy', () => {
+    const payload = buildGitHubCommentBody({
+      runResult: makeRunResult(),
+      owner: 'o',
+      repo: 'r',
+      prNumber: 1,
+    });
+
+    expect(payload.body).not.toContain('Shard Balance');
+  });
+
   it('should truncate long error messages', () => {
     const longError = 'A'.repeat(200);
     const runResult = makeRunResult({
@@ -116,6 +116,7 @@ describe('updateHistory', () => {
     startedAt: overrides.startedAt ?? now,
     workerId: overrides.workerId ?? 0,
     shardIndex: overrides.shardIndex,
+    attempts: overrides.attempts,
   });
 
   it('should create new history entries for first-time tests', () => {
@@ -175,6 +176,26 @@ describe('updateHistory', () => {
     expect(updated[0]!.topErrors[0]!.count).toBe(1);
   });
 
+  it('should keep the errors a flaky test recovered from', () => {
+    const attempt = { duration: 1000, attachments: [], startedAt: now, workerId: 0 };
+    const results = [
+      makeTestResult({
+        id: 'test1',
+        file: 'a.spec.ts',
+        isFlaky: true,
+        retries: 1,
+        attempts: [
+          { ...attempt, retry: 0, status: 'failed', errors: [{ message: 'Socket hang up' }] },
+          { ...attempt, retry: 1, status: 'passed', errors: [] },
+        ],
+      }),
+    ];
+    const updated = updateHistory([], results);
+
+    expect(updated[0]!.flakyCount).toBe(1);
+    expect(updated[0]!.topErrors.map((e) => e.message)).toEqual(['Socket hang up']);
+  });
+
   it('should accumulate error counts across updates', () => {
     const existing = [
       makeHistory({
@@ -207,6 +228,22 @@ describe('updateHistory', () => {
     expect(updated).toHaveLength(2);
   });
 
+  it('should record per-run outcomes, oldest first', () => {
+    let history = updateHistory([], [makeTestResult({ id: 'test1', file: 'a.spec.ts', isFlaky: true, retries: 1 })]);
+    history = updateHistory(history, [makeTestResult({ id: 'test1', file: 'a.spec.ts', status: 'timedOut' })]);
+    history = updateHistory(history, [makeTestResult({ id: 'test1', file: 'a.spec.ts', status: 'interrupted' })]);
+    history = updateHistory(history, [makeTestResult({ id: 'test1', file: 'a.spec.ts' })]);
+
+    expect(history[0]!.recentOutcomes).toEqual(['flaky', 'failed', 'skipped', 'passed']);
+  });
+
+  it('should start outcomes for entries recorded before they were tracked', () => {
+    const existing = [makeHistory({ id: 'test1', title: 'a test', file: 'a.spec.ts', totalRuns: 10 })];
+    const updated = updateHistory(existing, [makeTestResult({ id: 'test1', file: 'a.spec.ts' })]);
+
+    expect(updated[0]!.recentOutcomes).toEqual(['passed']);
+  });
+
   it('should cap lastDurations at 30', () => {
     const existing = [
       makeHistory({
@@ -260,5 +297,6 @@ function makeHistory(overrides: Partial<TestHistory> & { id: string; title: stri
     failureRate: overrides.failureRate ?? 0,
     lastSeen: overrides.lastSeen ?? new Date().toISOString(),
     topErrors: overrides.topErrors ?? [],
+    recentOutcomes: overrides.recentOutcomes,
   };
 }
@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  junitXmlToTestResults,
+  junitXmlToRunResult,
+  runResultToJUnitXml,
+  generateTestId,
+  TestResultSchema,
+  RunResultSchema,
+  type RunResult,
+  type TestResult,
+} from '../index.js';
+
+const PLAYWRIGHT_JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites id="" name="" tests="3" failures="1" skipped="1" errors="0" time="4.5">
+<testsuite name="cart.spec.ts" timestamp="2026-01-15T10:00:00.000Z" hostname="chromium" tests="3" failures="1" skipped="1" time="4.5" errors="0">
+<testcase name="checkout › adds an item" classname="cart.spec.ts" time="1.25">
+</testcase>
+<testcase name="checkout › pays &amp; confirms" classname="cart.spec.ts" time="3.25">
+<failure message="cart.spec.ts:20:5 pays &amp; confirms" type="FAILURE">
+<![CDATA[Error: expect(received).toBe(expected)
+    at cart.spec.ts:22:7]]>
+</failure>
+</testcase>
+<testcase name="is pending" classname="cart.spec.ts" time="0">
+<skipped>
+</skipped>
+</testcase>
+</testsuite>
+</testsuites>`;
+
+const SUREFIRE_JUNIT = `<testsuite name="com.acme.CartTest" tests="2">
+  <testcase name="retriesThenPasses" classname="com.acme.CartTest" file="src/test/CartTest.java" time="0.5">
+    <flakyFailure message="first try" type="AssertionError"/>
+  </testcase>
+  <testcase name="keepsFailing" classname="com.acme.CartTest" time="0.2">
+    <rerunFailure message="rerun 1"/>
+    <failure message="final"/>
+  </testcase>
+</testsuite>`;
+
+describe('junitXmlToTestResults', () => {
+  it('should read Playwright junit output into valid results', () => {
+    const result = junitXmlToTestResults(PLAYWRIGHT_JUNIT, 'junit.xml');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((t) => [t.title, t.status, t.duration])).toEqual([
+        ['checkout › adds an item', 'passed', 1250],
+        ['checkout › pays & confirms', 'failed', 3250],
+        ['is pending', 'skipped', 0],
+      ]);
+      for (const test of result.value) {
+        expect(TestResultSchema.safeParse(test).success).toBe(true);
+        expect(test.file).toBe('cart.spec.ts');
+        expect(test.project).toBe('chromium');
+        expect(test.startedAt).toBe('2026-01-15T10:00:00.000Z');
+      }
+    }
+  });
+
+  it('should key tests by their own title like the reporter does', () => {
+    const result = junitXmlToTestResults(PLAYWRIGHT_JUNIT, 'junit.xml');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value[0]!.id).toBe(generateTestId('cart.spec.ts', 'adds an item', 'chromium'));
+    }
+  });
+
+  it('should keep failure messages and stacks', () => {
+    const result = junitXmlToTestResults(PLAYWRIGHT_JUNIT, 'junit.xml');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const [error] = result.value[1]!.errors;
+      expect(error!.message).toBe('cart.spec.ts:20:5 pays & confirms');
+      expect(error!.stack).toContain('at cart.spec.ts:22:7');
+    }
+  });
+
+  it('should count Surefire reruns as retries', () => {
+    const result = junitXmlToTestResults(SUREFIRE_JUNIT, 'surefire.xml');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const [flaky, failing] = result.value;
+      expect(flaky).toMatchObject({ file: 'src/test/CartTest.java', status: 'passed', retries: 1, isFlaky: true });
+      expect(failing).toMatchObject({ file: 'com.acme.CartTest', status: 'failed', retries: 1, isFlaky: false });
+      expect(failing!.errors.map((e) => e.message)).toEqual(['rerun 1', 'final']);
+    }
+  });
+
+  it('should return an error for XML that is not JUnit', () => {
+    const result = junitXmlToTestResults('<html><body/></html>', 'page.xml');
+    expect(result.ok).toBe(false);
+  });
+});
+
+const makeTestResult = (overrides: Partial<TestResult> & { title: string }): TestResult => ({
+  id: generateTestId('cart.spec.ts', overrides.title.split(' > ').at(-1)!, overrides.project ?? 'chromium'),
+  file: 'cart.spec.ts',
+  project: 'chromium',
+  status: 'passed',
+  duration: 1000,
+  retries: 0,
+  isFlaky: false,
+  errors: [],
+  annotations: [],
+  tags: [],
+  attachments: [],
+  startedAt: '2026-01-15T10:00:00.000Z',
+  workerId: 0,
+  ...overrides,
+});
+
+const makeRunResult = (tests: TestResult[]): RunResult => ({
+  id: 'run-1',
+  timestamp: '2026-01-15T10:00:00.000Z',
+  duration: 6000,
+  status: 'failed',
+  totalTests: tests.length,
+  passedTests: 0,
+  failedTests: 0,
+  skippedTests: 0,
+  flakyTests: 0,
+  shardCount: 1,
+  tests,
+  environment: { os: 'linux', nodeVersion: '20.0.0', playwrightVersion: '1.50.0', ci: 'github-actions' },
+  git: { branch: 'main', commit: 'abc123', commitMessage: 'test', author: 'dev' },
+  config: { workers: 2, projects: ['chromium'], retries: 2, timeout: 30_000 },
+});
+
+describe('runResultToJUnitXml', () => {
+  const run = makeRunResult([
+    makeTestResult({ title: ' > chromium > cart.spec.ts > checkout > adds an item', line: 4 }),
+    makeTestResult({ title: ' > chromium > cart.spec.ts > checkout > retries', retries: 2, isFlaky: true }),
+    makeTestResult({
+      title: ' > chromium > cart.spec.ts > pays <now> & "confirms"',
+      status: 'failed',
+      retries: 1,
+      errors: [{ message: 'first' }, { message: 'expected 1 \u001b[31mto be\u001b[39m 2', stack: 'Error: x ]]> y' }],
+    }),
+    makeTestResult({ title: ' > chromium > cart.spec.ts > is pending', status: 'skipped', duration: 0 }),
+    makeTestResult({ title: ' > firefox > cart.spec.ts > checkout > adds an item', project: 'firefox' }),
+  ]);
+
+  it('should render one suite per file and project', () => {
+    const xml = runResultToJUnitXml(run);
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites /);
+    expect(xml).toContain('tests="5" failures="1" skipped="1" errors="0" time="6.000"');
+    expect(xml.match(/<testsuite /g)).toHaveLength(2);
+    expect(xml).toContain('<testsuite name="cart.spec.ts" hostname="firefox" tests="1"');
+    expect(xml).toContain(
+      '<testcase name="checkout › adds an item" classname="cart.spec.ts" file="cart.spec.ts" line="4" time="1.000"/>',
+    );
+    expect(xml).toContain('<skipped/>');
+  });
+
+  it('should render retries as flakyFailure and rerunFailure elements', () => {
+    const xml = runResultToJUnitXml(run);
+
+    expect(xml.match(/<flakyFailure /g)).toHaveLength(2);
+    expect(xml.match(/<rerunFailure /g)).toHaveLength(1);
+    expect(xml.match(/<failure /g)).toHaveLength(1);
+  });
+
+  it('should use the errors of recorded attempts', () => {
+    const attempt = { duration: 500, attachments: [], startedAt: '2026-01-15T10:00:00.000Z', workerId: 0 };
+    const xml = runResultToJUnitXml(makeRunResult([
+      makeTestResult({
+        title: ' > chromium > cart.spec.ts > retries',
+        retries: 1,
+        isFlaky: true,
+        attempts: [
+          { ...attempt, retry: 0, status: 'failed', errors: [{ message: 'Socket hang up', stack: 'at cart.spec.ts:9' }] },
+          { ...attempt, retry: 1, status: 'passed', errors: [] },
+        ],
+      }),
+    ]));
+
+    expect(xml).toContain('<flakyFailure message="Socket hang up" type="FAILURE"><![CDATA[at cart.spec.ts:9]]></flakyFailure>');
+  });
+
+  it('should escape names, messages and stacks', () => {
+    const xml = runResultToJUnitXml(run);
+
+    expect(xml).toContain('name="pays &lt;now&gt; &amp; &quot;confirms&quot;"');
+    expect(xml).toContain('message="expected 1 to be 2"');
+    expect(xml).toContain('<![CDATA[Error: x ]]]]><![CDATA[> y]]>');
+  });
+
+  it('should import back with the same IDs, statuses and retries', () => {
+    const imported = junitXmlToTestResults(runResultToJUnitXml(run), 'junit.xml');
+
+    expect(imported.ok).toBe(true);
+    if (imported.ok) {
+      expect(imported.value.map((t) => [t.id, t.status, t.retries, t.isFlaky])).toEqual(
+        run.tests.map((t) => [t.id, t.status, t.retries, t.isFlaky]),
+      );
+    }
+  });
+});
+
+describe('junitXmlToRunResult', () => {
+  it('should build a valid run result from the tests', () => {
+    const result = junitXmlToRunResult(PLAYWRIGHT_JUNIT, 'junit.xml');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(RunResultSchema.safeParse(result.value).success).toBe(true);
+      expect(result.value).toMatchObject({
+        status: 'failed',
+        duration: 4500,
+        timestamp: '2026-01-15T10:00:00.000Z',
+        totalTests: 3,
+        passedTests: 1,
+        failedTests: 1,
+        skippedTests: 1,
+        flakyTests: 0,
+        shardCount: 1,
+        config: { projects: ['chromium'] },
+      });
+    }
+  });
+
+  it('should derive a stable id from the report', () => {
+    const a = junitXmlToRunResult(SUREFIRE_JUNIT, 'a.xml');
+    const b = junitXmlToRunResult(SUREFIRE_JUNIT, 'b.xml');
+
+    expect(a.ok && b.ok && a.value.id === b.value.id).toBe(true);
+    if (a.ok) {
+      expect(a.value.id).toMatch(/^junit-[0-9a-f]{12}$/);
+      expect(a.value.flakyTests).toBe(1);
+      expect(a.value.config.retries).toBe(1);
+    }
+  });
+});
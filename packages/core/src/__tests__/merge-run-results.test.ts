@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
 import type { RunResult } from '../schemas/run-result.js';
-import { mergeRunResults } from '../utils/merge-run-results.js';
+import { mergeRunResults, concatRunResults } from '../utils/merge-run-results.js';
 
 function createShardResult(overrides: Partial<RunResult> = {}): RunResult {
   return {
@@ -151,10 +151,58 @@ describe('mergeRunResults', () => {
     expect(result.flakyTests).toBe(1);
   });
 
+  it('should not fail the run for quarantined failures', () => {
+    const [test] = createShardResult().tests;
+    const shard1 = createShardResult({ status: 'passed' });
+    const shard2 = createShardResult({
+      status: 'failed',
+      tests: [
+        { ...test!, id: 'test-q', status: 'failed', quarantined: true },
+        { ...test!, id: 'test-f', status: 'passed', retries: 1, isFlaky: true, quarantined: true },
+      ],
+    });
+
+    const result = mergeRunResults([shard1, shard2]);
+    expect(result.status).toBe('passed');
+    expect(result.totalTests).toBe(3);
+    expect(result.passedTests).toBe(1);
+    expect(result.failedTests).toBe(0);
+    expect(result.flakyTests).toBe(0);
+    expect(result.quarantinedTests).toBe(2);
+  });
+
+  it('should still fail the run for failures outside the quarantine', () => {
+    const [test] = createShardResult().tests;
+    const shard = createShardResult({
+      status: 'failed',
+      tests: [
+        { ...test!, id: 'test-q', status: 'failed', quarantined: true },
+        { ...test!, id: 'test-f', status: 'failed' },
+      ],
+    });
+
+    const result = mergeRunResults([shard]);
+    expect(result.status).toBe('failed');
+    expect(result.failedTests).toBe(1);
+  });
+
   it('should throw when given zero results', () => {
     expect(() => mergeRunResults([])).toThrow('Cannot merge zero RunResults');
   });
 
+  it('should keep crashed shards and let them interrupt the run', () => {
+    const crashed = createShardResult({
+      shardIndex: 2,
+      status: 'interrupted',
+      crashedShards: [{ runId: 'run-123', shardIndex: 2, reportedTests: 1, missingTests: [] }],
+    });
+    const result = mergeRunResults([createShardResult(), crashed]);
+
+    expect(result.status).toBe('interrupted');
+    expect(result.crashedShards).toEqual(crashed.crashedShards);
+    expect(mergeRunResults([createShardResult()])).not.toHaveProperty('crashedShards');
+  });
+
   it('should handle single shard result', () => {
     const shard = createShardResult();
     const result = mergeRunResults([shard]);
@@ -162,3 +210,34 @@ describe('mergeRunResults', () => {
     expect(result.shardCount).toBe(1);
   });
 });
+
+describe('concatRunResults', () => {
+  it('should sum durations of consecutive invocations', () => {
+    const merged = concatRunResults(
+      [
+        createShardResult({ id: 'run-123-batch-1', duration: 4_000 }),
+        createShardResult({ id: 'run-123-batch-2', duration: 6_000 }),
+      ],
+      'run-123',
+    );
+
+    expect(merged.id).toBe('run-123');
+    expect(merged.duration).toBe(10_000);
+    expect(merged.tests).toHaveLength(2);
+    expect(merged.invocations).toBe(2);
+  });
+
+  it('should keep the runner shard identity', () => {
+    const merged = concatRunResults(
+      [
+        createShardResult({ shardCount: 3, shardIndex: 2 }),
+        createShardResult({ shardCount: 3, shardIndex: 2, status: 'failed' }),
+      ],
+      'run-123',
+    );
+
+    expect(merged.shardCount).toBe(3);
+    expect(merged.shardIndex).toBe(2);
+    expect(merged.status).toBe('failed');
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  readOverheadData,
+  writeOverheadData,
+  estimateShardOverhead,
+  updateOverheadData,
+  DEFAULT_OVERHEAD_DATA_PATH,
+  type RunResult,
+  type TestResult,
+} from '../index.js';
+
+function makeTest(file: string, duration: number): TestResult {
+  return {
+    id: `${file}-${duration}`,
+    file,
+    title: 'test',
+    project: 'default',
+    status: 'passed',
+    duration,
+    retries: 0,
+    isFlaky: false,
+    errors: [],
+    annotations: [],
+    tags: [],
+    attachments: [],
+    startedAt: '2024-01-15T10:00:00.000Z',
+    workerId: 0,
+  };
+}
+
+function makeShard(duration: number, tests: TestResult[], workers = 1): RunResult {
+  return {
+    id: 'run-1',
+    timestamp: '2024-01-15T10:00:00.000Z',
+    duration,
+    status: 'passed',
+    totalTests: tests.length,
+    passedTests: tests.length,
+    failedTests: 0,
+    skippedTests: 0,
+    flakyTests: 0,
+    shardCount: 2,
+    tests,
+    environment: { os: 'linux', nodeVersion: '20.0.0', playwrightVersion: '1.40.0', ci: 'local' },
+    git: { branch: 'main', commit: 'abc', commitMessage: 'msg', author: 'dev' },
+    config: { workers, projects: ['default'], retries: 0, timeout: 30_000 },
+  };
+}
+
+describe('estimateShardOverhead', () => {
+  it('should separate setup from per-file cost across shards', () => {
+    // Overhead = 5s setup + 1s per file
+    const results = [
+      makeShard(10_000 + 7_000, [makeTest('a.spec.ts', 5_000), makeTest('b.spec.ts', 5_000)]),
+      makeShard(10_000 + 9_000, [
+        makeTest('c.spec.ts', 4_000),
+        makeTest('d.spec.ts', 3_000),
+        makeTest('e.spec.ts', 2_000),
+        makeTest('f.spec.ts', 1_000),
+      ]),
+    ];
+
+    expect(estimateShardOverhead(results)).toEqual({ shardSetup: 5_000, perFile: 1_000 });
+  });
+
+  it('should spread test time across workers', () => {
+    const results = [
+      makeShard(8_000, [makeTest('a.spec.ts', 6_000), makeTest('b.spec.ts', 6_000)], 2),
+    ];
+
+    // 12s of tests over 2 workers = 6s; the remaining 2s is overhead
+    expect(estimateShardOverhead(results)).toEqual({ shardSetup: 2_000, perFile: 0 });
+  });
+
+  it('should never report negative overhead', () => {
+    const results = [makeShard(1_000, [makeTest('a.spec.ts', 5_000)])];
+    expect(estimateShardOverhead(results)).toEqual({ shardSetup: 0, perFile: 0 });
+  });
+
+  it('should skip results that do not time a single Playwright invocation', () => {
+    const tests = [makeTest('a.spec.ts', 5_000)];
+    const results = [
+      { ...makeShard(60_000, tests), id: 'junit-0123456789ab' },
+      { ...makeShard(60_000, tests), invocations: 3 },
+      {
+        ...makeShard(60_000, tests),
+        status: 'interrupted' as const,
+        crashedShards: [{ runId: 'run-1', shardIndex: 2, reportedTests: 1, missingTests: [] }],
+      },
+      makeShard(7_000, tests),
+    ];
+
+    expect(estimateShardOverhead(results)).toEqual({ shardSetup: 2_000, perFile: 0 });
+    expect(estimateShardOverhead(results.slice(0, 3))).toBeUndefined();
+  });
+
+  it('should return undefined when no shard ran tests', () => {
+    expect(estimateShardOverhead([makeShard(3_000, [])])).toBeUndefined();
+  });
+});
+
+describe('updateOverheadData', () => {
+  it('should take the first estimate as-is', () => {
+    expect(updateOverheadData(undefined, { shardSetup: 4_000, perFile: 500 })).toEqual({
+      shardSetup: 4_000,
+      perFile: 500,
+      samples: 1,
+    });
+  });
+
+  it('should smooth later estimates into existing data', () => {
+    const updated = updateOverheadData(
+      { shardSetup: 10_000, perFile: 1_000, samples: 3 },
+      { shardSetup: 20_000, perFile: 0 },
+    );
+
+    expect(updated).toEqual({ shardSetup: 13_000, perFile: 700, samples: 4 });
+  });
+});
+
+describe('readOverheadData / writeOverheadData', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `sorry-currents-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return undefined when file does not exist', async () => {
+    const result = await readOverheadData(join(tempDir, 'missing.json'));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toBeUndefined();
+    }
+  });
+
+  it('should round-trip learned overhead', async () => {
+    const path = join(tempDir, 'nested', 'overhead-data.json');
+    const data = { shardSetup: 12_000, perFile: 300, samples: 5 };
+
+    expect((await writeOverheadData(path, data)).ok).toBe(true);
+
+    const result = await readOverheadData(path);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toEqual(data);
+    }
+  });
+
+  it('should return a validation error for negative values', async () => {
+    const path = join(tempDir, 'overhead-data.json');
+    await writeFile(path, JSON.stringify({ shardSetup: -1, perFile: 0, samples: 1 }), 'utf-8');
+
+    const result = await readOverheadData(path);
+    expect(result.ok).toBe(false);
+  });
+
+  it('should default to the .sorry-currents directory', () => {
+    expect(DEFAULT_OVERHEAD_DATA_PATH).toBe('.sorry-currents/overhead-data.json');
+  });
+});
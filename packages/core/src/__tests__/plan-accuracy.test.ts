@@ -0,0 +1,200 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  analyzePlanAccuracy,
+  readPlanAccuracy,
+  writePlanAccuracy,
+  updatePlanAccuracy,
+  type PlanAccuracy,
+  type RunResult,
+  type ShardPlan,
+  type ShardTimingData,
+  type TestResult,
+} from '../index.js';
+
+function makeTest(file: string, duration: number): TestResult {
+  return {
+    id: `${file}-${duration}`,
+    file,
+    title: 'test',
+    project: 'default',
+    status: 'passed',
+    duration,
+    retries: 0,
+    isFlaky: false,
+    errors: [],
+    annotations: [],
+    tags: [],
+    attachments: [],
+    startedAt: '2024-01-15T10:00:00.000Z',
+    workerId: 0,
+  };
+}
+
+function makeShard(shardIndex: number | undefined, duration: number, tests: TestResult[]): RunResult {
+  return {
+    id: 'run-1',
+    timestamp: '2024-01-15T10:00:00.000Z',
+    duration,
+    status: 'passed',
+    totalTests: tests.length,
+    passedTests: tests.length,
+    failedTests: 0,
+    skippedTests: 0,
+    flakyTests: 0,
+    shardCount: 2,
+    shardIndex,
+    tests,
+    environment: { os: 'linux', nodeVersion: '20.0.0', playwrightVersion: '1.40.0', ci: 'local' },
+    git: { branch: 'main', commit: 'abc', commitMessage: 'msg', author: 'dev' },
+    config: { workers: 1, projects: ['default'], retries: 0, timeout: 30_000 },
+  };
+}
+
+function makeTiming(file: string, avgDuration: number): ShardTimingData {
+  return {
+    testId: `${file}-t`,
+    file,
+    project: 'default',
+    avgDuration,
+    p95Duration: avgDuration,
+    stdDev: 0,
+    samples: 5,
+    lastDurations: [],
+  };
+}
+
+const plan: ShardPlan = {
+  shards: [
+    { shardIndex: 1, tests: ['a.spec.ts', 'b.spec.ts'], estimatedDuration: 60_000 },
+    { shardIndex: 2, tests: ['c.spec.ts:12'], estimatedDuration: 50_000, capacity: 2 },
+  ],
+  strategy: 'lpt-split',
+  totalTests: 3,
+  maxShardDuration: 60_000,
+  minShardDuration: 50_000,
+  generatedAt: '2024-01-15T09:00:00.000Z',
+};
+
+const estimates = [
+  makeTiming('a.spec.ts', 40_000),
+  makeTiming('b.spec.ts', 20_000),
+  makeTiming('c.spec.ts', 50_000),
+];
+
+describe('analyzePlanAccuracy', () => {
+  it('should join shard results to the plan by shard index', () => {
+    const accuracy = analyzePlanAccuracy(plan, [
+      makeShard(2, 40_000, [makeTest('c.spec.ts', 38_000)]),
+      makeShard(1, 66_000, [makeTest('a.spec.ts', 41_000), makeTest('b.spec.ts', 24_000)]),
+    ], estimates);
+
+    expect(accuracy?.shards).toEqual([
+      { shardIndex: 1, predicted: 60_000, actual: 66_000 },
+      { shardIndex: 2, predicted: 50_000, actual: 40_000, capacity: 2 },
+    ]);
+    expect(accuracy?.strategy).toBe('lpt-split');
+  });
+
+  it('should compute balance ratio and mean error', () => {
+    const accuracy = analyzePlanAccuracy(plan, [
+      makeShard(1, 66_000, []),
+      makeShard(2, 40_000, []),
+    ], estimates);
+
+    expect(accuracy?.balanceRatio).toBe(1.65);
+    // |+10%| and |-20%| → 15%
+    expect(accuracy?.meanAbsolutePercentError).toBe(15);
+  });
+
+  it('should rank files by how far their estimates were off', () => {
+    const accuracy = analyzePlanAccuracy(plan, [
+      makeShard(1, 66_000, [makeTest('a.spec.ts', 41_000), makeTest('b.spec.ts', 24_000)]),
+      makeShard(2, 40_000, [makeTest('c.spec.ts', 38_000)]),
+    ], estimates);
+
+    expect(accuracy?.worstFiles.map((f) => f.file)).toEqual(['c.spec.ts', 'b.spec.ts', 'a.spec.ts']);
+    expect(accuracy?.worstFiles[0]).toEqual({ file: 'c.spec.ts', predicted: 50_000, actual: 38_000 });
+  });
+
+  it('should keep the longest result for a shard reported twice', () => {
+    const accuracy = analyzePlanAccuracy(plan, [
+      makeShard(1, 50_000, []),
+      makeShard(1, 70_000, []),
+    ], estimates);
+
+    expect(accuracy?.shards).toEqual([{ shardIndex: 1, predicted: 60_000, actual: 70_000 }]);
+  });
+
+  it('should return undefined when no result has a planned shard index', () => {
+    expect(analyzePlanAccuracy(plan, [makeShard(undefined, 50_000, [])], estimates)).toBeUndefined();
+  });
+});
+
+describe('updatePlanAccuracy', () => {
+  const entry = (runId: string): PlanAccuracy => ({
+    runId,
+    timestamp: '2024-01-15T10:00:00.000Z',
+    strategy: 'lpt',
+    shards: [],
+    balanceRatio: 1,
+    meanAbsolutePercentError: 0,
+    worstFiles: [],
+  });
+
+  it('should append new runs', () => {
+    expect(updatePlanAccuracy([entry('a')], entry('b')).map((e) => e.runId)).toEqual(['a', 'b']);
+  });
+
+  it('should replace an earlier entry for the same run', () => {
+    const updated = updatePlanAccuracy([entry('a'), entry('b')], { ...entry('a'), balanceRatio: 2 });
+    expect(updated.map((e) => e.runId)).toEqual(['b', 'a']);
+    expect(updated[1]!.balanceRatio).toBe(2);
+  });
+
+  it('should keep only the most recent runs', () => {
+    const existing = Array.from({ length: 50 }, (_, i) => entry(`run-${i}`));
+    const updated = updatePlanAccuracy(existing, entry('latest'));
+
+    expect(updated).toHaveLength(50);
+    expect(updated[0]!.runId).toBe('run-1');
+    expect(updated.at(-1)!.runId).toBe('latest');
+  });
+});
+
+describe('readPlanAccuracy / writePlanAccuracy', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `sorry-currents-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty log when file does not exist', async () => {
+    const result = await readPlanAccuracy(join(tempDir, 'missing.json'));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toEqual([]);
+    }
+  });
+
+  it('should round-trip the accuracy log', async () => {
+    const path = join(tempDir, 'nested', 'plan-accuracy.json');
+    const accuracy = analyzePlanAccuracy(plan, [makeShard(1, 66_000, [makeTest('a.spec.ts', 41_000)])], estimates)!;
+
+    expect((await writePlanAccuracy(path, [accuracy])).ok).toBe(true);
+
+    const result = await readPlanAccuracy(path);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toEqual([accuracy]);
+    }
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+
+import {
+  playwrightBlobToTestResults,
+  playwrightBlobEventsToTestResults,
+  playwrightJsonToTestResults,
+  generateTestId,
+  TestResultSchema,
+} from '../index.js';
+
+const startTime = Date.parse('2026-01-15T10:00:00.000Z');
+
+function makeEvents(): string {
+  const events = [
+    { method: 'onBlobReportMetadata', params: { version: 2, pathSeparator: '/' } },
+    { method: 'onConfigure', params: { config: { rootDir: '/repo/tests', workers: 2 } } },
+    {
+      method: 'onProject',
+      params: {
+        project: {
+          name: 'chromium',
+          suites: [
+            {
+              title: 'auth/login.spec.ts',
+              entries: [
+                { testId: 't-1', title: 'logs in', location: { file: '/repo/tests/auth/login.spec.ts', line: 4, column: 5 }, tags: ['@smoke'] },
+                {
+                  title: 'with SSO',
+                  entries: [
+                    { testId: 't-2', title: 'redirects', location: { file: '/repo/tests/auth/login.spec.ts', line: 12, column: 7 } },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      },
+    },
+    { method: 'onBegin', params: {} },
+    { method: 'onTestBegin', params: { testId: 't-1', result: { id: 'r-1', retry: 0, workerIndex: 0, startTime } } },
+    { method: 'onTestEnd', params: { test: { testId: 't-1' }, result: { id: 'r-1', duration: 900, status: 'failed', errors: [{ message: 'boom' }] } } },
+    { method: 'onTestBegin', params: { testId: 't-1', result: { id: 'r-2', retry: 1, workerIndex: 1, startTime: startTime + 1000 } } },
+    { method: 'onTestEnd', params: { test: { testId: 't-1' }, result: { id: 'r-2', duration: 1100, status: 'passed', errors: [] } } },
+    { method: 'onTestBegin', params: { testId: 't-2', result: { id: 'r-3', retry: 0, workerIndex: 0, startTime } } },
+    { method: 'onTestEnd', params: { test: { testId: 't-2' }, result: { id: 'r-3', duration: 2500, status: 'passed', errors: [] } } },
+    { method: 'onEnd', params: { result: { status: 'passed' } } },
+  ];
+  return events.map((e) => JSON.stringify(e)).join('\n') + '\n';
+}
+
+/** A minimal zip archive holding deflated files — the format blob reports use */
+function makeZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+describe('playwrightBlobEventsToTestResults', () => {
+  it('should produce one valid result per test, from its final attempt', () => {
+    const result = playwrightBlobEventsToTestResults(makeEvents(), 'report.jsonl');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toHaveLength(2);
+      for (const test of result.value) {
+        expect(TestResultSchema.safeParse(test).success).toBe(true);
+      }
+      const retried = result.value.find((t) => t.line === 4)!;
+      expect(retried).toMatchObject({ status: 'passed', duration: 1100, retries: 1, isFlaky: true, workerId: 1 });
+      expect(retried.tags).toEqual(['@smoke']);
+    }
+  });
+
+  it('should make files relative to rootDir and match reporter IDs and titles', () => {
+    const result = playwrightBlobEventsToTestResults(makeEvents(), 'report.jsonl');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const nested = result.value.find((t) => t.line === 12)!;
+      expect(nested.file).toBe('auth/login.spec.ts');
+      expect(nested.id).toBe(generateTestId('auth/login.spec.ts', 'redirects', 'chromium'));
+      expect(nested.title).toBe(' > chromium > auth/login.spec.ts > with SSO > redirects');
+      expect(nested.startedAt).toBe('2026-01-15T10:00:00.000Z');
+    }
+  });
+
+  it('should read suites in the pre-1.44 suites/tests layout', () => {
+    const legacy = makeEvents().replace(
+      /"entries":\[\{"testId":"t-1".*?\]\}\]\}\]/,
+      '"tests":[{"testId":"t-1","title":"logs in","location":{"file":"auth/login.spec.ts","line":4,"column":5}}],' +
+        '"suites":[{"title":"with SSO","tests":[{"testId":"t-2","title":"redirects","location":{"file":"auth/login.spec.ts","line":12,"column":7}}]}]}]',
+    );
+
+    expect(legacy).not.toContain('"entries"');
+
+    const result = playwrightBlobEventsToTestResults(legacy, 'report.jsonl');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((t) => t.file)).toEqual(['auth/login.spec.ts', 'auth/login.spec.ts']);
+    }
+  });
+
+  it('should agree with the JSON reporter on test IDs', () => {
+    const blob = playwrightBlobEventsToTestResults(makeEvents(), 'report.jsonl');
+    const json = playwrightJsonToTestResults({
+      suites: [{
+        title: 'auth/login.spec.ts',
+        specs: [{
+          title: 'logs in', file: 'auth/login.spec.ts', line: 4,
+          tests: [{ projectName: 'chromium', results: [{ status: 'passed', duration: 1, startTime: '2026-01-15T10:00:00.000Z' }] }],
+        }],
+      }],
+    }, 'report.json');
+
+    expect(blob.ok && json.ok).toBe(true);
+    if (blob.ok && json.ok) {
+      expect(blob.value.map((t) => t.id)).toContain(json.value[0]!.id);
+    }
+  });
+
+  it('should report the line of a malformed event', () => {
+    const result = playwrightBlobEventsToTestResults('{"method":"onBegin","params":{}}\nnot json\n', 'report.jsonl');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toContain('report.jsonl:2');
+    }
+  });
+});
+
+describe('playwrightBlobToTestResults', () => {
+  it('should read the events from a blob report zip', () => {
+    const zip = makeZip({ 'resources/trace.zip': 'ignored', 'report-1.jsonl': makeEvents() });
+
+    const result = playwrightBlobToTestResults(zip, 'report-1.zip');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toHaveLength(2);
+    }
+  });
+
+  it('should return an error for a file that is not a zip', () => {
+    const result = playwrightBlobToTestResults(Buffer.from('hello world'), 'report.zip');
+    expect(result.ok).toBe(false);
+  });
+
+  it('should return an error for a zip without events', () => {
+    const result = playwrightBlobToTestResults(makeZip({ 'readme.txt': 'hi' }), 'report.zip');
+    expect(result.ok).toBe(false);
+  });
+});
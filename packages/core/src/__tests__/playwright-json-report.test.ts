@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+
+import { playwrightJsonToTestResults, generateTestId, TestResultSchema } from '../index.js';
+
+const startTime = '2026-01-15T10:00:00.000Z';
+
+function makeReport(): unknown {
+  return {
+    config: { rootDir: '/repo' },
+    suites: [
+      {
+        title: 'auth/login.spec.ts',
+        file: 'auth/login.spec.ts',
+        specs: [
+          {
+            title: 'logs in',
+            file: 'auth/login.spec.ts',
+            line: 4,
+            tags: ['@smoke'],
+            tests: [
+              {
+                projectName: 'chromium',
+                annotations: [],
+                status: 'expected',
+                results: [{ workerIndex: 0, status: 'passed', duration: 1200, retry: 0, startTime, errors: [] }],
+              },
+              {
+                projectName: 'firefox',
+                annotations: [{ type: 'slow' }],
+                status: 'flaky',
+                results: [
+                  { workerIndex: 1, status: 'failed', duration: 900, retry: 0, startTime, errors: [{ message: 'boom' }] },
+                  { workerIndex: 2, status: 'passed', duration: 1500, retry: 1, startTime, errors: [] },
+                ],
+              },
+            ],
+          },
+        ],
+        suites: [
+          {
+            title: 'with SSO',
+            specs: [
+              {
+                title: 'redirects',
+                file: 'auth/login.spec.ts',
+                line: 12,
+                tests: [
+                  {
+                    projectName: 'chromium',
+                    results: [{ workerIndex: 0, status: 'timedOut', duration: 30000, retry: 0, startTime, errors: [{ message: 'Timeout' }] }],
+                  },
+                  { projectName: 'firefox', results: [] },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    errors: [],
+    stats: { startTime, duration: 33000 },
+  };
+}
+
+describe('playwrightJsonToTestResults', () => {
+  it('should produce one valid result per test and project that ran', () => {
+    const result = playwrightJsonToTestResults(makeReport(), 'report.json');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toHaveLength(3);
+      for (const test of result.value) {
+        expect(TestResultSchema.safeParse(test).success).toBe(true);
+      }
+    }
+  });
+
+  it('should use the same IDs and titles as the reporter', () => {
+    const result = playwrightJsonToTestResults(makeReport(), 'report.json');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const nested = result.value.find((t) => t.line === 12)!;
+      expect(nested.id).toBe(generateTestId('auth/login.spec.ts', 'redirects', 'chromium'));
+      expect(nested.title).toBe(' > chromium > auth/login.spec.ts > with SSO > redirects');
+      expect(nested.status).toBe('timedOut');
+    }
+  });
+
+  it('should take the final attempt and mark passing retries as flaky', () => {
+    const result = playwrightJsonToTestResults(makeReport(), 'report.json');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const firefox = result.value.find((t) => t.project === 'firefox')!;
+      expect(firefox).toMatchObject({ status: 'passed', duration: 1500, retries: 1, isFlaky: true, workerId: 2 });
+      expect(firefox.tags).toEqual(['@smoke']);
+    }
+  });
+
+  it('should return a validation error for something that is not a Playwright report', () => {
+    const result = playwrightJsonToTestResults({ tests: [] }, 'other.json');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toContain('other.json');
+    }
+  });
+});
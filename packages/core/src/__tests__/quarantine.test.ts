@@ -0,0 +1,253 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  readQuarantine,
+  matchesQuarantineEntry,
+  markQuarantinedTests,
+  effectiveRunStatus,
+  suggestQuarantineChanges,
+  applyQuarantineSuggestions,
+  QuarantineListSchema,
+  type RunResult,
+  type TestHistory,
+  type TestOutcome,
+  type TestResult,
+} from '../index.js';
+
+const makeTestResult = (overrides: Partial<TestResult> & { id: string; title: string }): TestResult => ({
+  file: 'cart.spec.ts',
+  project: 'chromium',
+  status: 'passed',
+  duration: 1000,
+  retries: 0,
+  isFlaky: false,
+  errors: [],
+  annotations: [],
+  tags: [],
+  attachments: [],
+  startedAt: '2024-01-15T10:00:00.000Z',
+  workerId: 0,
+  ...overrides,
+});
+
+const makeRunResult = (status: RunResult['status'], tests: TestResult[]): RunResult => ({
+  id: 'run-1',
+  timestamp: '2024-01-15T10:00:00.000Z',
+  duration: 10_000,
+  status,
+  totalTests: tests.length,
+  passedTests: 0,
+  failedTests: 0,
+  skippedTests: 0,
+  flakyTests: 0,
+  shardCount: 1,
+  tests,
+  environment: { os: 'linux', nodeVersion: '20.0.0', playwrightVersion: '1.40.0', ci: 'github-actions' },
+  git: { branch: 'main', commit: 'abc123', commitMessage: 'test', author: 'dev' },
+  config: { workers: 1, projects: ['chromium'], retries: 1, timeout: 30_000 },
+});
+
+const checkoutTest = makeTestResult({ id: 't1', title: ' > chromium > cart.spec.ts > checkout > pays' });
+const firefoxTest = makeTestResult({ id: 't2', title: ' > firefox > cart.spec.ts > checkout > pays', project: 'firefox' });
+
+describe('matchesQuarantineEntry', () => {
+  it('should match a whole file when the entry has no title', () => {
+    expect(matchesQuarantineEntry(checkoutTest, { file: 'cart.spec.ts' })).toBe(true);
+    expect(matchesQuarantineEntry(checkoutTest, { file: 'search.spec.ts' })).toBe(false);
+  });
+
+  it('should match the trailing title path', () => {
+    expect(matchesQuarantineEntry(checkoutTest, { file: 'cart.spec.ts', title: 'pays' })).toBe(true);
+    expect(matchesQuarantineEntry(checkoutTest, { file: 'cart.spec.ts', title: 'checkout > pays' })).toBe(true);
+    expect(matchesQuarantineEntry(checkoutTest, { file: 'cart.spec.ts', title: 'ays' })).toBe(false);
+  });
+
+  it('should limit the entry to its project', () => {
+    const entry = { file: 'cart.spec.ts', title: 'pays', project: 'firefox' };
+    expect(matchesQuarantineEntry(checkoutTest, entry)).toBe(false);
+    expect(matchesQuarantineEntry(firefoxTest, entry)).toBe(true);
+  });
+});
+
+describe('markQuarantinedTests', () => {
+  it('should flag matching tests and clear stale flags', () => {
+    const list = QuarantineListSchema.parse({ tests: [{ file: 'cart.spec.ts', project: 'firefox' }] });
+    const marked = markQuarantinedTests([{ ...checkoutTest, quarantined: true }, firefoxTest], list);
+
+    expect(marked[0]).not.toHaveProperty('quarantined');
+    expect(marked[1]!.quarantined).toBe(true);
+  });
+});
+
+describe('effectiveRunStatus', () => {
+  it('should pass a failed run whose failures are all quarantined', () => {
+    const run = makeRunResult('failed', [
+      { ...checkoutTest, status: 'failed', quarantined: true },
+      { ...firefoxTest, status: 'passed' },
+    ]);
+    expect(effectiveRunStatus(run)).toBe('passed');
+  });
+
+  it('should keep a run failed when one failure is not quarantined', () => {
+    const run = makeRunResult('failed', [
+      { ...checkoutTest, status: 'timedOut', quarantined: true },
+      { ...firefoxTest, status: 'failed' },
+    ]);
+    expect(effectiveRunStatus(run)).toBe('failed');
+  });
+
+  it('should keep a run failed without failing tests', () => {
+    expect(effectiveRunStatus(makeRunResult('failed', [checkoutTest]))).toBe('failed');
+  });
+
+  it('should not touch interrupted runs', () => {
+    const run = makeRunResult('interrupted', [{ ...checkoutTest, status: 'failed', quarantined: true }]);
+    expect(effectiveRunStatus(run)).toBe('interrupted');
+  });
+});
+
+const makeHistory = (id: string, title: string, recentOutcomes: TestOutcome[]): TestHistory => ({
+  id,
+  title,
+  file: 'cart.spec.ts',
+  project: 'chromium',
+  totalRuns: recentOutcomes.length,
+  passCount: 0,
+  failCount: 0,
+  flakyCount: 0,
+  skipCount: 0,
+  avgDuration: 1000,
+  p95Duration: 1000,
+  lastDurations: [],
+  // Lifetime rate stays high long after the test settled down
+  flakinessRate: 0.5,
+  failureRate: 0,
+  lastSeen: '2024-01-15T10:00:00.000Z',
+  topErrors: [],
+  recentOutcomes,
+});
+
+describe('suggestQuarantineChanges', () => {
+  const now = new Date('2024-02-01T00:00:00.000Z');
+  const emptyList = QuarantineListSchema.parse({});
+
+  it('should quarantine tests flaky above the threshold in the window', () => {
+    const history = [
+      makeHistory('t1', ' > chromium > cart.spec.ts > checkout > pays', ['passed', 'flaky', 'passed', 'flaky', 'passed']),
+      makeHistory('t2', ' > chromium > cart.spec.ts > lists items', ['flaky', ...Array<TestOutcome>(20).fill('passed')]),
+    ];
+
+    const { add, remove } = suggestQuarantineChanges(history, emptyList, { now });
+    expect(remove).toEqual([]);
+    expect(add).toEqual([
+      {
+        entry: {
+          file: 'cart.spec.ts',
+          title: 'checkout > pays',
+          project: 'chromium',
+          reason: 'Flaky in 2 of the last 5 runs',
+          addedAt: '2024-02-01T00:00:00.000Z',
+        },
+        runs: 5,
+        flakyRuns: 2,
+      },
+    ]);
+  });
+
+  it('should ignore skipped runs and tests with too few runs', () => {
+    const history = [
+      makeHistory('t1', ' > chromium > cart.spec.ts > pays', ['flaky', 'skipped', 'skipped', 'skipped', 'passed']),
+    ];
+    expect(suggestQuarantineChanges(history, emptyList, { now }).add).toEqual([]);
+  });
+
+  it('should not suggest tests that are already quarantined', () => {
+    const history = [makeHistory('t1', ' > chromium > cart.spec.ts > pays', Array<TestOutcome>(5).fill('flaky'))];
+    const list = QuarantineListSchema.parse({ tests: [{ file: 'cart.spec.ts' }] });
+    expect(suggestQuarantineChanges(history, list, { now }).add).toEqual([]);
+  });
+
+  it('should release entries whose tests all passed long enough', () => {
+    const stable = [...Array<TestOutcome>(3).fill('flaky'), ...Array<TestOutcome>(4).fill('passed')];
+    const history = [
+      makeHistory('t1', ' > chromium > cart.spec.ts > pays', stable),
+      makeHistory('t2', ' > chromium > cart.spec.ts > refunds', ['passed', 'passed', 'passed', 'flaky']),
+    ];
+    const list = QuarantineListSchema.parse({
+      tests: [
+        { file: 'cart.spec.ts', title: 'pays' },
+        { file: 'cart.spec.ts', title: 'refunds' },
+        { file: 'gone.spec.ts' },
+      ],
+    });
+
+    const { remove } = suggestQuarantineChanges(history, list, { now, stableRuns: 4 });
+    expect(remove).toEqual([{ entry: list.tests[0], runs: 4, flakyRuns: 0 }]);
+  });
+
+  it('should apply suggestions to the list', () => {
+    const list = QuarantineListSchema.parse({
+      tests: [{ file: 'a.spec.ts' }, { file: 'b.spec.ts' }],
+    });
+    const updated = applyQuarantineSuggestions(list, {
+      add: [{ entry: { file: 'c.spec.ts' }, runs: 5, flakyRuns: 2 }],
+      remove: [{ entry: list.tests[0]!, runs: 20, flakyRuns: 0 }],
+    });
+    expect(updated.tests).toEqual([{ file: 'b.spec.ts' }, { file: 'c.spec.ts' }]);
+  });
+});
+
+describe('readQuarantine', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `sorry-currents-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty list when file does not exist', async () => {
+    const result = await readQuarantine(join(tempDir, 'missing.json'));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toEqual({ tests: [] });
+    }
+  });
+
+  it('should read hand-written entries', async () => {
+    const path = join(tempDir, 'quarantine.json');
+    await writeFile(
+      path,
+      JSON.stringify({ tests: [{ file: 'cart.spec.ts', title: 'pays', reason: 'Payment sandbox is slow' }] }),
+      'utf-8',
+    );
+
+    const result = await readQuarantine(path);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.tests).toEqual([{ file: 'cart.spec.ts', title: 'pays', reason: 'Payment sandbox is slow' }]);
+    }
+  });
+
+  it('should return a validation error for an entry without a file', async () => {
+    const path = join(tempDir, 'quarantine.json');
+    await writeFile(path, JSON.stringify({ tests: [{ title: 'pays' }] }), 'utf-8');
+
+    const result = await readQuarantine(path);
+    expect(result.ok).toBe(false);
+  });
+
+  it('should return a parse error for invalid JSON', async () => {
+    const path = join(tempDir, 'quarantine.json');
+    await writeFile(path, '{ tests: ', 'utf-8');
+
+    const result = await readQuarantine(path);
+    expect(result.ok).toBe(false);
+  });
+});
@@ -74,6 +74,12 @@ describe('AppError', () => {
       expect(error.cause?.message).toBe('bad JSON');
     });
 
+    it('should create shardPlanMismatch', () => {
+      const error = AppError.shardPlanMismatch('constraints broken', { violations: 1 });
+      expect(error.code).toBe(ErrorCode.SHARD_PLAN_MISMATCH);
+      expect(error.context).toEqual({ violations: 1 });
+    });
+
     it('should create playwrightNotFound', () => {
       const error = AppError.playwrightNotFound();
       expect(error.code).toBe(ErrorCode.PLAYWRIGHT_NOT_FOUND);
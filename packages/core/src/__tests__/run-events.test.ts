@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  eventLogFileName,
+  isEventLogFileName,
+  parseRunEvents,
+  summarizeRunProgress,
+  type RunEvent,
+  type TestEndEvent,
+} from '../index.js';
+
+const now = '2025-01-15T10:00:00.000Z';
+
+function begin(totalTests: number, shard?: [number, number]): RunEvent {
+  return {
+    type: 'run-begin',
+    timestamp: now,
+    runId: 'run-1',
+    totalTests,
+    ...(shard ? { shardIndex: shard[0], shardTotal: shard[1] } : {}),
+  };
+}
+
+function testBegin(testId: string, retry = 0): RunEvent {
+  return { type: 'test-begin', timestamp: now, testId, title: testId, file: 'a.spec.ts', project: '', retry };
+}
+
+function testEnd(testId: string, status: TestEndEvent['status'], overrides: Partial<TestEndEvent> = {}): RunEvent {
+  return {
+    type: 'test-end',
+    timestamp: now,
+    testId,
+    title: testId,
+    file: 'a.spec.ts',
+    project: '',
+    retry: 0,
+    status,
+    duration: 100,
+    isFlaky: false,
+    ...overrides,
+  };
+}
+
+function end(status: 'passed' | 'failed' = 'passed'): RunEvent {
+  return { type: 'run-end', timestamp: now, status, duration: 1000 };
+}
+
+describe('eventLogFileName', () => {
+  it('should name one log per shard', () => {
+    expect(eventLogFileName()).toBe('events.ndjson');
+    expect(eventLogFileName({ current: 2, total: 4 })).toBe('events-shard-2-of-4.ndjson');
+    expect(isEventLogFileName(eventLogFileName({ current: 2, total: 4 }))).toBe(true);
+    expect(isEventLogFileName('events.json')).toBe(false);
+  });
+
+  it('should name a work-queue runner\'s log after the runner', () => {
+    expect(eventLogFileName(null, 'ci-host-42')).toBe('events-runner-ci-host-42.ndjson');
+    expect(isEventLogFileName(eventLogFileName(null, 'ci-host-42'))).toBe(true);
+  });
+});
+
+describe('parseRunEvents', () => {
+  it('should parse one event per line and skip blank lines', () => {
+    const text = [JSON.stringify(begin(2)), JSON.stringify(testBegin('t1')), '', JSON.stringify(end())].join('\n');
+    const result = parseRunEvents(text + '\n', 'events.ndjson');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map((e) => e.type)).toEqual(['run-begin', 'test-begin', 'run-end']);
+    }
+  });
+
+  it('should name the line of invalid events', () => {
+    const text = JSON.stringify(begin(1)) + '\n' + JSON.stringify({ type: 'test-end', testId: 't1' });
+    const result = parseRunEvents(text, 'events.ndjson');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toContain('events.ndjson:2');
+    }
+  });
+});
+
+describe('summarizeRunProgress', () => {
+  it('should count tests by their latest attempt', () => {
+    const progress = summarizeRunProgress([
+      [
+        begin(4),
+        testBegin('t1'),
+        testEnd('t1', 'passed'),
+        testBegin('t2'),
+        testEnd('t2', 'failed'),
+        testBegin('t2', 1),
+        testEnd('t2', 'passed', { retry: 1, isFlaky: true }),
+        testBegin('t3'),
+        testEnd('t3', 'timedOut'),
+        testBegin('t4'),
+      ],
+    ]);
+
+    expect(progress).toMatchObject({
+      shards: 1,
+      totalTests: 4,
+      completed: 3,
+      passed: 1,
+      flaky: 1,
+      failed: 1,
+      running: 1,
+      done: false,
+    });
+    expect(progress.status).toBeUndefined();
+  });
+
+  it('should wait for every announced shard before the run is done', () => {
+    const shard1 = [begin(2, [1, 3]), testEnd('t1', 'passed'), end()];
+    const shard2 = [begin(3, [2, 3]), testEnd('t2', 'failed'), end('failed')];
+
+    const partial = summarizeRunProgress([shard1, shard2]);
+    expect(partial).toMatchObject({ shards: 3, shardsStarted: 2, shardsFinished: 2, totalTests: 5, done: false });
+
+    const complete = summarizeRunProgress([shard1, shard2, [begin(1, [3, 3]), end()]]);
+    expect(complete).toMatchObject({ done: true, status: 'failed' });
+  });
+
+  it('should count a runner split into batches as one shard', () => {
+    const batchBegin = (batchRunId: string, totalTests: number): RunEvent => ({
+      type: 'batch-begin',
+      timestamp: now,
+      batchRunId,
+      totalTests,
+    });
+    const batchEnd = (batchRunId: string, status: 'passed' | 'interrupted' = 'passed'): RunEvent => ({
+      type: 'batch-end',
+      timestamp: now,
+      batchRunId,
+      status,
+      duration: 500,
+    });
+    const runner = [
+      begin(0, [1, 2]),
+      batchBegin('run-1-batch-1', 2),
+      testBegin('t1'),
+      testEnd('t1', 'passed'),
+      testBegin('t2'),
+      batchEnd('run-1-batch-1', 'interrupted'),
+      batchBegin('run-1-batch-2', 1),
+      testBegin('t3'),
+      testEnd('t3', 'passed'),
+      batchEnd('run-1-batch-2'),
+    ];
+
+    const running = summarizeRunProgress([runner]);
+    expect(running).toMatchObject({
+      shards: 2,
+      shardsStarted: 1,
+      shardsFinished: 0,
+      totalTests: 3,
+      completed: 2,
+      running: 0,
+      done: false,
+    });
+
+    const other = [begin(1, [2, 2]), testEnd('t4', 'passed'), end()];
+    const finished = summarizeRunProgress([[...runner, end()], other]);
+    expect(finished).toMatchObject({ shardsFinished: 2, totalTests: 4, done: true, status: 'passed' });
+  });
+
+  it('should report nothing done without logs', () => {
+    expect(summarizeRunProgress([])).toMatchObject({ shards: 0, completed: 0, done: false });
+  });
+});
@@ -159,6 +159,8 @@ describe('ReporterOptionsSchema', () => {
     expect(result.attachArtifacts).toBe(true);
     expect(result.artifactsDir).toBe('test-results');
     expect(result.silent).toBe(false);
+    expect(result.captureOutput).toBe('failures');
+    expect(result.maxOutputSize).toBe(8192);
   });
 
   it('should accept custom values', () => {
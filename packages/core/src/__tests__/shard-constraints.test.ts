@@ -0,0 +1,125 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  readShardConstraints,
+  checkShardConstraints,
+  ShardConstraintsSchema,
+  type ShardPlan,
+} from '../index.js';
+
+function makePlan(shards: string[][]): ShardPlan {
+  return {
+    shards: shards.map((tests, i) => ({ shardIndex: i + 1, tests, estimatedDuration: 1_000 })),
+    strategy: 'lpt',
+    totalTests: shards.flat().length,
+    maxShardDuration: 1_000,
+    minShardDuration: 1_000,
+    generatedAt: '2024-01-15T10:00:00.000Z',
+  };
+}
+
+const constraints = ShardConstraintsSchema.parse({
+  together: [['db-a.spec.ts', 'db-b.spec.ts']],
+  apart: [['port-a.spec.ts', 'port-b.spec.ts']],
+  pinToShard: [{ file: 'pinned.spec.ts', shard: 2 }],
+});
+
+describe('checkShardConstraints', () => {
+  it('should accept a plan that honours every rule', () => {
+    const plan = makePlan([
+      ['db-a.spec.ts', 'db-b.spec.ts', 'port-a.spec.ts'],
+      ['pinned.spec.ts', 'port-b.spec.ts'],
+    ]);
+    expect(checkShardConstraints(plan, constraints)).toEqual([]);
+  });
+
+  it('should report a together group spread over shards', () => {
+    const plan = makePlan([['db-a.spec.ts'], ['db-b.spec.ts', 'pinned.spec.ts']]);
+    const violations = checkShardConstraints(plan, constraints);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]!.rule).toBe('together');
+    expect(violations[0]!.shards).toEqual([1, 2]);
+  });
+
+  it('should report an apart pair on one shard', () => {
+    const plan = makePlan([['port-a.spec.ts', 'port-b.spec.ts'], []]);
+    const violations = checkShardConstraints(plan, constraints);
+
+    expect(violations.map((v) => v.rule)).toEqual(['apart']);
+    expect(violations[0]!.shards).toEqual([1]);
+  });
+
+  it('should report a pinned file on the wrong shard', () => {
+    const plan = makePlan([['pinned.spec.ts'], []]);
+    const violations = checkShardConstraints(plan, constraints);
+
+    expect(violations.map((v) => v.rule)).toEqual(['pinToShard']);
+    expect(violations[0]!.message).toContain('pinned to shard 2');
+  });
+
+  it('should treat file:line units as being on each of their shards', () => {
+    const plan = makePlan([['pinned.spec.ts:3'], ['pinned.spec.ts:9']]);
+    expect(checkShardConstraints(plan, constraints)[0]!.shards).toEqual([1, 2]);
+  });
+
+  it('should ignore files the plan does not contain', () => {
+    const plan = makePlan([['other.spec.ts'], ['db-a.spec.ts']]);
+    expect(checkShardConstraints(plan, constraints)).toEqual([]);
+  });
+});
+
+describe('readShardConstraints', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `sorry-currents-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return empty constraints when file does not exist', async () => {
+    const result = await readShardConstraints(join(tempDir, 'missing.json'));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toEqual({ together: [], apart: [], pinToShard: [] });
+    }
+  });
+
+  it('should fill in missing rule lists', async () => {
+    const path = join(tempDir, 'constraints.json');
+    await writeFile(path, JSON.stringify({ apart: [['a.spec.ts', 'b.spec.ts']] }), 'utf-8');
+
+    const result = await readShardConstraints(path);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.apart).toEqual([['a.spec.ts', 'b.spec.ts']]);
+      expect(result.value.together).toEqual([]);
+    }
+  });
+
+  it('should return a validation error for a zero shard pin', async () => {
+    const path = join(tempDir, 'constraints.json');
+    await writeFile(path, JSON.stringify({ pinToShard: [{ file: 'a.spec.ts', shard: 0 }] }), 'utf-8');
+
+    const result = await readShardConstraints(path);
+    expect(result.ok).toBe(false);
+  });
+
+  it('should return a parse error for invalid JSON', async () => {
+    const path = join(tempDir, 'constraints.json');
+    await writeFile(path, '{ nope', 'utf-8');
+
+    const result = await readShardConstraints(path);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('FILE_PARSE_ERROR');
+    }
+  });
+});
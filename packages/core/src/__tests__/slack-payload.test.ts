@@ -116,6 +116,28 @@ describe('buildSlackPayload', () => {
     expect(failedBlock?.text?.text).toContain('checkout.spec.ts');
   });
 
+  it('should list quarantined failures in their own block', () => {
+    const runResult = makeRunResult({
+      tests: [
+        {
+          id: 't1', file: 'checkout.spec.ts', title: 'should work', project: 'default',
+          status: 'failed', duration: 5000, retries: 0, isFlaky: false,
+          errors: [{ message: 'Expected true to be false' }],
+          annotations: [], tags: [], attachments: [],
+          startedAt: '2025-01-15T10:00:00.000Z', workerId: 0, quarantined: true,
+        },
+      ],
+    });
+
+    const payload = buildSlackPayload({ runResult });
+
+    const texts = payload.blocks.map((b) => b.text?.text ?? '');
+    expect(texts.some((t) => t.includes('Failed Tests'))).toBe(false);
+    const quarantined = texts.find((t) => t.includes('quarantined'));
+    expect(quarantined).toContain('1 quarantined test*, 1 failed or flaky');
+    expect(quarantined).toContain('checkout.spec.ts > should work');
+  });
+
   it('should limit failed test list to 5 entries', () => {
     const tests = Array.from({ length: 10 }, (_, i) => ({
       id: `t${i}`, file: `test${i}.spec.ts`, title: `test ${i}`, project: 'default',
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  findTestDeclarations,
+  findTestTags,
+  formatTestLocation,
+  parseTestLocation,
+} from '../utils/test-location.js';
+
+describe('findTestDeclarations', () => {
+  it('should return the line of every test declaration', () => {
+    const source = [
+      "import { test, expect } from '@playwright/test';",
+      '',
+      "test('first', async ({ page }) => {",
+      "  await page.goto('/');",
+      '});',
+      '',
+      "test.only(\"second\", async () => {});",
+      'test.fixme(`third`, async () => {});',
+    ].join('\n');
+
+    expect(findTestDeclarations(source)).toEqual([3, 7, 8]);
+  });
+
+  it('should ignore conditional skips inside a test body', () => {
+    const source = [
+      "test('runs on chromium only', async ({ browserName }) => {",
+      "  test.skip(browserName !== 'chromium');",
+      '});',
+    ].join('\n');
+
+    expect(findTestDeclarations(source)).toEqual([1]);
+  });
+
+  it('should report a loop-generated declaration once', () => {
+    const source = [
+      'for (const name of names) {',
+      '  test(`case ${name}`, async () => {});',
+      '}',
+    ].join('\n');
+
+    expect(findTestDeclarations(source)).toEqual([2]);
+  });
+
+  it('should not match describe blocks or hooks', () => {
+    const source = [
+      "test.describe('group', () => {",
+      '  test.beforeEach(async () => {});',
+      "  test('inner', async () => {});",
+      '});',
+    ].join('\n');
+
+    expect(findTestDeclarations(source)).toEqual([3]);
+  });
+
+  it('should return empty array for a file without tests', () => {
+    expect(findTestDeclarations('export const helper = 1;\n')).toEqual([]);
+  });
+});
+
+describe('findTestTags', () => {
+  it('should find tags in titles and tag options, deduplicated and sorted', () => {
+    const source = [
+      "test('checkout @smoke', async ({ page }) => {});",
+      "test('refund', { tag: ['@payments', '@smoke'] }, async () => {});",
+      "test.describe('admin @slow-suite', () => {});",
+    ].join('\n');
+
+    expect(findTestTags(source)).toEqual(['@payments', '@slow-suite', '@smoke']);
+  });
+
+  it('should ignore e-mail addresses and decorator-like member access', () => {
+    const source = "await page.fill('#email', 'user@example.com'); foo.@bar;";
+    expect(findTestTags(source)).toEqual([]);
+  });
+
+  it('should return an empty list for a file without tags', () => {
+    expect(findTestTags("test('plain', async () => {});")).toEqual([]);
+  });
+});
+
+describe('formatTestLocation', () => {
+  it('should format a file without a line', () => {
+    expect(formatTestLocation({ file: 'tests/a.spec.ts' })).toBe('tests/a.spec.ts');
+  });
+
+  it('should append the line as a Playwright location filter', () => {
+    expect(formatTestLocation({ file: 'tests/a.spec.ts', line: 42 })).toBe('tests/a.spec.ts:42');
+  });
+});
+
+describe('parseTestLocation', () => {
+  it('should round-trip formatted locations', () => {
+    expect(parseTestLocation('tests/a.spec.ts:42')).toEqual({ file: 'tests/a.spec.ts', line: 42 });
+    expect(parseTestLocation('tests/a.spec.ts')).toEqual({ file: 'tests/a.spec.ts' });
+  });
+});
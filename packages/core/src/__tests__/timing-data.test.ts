@@ -8,6 +8,10 @@ import {
   readTimingData,
   writeTimingData,
   updateTimingData,
+  computePercentile,
+  estimateDuration,
+  overrideFileDuration,
+  partitionStaleTimingData,
   DEFAULT_TIMING_DATA_PATH,
   type ShardTimingData,
   type TestResult,
@@ -169,6 +173,7 @@ describe('updateTimingData', () => {
     startedAt: overrides.startedAt ?? new Date().toISOString(),
     workerId: overrides.workerId ?? 0,
     shardIndex: overrides.shardIndex,
+    line: overrides.line,
   });
 
   it('should create new entries for first-time tests', () => {
@@ -263,18 +268,65 @@ describe('updateTimingData', () => {
     expect(updated[0]!.p95Duration).toBe(2000);
   });
 
-  it('should slowly decay p95 when new duration is below it', () => {
+  it('should let p95 recover from a one-off outlier', () => {
+    let data: ShardTimingData[] = [
+      { testId: 'test1', file: 'a.spec.ts', project: 'default', avgDuration: 5000, p95Duration: 5000, samples: 1, stdDev: 0, lastDurations: [5000] },
+    ];
+
+    for (let i = 0; i < 30; i++) {
+      data = updateTimingData(data, [makeTestResult({ id: 'test1', file: 'a.spec.ts', duration: 1000 })]);
+    }
+
+    // The outlier's weight in the sketch decays until it no longer reaches the 95th percentile
+    expect(data[0]!.p95Duration).toBe(1000);
+    expect(data[0]!.medianDuration).toBe(1000);
+  });
+
+  it('should persist a quantile sketch, seeded from the window for older entries', () => {
     const existing: ShardTimingData[] = [
-      { testId: 'test1', file: 'a.spec.ts', project: 'default', avgDuration: 1000, p95Duration: 1200, samples: 5, stdDev: 0, lastDurations: [] },
+      { testId: 'test1', file: 'a.spec.ts', project: 'default', avgDuration: 1000, p95Duration: 1000, samples: 3, stdDev: 0, lastDurations: [900, 1000, 1100] },
+    ];
+
+    const updated = updateTimingData(existing, [makeTestResult({ id: 'test1', file: 'a.spec.ts', duration: 1200 })]);
+    const weight = updated[0]!.sketch!.centroids.reduce((sum, [, w]) => sum + w, 0);
+
+    expect(weight).toBeGreaterThan(3.5);
+    expect(updated[0]!.medianDuration).toBeGreaterThanOrEqual(1000);
+    expect(updated[0]!.medianDuration).toBeLessThanOrEqual(1100);
+  });
+
+  it('should track an exponentially-weighted average that follows slowdowns', () => {
+    const existing: ShardTimingData[] = [
+      { testId: 'test1', file: 'a.spec.ts', project: 'default', avgDuration: 1000, p95Duration: 1000, ewmaDuration: 1000, samples: 50, stdDev: 0, lastDurations: [1000] },
     ];
 
     const results: TestResult[] = [
-      makeTestResult({ id: 'test1', file: 'a.spec.ts', duration: 800 }),
+      makeTestResult({ id: 'test1', file: 'a.spec.ts', duration: 3000 }),
     ];
 
     const updated = updateTimingData(existing, results);
-    // p95 should stay at max(1200, 1200*0.95 + 800*0.05) = max(1200, 1180) = 1200
-    expect(updated[0]!.p95Duration).toBe(1200);
+    // 0.3 * 3000 + 0.7 * 1000
+    expect(updated[0]!.ewmaDuration).toBe(1600);
+    expect(updated[0]!.avgDuration).toBe(1039);
+  });
+
+  it('should seed the EWMA from avgDuration for entries written before it existed', () => {
+    const existing: ShardTimingData[] = [
+      { testId: 'test1', file: 'a.spec.ts', project: 'default', avgDuration: 2000, p95Duration: 2000, samples: 5, stdDev: 0, lastDurations: [] },
+    ];
+
+    const updated = updateTimingData(existing, [makeTestResult({ id: 'test1', file: 'a.spec.ts', duration: 1000 })]);
+    expect(updated[0]!.ewmaDuration).toBe(1700);
+  });
+
+  it('should track a median that ignores a one-off outlier', () => {
+    const existing: ShardTimingData[] = [
+      { testId: 'test1', file: 'a.spec.ts', project: 'default', avgDuration: 1040, p95Duration: 1100, samples: 5, stdDev: 0, lastDurations: [1000, 1100, 1000, 1100, 1000] },
+    ];
+
+    const updated = updateTimingData(existing, [makeTestResult({ id: 'test1', file: 'a.spec.ts', duration: 9000 })]);
+    expect(updated[0]!.medianDuration).toBeGreaterThanOrEqual(1000);
+    expect(updated[0]!.medianDuration).toBeLessThanOrEqual(1100);
   });
 
   it('should handle failed tests (still valid timing data)', () => {
@@ -296,6 +348,197 @@ describe('updateTimingData', () => {
     expect(updated).toHaveLength(1);
     expect(updated[0]!.avgDuration).toBe(30000);
   });
+
+  it('should record the test declaration line and keep it when a result lacks one', () => {
+    const first = updateTimingData([], [
+      makeTestResult({ id: 'test1', file: 'a.spec.ts', line: 12 }),
+    ]);
+    expect(first[0]!.line).toBe(12);
+
+    const moved = updateTimingData(first, [
+      makeTestResult({ id: 'test1', file: 'a.spec.ts', line: 20 }),
+    ]);
+    expect(moved[0]!.line).toBe(20);
+
+    const unknown = updateTimingData(moved, [
+      makeTestResult({ id: 'test1', file: 'a.spec.ts' }),
+    ]);
+    expect(unknown[0]!.line).toBe(20);
+  });
+
+  it('should record when each test last ran', () => {
+    const updated = updateTimingData([], [
+      makeTestResult({ id: 'test1', file: 'a.spec.ts', startedAt: '2025-06-01T12:00:00.000Z' }),
+    ]);
+
+    expect(updated[0]!.lastSeen).toBe('2025-06-01T12:00:00.000Z');
+  });
+
+  it('should not move lastSeen back when an older report is merged', () => {
+    const existing: ShardTimingData[] = [
+      { testId: 'test1', file: 'a.spec.ts', project: 'default', avgDuration: 5000, p95Duration: 5000, samples: 3, stdDev: 0, lastDurations: [5000], lastSeen: '2026-01-01T00:00:00.000Z' },
+    ];
+
+    const updated = updateTimingData(existing, [
+      makeTestResult({ id: 'test1', file: 'a.spec.ts', startedAt: '2025-01-01T00:00:00.000Z' }),
+    ]);
+
+    expect(updated[0]!.samples).toBe(4);
+    expect(updated[0]!.lastSeen).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('should refresh lastSeen for skipped tests without adding a sample', () => {
+    const existing: ShardTimingData[] = [
+      { testId: 'test1', file: 'a.spec.ts', project: 'default', avgDuration: 5000, p95Duration: 5000, samples: 3, stdDev: 0, lastDurations: [], lastSeen: '2020-01-01T00:00:00.000Z' },
+    ];
+
+    const updated = updateTimingData(existing, [
+      makeTestResult({ id: 'test1', file: 'a.spec.ts', status: 'skipped', duration: 0, startedAt: '2025-06-01T12:00:00.000Z' }),
+      makeTestResult({ id: 'test2', file: 'b.spec.ts', status: 'skipped', duration: 0 }),
+    ]);
+
+    expect(updated).toHaveLength(1);
+    expect(updated[0]!.samples).toBe(3);
+    expect(updated[0]!.lastSeen).toBe('2025-06-01T12:00:00.000Z');
+  });
+
+  it('should keep a manual override as new samples arrive', () => {
+    const existing: ShardTimingData[] = [
+      { testId: 'test1', file: 'a.spec.ts', project: 'default', avgDuration: 5000, p95Duration: 5000, samples: 3, stdDev: 0, lastDurations: [], overrideDuration: 9000 },
+    ];
+
+    const updated = updateTimingData(existing, [makeTestResult({ id: 'test1', file: 'a.spec.ts', duration: 2500 })]);
+
+    expect(updated[0]!.overrideDuration).toBe(9000);
+    expect(updated[0]!.samples).toBe(4);
+  });
+});
+
+describe('partitionStaleTimingData', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const now = new Date('2026-03-31T00:00:00.000Z');
+  const entry = (testId: string, file: string, lastSeen?: string): ShardTimingData => ({
+    testId, file, project: 'default', avgDuration: 1000, p95Duration: 1000,
+    samples: 1, stdDev: 0, lastDurations: [1000], lastSeen,
+  });
+
+  it('should mark entries not seen within maxAgeMs as stale', () => {
+    const data = [
+      entry('recent', 'a.spec.ts', '2026-03-30T00:00:00.000Z'),
+      entry('old', 'b.spec.ts', '2026-01-01T00:00:00.000Z'),
+    ];
+
+    const { fresh, stale } = partitionStaleTimingData(data, { maxAgeMs: 30 * DAY, now });
+
+    expect(fresh.map((e) => e.testId)).toEqual(['recent']);
+    expect(stale.map((e) => e.testId)).toEqual(['old']);
+  });
+
+  it('should never age out entries without lastSeen', () => {
+    const { stale } = partitionStaleTimingData([entry('legacy', 'a.spec.ts')], { maxAgeMs: 0, now });
+    expect(stale).toHaveLength(0);
+  });
+
+  it('should mark entries whose file is gone as stale, checking each file once', () => {
+    const checked: string[] = [];
+    const data = [
+      entry('t1', 'kept.spec.ts'),
+      entry('t2', 'deleted.spec.ts'),
+      entry('t3', 'deleted.spec.ts'),
+    ];
+
+    const { fresh, stale } = partitionStaleTimingData(data, {
+      fileExists: (file) => {
+        checked.push(file);
+        return file === 'kept.spec.ts';
+      },
+    });
+
+    expect(fresh.map((e) => e.testId)).toEqual(['t1']);
+    expect(stale.map((e) => e.testId)).toEqual(['t2', 't3']);
+    expect(checked).toEqual(['kept.spec.ts', 'deleted.spec.ts']);
+  });
+
+  it('should keep everything when no criteria are given', () => {
+    const { fresh } = partitionStaleTimingData([entry('t1', 'a.spec.ts', '2000-01-01T00:00:00.000Z')], {});
+    expect(fresh).toHaveLength(1);
+  });
+});
+
+describe('computePercentile', () => {
+  it('should return 0 for an empty list', () => {
+    expect(computePercentile([], 95)).toBe(0);
+  });
+
+  it('should pick the nearest-rank value', () => {
+    const durations = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+    expect(computePercentile(durations, 50)).toBe(50);
+    expect(computePercentile(durations, 95)).toBe(100);
+    expect(computePercentile(durations, 0)).toBe(10);
+  });
+
+  it('should not depend on input order', () => {
+    expect(computePercentile([300, 100, 200], 50)).toBe(200);
+  });
+});
+
+describe('estimateDuration', () => {
+  const entry: ShardTimingData = {
+    testId: 'test1', file: 'a.spec.ts', project: 'default',
+    avgDuration: 1000, p95Duration: 2500, ewmaDuration: 1400, medianDuration: 900,
+    samples: 10, stdDev: 0, lastDurations: [800, 900, 2500],
+  };
+
+  it('should return the statistic for each estimator', () => {
+    expect(estimateDuration(entry, 'mean')).toBe(1000);
+    expect(estimateDuration(entry, 'ewma')).toBe(1400);
+    expect(estimateDuration(entry, 'median')).toBe(900);
+    expect(estimateDuration(entry, 'p95')).toBe(2500);
+  });
+
+  it('should fall back when an entry predates the estimator', () => {
+    const legacy: ShardTimingData = { ...entry, ewmaDuration: undefined, medianDuration: undefined };
+    expect(estimateDuration(legacy, 'ewma')).toBe(1000);
+    expect(estimateDuration(legacy, 'median')).toBe(900);
+    expect(estimateDuration({ ...legacy, lastDurations: [] }, 'median')).toBe(1000);
+  });
+
+  it('should prefer a manual override over every estimator', () => {
+    const overridden: ShardTimingData = { ...entry, overrideDuration: 6000 };
+    expect(estimateDuration(overridden, 'mean')).toBe(6000);
+    expect(estimateDuration(overridden, 'p95')).toBe(6000);
+  });
+});
+
+describe('overrideFileDuration', () => {
+  const entry = (testId: string, file: string, avgDuration: number): ShardTimingData => ({
+    testId, file, project: 'default', avgDuration, p95Duration: avgDuration,
+    samples: 1, stdDev: 0, lastDurations: [avgDuration],
+  });
+  const data = [entry('a1', 'a.spec.ts', 1000), entry('a2', 'a.spec.ts', 3000), entry('b1', 'b.spec.ts', 2000)];
+
+  it('should split the file estimate across its tests by their averages', () => {
+    const updated = overrideFileDuration(data, 'a.spec.ts', 8000)!;
+
+    expect(updated.map((e) => e.overrideDuration)).toEqual([2000, 6000, undefined]);
+  });
+
+  it('should split evenly when nothing has been recorded', () => {
+    const updated = overrideFileDuration([entry('a1', 'a.spec.ts', 0), entry('a2', 'a.spec.ts', 0)], 'a.spec.ts', 5000)!;
+
+    expect(updated.map((e) => e.overrideDuration)).toEqual([2500, 2500]);
+  });
+
+  it('should clear the override when given no duration', () => {
+    const overridden = overrideFileDuration(data, 'a.spec.ts', 8000)!;
+    const cleared = overrideFileDuration(overridden, 'a.spec.ts', undefined)!;
+
+    expect(cleared.every((e) => !('overrideDuration' in e))).toBe(true);
+  });
+
+  it('should return undefined for a file without timing data', () => {
+    expect(overrideFileDuration(data, 'missing.spec.ts', 1000)).toBeUndefined();
+  });
 });
 
 describe('DEFAULT_TIMING_DATA_PATH', () => {
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import { summarizeTimingByFile, diffTimingData, type ShardTimingData } from '../index.js';
+
+function makeTiming(testId: string, file: string, avgDuration: number, overrides: Partial<ShardTimingData> = {}): ShardTimingData {
+  return {
+    testId,
+    file,
+    project: 'default',
+    avgDuration,
+    p95Duration: avgDuration * 2,
+    samples: 5,
+    stdDev: 0,
+    lastDurations: [],
+    ...overrides,
+  };
+}
+
+describe('summarizeTimingByFile', () => {
+  it('should sum estimates per file, slowest first', () => {
+    const summary = summarizeTimingByFile([
+      makeTiming('a1', 'a.spec.ts', 1000),
+      makeTiming('b1', 'b.spec.ts', 3000),
+      makeTiming('a2', 'a.spec.ts', 1500),
+    ]);
+
+    expect(summary.map((s) => [s.file, s.tests, s.estimate])).toEqual([
+      ['b.spec.ts', 1, 3000],
+      ['a.spec.ts', 2, 2500],
+    ]);
+  });
+
+  it('should combine σ as the root of summed variances and report the fewest samples', () => {
+    const [summary] = summarizeTimingByFile([
+      makeTiming('a1', 'a.spec.ts', 1000, { stdDev: 300, samples: 8 }),
+      makeTiming('a2', 'a.spec.ts', 1000, { stdDev: 400, samples: 2 }),
+    ]);
+
+    expect(summary!.stdDev).toBe(500);
+    expect(summary!.samples).toBe(2);
+  });
+
+  it('should use the requested estimator and flag overrides', () => {
+    const [summary] = summarizeTimingByFile(
+      [
+        makeTiming('a1', 'a.spec.ts', 1000),
+        makeTiming('a2', 'a.spec.ts', 1000, { overrideDuration: 500 }),
+      ],
+      'p95',
+    );
+
+    expect(summary!.estimate).toBe(2500);
+    expect(summary!.overridden).toBe(true);
+  });
+});
+
+describe('diffTimingData', () => {
+  it('should classify files and sort by the size of the change', () => {
+    const before = [
+      makeTiming('a1', 'a.spec.ts', 1000),
+      makeTiming('b1', 'b.spec.ts', 2000),
+      makeTiming('c1', 'c.spec.ts', 5000),
+    ];
+    const after = [
+      makeTiming('a1', 'a.spec.ts', 1000),
+      makeTiming('b1', 'b.spec.ts', 2500),
+      makeTiming('b2', 'b.spec.ts', 500),
+      makeTiming('d1', 'd.spec.ts', 300),
+    ];
+
+    const diff = diffTimingData(before, after);
+
+    expect(diff.map((d) => [d.file, d.status, d.before, d.after])).toEqual([
+      ['c.spec.ts', 'removed', 5000, 0],
+      ['b.spec.ts', 'changed', 2000, 3000],
+      ['d.spec.ts', 'added', 0, 300],
+      ['a.spec.ts', 'unchanged', 1000, 1000],
+    ]);
+    expect(diff.find((d) => d.file === 'b.spec.ts')).toMatchObject({ testsBefore: 1, testsAfter: 2 });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, readFile, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  writeWorkQueue,
+  readWorkQueue,
+  claimNextWorkItem,
+  WORK_QUEUE_FILE,
+  type WorkQueueItem,
+} from '../index.js';
+
+describe('work queue', () => {
+  let queueDir: string;
+
+  const items: WorkQueueItem[] = [
+    { test: 'tests/slow.spec.ts', estimatedDuration: 30_000 },
+    { test: 'tests/medium.spec.ts', estimatedDuration: 20_000 },
+    { test: 'tests/fast.spec.ts', estimatedDuration: 5_000 },
+  ];
+
+  beforeEach(async () => {
+    queueDir = join(tmpdir(), `sorry-currents-queue-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(queueDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(queueDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip queue items in order', async () => {
+    expect((await writeWorkQueue(queueDir, items)).ok).toBe(true);
+
+    const result = await readWorkQueue(queueDir);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toEqual(items);
+    }
+  });
+
+  it('should return an error when the queue file is missing', async () => {
+    const result = await readWorkQueue(queueDir);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('FILE_NOT_FOUND');
+    }
+  });
+
+  it('should return a validation error for malformed items', async () => {
+    await writeFile(join(queueDir, WORK_QUEUE_FILE), JSON.stringify([{ test: '' }]), 'utf-8');
+
+    const result = await readWorkQueue(queueDir);
+    expect(result.ok).toBe(false);
+  });
+
+  it('should hand each item to exactly one claimant', async () => {
+    await writeWorkQueue(queueDir, items);
+
+    const claims = await Promise.all(
+      Array.from({ length: 5 }, (_, i) => claimNextWorkItem(queueDir, items, `runner-${i}`)),
+    );
+
+    const indices = claims
+      .map((c) => (c.ok ? c.value?.index : undefined))
+      .filter((i): i is number => i !== undefined);
+
+    // All five start at index 0 — the mkdir race decides who gets what
+    expect(new Set(indices).size).toBe(indices.length);
+  });
+
+  it('should claim items in queue order and return undefined when drained', async () => {
+    await writeWorkQueue(queueDir, items);
+
+    const taken: string[] = [];
+    let next = 0;
+    for (;;) {
+      const claim = await claimNextWorkItem(queueDir, items, 'runner-1', next);
+      expect(claim.ok).toBe(true);
+      if (!claim.ok || !claim.value) break;
+      taken.push(claim.value.item.test);
+      next = claim.value.index + 1;
+    }
+
+    expect(taken).toEqual(items.map((i) => i.test));
+    const owner = await readFile(join(queueDir, 'claims', '0', 'runner'), 'utf-8');
+    expect(owner.trim()).toBe('runner-1');
+  });
+
+  it('should discard previous claims when a new queue is written', async () => {
+    await writeWorkQueue(queueDir, items);
+    await claimNextWorkItem(queueDir, items, 'runner-1');
+    expect(existsSync(join(queueDir, 'claims', '0'))).toBe(true);
+
+    await writeWorkQueue(queueDir, items);
+    expect(existsSync(join(queueDir, 'claims', '0'))).toBe(false);
+
+    const claim = await claimNextWorkItem(queueDir, items, 'runner-2');
+    expect(claim.ok && claim.value?.index).toBe(0);
+  });
+});
@@ -86,6 +86,10 @@ export class AppError {
     );
   }
 
+  static shardPlanMismatch(message: string, context?: Record<string, unknown>): AppError {
+    return new AppError(ErrorCode.SHARD_PLAN_MISMATCH, message, context);
+  }
+
   static githubApiError(message: string, context?: Record<string, unknown>, cause?: Error): AppError {
     return new AppError(ErrorCode.GITHUB_API_ERROR, message, context, cause);
   }
@@ -20,12 +20,18 @@ export {
   type Annotation,
   AttachmentSchema,
   type Attachment,
+  CrashedShardSchema,
+  type CrashedShard,
+  DurationSketchSchema,
+  type DurationSketch,
   EnvironmentInfoSchema,
   type EnvironmentInfo,
   ErrorSummarySchema,
   type ErrorSummary,
   TestHistorySchema,
   type TestHistory,
+  TEST_OUTCOMES,
+  type TestOutcome,
   GitInfoSchema,
   type GitInfo,
   InitConfigSchema,
@@ -34,6 +40,18 @@ export {
   PACKAGE_MANAGERS,
   type InitConfig,
   type GeneratedFile,
+  PlanAccuracySchema,
+  ShardAccuracySchema,
+  FileEstimateErrorSchema,
+  type PlanAccuracy,
+  type ShardAccuracy,
+  type FileEstimateError,
+  QuarantineEntrySchema,
+  QuarantineListSchema,
+  type QuarantineEntry,
+  type QuarantineList,
+  PlannedTestSchema,
+  type PlannedTest,
   ReporterOptionsSchema,
   type ReporterOptions,
   RunConfigSchema,
@@ -41,43 +59,146 @@ export {
   RunResultSchema,
   RUN_STATUSES,
   type RunResult,
+  RunEventSchema,
+  RunBeginEventSchema,
+  TestBeginEventSchema,
+  TestEndEventSchema,
+  RunEndEventSchema,
+  BatchBeginEventSchema,
+  BatchEndEventSchema,
+  type RunEvent,
+  type RunBeginEvent,
+  type TestBeginEvent,
+  type TestEndEvent,
+  type RunEndEvent,
+  type BatchBeginEvent,
+  type BatchEndEvent,
   ShardAssignmentSchema,
   ShardPlanSchema,
+  ShardProjectGroupSchema,
   SHARD_STRATEGIES,
   type ShardAssignment,
   type ShardPlan,
+  type ShardProjectGroup,
+  ShardConstraintsSchema,
+  ShardPinSchema,
+  type ShardConstraints,
+  type ShardPin,
+  ShardOverheadSchema,
+  type ShardOverhead,
   ShardTimingDataSchema,
   MAX_DURATION_WINDOW,
+  DURATION_ESTIMATORS,
   type ShardTimingData,
+  type DurationEstimator,
   TestErrorSchema,
   type TestError,
   TestResultSchema,
+  TestAttemptSchema,
+  TestStepSchema,
   TEST_STATUSES,
   type TestResult,
+  type TestAttempt,
+  type TestStep,
   VersionedDataSchema,
   type VersionedData,
+  WorkQueueItemSchema,
+  type WorkQueueItem,
 } from './schemas/index.js';
 
 // Utilities
 export {
+  detectBranch,
   detectCI,
   detectFlaky,
+  failedAttemptErrors,
   formatDuration,
   generateTestId,
   mergeRunResults,
+  concatRunResults,
+  reconstructRunResult,
+  batchRunEvents,
+  readRunTestFiles,
+  readEventLog,
   normalizeError,
   readTimingData,
   writeTimingData,
   updateTimingData,
   computeStdDev,
+  computePercentile,
+  estimateDuration,
+  overrideFileDuration,
+  partitionStaleTimingData,
   DEFAULT_TIMING_DATA_PATH,
+  type StaleTimingCriteria,
+  branchDataPath,
+  overlayEntries,
+  readBranchData,
+  branchEntriesToWrite,
+  removeBranchData,
+  DEFAULT_BRANCH,
+  type BranchData,
+  readQuarantine,
+  matchesQuarantineEntry,
+  markQuarantinedTests,
+  effectiveRunStatus,
+  writeQuarantine,
+  suggestQuarantineChanges,
+  applyQuarantineSuggestions,
+  DEFAULT_QUARANTINE_PATH,
+  type QuarantineCriteria,
+  type QuarantineSuggestion,
+  type QuarantineSuggestions,
+  addToSketch,
+  sketchFromDurations,
+  sketchQuantile,
+  summarizeTimingByFile,
+  diffTimingData,
+  type FileTimingSummary,
+  type FileTimingDiff,
+  playwrightJsonToTestResults,
+  playwrightBlobToTestResults,
+  playwrightBlobEventsToTestResults,
+  eventLogFileName,
+  isEventLogFileName,
+  parseRunEvents,
+  summarizeRunProgress,
+  type RunProgress,
+  junitXmlToTestResults,
+  junitXmlToRunResult,
+  JUNIT_RUN_ID_PREFIX,
+  runResultToJUnitXml,
   readHistory,
   writeHistory,
   updateHistory,
   DEFAULT_HISTORY_PATH,
+  readOverheadData,
+  writeOverheadData,
+  estimateShardOverhead,
+  updateOverheadData,
+  DEFAULT_OVERHEAD_DATA_PATH,
+  readShardConstraints,
+  checkShardConstraints,
+  DEFAULT_CONSTRAINTS_PATH,
+  type ConstraintViolation,
+  analyzePlanAccuracy,
+  readPlanAccuracy,
+  writePlanAccuracy,
+  updatePlanAccuracy,
+  DEFAULT_PLAN_ACCURACY_PATH,
   clusterErrors,
   clustersToSummaries,
   type ErrorCluster,
+  findTestDeclarations,
+  findTestTags,
+  formatTestLocation,
+  parseTestLocation,
+  type TestLocation,
+  writeWorkQueue,
+  readWorkQueue,
+  claimNextWorkItem,
+  WORK_QUEUE_FILE,
+  type WorkQueueClaim,
 } from './utils/index.js';
 
 // Notifications (payload builders — pure, no I/O)
@@ -1,4 +1,4 @@
-import type { RunResult, TestResult } from '../schemas/index.js';
+import type { PlanAccuracy, RunResult, TestResult } from '../schemas/index.js';
 import { formatDuration } from '../utils/format-duration.js';
 
 /**
@@ -21,17 +21,22 @@ export interface GitHubCommentOptions {
   readonly repo: string;
   readonly prNumber: number;
   readonly reportUrl?: string;
+  /** Predicted vs actual shard durations for this run, when it ran from a shard plan */
+  readonly planAccuracy?: PlanAccuracy;
 }
 
 /** Marker used to identify and update existing sorry-currents comments */
 const COMMENT_MARKER = '<!-- sorry-currents-report -->';
 
+/** Tests listed per crashed shard — the full list is in the HTML report */
+const MAX_MISSING_TESTS = 20;
+
 /**
  * Build the markdown body for a GitHub PR comment.
  * Pure function — no I/O.
  */
 export function buildGitHubCommentBody(options: GitHubCommentOptions): GitHubCommentPayload {
-  const { runResult, owner, repo, prNumber, reportUrl } = options;
+  const { runResult, owner, repo, prNumber, reportUrl, planAccuracy } = options;
 
   const statusIcon = runResult.status === 'passed' ? '✅' : '❌';
   const lines: string[] = [
@@ -45,13 +50,31 @@ export function buildGitHubCommentBody(options: GitHubCommentOptions): GitHubCom
     `| Failed | ${runResult.failedTests} ❌ |`,
     `| Flaky  | ${runResult.flakyTests} ⚠️ |`,
     `| Skipped | ${runResult.skippedTests} |`,
+    ...(runResult.quarantinedTests ? [`| Quarantined | ${runResult.quarantinedTests} 🔒 |`] : []),
     `| Duration | ${formatDuration(runResult.duration)} |`,
     `| Shards | ${runResult.shardCount} |`,
     '',
   ];
 
+  for (const crash of runResult.crashedShards ?? []) {
+    lines.push(
+      `### 💥 Shard ${crash.shardIndex ?? 1} crashed`,
+      '',
+      `${crash.reportedTests} tests reported before the shard stopped; ${crash.missingTests.length} never did.`,
+      '',
+    );
+    const shown = crash.missingTests.slice(0, MAX_MISSING_TESTS);
+    for (const t of shown) {
+      lines.push(`- \`${t.file} > ${t.title}\``);
+    }
+    if (crash.missingTests.length > shown.length) {
+      lines.push(`- …and ${crash.missingTests.length - shown.length} more`);
+    }
+    if (shown.length > 0) lines.push('');
+  }
+
   const failed = runResult.tests.filter(
-    (t: TestResult) => t.status === 'failed' || t.status === 'timedOut',
+    (t: TestResult) => !t.quarantined && (t.status === 'failed' || t.status === 'timedOut'),
   );
   if (failed.length > 0) {
     lines.push('### ❌ Failed Tests', '');
@@ -69,7 +92,7 @@ export function buildGitHubCommentBody(options: GitHubCommentOptions): GitHubCom
     lines.push('');
   }
 
-  const flaky = runResult.tests.filter((t: TestResult) => t.isFlaky);
+  const flaky = runResult.tests.filter((t: TestResult) => !t.quarantined && t.isFlaky);
   if (flaky.length > 0) {
     lines.push('### ⚠️ Flaky Tests (passed on retry)', '');
     lines.push('| Test | Retries |');
@@ -80,6 +103,37 @@ export function buildGitHubCommentBody(options: GitHubCommentOptions): GitHubCom
     lines.push('');
   }
 
+  const quarantined = runResult.tests.filter((t: TestResult) => t.quarantined);
+  if (quarantined.length > 0) {
+    lines.push('### 🔒 Quarantined Tests (don\'t fail the run)', '');
+    lines.push('| Test | Result | Retries |');
+    lines.push('|------|--------|---------|');
+    for (const t of quarantined) {
+      const result = t.isFlaky ? 'flaky' : t.status;
+      lines.push(`| \`${t.file} > ${t.title}\` | ${result} | ${t.retries} |`);
+    }
+    lines.push('');
+  }
+
+  if (planAccuracy && planAccuracy.shards.length > 1) {
+    lines.push('### ⚖️ Shard Balance', '');
+    lines.push(
+      `Balance ratio **${planAccuracy.balanceRatio}** (longest ÷ shortest shard) · ` +
+        `prediction error ${planAccuracy.meanAbsolutePercentError}%`,
+      '',
+    );
+    lines.push('| Shard | Predicted | Actual | Diff |');
+    lines.push('|-------|-----------|--------|------|');
+    for (const s of planAccuracy.shards) {
+      const diff = s.predicted > 0 ? ((s.actual - s.predicted) / s.predicted) * 100 : 0;
+      lines.push(
+        `| ${s.shardIndex} | ${formatDuration(s.predicted)} | ${formatDuration(s.actual)} | ` +
+          `${diff >= 0 ? '+' : ''}${diff.toFixed(1)}% |`,
+      );
+    }
+    lines.push('');
+  }
+
   const footer: string[] = [];
   if (reportUrl) {
     footer.push(`📊 [Full Report](${reportUrl})`);
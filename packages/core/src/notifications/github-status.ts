@@ -51,6 +51,9 @@ export function buildGitHubStatusPayload(options: GitHubStatusOptions): GitHubSt
   if (flaky > 0) {
     description += `, ${flaky} flaky`;
   }
+  if (runResult.quarantinedTests) {
+    description += `, ${runResult.quarantinedTests} quarantined`;
+  }
   description += ` (${duration})`;
 
   if (description.length > 140) {
@@ -81,7 +81,7 @@ export function buildSlackPayload(options: SlackNotifyOptions): SlackPayload {
 
   // Add failed test details (max 5 to keep message compact)
   const failed = runResult.tests.filter(
-    (t: TestResult) => t.status === 'failed' || t.status === 'timedOut',
+    (t: TestResult) => !t.quarantined && (t.status === 'failed' || t.status === 'timedOut'),
   );
   if (failed.length > 0) {
     const failedLines = failed.slice(0, 5).map((t: TestResult) => {
@@ -103,6 +103,31 @@ export function buildSlackPayload(options: SlackNotifyOptions): SlackPayload {
     });
   }
 
+  // Quarantined tests ran but can't fail the run — list the ones that failed anyway
+  const quarantined = runResult.tests.filter((t: TestResult) => t.quarantined);
+  if (quarantined.length > 0) {
+    const failing = quarantined.filter(
+      (t: TestResult) => t.isFlaky || t.status === 'failed' || t.status === 'timedOut',
+    );
+    const quarantinedLines = failing.slice(0, 5).map(
+      (t: TestResult) => `• \`${t.file} > ${t.title}\` — ${t.isFlaky ? 'flaky' : t.status}`,
+    );
+    if (failing.length > 5) {
+      quarantinedLines.push(`_...and ${failing.length - 5} more_`);
+    }
+
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: [
+          `:lock: *${quarantined.length} quarantined test${quarantined.length === 1 ? '' : 's'}*, ${failing.length} failed or flaky`,
+          ...quarantinedLines,
+        ].join('\n'),
+      },
+    });
+  }
+
   // Add report link if available
   if (reportUrl) {
     blocks.push({
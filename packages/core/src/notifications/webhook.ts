@@ -20,6 +20,7 @@ interface WebhookResultSummary {
   readonly failedTests: number;
   readonly flakyTests: number;
   readonly skippedTests: number;
+  readonly quarantinedTests: number;
   readonly shardCount: number;
 }
 
@@ -37,6 +38,7 @@ interface WebhookTestSummary {
   readonly status: string;
   readonly duration: number;
   readonly isFlaky: boolean;
+  readonly quarantined: boolean;
   readonly errors: readonly string[];
 }
 
@@ -57,6 +59,7 @@ export function buildWebhookPayload(runResult: RunResult): WebhookPayload {
       failedTests: runResult.failedTests,
       flakyTests: runResult.flakyTests,
       skippedTests: runResult.skippedTests,
+      quarantinedTests: runResult.quarantinedTests ?? 0,
       shardCount: runResult.shardCount,
     },
     git: {
@@ -72,6 +75,7 @@ export function buildWebhookPayload(runResult: RunResult): WebhookPayload {
       status: t.status,
       duration: t.duration,
       isFlaky: t.isFlaky,
+      quarantined: t.quarantined ?? false,
       errors: t.errors.map((e) => e.message),
     })),
   };
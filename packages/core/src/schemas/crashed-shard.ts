@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+import { PlannedTestSchema } from './planned-test.js';
+
+/**
+ * A shard whose Playwright process died before the reporter's `onEnd` — its
+ * result was rebuilt by `merge` from the per-test files it had written.
+ */
+export const CrashedShardSchema = z.object({
+  runId: z.string().min(1),
+  shardIndex: z.number().int().positive().optional(),
+  /** Tests that wrote a result before the crash */
+  reportedTests: z.number().int().nonnegative(),
+  /** Tests the shard was going to run that never reported */
+  missingTests: z.array(PlannedTestSchema),
+});
+
+export type CrashedShard = z.infer<typeof CrashedShardSchema>;
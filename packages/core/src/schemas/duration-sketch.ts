@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/**
+ * Compact t-digest of a test's durations — accurate percentiles without
+ * storing every sample. Older runs carry exponentially less weight, so the
+ * distribution follows the test as it gets faster or slower.
+ */
+export const DurationSketchSchema = z.object({
+  /** Centroids as `[mean, weight]` pairs, sorted by mean. */
+  centroids: z.array(z.tuple([z.number().nonnegative(), z.number().positive()])),
+});
+
+export type DurationSketch = z.infer<typeof DurationSketchSchema>;
@@ -1,7 +1,16 @@
 export { AnnotationSchema, type Annotation } from './annotation.js';
 export { AttachmentSchema, type Attachment } from './attachment.js';
+export { CrashedShardSchema, type CrashedShard } from './crashed-shard.js';
+export { DurationSketchSchema, type DurationSketch } from './duration-sketch.js';
 export { EnvironmentInfoSchema, type EnvironmentInfo } from './environment-info.js';
-export { ErrorSummarySchema, type ErrorSummary, TestHistorySchema, type TestHistory } from './test-history.js';
+export {
+  ErrorSummarySchema,
+  type ErrorSummary,
+  TestHistorySchema,
+  type TestHistory,
+  TEST_OUTCOMES,
+  type TestOutcome,
+} from './test-history.js';
 export { GitInfoSchema, type GitInfo } from './git-info.js';
 export {
   InitConfigSchema,
@@ -11,17 +20,72 @@ export {
   type InitConfig,
   type GeneratedFile,
 } from './init-config.js';
+export {
+  PlanAccuracySchema,
+  ShardAccuracySchema,
+  FileEstimateErrorSchema,
+  type PlanAccuracy,
+  type ShardAccuracy,
+  type FileEstimateError,
+} from './plan-accuracy.js';
+export {
+  QuarantineEntrySchema,
+  QuarantineListSchema,
+  type QuarantineEntry,
+  type QuarantineList,
+} from './quarantine.js';
+export { PlannedTestSchema, type PlannedTest } from './planned-test.js';
 export { ReporterOptionsSchema, type ReporterOptions } from './reporter-options.js';
 export { RunConfigSchema, type RunConfig } from './run-config.js';
 export { RunResultSchema, RUN_STATUSES, type RunResult } from './run-result.js';
+export {
+  RunEventSchema,
+  RunBeginEventSchema,
+  TestBeginEventSchema,
+  TestEndEventSchema,
+  RunEndEventSchema,
+  BatchBeginEventSchema,
+  BatchEndEventSchema,
+  type RunEvent,
+  type RunBeginEvent,
+  type TestBeginEvent,
+  type TestEndEvent,
+  type RunEndEvent,
+  type BatchBeginEvent,
+  type BatchEndEvent,
+} from './run-event.js';
 export {
   ShardAssignmentSchema,
   ShardPlanSchema,
+  ShardProjectGroupSchema,
   SHARD_STRATEGIES,
   type ShardAssignment,
   type ShardPlan,
+  type ShardProjectGroup,
 } from './shard-plan.js';
-export { ShardTimingDataSchema, MAX_DURATION_WINDOW, type ShardTimingData } from './shard-timing-data.js';
+export {
+  ShardConstraintsSchema,
+  ShardPinSchema,
+  type ShardConstraints,
+  type ShardPin,
+} from './shard-constraints.js';
+export { ShardOverheadSchema, type ShardOverhead } from './shard-overhead.js';
+export {
+  ShardTimingDataSchema,
+  MAX_DURATION_WINDOW,
+  DURATION_ESTIMATORS,
+  type ShardTimingData,
+  type DurationEstimator,
+} from './shard-timing-data.js';
 export { TestErrorSchema, type TestError } from './test-error.js';
-export { TestResultSchema, TEST_STATUSES, type TestResult } from './test-result.js';
+export {
+  TestResultSchema,
+  TestAttemptSchema,
+  TestStepSchema,
+  TEST_STATUSES,
+  type TestResult,
+  type TestAttempt,
+  type TestStep,
+} from './test-result.js';
 export { VersionedDataSchema, type VersionedData } from './versioned-data.js';
+export { WorkQueueItemSchema, type WorkQueueItem } from './work-queue.js';
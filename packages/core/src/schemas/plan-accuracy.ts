@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+import { SHARD_STRATEGIES } from './shard-plan.js';
+
+/** One shard's planned duration next to how long it actually took */
+export const ShardAccuracySchema = z.object({
+  shardIndex: z.number().int().positive(),
+  predicted: z.number().nonnegative(),
+  actual: z.number().nonnegative(),
+  /** Runner capacity the shard was planned for, when the plan had runner weights */
+  capacity: z.number().positive().optional(),
+});
+
+export type ShardAccuracy = z.infer<typeof ShardAccuracySchema>;
+
+/** A spec file's estimated duration next to its actual summed test time */
+export const FileEstimateErrorSchema = z.object({
+  file: z.string(),
+  predicted: z.number().nonnegative(),
+  actual: z.number().nonnegative(),
+});
+
+export type FileEstimateError = z.infer<typeof FileEstimateErrorSchema>;
+
+/**
+ * How well a shard plan matched the run it planned — one entry per merged run.
+ */
+export const PlanAccuracySchema = z.object({
+  runId: z.string(),
+  timestamp: z.string().datetime(),
+  strategy: z.enum(SHARD_STRATEGIES),
+  shards: z.array(ShardAccuracySchema),
+  /** Longest actual shard over the shortest — 1 means perfectly balanced */
+  balanceRatio: z.number().nonnegative(),
+  /** Mean of |actual − predicted| / predicted across shards, in percent */
+  meanAbsolutePercentError: z.number().nonnegative(),
+  /** Files whose estimates were furthest off, worst first */
+  worstFiles: z.array(FileEstimateErrorSchema),
+});
+
+export type PlanAccuracy = z.infer<typeof PlanAccuracySchema>;
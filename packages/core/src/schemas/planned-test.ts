@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+/** A test a shard is going to run, identified as in its result */
+export const PlannedTestSchema = z.object({
+  id: z.string().min(1),
+  file: z.string(),
+  title: z.string(),
+  project: z.string(),
+});
+
+export type PlannedTest = z.infer<typeof PlannedTestSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * A quarantined test, or every test in a spec file when `title` is omitted.
+ * `title` matches the test's own title or its trailing `describe > title` path.
+ */
+export const QuarantineEntrySchema = z.object({
+  /** Spec file path as it appears in run results */
+  file: z.string().min(1),
+  title: z.string().min(1).optional(),
+  /** Limit the entry to one Playwright project — every project when omitted */
+  project: z.string().optional(),
+  /** Why the test is quarantined, e.g. a link to the tracking issue */
+  reason: z.string().optional(),
+  addedAt: z.string().datetime().optional(),
+});
+
+export type QuarantineEntry = z.infer<typeof QuarantineEntrySchema>;
+
+/**
+ * Known-flaky tests whose failures don't fail the run. They still run and are
+ * reported separately. Hand-edited — usually `.sorry-currents/quarantine.json`.
+ */
+export const QuarantineListSchema = z.object({
+  tests: z.array(QuarantineEntrySchema).default([]),
+});
+
+export type QuarantineList = z.infer<typeof QuarantineListSchema>;
@@ -6,6 +6,13 @@ export const ReporterOptionsSchema = z.object({
   attachArtifacts: z.boolean().default(true),
   artifactsDir: z.string().default('test-results'),
   silent: z.boolean().default(false),
+  /**
+   * Which attempts keep their stdout and stderr: those that failed, timed out
+   * or were interrupted, every attempt, or none
+   */
+  captureOutput: z.enum(['failures', 'always', 'never']).default('failures'),
+  /** Bytes kept per stream and test — the end of the output is kept, the start dropped */
+  maxOutputSize: z.number().int().nonnegative().default(8192),
 });
 
 export type ReporterOptions = z.infer<typeof ReporterOptionsSchema>;
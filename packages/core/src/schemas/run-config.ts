@@ -2,6 +2,8 @@ import { z } from 'zod';
 
 export const RunConfigSchema = z.object({
   workers: z.number().int().positive(),
+  /** Playwright `fullyParallel` — tests within a file may run on different workers. */
+  fullyParallel: z.boolean().optional(),
   projects: z.array(z.string()),
   retries: z.number().int().nonnegative(),
   timeout: z.number().nonnegative(),
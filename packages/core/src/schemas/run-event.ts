@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+import { RUN_STATUSES } from './run-result.js';
+import { TEST_STATUSES } from './test-result.js';
+import { PlannedTestSchema } from './planned-test.js';
+
+/**
+ * Events the reporter appends to a run's event log (one JSON object per line)
+ * while tests run, so progress can be followed before `run-result.json` exists.
+ */
+export const RunBeginEventSchema = z.object({
+  type: z.literal('run-begin'),
+  timestamp: z.string().datetime(),
+  runId: z.string().min(1),
+  /** Tests this shard will run */
+  totalTests: z.number().int().nonnegative(),
+  shardIndex: z.number().int().positive().optional(),
+  shardTotal: z.number().int().positive().optional(),
+  /** The tests themselves — lets `merge` tell which never reported when the shard crashes */
+  tests: z.array(PlannedTestSchema).optional(),
+});
+
+export const TestBeginEventSchema = z.object({
+  type: z.literal('test-begin'),
+  timestamp: z.string().datetime(),
+  testId: z.string().min(1),
+  title: z.string(),
+  file: z.string(),
+  project: z.string(),
+  retry: z.number().int().nonnegative(),
+});
+
+/** Sent for every attempt — a failed attempt may be followed by a retry of the same test. */
+export const TestEndEventSchema = z.object({
+  type: z.literal('test-end'),
+  timestamp: z.string().datetime(),
+  testId: z.string().min(1),
+  title: z.string(),
+  file: z.string(),
+  project: z.string(),
+  retry: z.number().int().nonnegative(),
+  status: z.enum(TEST_STATUSES),
+  duration: z.number().nonnegative(),
+  isFlaky: z.boolean(),
+  /** First line of the first error, when the attempt failed */
+  error: z.string().optional(),
+});
+
+export const RunEndEventSchema = z.object({
+  type: z.literal('run-end'),
+  timestamp: z.string().datetime(),
+  status: z.enum(RUN_STATUSES),
+  duration: z.number().nonnegative(),
+});
+
+/**
+ * One Playwright invocation of a runner that `sorry-currents run` splits into
+ * several (work-queue batches, plan project groups). The runner's log holds a
+ * single `run-begin` and `run-end` from `run`; each invocation's reporter
+ * appends its events to it between a `batch-begin` and a `batch-end`.
+ */
+export const BatchBeginEventSchema = z.object({
+  type: z.literal('batch-begin'),
+  timestamp: z.string().datetime(),
+  /** Run ID the invocation reports its own results under */
+  batchRunId: z.string().min(1),
+  /** Tests this invocation will run */
+  totalTests: z.number().int().nonnegative(),
+  tests: z.array(PlannedTestSchema).optional(),
+});
+
+/** Written by the reporter, or by `run` with status `interrupted` when the invocation died first. */
+export const BatchEndEventSchema = z.object({
+  type: z.literal('batch-end'),
+  timestamp: z.string().datetime(),
+  batchRunId: z.string().min(1),
+  status: z.enum(RUN_STATUSES),
+  duration: z.number().nonnegative(),
+});
+
+export const RunEventSchema = z.discriminatedUnion('type', [
+  RunBeginEventSchema,
+  TestBeginEventSchema,
+  TestEndEventSchema,
+  RunEndEventSchema,
+  BatchBeginEventSchema,
+  BatchEndEventSchema,
+]);
+
+export type RunBeginEvent = z.infer<typeof RunBeginEventSchema>;
+export type TestBeginEvent = z.infer<typeof TestBeginEventSchema>;
+export type TestEndEvent = z.infer<typeof TestEndEventSchema>;
+export type RunEndEvent = z.infer<typeof RunEndEventSchema>;
+export type BatchBeginEvent = z.infer<typeof BatchBeginEventSchema>;
+export type BatchEndEvent = z.infer<typeof BatchEndEventSchema>;
+export type RunEvent = z.infer<typeof RunEventSchema>;
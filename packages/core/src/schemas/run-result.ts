@@ -1,5 +1,6 @@
 import { z } from 'zod';
 
+import { CrashedShardSchema } from './crashed-shard.js';
 import { EnvironmentInfoSchema } from './environment-info.js';
 import { GitInfoSchema } from './git-info.js';
 import { RunConfigSchema } from './run-config.js';
@@ -22,9 +23,15 @@ export const RunResultSchema = z.object({
   failedTests: z.number().int().nonnegative(),
   skippedTests: z.number().int().nonnegative(),
   flakyTests: z.number().int().nonnegative(),
+  /** Tests on the quarantine list — left out of the passed, failed and flaky counts. */
+  quarantinedTests: z.number().int().nonnegative().optional(),
   shardCount: z.number().int().positive(),
   shardIndex: z.number().int().positive().optional(),
   tests: z.array(TestResultSchema),
+  /** Playwright invocations `run` combined into this result — work-queue items or plan groups. Absent for one. */
+  invocations: z.number().int().positive().optional(),
+  /** Shards rebuilt from per-test files after their process crashed — the run's status is `interrupted`. */
+  crashedShards: z.array(CrashedShardSchema).optional(),
   environment: EnvironmentInfoSchema,
   git: GitInfoSchema,
   config: RunConfigSchema,
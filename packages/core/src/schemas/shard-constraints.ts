@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/** Spec file that must run on a given shard */
+export const ShardPinSchema = z.object({
+  file: z.string().min(1),
+  /** 1-based shard index */
+  shard: z.number().int().positive(),
+});
+
+export type ShardPin = z.infer<typeof ShardPinSchema>;
+
+/**
+ * Placement rules every balancing strategy must honour, keyed by spec file
+ * path as it appears in timing data. Hand-written — usually in
+ * `.sorry-currents/constraints.json`.
+ */
+export const ShardConstraintsSchema = z.object({
+  /** Files that must share a shard, e.g. specs relying on one seeded database */
+  together: z.array(z.array(z.string().min(1)).min(2)).default([]),
+  /** Pairs of files that must never share a shard, e.g. specs binding the same port */
+  apart: z.array(z.tuple([z.string().min(1), z.string().min(1)])).default([]),
+  pinToShard: z.array(ShardPinSchema).default([]),
+});
+
+export type ShardConstraints = z.infer<typeof ShardConstraintsSchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+/**
+ * Fixed costs a shard pays outside of its tests — never visible in per-test
+ * timing data, so learned separately from whole-run durations.
+ */
+export const ShardOverheadSchema = z.object({
+  /** Per-shard setup cost in ms (worker startup, global setup) */
+  shardSetup: z.number().nonnegative(),
+  /** Per-file startup cost in ms (module loading, fixtures, beforeAll) */
+  perFile: z.number().nonnegative(),
+  /** Number of runs the estimate has been learned from */
+  samples: z.number().int().nonnegative(),
+});
+
+export type ShardOverhead = z.infer<typeof ShardOverheadSchema>;
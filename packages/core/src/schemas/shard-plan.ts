@@ -1,11 +1,25 @@
 import { z } from 'zod';
 
-export const SHARD_STRATEGIES = ['lpt', 'round-robin', 'file-group'] as const;
+import { DURATION_ESTIMATORS } from './shard-timing-data.js';
+
+export const SHARD_STRATEGIES = ['lpt', 'round-robin', 'file-group', 'lpt-split', 'optimal'] as const;
+
+/** Files a shard runs under one Playwright project — `project` absent means all projects. */
+export const ShardProjectGroupSchema = z.object({
+  project: z.string().optional(),
+  tests: z.array(z.string()),
+});
+
+export type ShardProjectGroup = z.infer<typeof ShardProjectGroupSchema>;
 
 export const ShardAssignmentSchema = z.object({
   shardIndex: z.number().int().positive(),
   tests: z.array(z.string()),
   estimatedDuration: z.number().nonnegative(),
+  /** Per-project invocations — set when the plan splits (file, project) pairs across shards. */
+  groups: z.array(ShardProjectGroupSchema).optional(),
+  /** Relative runner speed the shard was planned for — set when the plan has runner weights. */
+  capacity: z.number().positive().optional(),
 });
 
 export type ShardAssignment = z.infer<typeof ShardAssignmentSchema>;
@@ -17,6 +31,10 @@ export const ShardPlanSchema = z.object({
   maxShardDuration: z.number().nonnegative(),
   minShardDuration: z.number().nonnegative(),
   improvement: z.number().optional(),
+  /** Percent reduction of the longest shard versus plain LPT — set by strategies that refine LPT. */
+  improvementOverLpt: z.number().optional(),
+  /** Duration statistic the plan was estimated with — `mean` when absent. */
+  estimator: z.enum(DURATION_ESTIMATORS).optional(),
   generatedAt: z.string().datetime(),
 });
 
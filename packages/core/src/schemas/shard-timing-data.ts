@@ -1,19 +1,42 @@
 import { z } from 'zod';
 
+import { DurationSketchSchema } from './duration-sketch.js';
+
 /** Maximum number of raw durations to store for standard deviation calculation. */
 export const MAX_DURATION_WINDOW = 20 as const;
 
+/** Statistics `plan` can use as a test's expected duration. */
+export const DURATION_ESTIMATORS = ['mean', 'ewma', 'median', 'p95'] as const;
+
+export type DurationEstimator = (typeof DURATION_ESTIMATORS)[number];
+
 export const ShardTimingDataSchema = z.object({
   testId: z.string().min(1),
   file: z.string(),
+  /** Line of the test declaration, when known — enables test-level shard splitting. */
+  line: z.number().int().positive().optional(),
   project: z.string(),
+  /** Playwright tags of the test — used to estimate new files with the same tags. */
+  tags: z.array(z.string()).optional(),
+  /** Mean over every recorded sample. */
   avgDuration: z.number().nonnegative(),
+  /** 95th percentile, from `sketch` when present. */
   p95Duration: z.number().nonnegative(),
+  /** Exponentially-weighted moving average — follows recent runs, forgets old ones. */
+  ewmaDuration: z.number().nonnegative().optional(),
+  /** Median, from `sketch` when present — ignores one-off outliers. */
+  medianDuration: z.number().nonnegative().optional(),
   samples: z.number().int().positive(),
   /** Standard deviation of recent durations — measures execution time variance. */
   stdDev: z.number().nonnegative().default(0),
   /** Rolling window of recent raw durations for accurate stdDev computation. */
   lastDurations: z.array(z.number().nonnegative()).max(MAX_DURATION_WINDOW).default([]),
+  /** Quantile sketch of all recorded durations, recent runs weighted most. */
+  sketch: DurationSketchSchema.optional(),
+  /** When the test last appeared in a run, skipped or not — absent in data from before it was tracked. */
+  lastSeen: z.string().datetime().optional(),
+  /** Manual estimate set with `timing set` — wins over every estimator and is never padded. */
+  overrideDuration: z.number().nonnegative().optional(),
 });
 
 export type ShardTimingData = z.infer<typeof ShardTimingDataSchema>;
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import { DurationSketchSchema } from './duration-sketch.js';
+
 export const ErrorSummarySchema = z.object({
   message: z.string(),
   count: z.number().int().positive(),
@@ -9,6 +11,11 @@ export const ErrorSummarySchema = z.object({
 
 export type ErrorSummary = z.infer<typeof ErrorSummarySchema>;
 
+/** Outcome of a test in one run — `flaky` means it passed on retry */
+export const TEST_OUTCOMES = ['passed', 'flaky', 'failed', 'skipped'] as const;
+
+export type TestOutcome = (typeof TEST_OUTCOMES)[number];
+
 export const TestHistorySchema = z.object({
   id: z.string().min(1),
   title: z.string(),
@@ -22,8 +29,12 @@ export const TestHistorySchema = z.object({
   avgDuration: z.number().nonnegative(),
   p95Duration: z.number().nonnegative(),
   lastDurations: z.array(z.number().nonnegative()),
+  /** Quantile sketch of all recorded durations — source of `p95Duration`. */
+  sketch: DurationSketchSchema.optional(),
   flakinessRate: z.number().min(0).max(1),
   failureRate: z.number().min(0).max(1),
+  /** Outcomes of the most recent runs, oldest first — unlike the rates, recovers from early instability. */
+  recentOutcomes: z.array(z.enum(TEST_OUTCOMES)).optional(),
   lastSeen: z.string().datetime(),
   topErrors: z.array(ErrorSummarySchema),
 });
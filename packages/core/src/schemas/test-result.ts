@@ -12,9 +12,51 @@ export const TEST_STATUSES = [
   'interrupted',
 ] as const;
 
+/**
+ * A step inside a test — hook, fixture, `test.step`, expect or API call — with
+ * the steps it contains. Reporters keep a compact tree, capped in depth and count.
+ */
+export interface TestStep {
+  readonly title: string;
+  /** Playwright's step category: `hook`, `fixture`, `test.step`, `expect`, `pw:api`… */
+  readonly category: string;
+  readonly duration: number;
+  /** First line of the step's error, when it failed */
+  readonly error?: string;
+  readonly steps?: readonly TestStep[];
+}
+
+export const TestStepSchema: z.ZodType<TestStep> = z.lazy(() =>
+  z.object({
+    title: z.string(),
+    category: z.string(),
+    duration: z.number().nonnegative(),
+    error: z.string().optional(),
+    steps: z.array(TestStepSchema).optional(),
+  }),
+);
+
+/** One run of a test — Playwright runs a test again for each retry. */
+export const TestAttemptSchema = z.object({
+  retry: z.number().int().nonnegative(),
+  status: z.enum(TEST_STATUSES),
+  duration: z.number().nonnegative(),
+  errors: z.array(TestErrorSchema),
+  attachments: z.array(AttachmentSchema),
+  startedAt: z.string().datetime(),
+  workerId: z.number().int().min(-1),
+  /** Console output of the attempt, when the reporter captured it */
+  stdout: z.string().optional(),
+  stderr: z.string().optional(),
+});
+
+export type TestAttempt = z.infer<typeof TestAttemptSchema>;
+
 export const TestResultSchema = z.object({
   id: z.string().min(1),
   file: z.string().min(1),
+  /** Line of the test declaration — lets the balancer target single tests via `file:line`. */
+  line: z.number().int().positive().optional(),
   title: z.string().min(1),
   project: z.string(),
   status: z.enum(TEST_STATUSES),
@@ -29,6 +71,18 @@ export const TestResultSchema = z.object({
   // Playwright uses -1 for skipped tests that never got assigned a worker
   workerId: z.number().int().min(-1),
   shardIndex: z.number().int().positive().optional(),
+  /**
+   * Every attempt, in retry order — the top-level fields describe the last one.
+   * Absent in results recorded before attempts were tracked, or imported from other reporters.
+   */
+  attempts: z.array(TestAttemptSchema).optional(),
+  /** Step tree of the last attempt — where the time inside the test went. */
+  steps: z.array(TestStepSchema).optional(),
+  /** Console output of the last attempt, truncated by the reporter — earlier attempts keep theirs in `attempts` */
+  stdout: z.string().optional(),
+  stderr: z.string().optional(),
+  /** Set by `merge` for tests on the quarantine list — their failures don't fail the run. */
+  quarantined: z.boolean().optional(),
 });
 
 export type TestResult = z.infer<typeof TestResultSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/**
+ * One unit of work in a dynamic run queue — a spec file handed to a single
+ * Playwright invocation by whichever runner claims it first.
+ */
+export const WorkQueueItemSchema = z.object({
+  /** Playwright CLI filter for this unit (a spec file path) */
+  test: z.string().min(1),
+  estimatedDuration: z.number().nonnegative(),
+});
+
+export type WorkQueueItem = z.infer<typeof WorkQueueItemSchema>;
@@ -0,0 +1,141 @@
+import { existsSync } from 'node:fs';
+import { rm, rmdir } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+
+/** Branch whose data lives at the plain data paths — every other branch falls back to it */
+export const DEFAULT_BRANCH = 'main';
+
+/** Directory, next to the default-branch files, holding one subdirectory per branch */
+const BRANCHES_DIR = 'branches';
+
+/**
+ * A data file as one branch sees it.
+ */
+export interface BranchData<T> {
+  /** Where the branch's own entries are stored — the plain path on the default branch. */
+  readonly path: string;
+  /** Whether the branch is the default branch, i.e. `path` is the plain path. */
+  readonly isDefault: boolean;
+  /** Entries recorded on the branch itself. */
+  readonly own: readonly T[];
+  /** Default-branch entries overridden by the branch's own — what the branch plans with. */
+  readonly entries: readonly T[];
+}
+
+/**
+ * Path of a branch's copy of a data file: `<dir>/branches/<branch>/<file>`.
+ * The default branch, and runs whose branch is unknown, use `path` itself.
+ * Branch names are URI-encoded, so `feature/x` can't collide with `feature-x`.
+ */
+export function branchDataPath(
+  path: string,
+  branch: string | undefined,
+  defaultBranch: string = DEFAULT_BRANCH,
+): string {
+  if (isDefaultBranch(branch, defaultBranch)) {
+    return path;
+  }
+  return join(dirname(path), BRANCHES_DIR, encodeURIComponent(branch!), basename(path));
+}
+
+/**
+ * Entries of `base` with any entry that `overlay` also has replaced by the
+ * overlay's, followed by entries only `overlay` has.
+ * Pure function — no I/O.
+ */
+export function overlayEntries<T>(
+  base: readonly T[],
+  overlay: readonly T[],
+  key: (entry: T) => string,
+): T[] {
+  const overlayByKey = new Map(overlay.map((entry) => [key(entry), entry]));
+  const baseKeys = new Set(base.map(key));
+  return [
+    ...base.map((entry) => overlayByKey.get(key(entry)) ?? entry),
+    ...overlay.filter((entry) => !baseKeys.has(key(entry))),
+  ];
+}
+
+/**
+ * Read a data file from a branch's point of view — its own entries laid over
+ * the default branch's. A branch with no data yet sees the default branch's.
+ */
+export async function readBranchData<T>(
+  path: string,
+  branch: string | undefined,
+  defaultBranch: string,
+  read: (path: string) => Promise<Result<T[]>>,
+  key: (entry: T) => string,
+): Promise<Result<BranchData<T>>> {
+  const branchPath = branchDataPath(path, branch, defaultBranch);
+  const ownResult = await read(branchPath);
+  if (!ownResult.ok) {
+    return ownResult;
+  }
+
+  if (branchPath === path) {
+    return ok({ path, isDefault: true, own: ownResult.value, entries: ownResult.value });
+  }
+
+  const baseResult = await read(path);
+  if (!baseResult.ok) {
+    return baseResult;
+  }
+
+  return ok({
+    path: branchPath,
+    isDefault: false,
+    own: ownResult.value,
+    entries: overlayEntries(baseResult.value, ownResult.value, key),
+  });
+}
+
+/**
+ * Entries a branch should store after updating its view of the data.
+ * The default branch stores everything; other branches only what they have
+ * recorded themselves — the entries they already had plus `touched` ones —
+ * so default-branch data isn't copied into every branch.
+ * Pure function — no I/O.
+ */
+export function branchEntriesToWrite<T>(
+  data: BranchData<T>,
+  updated: readonly T[],
+  touched: Iterable<string>,
+  key: (entry: T) => string,
+): T[] {
+  if (data.isDefault) {
+    return [...updated];
+  }
+  const keep = new Set([...data.own.map(key), ...touched]);
+  return updated.filter((entry) => keep.has(key(entry)));
+}
+
+/**
+ * Remove a branch's copy of a data file once it has been promoted.
+ * Missing files are not an error.
+ */
+export async function removeBranchData(
+  path: string,
+  branch: string,
+  defaultBranch: string = DEFAULT_BRANCH,
+): Promise<Result<void>> {
+  const branchPath = branchDataPath(path, branch, defaultBranch);
+  if (branchPath === path || !existsSync(branchPath)) {
+    return ok(undefined);
+  }
+  try {
+    await rm(branchPath);
+    // Drop the branch directory once its last file is gone; rmdir refuses non-empty ones
+    await rmdir(dirname(branchPath)).catch(() => undefined);
+    return ok(undefined);
+  } catch (cause) {
+    return err(AppError.fileWriteError(branchPath, cause as Error));
+  }
+}
+
+function isDefaultBranch(branch: string | undefined, defaultBranch: string): boolean {
+  return !branch || branch === 'unknown' || branch === defaultBranch;
+}
@@ -1,4 +1,5 @@
 import { normalizeError } from './normalize-error.js';
+import { failedAttemptErrors } from './detect-flaky.js';
 import type { TestResult } from '../schemas/test-result.js';
 import type { ErrorSummary } from '../schemas/test-history.js';
 
@@ -21,7 +22,8 @@ export interface ErrorCluster {
 /**
  * Cluster test failures by normalized error message.
  * Groups all failing tests by their normalized error, so repeated failures
- * from the same root cause are presented together.
+ * from the same root cause are presented together. Failed attempts of flaky
+ * tests count too — they are often the same root cause, caught intermittently.
  *
  * Pure function — no side effects.
  */
@@ -34,11 +36,7 @@ export function clusterErrors(
   >();
 
   for (const test of testResults) {
-    if (test.status !== 'failed' && test.status !== 'timedOut') {
-      continue;
-    }
-
-    for (const error of test.errors) {
+    for (const error of failedAttemptErrors(test)) {
       const normalized = normalizeError(error.message);
 
       const existing = clusters.get(normalized);
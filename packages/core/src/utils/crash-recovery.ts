@@ -0,0 +1,163 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { type RunResult } from '../schemas/run-result.js';
+import { type TestResult, TestResultSchema } from '../schemas/test-result.js';
+import { type RunEvent, type RunBeginEvent, type BatchBeginEvent } from '../schemas/run-event.js';
+import { type PlannedTest } from '../schemas/planned-test.js';
+import { parseRunEvents } from './run-events.js';
+
+const UNKNOWN = 'unknown';
+
+/**
+ * Rebuild the result of a shard whose Playwright process died before the
+ * reporter's `onEnd` wrote `run-result.json` — from the per-test files it
+ * wrote as tests finished and, when present, its event log.
+ * The result is `interrupted` and records the shard in `crashedShards` with
+ * the tests that never reported: the planned tests from the log's `run-begin`
+ * and `batch-begin` events, or, for logs without them, the tests that began
+ * but never ended. A batch's own run starts at its `batch-begin`.
+ * Environment, git and config were not recorded and are left unknown.
+ * Pure function — no I/O.
+ */
+export function reconstructRunResult(
+  runId: string,
+  tests: readonly TestResult[],
+  events: readonly RunEvent[] = [],
+): RunResult {
+  const begin = events.find((e): e is RunBeginEvent => e.type === 'run-begin');
+  const batches = events.filter((e): e is BatchBeginEvent => e.type === 'batch-begin');
+  const reported = new Set(tests.map((t) => t.id));
+
+  const plannedLists = [begin?.tests, ...batches.map((b) => b.tests)].filter(
+    (list): list is PlannedTest[] => list !== undefined,
+  );
+  const missing = new Map<string, PlannedTest>();
+  if (plannedLists.length > 0) {
+    for (const planned of plannedLists.flat()) {
+      if (!reported.has(planned.id)) missing.set(planned.id, planned);
+    }
+  } else {
+    for (const event of events) {
+      if (event.type === 'test-begin' && !reported.has(event.testId)) {
+        missing.set(event.testId, { id: event.testId, file: event.file, title: event.title, project: event.project });
+      }
+    }
+  }
+
+  // The run spans from its start to the last thing it reported
+  const started = batches[0] ?? begin;
+  const startTimes = [
+    ...(started ? [Date.parse(started.timestamp)] : []),
+    ...tests.map((t) => Date.parse(t.startedAt)),
+  ];
+  const endTimes = [
+    ...tests.map((t) => Date.parse(t.startedAt) + t.duration),
+    ...events.map((e) => Date.parse(e.timestamp)),
+  ];
+  const start = startTimes.length > 0 ? Math.min(...startTimes) : 0;
+  const end = endTimes.length > 0 ? Math.max(...endTimes) : start;
+
+  const shardIndex = begin?.shardIndex ?? tests.find((t) => t.shardIndex !== undefined)?.shardIndex;
+
+  return {
+    id: begin?.runId ?? runId,
+    timestamp: new Date(start).toISOString(),
+    duration: Math.max(0, end - start),
+    status: 'interrupted',
+    totalTests: tests.length,
+    passedTests: tests.filter((t) => t.status === 'passed' && !t.isFlaky).length,
+    failedTests: tests.filter((t) => t.status === 'failed' || t.status === 'timedOut').length,
+    skippedTests: tests.filter((t) => t.status === 'skipped').length,
+    flakyTests: tests.filter((t) => t.isFlaky).length,
+    shardCount: begin?.shardTotal ?? 1,
+    shardIndex,
+    tests: [...tests],
+    crashedShards: [
+      {
+        runId: begin?.runId ?? runId,
+        shardIndex,
+        reportedTests: tests.length,
+        missingTests: [...missing.values()],
+      },
+    ],
+    environment: { os: UNKNOWN, nodeVersion: UNKNOWN, playwrightVersion: UNKNOWN, ci: UNKNOWN },
+    git: { branch: UNKNOWN, commit: UNKNOWN, commitMessage: '', author: UNKNOWN },
+    config: {
+      workers: 1,
+      projects: [...new Set(tests.map((t) => t.project))],
+      retries: 0,
+      timeout: 0,
+    },
+  };
+}
+
+/**
+ * The events of one batch in a runner's log: the runner's `run-begin`, for
+ * the shard identity, then everything from the batch's `batch-begin` up to
+ * the next batch or the run's end. Pure function — no I/O.
+ */
+export function batchRunEvents(events: readonly RunEvent[], batchRunId: string): RunEvent[] {
+  const begin = events.find((e) => e.type === 'run-begin');
+  const from = events.findIndex((e) => e.type === 'batch-begin' && e.batchRunId === batchRunId);
+  if (from === -1) {
+    return begin ? [begin] : [];
+  }
+
+  const rest = events.slice(from + 1);
+  const next = rest.findIndex((e) => e.type === 'batch-begin' || e.type === 'run-end');
+  return [
+    ...(begin ? [begin] : []),
+    events[from]!,
+    ...(next === -1 ? rest : rest.slice(0, next)),
+  ];
+}
+
+/**
+ * Read the per-test files the reporter wrote to `<runDir>/tests/`.
+ * Files that can't be read or validated — like one cut short by a crash —
+ * are skipped and listed in `skipped`. No directory means no tests.
+ */
+export async function readRunTestFiles(
+  runDir: string,
+): Promise<{ readonly tests: TestResult[]; readonly skipped: string[] }> {
+  const testsDir = join(runDir, 'tests');
+  let files: string[];
+  try {
+    files = (await readdir(testsDir)).filter((f) => f.endsWith('.json')).sort();
+  } catch {
+    return { tests: [], skipped: [] };
+  }
+
+  const tests: TestResult[] = [];
+  const skipped: string[] = [];
+  for (const file of files) {
+    try {
+      const validated = TestResultSchema.safeParse(JSON.parse(await readFile(join(testsDir, file), 'utf-8')) as unknown);
+      if (validated.success) {
+        tests.push(validated.data);
+      } else {
+        skipped.push(join(testsDir, file));
+      }
+    } catch {
+      skipped.push(join(testsDir, file));
+    }
+  }
+  return { tests, skipped };
+}
+
+/**
+ * Read an event log up to its last complete line — the writer may have died
+ * mid-line.
+ */
+export async function readEventLog(path: string): Promise<Result<RunEvent[]>> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch {
+    return err(AppError.fileNotFound(path));
+  }
+  return parseRunEvents(raw.slice(0, raw.lastIndexOf('\n') + 1), path);
+}
@@ -24,3 +24,35 @@ export function detectCI(
   }
   return 'local';
 }
+
+/**
+ * Branch variables in order of preference. GitHub's head ref comes first —
+ * on pull requests GITHUB_REF_NAME is the `<pr>/merge` ref, not the branch.
+ */
+const BRANCH_ENV_VARS = [
+  'GITHUB_HEAD_REF',
+  'GITHUB_REF_NAME',
+  'CI_COMMIT_REF_NAME',
+  'CI_COMMIT_BRANCH',
+  'BRANCH_NAME',
+  'CIRCLE_BRANCH',
+  'BUILDKITE_BRANCH',
+  'TRAVIS_BRANCH',
+  'BUILD_SOURCEBRANCHNAME',
+] as const;
+
+/**
+ * Detect the branch being tested from CI environment variables.
+ * Returns undefined when no CI branch variable is set.
+ */
+export function detectBranch(
+  env: Record<string, string | undefined> = process.env,
+): string | undefined {
+  for (const envVar of BRANCH_ENV_VARS) {
+    const value = env[envVar];
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
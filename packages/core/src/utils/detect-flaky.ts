@@ -1,3 +1,4 @@
+import type { TestError } from '../schemas/test-error.js';
 import type { TestResult } from '../schemas/test-result.js';
 
 /**
@@ -7,3 +8,19 @@ import type { TestResult } from '../schemas/test-result.js';
 export function detectFlaky(testResult: Pick<TestResult, 'status' | 'retries'>): boolean {
   return testResult.status === 'passed' && testResult.retries > 0;
 }
+
+/**
+ * Errors of every failed attempt of a test, in retry order — for a flaky test,
+ * the failures it recovered from. Results without attempts fall back to the
+ * final errors when the test failed.
+ */
+export function failedAttemptErrors(
+  testResult: Pick<TestResult, 'status' | 'errors' | 'attempts'>,
+): TestError[] {
+  const failed = (status: TestResult['status']): boolean => status === 'failed' || status === 'timedOut';
+
+  if (testResult.attempts && testResult.attempts.length > 0) {
+    return testResult.attempts.filter((a) => failed(a.status)).flatMap((a) => a.errors);
+  }
+  return failed(testResult.status) ? [...testResult.errors] : [];
+}
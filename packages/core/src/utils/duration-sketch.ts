@@ -0,0 +1,108 @@
+import { type DurationSketch } from '../schemas/duration-sketch.js';
+
+/** t-digest compression — bounds the sketch to roughly this many centroids */
+const SKETCH_COMPRESSION = 25 as const;
+
+/**
+ * Weight kept by existing samples each time one is added — 0.98 halves a
+ * run's influence after ~35 newer runs.
+ */
+const SKETCH_DECAY = 0.98 as const;
+
+/** Centroids lighter than this have effectively aged out and are dropped */
+const MIN_CENTROID_WEIGHT = 0.01 as const;
+
+type Centroid = [mean: number, weight: number];
+
+/**
+ * Add a duration to a sketch, decaying the weight of earlier samples.
+ * Starts a new sketch when `sketch` is undefined.
+ * Pure function — returns a new sketch.
+ */
+export function addToSketch(
+  sketch: DurationSketch | undefined,
+  duration: number,
+): DurationSketch {
+  const decayed: Centroid[] = (sketch?.centroids ?? [])
+    .map(([mean, weight]): Centroid => [mean, weight * SKETCH_DECAY])
+    .filter(([, weight]) => weight >= MIN_CENTROID_WEIGHT);
+
+  const centroids = [...decayed, [duration, 1] as Centroid].sort((a, b) => a[0] - b[0]);
+  return { centroids: compress(centroids) };
+}
+
+/**
+ * Build a sketch from a list of durations, oldest first.
+ * Used to seed sketches for entries recorded before sketches existed.
+ */
+export function sketchFromDurations(durations: readonly number[]): DurationSketch | undefined {
+  return durations.reduce<DurationSketch | undefined>((sketch, d) => addToSketch(sketch, d), undefined);
+}
+
+/**
+ * Estimate a quantile (0–1) of the sketched durations, interpolating
+ * between centroids. Returns 0 for an empty sketch.
+ */
+export function sketchQuantile(sketch: DurationSketch, quantile: number): number {
+  const { centroids } = sketch;
+  if (centroids.length === 0) return 0;
+  if (centroids.length === 1) return Math.round(centroids[0]![0]);
+
+  const total = centroids.reduce((sum, [, weight]) => sum + weight, 0);
+  const target = Math.min(Math.max(quantile, 0), 1) * total;
+
+  // Each centroid's mean sits at the middle of its weight
+  let cumulative = 0;
+  let prevCenter = 0;
+  let prevMean = centroids[0]![0];
+  for (let i = 0; i < centroids.length; i++) {
+    const [mean, weight] = centroids[i]!;
+    const center = cumulative + weight / 2;
+    if (target <= center) {
+      if (i === 0) return Math.round(mean);
+      const fraction = (target - prevCenter) / (center - prevCenter);
+      return Math.round(prevMean + (mean - prevMean) * fraction);
+    }
+    cumulative += weight;
+    prevCenter = center;
+    prevMean = mean;
+  }
+
+  return Math.round(centroids[centroids.length - 1]![0]);
+}
+
+/**
+ * Merge adjacent centroids while each stays within its t-digest size bound —
+ * small at the tails, larger around the median.
+ */
+function compress(sorted: readonly Centroid[]): Centroid[] {
+  const total = sorted.reduce((sum, [, weight]) => sum + weight, 0);
+  const result: Centroid[] = [];
+
+  let [mean, weight] = sorted[0]!;
+  let weightBefore = 0;
+  for (const [nextMean, nextWeight] of sorted.slice(1)) {
+    const merged = weight + nextWeight;
+    if (scale((weightBefore + merged) / total) - scale(weightBefore / total) <= 1) {
+      mean = (mean * weight + nextMean * nextWeight) / merged;
+      weight = merged;
+    } else {
+      result.push(rounded(mean, weight));
+      weightBefore += weight;
+      [mean, weight] = [nextMean, nextWeight];
+    }
+  }
+  result.push(rounded(mean, weight));
+
+  return result;
+}
+
+/** t-digest k1 scale function */
+function scale(q: number): number {
+  return (SKETCH_COMPRESSION / (2 * Math.PI)) * Math.asin(2 * Math.min(Math.max(q, 0), 1) - 1);
+}
+
+/** Keep persisted sketches small: whole-ms means, 3-decimal weights */
+function rounded(mean: number, weight: number): Centroid {
+  return [Math.round(mean), Math.round(weight * 1000) / 1000];
+}
@@ -7,10 +7,17 @@ import { z } from 'zod';
 import { type Result, ok, err } from '../result.js';
 import { AppError } from '../errors/app-error.js';
 import { ErrorCode } from '../errors/error-codes.js';
-import { TestHistorySchema, type TestHistory, type ErrorSummary } from '../schemas/test-history.js';
+import {
+  TestHistorySchema,
+  type TestHistory,
+  type ErrorSummary,
+  type TestOutcome,
+} from '../schemas/test-history.js';
 import { type TestResult } from '../schemas/test-result.js';
 import { type VersionedData } from '../schemas/versioned-data.js';
 import { normalizeError } from './normalize-error.js';
+import { addToSketch, sketchFromDurations, sketchQuantile } from './duration-sketch.js';
+import { failedAttemptErrors } from './detect-flaky.js';
 
 /** Current schema version for history data files */
 const HISTORY_DATA_VERSION = 1 as const;
@@ -18,6 +25,9 @@ const HISTORY_DATA_VERSION = 1 as const;
 /** Maximum number of recent durations to track per test */
 const MAX_LAST_DURATIONS = 30 as const;
 
+/** Maximum number of per-run outcomes to track per test */
+const MAX_RECENT_OUTCOMES = 50 as const;
+
 /** Maximum number of top errors to track per test */
 const MAX_TOP_ERRORS = 5 as const;
 
@@ -127,25 +137,23 @@ export function updateHistory(
               (existingEntry.avgDuration * existingEntry.totalRuns + result.duration) / totalRuns,
             );
 
-      // Approximate p95 update
-      const p95Duration =
-        result.status === 'skipped'
-          ? existingEntry.p95Duration
-          : Math.round(
-              Math.max(
-                existingEntry.p95Duration,
-                result.duration > existingEntry.p95Duration
-                  ? result.duration
-                  : existingEntry.p95Duration * 0.95 + result.duration * 0.05,
-              ),
-            );
-
       // Rolling window of last durations
       const lastDurations =
         result.status === 'skipped'
           ? existingEntry.lastDurations
           : [...existingEntry.lastDurations, result.duration].slice(-MAX_LAST_DURATIONS);
 
+      // Entries from before sketches existed are seeded from their window
+      const sketch =
+        result.status === 'skipped'
+          ? existingEntry.sketch
+          : addToSketch(
+              existingEntry.sketch ?? sketchFromDurations(existingEntry.lastDurations),
+              result.duration,
+            );
+
+      const p95Duration = sketch ? sketchQuantile(sketch, 0.95) : existingEntry.p95Duration;
+
       // Compute rates
       const flakinessRate = totalRuns > 0 ? flakyCount / totalRuns : 0;
       const failureRate = totalRuns > 0 ? failCount / totalRuns : 0;
@@ -153,6 +161,10 @@ export function updateHistory(
       // Update error tracking
       const topErrors = mergeErrors(existingEntry.topErrors, result, now);
 
+      const recentOutcomes = [...(existingEntry.recentOutcomes ?? []), testOutcome(result)].slice(
+        -MAX_RECENT_OUTCOMES,
+      );
+
       historyMap.set(result.id, {
         id: result.id,
         title: result.title,
@@ -166,8 +178,10 @@ export function updateHistory(
         avgDuration,
         p95Duration,
         lastDurations,
+        sketch,
         flakinessRate: round4(flakinessRate),
         failureRate: round4(failureRate),
+        recentOutcomes,
         lastSeen: now,
         topErrors,
       });
@@ -177,16 +191,7 @@ export function updateHistory(
       const isFailed = result.status === 'failed' || result.status === 'timedOut';
       const lastDurations = result.status === 'skipped' ? [] : [result.duration];
 
-      const topErrors: ErrorSummary[] = [];
-      if (isFailed && result.errors.length > 0) {
-        const msg = normalizeError(result.errors[0]!.message);
-        topErrors.push({
-          message: msg,
-          count: 1,
-          lastSeen: now,
-          exampleStack: result.errors[0]!.stack,
-        });
-      }
+      const topErrors = mergeErrors([], result, now);
 
       historyMap.set(result.id, {
         id: result.id,
@@ -201,8 +206,10 @@ export function updateHistory(
         avgDuration: result.duration,
         p95Duration: result.duration,
         lastDurations,
+        sketch: result.status === 'skipped' ? undefined : addToSketch(undefined, result.duration),
         flakinessRate: result.isFlaky ? 1 : 0,
         failureRate: isFailed ? 1 : 0,
+        recentOutcomes: [testOutcome(result)],
         lastSeen: now,
         topErrors,
       });
@@ -212,8 +219,18 @@ export function updateHistory(
   return [...historyMap.values()];
 }
 
+/** Classify a run of a test the way history counts it */
+function testOutcome(result: TestResult): TestOutcome {
+  if (result.isFlaky) return 'flaky';
+  if (result.status === 'failed' || result.status === 'timedOut') return 'failed';
+  // An interrupted run says nothing about the test itself
+  if (result.status === 'skipped' || result.status === 'interrupted') return 'skipped';
+  return 'passed';
+}
+
 /**
- * Merge new errors from a test result into the existing top errors list.
+ * Merge new errors from a test result into the existing top errors list —
+ * those of every failed attempt, so flaky tests keep the failures they recovered from.
  * Groups by normalized message, keeps top N by count.
  */
 function mergeErrors(
@@ -221,10 +238,8 @@ function mergeErrors(
   result: TestResult,
   now: string,
 ): ErrorSummary[] {
-  if (result.status !== 'failed' && result.status !== 'timedOut') {
-    return [...existing];
-  }
-  if (result.errors.length === 0) {
+  const errors = failedAttemptErrors(result);
+  if (errors.length === 0) {
     return [...existing];
   }
 
@@ -233,7 +248,7 @@ function mergeErrors(
     errorMap.set(e.message, { ...e });
   }
 
-  for (const error of result.errors) {
+  for (const error of errors) {
     const normalized = normalizeError(error.message);
     const entry = errorMap.get(normalized);
     if (entry) {
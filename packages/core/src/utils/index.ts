@@ -1,22 +1,111 @@
-export { detectCI } from './detect-ci.js';
-export { detectFlaky } from './detect-flaky.js';
+export { detectBranch, detectCI } from './detect-ci.js';
+export { detectFlaky, failedAttemptErrors } from './detect-flaky.js';
 export { formatDuration } from './format-duration.js';
 export { generateTestId } from './generate-test-id.js';
-export { mergeRunResults } from './merge-run-results.js';
+export { mergeRunResults, concatRunResults } from './merge-run-results.js';
+export {
+  reconstructRunResult,
+  batchRunEvents,
+  readRunTestFiles,
+  readEventLog,
+} from './crash-recovery.js';
 export { normalizeError } from './normalize-error.js';
 export {
   readTimingData,
   writeTimingData,
   updateTimingData,
   computeStdDev,
+  computePercentile,
+  estimateDuration,
+  overrideFileDuration,
+  partitionStaleTimingData,
   DEFAULT_TIMING_DATA_PATH,
+  type StaleTimingCriteria,
 } from './timing-data.js';
+export {
+  branchDataPath,
+  overlayEntries,
+  readBranchData,
+  branchEntriesToWrite,
+  removeBranchData,
+  DEFAULT_BRANCH,
+  type BranchData,
+} from './branch-data.js';
+export {
+  readQuarantine,
+  matchesQuarantineEntry,
+  markQuarantinedTests,
+  effectiveRunStatus,
+  writeQuarantine,
+  suggestQuarantineChanges,
+  applyQuarantineSuggestions,
+  DEFAULT_QUARANTINE_PATH,
+  type QuarantineCriteria,
+  type QuarantineSuggestion,
+  type QuarantineSuggestions,
+} from './quarantine.js';
+export { addToSketch, sketchFromDurations, sketchQuantile } from './duration-sketch.js';
+export {
+  summarizeTimingByFile,
+  diffTimingData,
+  type FileTimingSummary,
+  type FileTimingDiff,
+} from './timing-summary.js';
+export { playwrightJsonToTestResults } from './playwright-json-report.js';
+export { playwrightBlobToTestResults, playwrightBlobEventsToTestResults } from './playwright-blob-report.js';
+export {
+  eventLogFileName,
+  isEventLogFileName,
+  parseRunEvents,
+  summarizeRunProgress,
+  type RunProgress,
+} from './run-events.js';
+export {
+  junitXmlToTestResults,
+  junitXmlToRunResult,
+  runResultToJUnitXml,
+  JUNIT_RUN_ID_PREFIX,
+} from './junit-xml.js';
 export {
   readHistory,
   writeHistory,
   updateHistory,
   DEFAULT_HISTORY_PATH,
 } from './history-data.js';
+export {
+  readOverheadData,
+  writeOverheadData,
+  estimateShardOverhead,
+  updateOverheadData,
+  DEFAULT_OVERHEAD_DATA_PATH,
+} from './overhead-data.js';
+export {
+  readShardConstraints,
+  checkShardConstraints,
+  DEFAULT_CONSTRAINTS_PATH,
+  type ConstraintViolation,
+} from './shard-constraints.js';
+export {
+  analyzePlanAccuracy,
+  readPlanAccuracy,
+  writePlanAccuracy,
+  updatePlanAccuracy,
+  DEFAULT_PLAN_ACCURACY_PATH,
+} from './plan-accuracy.js';
+export {
+  findTestDeclarations,
+  findTestTags,
+  formatTestLocation,
+  parseTestLocation,
+  type TestLocation,
+} from './test-location.js';
+export {
+  writeWorkQueue,
+  readWorkQueue,
+  claimNextWorkItem,
+  WORK_QUEUE_FILE,
+  type WorkQueueClaim,
+} from './work-queue.js';
 export {
   clusterErrors,
   clustersToSummaries,
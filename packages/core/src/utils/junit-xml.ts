@@ -0,0 +1,302 @@
+import { createHash } from 'node:crypto';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { type RunResult } from '../schemas/run-result.js';
+import { type TestResult } from '../schemas/test-result.js';
+import { type TestError } from '../schemas/test-error.js';
+import { detectFlaky } from './detect-flaky.js';
+import { generateTestId } from './generate-test-id.js';
+
+/** Separator Playwright's `junit` reporter puts between describe blocks and the test title */
+const JUNIT_TITLE_SEPARATOR = ' › ';
+
+/** Prefix of the IDs of runs imported from JUnit XML, which carry no real run metadata */
+export const JUNIT_RUN_ID_PREFIX = 'junit-';
+
+/** `<testsuite>` / `<testcase>` open, close and self-closing tags */
+const ELEMENT_PATTERN = /<(\/?)(testsuite|testcase)\b([^>]*?)(\/?)>/g;
+
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** Elements inside a `<testcase>` that record a failed attempt */
+const FAILURE_PATTERN = /<(failure|error|flakyFailure|flakyError|rerunFailure|rerunError)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+
+/**
+ * Convert a JUnit XML report into test results, one per `<testcase>`.
+ * Understands the common dialects: Playwright's `junit` reporter (project in
+ * the suite's `hostname`), Surefire's `flakyFailure` / `rerunFailure` retries,
+ * and nested `<testsuite>` elements. The file is taken from the test case's or
+ * suite's `file` attribute, else its `classname`, else the suite name.
+ * `source` names the report in errors.
+ */
+export function junitXmlToTestResults(xml: string, source: string): Result<TestResult[]> {
+  const results: TestResult[] = [];
+  const suites: Record<string, string>[] = [];
+  let sawTestCase = false;
+
+  for (const match of xml.matchAll(ELEMENT_PATTERN)) {
+    const [tag, closing, name, rawAttributes, selfClosing] = match;
+    if (name === 'testsuite') {
+      if (closing) {
+        suites.pop();
+      } else if (!selfClosing) {
+        suites.push(parseAttributes(rawAttributes!));
+      }
+      continue;
+    }
+    if (closing) continue;
+
+    sawTestCase = true;
+    const start = match.index! + tag.length;
+    const end = selfClosing ? start : xml.indexOf('</testcase>', start);
+    const body = end === -1 ? '' : xml.slice(start, end);
+    results.push(toTestResult(parseAttributes(rawAttributes!), body, suites));
+  }
+
+  if (!sawTestCase && !/<testsuites?\b/.test(xml)) {
+    return err(AppError.fileParseError(source, new Error('No JUnit <testsuite> or <testcase> elements found')));
+  }
+
+  return ok(results);
+}
+
+/**
+ * Convert a JUnit XML report from a run without the sorry-currents reporter
+ * into a RunResult, so it can be merged and join history like any shard.
+ * JUnit carries no git, environment or worker details — those are `unknown`.
+ */
+export function junitXmlToRunResult(xml: string, source: string): Result<RunResult> {
+  const testsResult = junitXmlToTestResults(xml, source);
+  if (!testsResult.ok) {
+    return testsResult;
+  }
+  const tests = testsResult.value;
+
+  const rootTime = parseFloat(parseAttributes(/<testsuites\b([^>]*)>/.exec(xml)?.[1] ?? '')['time'] ?? '');
+  const started = tests.reduce((min, t) => Math.min(min, Date.parse(t.startedAt)), Infinity);
+  const failedTests = tests.filter((t) => t.status === 'failed' || t.status === 'timedOut').length;
+
+  return ok({
+    id: `${JUNIT_RUN_ID_PREFIX}${createHash('sha256').update(xml).digest('hex').slice(0, 12)}`,
+    timestamp: new Date(Number.isFinite(started) ? started : Date.now()).toISOString(),
+    duration: Number.isFinite(rootTime)
+      ? Math.round(rootTime * 1000)
+      : tests.reduce((sum, t) => sum + t.duration, 0),
+    status: tests.some((t) => t.status === 'interrupted')
+      ? 'interrupted'
+      : failedTests > 0 ? 'failed' : 'passed',
+    totalTests: tests.length,
+    passedTests: tests.filter((t) => t.status === 'passed' && !t.isFlaky).length,
+    failedTests,
+    skippedTests: tests.filter((t) => t.status === 'skipped').length,
+    flakyTests: tests.filter((t) => t.isFlaky).length,
+    shardCount: 1,
+    tests,
+    environment: { os: 'unknown', nodeVersion: 'unknown', playwrightVersion: 'unknown', ci: 'unknown' },
+    git: { branch: 'unknown', commit: 'unknown', commitMessage: '', author: 'unknown' },
+    config: {
+      workers: 1,
+      projects: [...new Set(tests.map((t) => t.project))],
+      retries: tests.reduce((max, t) => Math.max(max, t.retries), 0),
+      timeout: 0,
+    },
+  });
+}
+
+/**
+ * Render a RunResult as JUnit XML: one `<testsuite>` per file and project,
+ * in the dialect of Playwright's `junit` reporter. Retries use Surefire's
+ * elements — `<flakyFailure>` for each failed attempt of a test that passed
+ * in the end, `<rerunFailure>` for each earlier attempt of one that failed.
+ * Pure function — no I/O.
+ */
+export function runResultToJUnitXml(run: RunResult): string {
+  const suites = new Map<string, TestResult[]>();
+  for (const test of run.tests) {
+    const key = `${test.project}\0${test.file}`;
+    const tests = suites.get(key) ?? [];
+    tests.push(test);
+    suites.set(key, tests);
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="sorry-currents" ${suiteCounts(run.tests)} time="${seconds(run.duration)}" timestamp="${run.timestamp}">`,
+  ];
+  for (const tests of suites.values()) {
+    const first = tests[0]!;
+    lines.push(
+      `<testsuite name="${escapeXml(first.file)}" hostname="${escapeXml(first.project)}" ${suiteCounts(tests)}` +
+        ` time="${seconds(tests.reduce((sum, t) => sum + t.duration, 0))}" timestamp="${first.startedAt}">`,
+    );
+    for (const test of tests) {
+      lines.push(...testCaseXml(test));
+    }
+    lines.push('</testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+function testCaseXml(test: TestResult): string[] {
+  const line = test.line !== undefined ? ` line="${test.line}"` : '';
+  const open = `<testcase name="${escapeXml(junitTestName(test))}" classname="${escapeXml(test.file)}"` +
+    ` file="${escapeXml(test.file)}"${line} time="${seconds(test.duration)}">`;
+  const children: string[] = [];
+  const [finalError] = test.errors.slice(-1);
+
+  if (test.status === 'skipped') {
+    children.push('<skipped/>');
+  } else if (test.status === 'failed' || test.status === 'timedOut' || test.status === 'interrupted') {
+    for (let attempt = 1; attempt <= test.retries; attempt++) {
+      children.push(retryFailureXml('rerunFailure', test, attempt));
+    }
+    children.push(failureXml(
+      test.status === 'interrupted' ? 'error' : 'failure',
+      finalError?.message || test.status,
+      finalError?.stack,
+      test.status === 'timedOut' ? 'TIMEOUT' : 'FAILURE',
+    ));
+  } else if (test.isFlaky) {
+    for (let attempt = 1; attempt <= test.retries; attempt++) {
+      children.push(retryFailureXml('flakyFailure', test, attempt));
+    }
+  }
+
+  return children.length === 0
+    ? [open.replace(/>$/, '/>')]
+    : [open, ...children, '</testcase>'];
+}
+
+/** An earlier, failed attempt — with its own error when the reporter recorded attempts */
+function retryFailureXml(element: string, test: TestResult, attempt: number): string {
+  const [error] = test.attempts?.find((a) => a.retry === attempt - 1)?.errors ?? [];
+  return failureXml(
+    element,
+    error?.message || `Failed on attempt ${attempt} of ${test.retries + 1}`,
+    error?.stack,
+  );
+}
+
+function failureXml(element: string, message: string, stack?: string, type: string = 'FAILURE'): string {
+  const attributes = `message="${escapeXml(message)}" type="${type}"`;
+  return stack
+    ? `<${element} ${attributes}><![CDATA[${stripControlCharacters(stack).replace(/\]\]>/g, ']]]]><![CDATA[>')}]]></${element}>`
+    : `<${element} ${attributes}/>`;
+}
+
+/** The test's title without the project and file the suite already names — `describe › test` */
+function junitTestName(test: TestResult): string {
+  const segments = test.title.split(' > ');
+  // Reporter titles are Playwright's titlePath(): '', project, file, describes…, title
+  const own = segments[0] === '' ? segments.slice(3) : segments;
+  return own.length > 0 ? own.join(JUNIT_TITLE_SEPARATOR) : test.title;
+}
+
+function suiteCounts(tests: readonly TestResult[]): string {
+  const failures = tests.filter((t) => t.status === 'failed' || t.status === 'timedOut').length;
+  const errors = tests.filter((t) => t.status === 'interrupted').length;
+  const skipped = tests.filter((t) => t.status === 'skipped').length;
+  return `tests="${tests.length}" failures="${failures}" skipped="${skipped}" errors="${errors}"`;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(text: string): string {
+  return stripControlCharacters(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Terminal colours in Playwright's messages, then the control characters XML 1.0 forbids */
+function stripControlCharacters(text: string): string {
+  return text
+    .replace(/\u001b\[[0-9;]*m/g, '')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function toTestResult(
+  testCase: Record<string, string>,
+  body: string,
+  suites: readonly Record<string, string>[],
+): TestResult {
+  const suite = suites.at(-1) ?? {};
+  const suiteFile = [...suites].reverse().find((s) => s['file'])?.['file'];
+  const file = testCase['file'] || suiteFile || testCase['classname'] || suite['name'] || 'unknown';
+  const title = testCase['name'] || 'unnamed';
+  const project = suite['hostname'] ?? '';
+
+  const failures = [...body.matchAll(FAILURE_PATTERN)].map(([, kind, attributes, content]) => ({
+    kind: kind!,
+    error: toTestError(parseAttributes(attributes!), content),
+  }));
+  const finalFailure = failures.find((f) => f.kind === 'failure' || f.kind === 'error');
+  const reruns = failures.filter((f) => f.kind !== 'failure' && f.kind !== 'error');
+
+  const status: TestResult['status'] = /<skipped\b/.test(body)
+    ? 'skipped'
+    : finalFailure
+      ? 'failed'
+      : 'passed';
+  const retries = reruns.length;
+  const line = Number(testCase['line']);
+  const timestamp = Date.parse(testCase['timestamp'] ?? suite['timestamp'] ?? '');
+
+  return {
+    // The reporter keys tests by their own title, without describe blocks
+    id: generateTestId(file, title.split(JUNIT_TITLE_SEPARATOR).at(-1)!, project),
+    file,
+    line: Number.isInteger(line) && line > 0 ? line : undefined,
+    title,
+    project,
+    status,
+    duration: Math.round((parseFloat(testCase['time'] ?? '0') || 0) * 1000),
+    retries,
+    isFlaky: detectFlaky({ status, retries }),
+    errors: [...reruns, ...(finalFailure ? [finalFailure] : [])].map((f) => f.error),
+    annotations: [],
+    tags: [],
+    attachments: [],
+    startedAt: new Date(Number.isNaN(timestamp) ? Date.now() : timestamp).toISOString(),
+    workerId: -1,
+  };
+}
+
+function toTestError(attributes: Record<string, string>, content: string | undefined): TestError {
+  const text = decodeEntities(
+    (content ?? '').replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').replace(/<[^>]+>/g, ''),
+  ).trim();
+  return {
+    message: attributes['message'] ?? text.split('\n')[0] ?? '',
+    stack: text || undefined,
+  };
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of raw.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[name!] = decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default:
+        return String.fromCodePoint(
+          entity[1]?.toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10),
+        );
+    }
+  });
+}
@@ -1,9 +1,12 @@
 import type { RunResult } from '../schemas/run-result.js';
 import type { TestResult } from '../schemas/test-result.js';
+import { effectiveRunStatus } from './quarantine.js';
 
 /**
  * Merge multiple shard RunResults into a single unified RunResult.
  * Combines test arrays, recalculates summary counts, and picks the worst status.
+ * Quarantined tests are counted on their own and their failures don't fail the run.
+ * Crashed shards of every input are kept.
  */
 export function mergeRunResults(results: readonly RunResult[]): RunResult {
   if (results.length === 0) {
@@ -13,12 +16,15 @@ export function mergeRunResults(results: readonly RunResult[]): RunResult {
   // Use the first result as the base for metadata
   const first = results[0]!;
   const allTests: TestResult[] = results.flatMap((r) => r.tests);
+  const counted = allTests.filter((t) => !t.quarantined);
+  const quarantinedTests = allTests.length - counted.length;
+  const crashedShards = results.flatMap((r) => r.crashedShards ?? []);
 
-  const passedTests = allTests.filter((t) => t.status === 'passed' && !t.isFlaky).length;
-  const failedTests = allTests.filter((t) => t.status === 'failed').length;
-  const skippedTests = allTests.filter((t) => t.status === 'skipped').length;
-  const flakyTests = allTests.filter((t) => t.isFlaky).length;
-  const timedOutTests = allTests.filter((t) => t.status === 'timedOut').length;
+  const passedTests = counted.filter((t) => t.status === 'passed' && !t.isFlaky).length;
+  const failedTests = counted.filter((t) => t.status === 'failed').length;
+  const skippedTests = counted.filter((t) => t.status === 'skipped').length;
+  const flakyTests = counted.filter((t) => t.isFlaky).length;
+  const timedOutTests = counted.filter((t) => t.status === 'timedOut').length;
 
   const status = resolveRunStatus(results);
   const totalDuration = Math.max(...results.map((r) => r.duration));
@@ -33,9 +39,11 @@ export function mergeRunResults(results: readonly RunResult[]): RunResult {
     failedTests: failedTests + timedOutTests,
     skippedTests,
     flakyTests,
+    ...(quarantinedTests > 0 ? { quarantinedTests } : {}),
     shardCount: results.length,
     shardIndex: undefined,
     tests: allTests,
+    ...(crashedShards.length > 0 ? { crashedShards } : {}),
     environment: first.environment,
     git: first.git,
     config: first.config,
@@ -49,9 +57,32 @@ export function mergeRunResults(results: readonly RunResult[]): RunResult {
 function resolveRunStatus(
   results: readonly RunResult[],
 ): RunResult['status'] {
-  const statuses = new Set(results.map((r) => r.status));
+  const statuses = new Set(results.map(effectiveRunStatus));
   if (statuses.has('interrupted')) return 'interrupted';
   if (statuses.has('timedOut')) return 'timedOut';
   if (statuses.has('failed')) return 'failed';
   return 'passed';
 }
+
+/**
+ * Combine RunResults from consecutive Playwright invocations on one runner
+ * (e.g. items pulled from a work queue) into a single RunResult for that runner.
+ * Unlike mergeRunResults, invocations ran back to back, so durations add up and
+ * the shard identity of the runner is kept.
+ */
+export function concatRunResults(
+  results: readonly RunResult[],
+  runId: string,
+): RunResult {
+  const merged = mergeRunResults(results);
+  const first = results[0]!;
+
+  return {
+    ...merged,
+    id: runId,
+    duration: results.reduce((sum, r) => sum + r.duration, 0),
+    shardCount: first.shardCount,
+    shardIndex: first.shardIndex,
+    invocations: results.reduce((sum, r) => sum + (r.invocations ?? 1), 0),
+  };
+}
@@ -0,0 +1,173 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { ErrorCode } from '../errors/error-codes.js';
+import { ShardOverheadSchema, type ShardOverhead } from '../schemas/shard-overhead.js';
+import { type VersionedData } from '../schemas/versioned-data.js';
+import { type RunResult } from '../schemas/run-result.js';
+import { JUNIT_RUN_ID_PREFIX } from './junit-xml.js';
+
+/** Current schema version for overhead data files */
+const OVERHEAD_DATA_VERSION = 1 as const;
+
+/** Weight of a new estimate when smoothing into learned overhead */
+const OVERHEAD_SMOOTHING = 0.3 as const;
+
+/** Default path for learned overhead data */
+export const DEFAULT_OVERHEAD_DATA_PATH = '.sorry-currents/overhead-data.json';
+
+/**
+ * Read learned shard overhead from a JSON file.
+ * Returns `undefined` (not an error) when the file doesn't exist — nothing
+ * has been learned yet.
+ */
+export async function readOverheadData(
+  path: string,
+): Promise<Result<ShardOverhead | undefined>> {
+  if (!existsSync(path)) {
+    return ok(undefined);
+  }
+
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch (cause) {
+    return err(
+      new AppError(ErrorCode.FILE_NOT_FOUND, `Failed to read overhead data: ${path}`, { path }, cause as Error),
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (cause) {
+    return err(AppError.fileParseError(path, cause as Error));
+  }
+
+  const data = isVersionedData(parsed) ? parsed.data : parsed;
+
+  const validated = ShardOverheadSchema.safeParse(data);
+  if (!validated.success) {
+    return err(AppError.validation(validated.error, path));
+  }
+
+  return ok(validated.data);
+}
+
+/**
+ * Write learned shard overhead to a JSON file with versioning metadata.
+ */
+export async function writeOverheadData(
+  path: string,
+  data: ShardOverhead,
+): Promise<Result<void>> {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+
+    const versioned: VersionedData<ShardOverhead> = {
+      version: OVERHEAD_DATA_VERSION,
+      generatedBy: 'sorry-currents@0.1.0',
+      timestamp: new Date().toISOString(),
+      data,
+    };
+
+    const json = JSON.stringify(versioned, null, 2) + '\n';
+    await writeFile(path, json, 'utf-8');
+    return ok(undefined);
+  } catch (cause) {
+    return err(AppError.fileWriteError(path, cause as Error));
+  }
+}
+
+/**
+ * Estimate per-shard and per-file overhead from one run's shard results.
+ *
+ * For each shard, the overhead is its wall-clock duration minus the time its
+ * tests account for (summed durations spread over the configured workers).
+ * A least-squares fit of overhead against file count then separates the fixed
+ * part (intercept → `shardSetup`) from the per-file part (slope → `perFile`).
+ * With a single shard, or equal file counts everywhere, the slope is
+ * unidentifiable and everything is attributed to setup.
+ *
+ * Only results that time one Playwright invocation from start to end are
+ * used: JUnit imports (no worker count), results `run` combined from several
+ * invocations (their startup would count as per-file cost) and crashed shards
+ * are skipped. Their duration starts when Playwright does, so install steps
+ * before it — `npm ci`, browser downloads — are never learned.
+ *
+ * Returns `undefined` when no usable shard has tests. Pure function — no I/O.
+ */
+export function estimateShardOverhead(
+  shardResults: readonly RunResult[],
+): Pick<ShardOverhead, 'shardSetup' | 'perFile'> | undefined {
+  const points = shardResults
+    .filter((r) => r.tests.length > 0 && isSingleInvocation(r))
+    .map((r) => {
+      const testTime = r.tests.reduce((sum, t) => sum + t.duration, 0) / r.config.workers;
+      return {
+        files: new Set(r.tests.map((t) => t.file)).size,
+        overhead: Math.max(0, r.duration - testTime),
+      };
+    });
+
+  if (points.length === 0) {
+    return undefined;
+  }
+
+  const meanFiles = points.reduce((sum, p) => sum + p.files, 0) / points.length;
+  const meanOverhead = points.reduce((sum, p) => sum + p.overhead, 0) / points.length;
+
+  const variance = points.reduce((sum, p) => sum + (p.files - meanFiles) ** 2, 0);
+  const covariance = points.reduce(
+    (sum, p) => sum + (p.files - meanFiles) * (p.overhead - meanOverhead),
+    0,
+  );
+
+  const perFile = variance > 0 ? Math.max(0, covariance / variance) : 0;
+  const shardSetup = Math.max(0, meanOverhead - perFile * meanFiles);
+
+  return { shardSetup: Math.round(shardSetup), perFile: Math.round(perFile) };
+}
+
+function isSingleInvocation(result: RunResult): boolean {
+  return (
+    !result.id.startsWith(JUNIT_RUN_ID_PREFIX) &&
+    (result.invocations ?? 1) === 1 &&
+    result.crashedShards === undefined
+  );
+}
+
+/**
+ * Fold a new overhead estimate into learned data with exponential smoothing,
+ * so one noisy run (a slow runner, a cold cache) doesn't swing the plan.
+ * Pure computation.
+ */
+export function updateOverheadData(
+  existing: ShardOverhead | undefined,
+  estimate: Pick<ShardOverhead, 'shardSetup' | 'perFile'>,
+): ShardOverhead {
+  if (!existing || existing.samples === 0) {
+    return { ...estimate, samples: 1 };
+  }
+
+  const smooth = (previous: number, next: number): number =>
+    Math.round(previous * (1 - OVERHEAD_SMOOTHING) + next * OVERHEAD_SMOOTHING);
+
+  return {
+    shardSetup: smooth(existing.shardSetup, estimate.shardSetup),
+    perFile: smooth(existing.perFile, estimate.perFile),
+    samples: existing.samples + 1,
+  };
+}
+
+function isVersionedData(data: unknown): data is VersionedData<unknown> {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'version' in data &&
+    'data' in data
+  );
+}
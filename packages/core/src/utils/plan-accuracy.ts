@@ -0,0 +1,224 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+import { z } from 'zod';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { ErrorCode } from '../errors/error-codes.js';
+import {
+  PlanAccuracySchema,
+  type PlanAccuracy,
+  type ShardAccuracy,
+  type FileEstimateError,
+} from '../schemas/plan-accuracy.js';
+import { type ShardPlan } from '../schemas/shard-plan.js';
+import { type RunResult } from '../schemas/run-result.js';
+import { type ShardTimingData } from '../schemas/shard-timing-data.js';
+import { type VersionedData } from '../schemas/versioned-data.js';
+import { parseTestLocation } from './test-location.js';
+import { estimateDuration } from './timing-data.js';
+
+/** Current schema version for plan accuracy files */
+const PLAN_ACCURACY_VERSION = 1 as const;
+
+/** Number of runs kept in the accuracy log */
+const MAX_PLAN_ACCURACY_RUNS = 50 as const;
+
+/** Number of worst-estimated files kept per run */
+const MAX_WORST_FILES = 10 as const;
+
+/** Default path for the plan accuracy log */
+export const DEFAULT_PLAN_ACCURACY_PATH = '.sorry-currents/plan-accuracy.json';
+
+/**
+ * Compare a shard plan with the run it planned.
+ *
+ * Shard results are joined to plan assignments by `shardIndex`; shards with
+ * no result (or results without a shard index, e.g. from dynamic mode) are
+ * left out. A shard reported twice — a re-run CI job — counts its longest
+ * result. File estimates come from the timing data the plan was built from,
+ * i.e. before this run was folded in.
+ *
+ * Returns undefined when no result matches a planned shard.
+ * Pure function — no I/O.
+ */
+export function analyzePlanAccuracy(
+  plan: ShardPlan,
+  shardResults: readonly RunResult[],
+  estimates: readonly ShardTimingData[],
+): PlanAccuracy | undefined {
+  const actualByShard = new Map<number, number>();
+  for (const result of shardResults) {
+    if (result.shardIndex === undefined) continue;
+    actualByShard.set(
+      result.shardIndex,
+      Math.max(actualByShard.get(result.shardIndex) ?? 0, result.duration),
+    );
+  }
+
+  const shards: ShardAccuracy[] = plan.shards
+    .filter((s) => actualByShard.has(s.shardIndex))
+    .map((s) => ({
+      shardIndex: s.shardIndex,
+      predicted: s.estimatedDuration,
+      actual: actualByShard.get(s.shardIndex)!,
+      ...(s.capacity !== undefined ? { capacity: s.capacity } : {}),
+    }));
+
+  if (shards.length === 0) {
+    return undefined;
+  }
+
+  const actuals = shards.map((s) => s.actual).filter((d) => d > 0);
+  const balanceRatio = actuals.length > 0 ? Math.max(...actuals) / Math.min(...actuals) : 1;
+
+  const predictedShards = shards.filter((s) => s.predicted > 0);
+  const meanAbsolutePercentError = predictedShards.length > 0
+    ? (predictedShards.reduce((sum, s) => sum + Math.abs(s.actual - s.predicted) / s.predicted, 0) /
+        predictedShards.length) * 100
+    : 0;
+
+  const first = shardResults[0]!;
+
+  return {
+    runId: first.id,
+    timestamp: first.timestamp,
+    strategy: plan.strategy,
+    shards,
+    balanceRatio: round2(balanceRatio),
+    meanAbsolutePercentError: round2(meanAbsolutePercentError),
+    worstFiles: worstEstimatedFiles(plan, shardResults, estimates),
+  };
+}
+
+function worstEstimatedFiles(
+  plan: ShardPlan,
+  shardResults: readonly RunResult[],
+  estimates: readonly ShardTimingData[],
+): FileEstimateError[] {
+  const plannedFiles = new Set(
+    plan.shards.flatMap((s) => s.tests.map((filter) => parseTestLocation(filter).file)),
+  );
+
+  const estimator = plan.estimator ?? 'mean';
+  const predicted = sumByFile(
+    estimates.map((e) => [e.file, estimateDuration(e, estimator)] as const),
+    plannedFiles,
+  );
+  const actual = sumByFile(
+    shardResults.flatMap((r) => r.tests.map((t) => [t.file, t.duration] as const)),
+    plannedFiles,
+  );
+
+  return [...actual.entries()]
+    .filter(([file]) => predicted.has(file))
+    .map(([file, actualDuration]) => ({
+      file,
+      predicted: Math.round(predicted.get(file)!),
+      actual: actualDuration,
+    }))
+    .sort((a, b) => Math.abs(b.actual - b.predicted) - Math.abs(a.actual - a.predicted))
+    .slice(0, MAX_WORST_FILES);
+}
+
+function sumByFile(
+  durations: readonly (readonly [string, number])[],
+  files: ReadonlySet<string>,
+): Map<string, number> {
+  const sums = new Map<string, number>();
+  for (const [file, duration] of durations) {
+    if (files.has(file)) {
+      sums.set(file, (sums.get(file) ?? 0) + duration);
+    }
+  }
+  return sums;
+}
+
+/**
+ * Add a run's accuracy to the log, replacing an earlier entry for the same
+ * run and keeping the most recent runs only.
+ * Pure function — no I/O.
+ */
+export function updatePlanAccuracy(
+  existing: readonly PlanAccuracy[],
+  entry: PlanAccuracy,
+): PlanAccuracy[] {
+  return [...existing.filter((e) => e.runId !== entry.runId), entry].slice(-MAX_PLAN_ACCURACY_RUNS);
+}
+
+/**
+ * Read the plan accuracy log from a JSON file.
+ * Returns an empty array when the file doesn't exist (no run analysed yet).
+ */
+export async function readPlanAccuracy(
+  path: string,
+): Promise<Result<PlanAccuracy[]>> {
+  if (!existsSync(path)) {
+    return ok([]);
+  }
+
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch (cause) {
+    return err(
+      new AppError(ErrorCode.FILE_NOT_FOUND, `Failed to read plan accuracy: ${path}`, { path }, cause as Error),
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (cause) {
+    return err(AppError.fileParseError(path, cause as Error));
+  }
+
+  const data = isVersionedData(parsed) ? parsed.data : parsed;
+
+  const validated = z.array(PlanAccuracySchema).safeParse(data);
+  if (!validated.success) {
+    return err(AppError.validation(validated.error, path));
+  }
+
+  return ok(validated.data);
+}
+
+/**
+ * Write the plan accuracy log to a JSON file with versioning metadata.
+ */
+export async function writePlanAccuracy(
+  path: string,
+  data: readonly PlanAccuracy[],
+): Promise<Result<void>> {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+
+    const versioned: VersionedData<readonly PlanAccuracy[]> = {
+      version: PLAN_ACCURACY_VERSION,
+      generatedBy: 'sorry-currents@0.1.0',
+      timestamp: new Date().toISOString(),
+      data,
+    };
+
+    const json = JSON.stringify(versioned, null, 2) + '\n';
+    await writeFile(path, json, 'utf-8');
+    return ok(undefined);
+  } catch (cause) {
+    return err(AppError.fileWriteError(path, cause as Error));
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isVersionedData(data: unknown): data is VersionedData<unknown> {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'version' in data &&
+    'data' in data
+  );
+}
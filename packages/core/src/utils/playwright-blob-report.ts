@@ -0,0 +1,298 @@
+import { isAbsolute, relative } from 'node:path';
+import { inflateRawSync } from 'node:zlib';
+
+import { z } from 'zod';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { type TestResult } from '../schemas/test-result.js';
+import { detectFlaky } from './detect-flaky.js';
+import { generateTestId } from './generate-test-id.js';
+
+/**
+ * The events of Playwright's `blob` reporter (`report.jsonl` inside the zip)
+ * we read — one JSON object `{ method, params }` per line. Other events and
+ * fields are ignored.
+ */
+const BlobLocationSchema = z.object({
+  file: z.string().min(1),
+  line: z.number().int().nonnegative(),
+});
+
+const BlobTestCaseSchema = z.object({
+  testId: z.string(),
+  title: z.string(),
+  location: BlobLocationSchema,
+  tags: z.array(z.string()).default([]),
+  annotations: z
+    .array(z.object({ type: z.string(), description: z.string().optional() }))
+    .default([]),
+});
+
+type BlobTestCase = z.infer<typeof BlobTestCaseSchema>;
+
+/** Suites list children in `entries` since Playwright 1.44, in `suites` + `tests` before */
+interface BlobSuite {
+  readonly title: string;
+  readonly entries: (BlobSuite | BlobTestCase)[];
+}
+
+const BlobSuiteSchema: z.ZodType<BlobSuite, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z
+    .object({
+      title: z.string(),
+      entries: z.array(z.union([BlobTestCaseSchema, BlobSuiteSchema])).optional(),
+      suites: z.array(BlobSuiteSchema).default([]),
+      tests: z.array(BlobTestCaseSchema).default([]),
+    })
+    .transform((suite) => ({
+      title: suite.title,
+      entries: suite.entries ?? [...suite.tests, ...suite.suites],
+    })),
+);
+
+const OnConfigureSchema = z.object({
+  config: z.object({ rootDir: z.string().optional() }),
+});
+
+const OnProjectSchema = z.object({
+  project: z.object({ name: z.string().default(''), suites: z.array(BlobSuiteSchema) }),
+});
+
+const OnTestBeginSchema = z.object({
+  testId: z.string(),
+  result: z.object({
+    id: z.string(),
+    retry: z.number().int().nonnegative().default(0),
+    workerIndex: z.number().int().min(-1).default(-1),
+    startTime: z.union([z.number(), z.string()]),
+  }),
+});
+
+const OnTestEndSchema = z.object({
+  test: z.object({ testId: z.string() }),
+  result: z.object({
+    id: z.string(),
+    duration: z.number().nonnegative(),
+    status: z.string(),
+    errors: z
+      .array(z.object({ message: z.string().optional(), stack: z.string().optional() }))
+      .default([]),
+  }),
+});
+
+const BlobEventSchema = z.object({ method: z.string(), params: z.unknown() });
+
+/** Schemas of the events we read, by method */
+const EVENT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  onConfigure: OnConfigureSchema,
+  onProject: OnProjectSchema,
+  onTestBegin: OnTestBeginSchema,
+  onTestEnd: OnTestEndSchema,
+};
+
+const PW_STATUSES: Record<string, TestResult['status']> = {
+  passed: 'passed',
+  failed: 'failed',
+  timedOut: 'timedOut',
+  skipped: 'skipped',
+  interrupted: 'interrupted',
+};
+
+/** Signatures and fixed sizes of the zip records we read */
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+/**
+ * Convert a Playwright `blob` report (the `.zip` each shard writes) into test
+ * results, one per test and project, taken from its final attempt.
+ * IDs, files and titles match what `SorryCurrentsReporter` records for the
+ * same test. `source` names the report in errors.
+ */
+export function playwrightBlobToTestResults(zip: Buffer, source: string): Result<TestResult[]> {
+  const filesResult = readZipEntries(zip, (name) => name.endsWith('.jsonl'), source);
+  if (!filesResult.ok) {
+    return filesResult;
+  }
+  if (filesResult.value.length === 0) {
+    return err(AppError.fileParseError(source, new Error('No .jsonl event file in blob report')));
+  }
+
+  const results: TestResult[] = [];
+  for (const events of filesResult.value) {
+    const parsed = playwrightBlobEventsToTestResults(events, source);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    results.push(...parsed.value);
+  }
+  return ok(results);
+}
+
+/**
+ * Convert the JSON-lines events of an unzipped blob report into test results.
+ * See `playwrightBlobToTestResults`.
+ */
+export function playwrightBlobEventsToTestResults(events: string, source: string): Result<TestResult[]> {
+  interface TestInfo {
+    readonly test: BlobTestCase;
+    readonly project: string;
+    readonly titlePath: readonly string[];
+  }
+  interface Attempt {
+    readonly retry: number;
+    readonly workerIndex: number;
+    readonly startTime: number | string;
+  }
+
+  let rootDir: string | undefined;
+  const tests = new Map<string, TestInfo>();
+  const attempts = new Map<string, Attempt>();
+  const finals = new Map<string, TestResult>();
+
+  function collect(suite: BlobSuite, project: string, titlePath: readonly string[]): void {
+    const path = [...titlePath, suite.title];
+    for (const entry of suite.entries) {
+      if ('testId' in entry) {
+        tests.set(entry.testId, { test: entry, project, titlePath: path });
+      } else {
+        collect(entry, project, path);
+      }
+    }
+  }
+
+  const lines = events.split('\n');
+  for (const [index, line] of lines.entries()) {
+    if (line.trim() === '') continue;
+
+    let event: z.infer<typeof BlobEventSchema>;
+    try {
+      event = BlobEventSchema.parse(JSON.parse(line));
+    } catch (cause) {
+      return err(AppError.fileParseError(`${source}:${index + 1}`, cause as Error));
+    }
+
+    const schema = EVENT_SCHEMAS[event.method];
+    if (!schema) continue;
+    const params = schema.safeParse(event.params);
+    if (!params.success) {
+      return err(AppError.validation(params.error, `${source}:${index + 1} (${event.method})`));
+    }
+
+    switch (event.method) {
+      case 'onConfigure':
+        rootDir = (params.data as z.infer<typeof OnConfigureSchema>).config.rootDir;
+        break;
+      case 'onProject': {
+        const { project } = params.data as z.infer<typeof OnProjectSchema>;
+        for (const suite of project.suites) {
+          collect(suite, project.name, []);
+        }
+        break;
+      }
+      case 'onTestBegin': {
+        const { result } = params.data as z.infer<typeof OnTestBeginSchema>;
+        attempts.set(result.id, result);
+        break;
+      }
+      case 'onTestEnd': {
+        const { test, result } = params.data as z.infer<typeof OnTestEndSchema>;
+        const info = tests.get(test.testId);
+        if (!info) continue;
+
+        const attempt = attempts.get(result.id);
+        const location = info.test.location;
+        const file = isAbsolute(location.file) && rootDir ? relative(rootDir, location.file) : location.file;
+        const status = PW_STATUSES[result.status] ?? 'failed';
+        const retries = attempt?.retry ?? 0;
+
+        // Later attempts of the same test replace earlier ones
+        finals.set(test.testId, {
+          id: generateTestId(file, info.test.title, info.project),
+          file,
+          line: location.line > 0 ? location.line : undefined,
+          title: ['', info.project, ...info.titlePath, info.test.title].join(' > '),
+          project: info.project,
+          status,
+          duration: result.duration,
+          retries,
+          isFlaky: detectFlaky({ status, retries }),
+          errors: result.errors.map((e) => ({ message: e.message ?? '', stack: e.stack })),
+          annotations: info.test.annotations,
+          tags: info.test.tags,
+          attachments: [],
+          startedAt: new Date(attempt?.startTime ?? 0).toISOString(),
+          workerId: attempt?.workerIndex ?? -1,
+        });
+        break;
+      }
+    }
+  }
+
+  return ok([...finals.values()]);
+}
+
+/**
+ * Read the (stored or deflated) entries of a zip archive whose names match.
+ * Enough of the format for Playwright's blob reports — no zip64, no encryption.
+ */
+function readZipEntries(
+  zip: Buffer,
+  match: (name: string) => boolean,
+  source: string,
+): Result<string[]> {
+  const invalid = (reason: string): Result<string[]> =>
+    err(AppError.fileParseError(source, new Error(`Not a readable zip archive: ${reason}`)));
+
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return invalid('end of central directory not found');
+
+  const entryCount = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const contents: string[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      return invalid('corrupt central directory');
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!match(name)) continue;
+    if (zip.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+      return invalid(`corrupt local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === ZIP_STORED) {
+      contents.push(data.toString('utf-8'));
+    } else if (method === ZIP_DEFLATED) {
+      try {
+        contents.push(inflateRawSync(data).toString('utf-8'));
+      } catch (cause) {
+        return err(AppError.fileParseError(source, cause as Error));
+      }
+    } else {
+      return invalid(`unsupported compression method ${method} for ${name}`);
+    }
+  }
+
+  return ok(contents);
+}
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { type TestResult } from '../schemas/test-result.js';
+import { detectFlaky } from './detect-flaky.js';
+import { generateTestId } from './generate-test-id.js';
+
+/**
+ * The parts of Playwright's built-in `json` reporter output we read.
+ * Everything else in the report is ignored.
+ */
+const PwResultSchema = z.object({
+  workerIndex: z.number().int().min(-1).default(-1),
+  status: z.string(),
+  duration: z.number().nonnegative(),
+  retry: z.number().int().nonnegative().default(0),
+  startTime: z.string().datetime({ offset: true }),
+  errors: z
+    .array(z.object({ message: z.string().optional(), stack: z.string().optional() }))
+    .default([]),
+});
+
+const PwTestSchema = z.object({
+  projectName: z.string().default(''),
+  annotations: z
+    .array(z.object({ type: z.string(), description: z.string().optional() }))
+    .default([]),
+  results: z.array(PwResultSchema),
+});
+
+const PwSpecSchema = z.object({
+  title: z.string(),
+  file: z.string().min(1),
+  line: z.number().int().positive().optional(),
+  tags: z.array(z.string()).default([]),
+  tests: z.array(PwTestSchema),
+});
+
+interface PwSuite {
+  readonly title: string;
+  readonly specs: z.infer<typeof PwSpecSchema>[];
+  readonly suites: PwSuite[];
+}
+
+const PwSuiteSchema: z.ZodType<PwSuite, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.object({
+    title: z.string(),
+    specs: z.array(PwSpecSchema).default([]),
+    suites: z.array(PwSuiteSchema).default([]),
+  }),
+);
+
+const PwJsonReportSchema = z.object({
+  suites: z.array(PwSuiteSchema),
+});
+
+const PW_STATUSES: Record<string, TestResult['status']> = {
+  passed: 'passed',
+  failed: 'failed',
+  timedOut: 'timedOut',
+  skipped: 'skipped',
+  interrupted: 'interrupted',
+};
+
+/**
+ * Convert a Playwright `json` reporter output into test results, one per test
+ * and project, taken from its final attempt.
+ * IDs, files and titles match what `SorryCurrentsReporter` records for the
+ * same test, so imported data lines up with later runs.
+ * `source` names the report in errors.
+ */
+export function playwrightJsonToTestResults(
+  report: unknown,
+  source: string,
+): Result<TestResult[]> {
+  const parsed = PwJsonReportSchema.safeParse(report);
+  if (!parsed.success) {
+    return err(AppError.validation(parsed.error, source));
+  }
+
+  const results: TestResult[] = [];
+
+  function walk(suite: PwSuite, titlePath: readonly string[]): void {
+    const path = [...titlePath, suite.title];
+    for (const spec of suite.specs) {
+      for (const test of spec.tests) {
+        const final = test.results.at(-1);
+        if (!final) continue;
+
+        const status = PW_STATUSES[final.status] ?? 'failed';
+        results.push({
+          id: generateTestId(spec.file, spec.title, test.projectName),
+          file: spec.file,
+          line: spec.line,
+          title: ['', test.projectName, ...path, spec.title].join(' > '),
+          project: test.projectName,
+          status,
+          duration: final.duration,
+          retries: final.retry,
+          isFlaky: detectFlaky({ status, retries: final.retry }),
+          errors: final.errors.map((e) => ({ message: e.message ?? '', stack: e.stack })),
+          annotations: test.annotations,
+          tags: spec.tags,
+          attachments: [],
+          startedAt: new Date(final.startTime).toISOString(),
+          workerId: final.workerIndex,
+        });
+      }
+    }
+    for (const child of suite.suites) {
+      walk(child, path);
+    }
+  }
+
+  for (const suite of parsed.data.suites) {
+    walk(suite, []);
+  }
+
+  return ok(results);
+}
@@ -0,0 +1,233 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { ErrorCode } from '../errors/error-codes.js';
+import { QuarantineListSchema, type QuarantineEntry, type QuarantineList } from '../schemas/quarantine.js';
+import { type RunResult } from '../schemas/run-result.js';
+import { type TestHistory } from '../schemas/test-history.js';
+import { type TestResult } from '../schemas/test-result.js';
+
+/** Default path for the hand-edited quarantine list */
+export const DEFAULT_QUARANTINE_PATH = '.sorry-currents/quarantine.json';
+
+/**
+ * When `suggestQuarantineChanges` proposes adding or removing a test.
+ * Only runs where the test actually ran count — skipped runs are ignored.
+ */
+export interface QuarantineCriteria {
+  /** Recent runs to judge flakiness over. Default: 20 */
+  readonly window?: number;
+  /** Share of those runs that were flaky above which a test is quarantined. Default: 0.1 */
+  readonly threshold?: number;
+  /** Fewest runs in the window before a test is judged at all. Default: 5 */
+  readonly minRuns?: number;
+  /** Consecutive clean passes after which a quarantined test is released. Default: 20 */
+  readonly stableRuns?: number;
+  /** Timestamp for new entries' `addedAt`. Default: the current time */
+  readonly now?: Date;
+}
+
+/**
+ * A proposed quarantine change, with the recent runs that justify it.
+ */
+export interface QuarantineSuggestion {
+  readonly entry: QuarantineEntry;
+  /** Runs considered — the window when adding, the clean streak when removing */
+  readonly runs: number;
+  readonly flakyRuns: number;
+}
+
+export interface QuarantineSuggestions {
+  readonly add: readonly QuarantineSuggestion[];
+  readonly remove: readonly QuarantineSuggestion[];
+}
+
+/**
+ * Read the quarantine list from a JSON file.
+ * Returns an empty list (not an error) when the file doesn't exist.
+ */
+export async function readQuarantine(
+  path: string,
+): Promise<Result<QuarantineList>> {
+  if (!existsSync(path)) {
+    return ok(QuarantineListSchema.parse({}));
+  }
+
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch (cause) {
+    return err(
+      new AppError(ErrorCode.FILE_NOT_FOUND, `Failed to read quarantine list: ${path}`, { path }, cause as Error),
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (cause) {
+    return err(AppError.fileParseError(path, cause as Error));
+  }
+
+  const validated = QuarantineListSchema.safeParse(parsed);
+  if (!validated.success) {
+    return err(AppError.validation(validated.error, path));
+  }
+
+  return ok(validated.data);
+}
+
+/**
+ * Write the quarantine list as plain, hand-editable JSON.
+ */
+export async function writeQuarantine(
+  path: string,
+  list: QuarantineList,
+): Promise<Result<void>> {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(list, null, 2) + '\n', 'utf-8');
+    return ok(undefined);
+  } catch (cause) {
+    return err(AppError.fileWriteError(path, cause as Error));
+  }
+}
+
+/**
+ * Whether an entry covers a test — same file and project, and the test's
+ * title path ends with the entry's title. Works on results and history alike.
+ */
+export function matchesQuarantineEntry(
+  test: Pick<TestResult, 'file' | 'title' | 'project'>,
+  entry: QuarantineEntry,
+): boolean {
+  if (test.file !== entry.file) return false;
+  if (entry.project !== undefined && test.project !== entry.project) return false;
+  if (entry.title === undefined) return true;
+  return test.title === entry.title || test.title.endsWith(` > ${entry.title}`);
+}
+
+/**
+ * Flag the tests the list covers as `quarantined`, and clear the flag on the
+ * rest — the list as it is now wins over whatever a shard recorded.
+ * Pure function — no I/O.
+ */
+export function markQuarantinedTests(
+  tests: readonly TestResult[],
+  list: QuarantineList,
+): TestResult[] {
+  return tests.map((test) => {
+    const { quarantined: _previous, ...rest } = test;
+    return list.tests.some((entry) => matchesQuarantineEntry(test, entry))
+      ? { ...rest, quarantined: true }
+      : rest;
+  });
+}
+
+/**
+ * A run's status with quarantined failures discounted: a failed run whose
+ * failing tests are all quarantined counts as passed. A failed run without
+ * failing tests (e.g. a broken global setup) stays failed.
+ * Pure function — no I/O.
+ */
+export function effectiveRunStatus(run: RunResult): RunResult['status'] {
+  if (run.status !== 'failed') return run.status;
+
+  const failing = run.tests.filter((t) => t.status === 'failed' || t.status === 'timedOut');
+  return failing.length > 0 && failing.every((t) => t.quarantined) ? 'passed' : 'failed';
+}
+
+/**
+ * Propose quarantine changes from the per-run outcomes in history: add tests
+ * that were flaky in more than `threshold` of their last `window` runs, and
+ * remove entries whose tests have all passed cleanly `stableRuns` times in a row.
+ * Entries matching no test in history are left alone.
+ * Pure function — no I/O.
+ */
+export function suggestQuarantineChanges(
+  history: readonly TestHistory[],
+  list: QuarantineList,
+  criteria: QuarantineCriteria = {},
+): QuarantineSuggestions {
+  const window = criteria.window ?? 20;
+  const threshold = criteria.threshold ?? 0.1;
+  const minRuns = criteria.minRuns ?? 5;
+  const stableRuns = criteria.stableRuns ?? 20;
+  const addedAt = (criteria.now ?? new Date()).toISOString();
+
+  const ranOutcomes = (test: TestHistory) =>
+    (test.recentOutcomes ?? []).filter((outcome) => outcome !== 'skipped');
+
+  const add: QuarantineSuggestion[] = [];
+  for (const test of history) {
+    if (list.tests.some((entry) => matchesQuarantineEntry(test, entry))) continue;
+
+    const recent = ranOutcomes(test).slice(-window);
+    const flakyRuns = recent.filter((outcome) => outcome === 'flaky').length;
+    if (recent.length < minRuns || flakyRuns / recent.length <= threshold) continue;
+
+    add.push({
+      entry: {
+        file: test.file,
+        title: ownTitle(test),
+        project: test.project,
+        reason: `Flaky in ${flakyRuns} of the last ${recent.length} runs`,
+        addedAt,
+      },
+      runs: recent.length,
+      flakyRuns,
+    });
+  }
+
+  const remove: QuarantineSuggestion[] = [];
+  for (const entry of list.tests) {
+    const tests = history.filter((test) => matchesQuarantineEntry(test, entry));
+    if (tests.length === 0) continue;
+
+    // The entry is only as stable as its least stable test
+    const streak = Math.min(...tests.map((test) => cleanStreak(ranOutcomes(test))));
+    if (streak >= stableRuns) {
+      remove.push({ entry, runs: streak, flakyRuns: 0 });
+    }
+  }
+
+  return {
+    add: add.sort((a, b) => b.flakyRuns / b.runs - a.flakyRuns / a.runs || a.entry.file.localeCompare(b.entry.file)),
+    remove,
+  };
+}
+
+/**
+ * The quarantine list with suggestions applied — removals dropped, additions
+ * appended in order.
+ * Pure function — no I/O.
+ */
+export function applyQuarantineSuggestions(
+  list: QuarantineList,
+  suggestions: QuarantineSuggestions,
+): QuarantineList {
+  const removed = new Set(suggestions.remove.map((s) => s.entry));
+  return {
+    ...list,
+    tests: [...list.tests.filter((entry) => !removed.has(entry)), ...suggestions.add.map((s) => s.entry)],
+  };
+}
+
+/** Passes at the end of the outcomes, counting back to the first non-pass */
+function cleanStreak(outcomes: readonly string[]): number {
+  let streak = 0;
+  for (let i = outcomes.length - 1; i >= 0 && outcomes[i] === 'passed'; i--) {
+    streak++;
+  }
+  return streak;
+}
+
+/** The test's title without the project and file — `describe > test` */
+function ownTitle(test: TestHistory): string {
+  const segments = test.title.split(' > ');
+  // Reporter titles are Playwright's titlePath(): '', project, file, describes…, title
+  return segments[0] === '' && segments.length > 3 ? segments.slice(3).join(' > ') : test.title;
+}
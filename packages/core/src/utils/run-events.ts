@@ -0,0 +1,147 @@
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { type RunResult } from '../schemas/run-result.js';
+import { type RunEvent, type TestEndEvent, RunEventSchema } from '../schemas/run-event.js';
+
+const EVENT_LOG_NAME = /^events(-shard-\d+-of-\d+|-runner-[\w.-]+)?\.ndjson$/;
+
+/**
+ * Live progress of a run, summed over the event logs of its shards.
+ */
+export interface RunProgress {
+  /** Shards expected — the largest `shardTotal` announced, at least the number of logs. */
+  readonly shards: number;
+  readonly shardsStarted: number;
+  readonly shardsFinished: number;
+  /** Tests the started shards (and their started batches) will run. */
+  readonly totalTests: number;
+  /** Tests with at least one finished attempt, counted by their latest attempt. */
+  readonly completed: number;
+  readonly passed: number;
+  readonly failed: number;
+  readonly flaky: number;
+  readonly skipped: number;
+  /** Attempts that began but have not ended. */
+  readonly running: number;
+  /** Whether every expected shard has ended. */
+  readonly done: boolean;
+  /** Status of the whole run, once done. */
+  readonly status?: RunResult['status'];
+}
+
+/**
+ * Name of the event log the reporter writes in a run directory —
+ * one per shard, so shards sharing a filesystem don't write to the same file.
+ * Work-queue runners have no shard index and are told apart by `runnerId`.
+ */
+export function eventLogFileName(
+  shard?: { readonly current: number; readonly total: number } | null,
+  runnerId?: string,
+): string {
+  if (shard) return `events-shard-${shard.current}-of-${shard.total}.ndjson`;
+  return runnerId ? `events-runner-${runnerId}.ndjson` : 'events.ndjson';
+}
+
+/** Whether a file name is one `eventLogFileName` produces. */
+export function isEventLogFileName(name: string): boolean {
+  return EVENT_LOG_NAME.test(name);
+}
+
+/**
+ * Parse complete lines of an event log. Blank lines are skipped; the caller
+ * holds back a trailing line still being written. `source` names the log in errors.
+ */
+export function parseRunEvents(text: string, source: string): Result<RunEvent[]> {
+  const events: RunEvent[] = [];
+  const lines = text.split('\n');
+  for (const [index, line] of lines.entries()) {
+    if (line.trim() === '') continue;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch (cause) {
+      return err(AppError.fileParseError(`${source}:${index + 1}`, cause as Error));
+    }
+    const parsed = RunEventSchema.safeParse(raw);
+    if (!parsed.success) {
+      return err(AppError.validation(parsed.error, `${source}:${index + 1}`));
+    }
+    events.push(parsed.data);
+  }
+  return ok(events);
+}
+
+/**
+ * Sum the progress of a run from the events of each shard's log. A shard
+ * run as several invocations counts once, ending with its `run-end`.
+ * Pure function — no I/O.
+ */
+export function summarizeRunProgress(logs: readonly (readonly RunEvent[])[]): RunProgress {
+  let shards = logs.length;
+  let shardsStarted = 0;
+  let shardsFinished = 0;
+  let totalTests = 0;
+  let running = 0;
+  const latest: TestEndEvent[] = [];
+  const endStatuses: RunResult['status'][] = [];
+
+  for (const events of logs) {
+    const tests = new Map<string, TestEndEvent>();
+    const inFlight = new Set<string>();
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'run-begin':
+          shardsStarted++;
+          totalTests += event.totalTests;
+          shards = Math.max(shards, event.shardTotal ?? 1);
+          break;
+        case 'test-begin':
+          inFlight.add(`${event.testId}#${event.retry}`);
+          break;
+        case 'test-end':
+          inFlight.delete(`${event.testId}#${event.retry}`);
+          tests.set(event.testId, event);
+          break;
+        case 'run-end':
+          shardsFinished++;
+          endStatuses.push(event.status);
+          inFlight.clear();
+          break;
+        case 'batch-begin':
+          totalTests += event.totalTests;
+          break;
+        case 'batch-end':
+          // Attempts still open when an invocation ends will never end
+          inFlight.clear();
+          break;
+      }
+    }
+
+    running += inFlight.size;
+    latest.push(...tests.values());
+  }
+
+  const done = shards > 0 && shardsFinished >= shards;
+  return {
+    shards,
+    shardsStarted,
+    shardsFinished,
+    totalTests,
+    completed: latest.length,
+    passed: latest.filter((t) => t.status === 'passed' && !t.isFlaky).length,
+    failed: latest.filter((t) => t.status === 'failed' || t.status === 'timedOut').length,
+    flaky: latest.filter((t) => t.isFlaky).length,
+    skipped: latest.filter((t) => t.status === 'skipped').length,
+    running,
+    done,
+    ...(done ? { status: combinedStatus(endStatuses) } : {}),
+  };
+}
+
+/** A run fails when any shard failed; otherwise it takes the first other non-passed status. */
+function combinedStatus(statuses: readonly RunResult['status'][]): RunResult['status'] {
+  if (statuses.includes('failed')) return 'failed';
+  return statuses.find((s) => s !== 'passed') ?? 'passed';
+}
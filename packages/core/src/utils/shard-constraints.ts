@@ -0,0 +1,123 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { ErrorCode } from '../errors/error-codes.js';
+import { ShardConstraintsSchema, type ShardConstraints } from '../schemas/shard-constraints.js';
+import { type ShardPlan } from '../schemas/shard-plan.js';
+import { parseTestLocation } from './test-location.js';
+
+/** Default path for hand-written shard constraints */
+export const DEFAULT_CONSTRAINTS_PATH = '.sorry-currents/constraints.json';
+
+/**
+ * A constraint a shard plan breaks, with the files involved and the shards they landed on.
+ */
+export interface ConstraintViolation {
+  readonly rule: 'together' | 'apart' | 'pinToShard';
+  readonly files: readonly string[];
+  readonly shards: readonly number[];
+  readonly message: string;
+}
+
+/**
+ * Read shard constraints from a JSON file.
+ * Returns empty constraints (not an error) when the file doesn't exist.
+ */
+export async function readShardConstraints(
+  path: string,
+): Promise<Result<ShardConstraints>> {
+  if (!existsSync(path)) {
+    return ok(ShardConstraintsSchema.parse({}));
+  }
+
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch (cause) {
+    return err(
+      new AppError(ErrorCode.FILE_NOT_FOUND, `Failed to read shard constraints: ${path}`, { path }, cause as Error),
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (cause) {
+    return err(AppError.fileParseError(path, cause as Error));
+  }
+
+  const validated = ShardConstraintsSchema.safeParse(parsed);
+  if (!validated.success) {
+    return err(AppError.validation(validated.error, path));
+  }
+
+  return ok(validated.data);
+}
+
+/**
+ * List every constraint the plan breaks. Files the plan doesn't contain are
+ * ignored — a constraint on a deleted spec can't be broken.
+ *
+ * Pure function — no I/O.
+ */
+export function checkShardConstraints(
+  plan: ShardPlan,
+  constraints: ShardConstraints,
+): ConstraintViolation[] {
+  // A file split across shards (`file:line` units) counts as being on each of them
+  const fileShards = new Map<string, Set<number>>();
+  for (const shard of plan.shards) {
+    for (const filter of shard.tests) {
+      const { file } = parseTestLocation(filter);
+      const shards = fileShards.get(file) ?? new Set<number>();
+      shards.add(shard.shardIndex);
+      fileShards.set(file, shards);
+    }
+  }
+
+  const shardsOf = (files: readonly string[]): number[] =>
+    [...new Set(files.flatMap((f) => [...(fileShards.get(f) ?? [])]))].sort((a, b) => a - b);
+
+  const violations: ConstraintViolation[] = [];
+
+  for (const group of constraints.together) {
+    const files = group.filter((f) => fileShards.has(f));
+    const shards = shardsOf(files);
+    if (shards.length > 1) {
+      violations.push({
+        rule: 'together',
+        files,
+        shards,
+        message: `${files.join(', ')} must share a shard but are spread over shards ${shards.join(', ')}`,
+      });
+    }
+  }
+
+  for (const [a, b] of constraints.apart) {
+    const shared = shardsOf([a]).filter((s) => fileShards.get(b)?.has(s));
+    if (shared.length > 0) {
+      violations.push({
+        rule: 'apart',
+        files: [a, b],
+        shards: shared,
+        message: `${a} and ${b} must not share a shard but both run on shard ${shared.join(', ')}`,
+      });
+    }
+  }
+
+  for (const pin of constraints.pinToShard) {
+    const shards = shardsOf([pin.file]);
+    if (shards.length > 0 && (shards.length > 1 || shards[0] !== pin.shard)) {
+      violations.push({
+        rule: 'pinToShard',
+        files: [pin.file],
+        shards,
+        message: `${pin.file} is pinned to shard ${pin.shard} but runs on shard ${shards.join(', ')}`,
+      });
+    }
+  }
+
+  return violations;
+}
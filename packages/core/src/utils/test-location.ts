@@ -0,0 +1,75 @@
+/**
+ * Matches a Playwright test declaration: `test('…'`, `test.only("…"`, `test.fixme(\`…\``, etc.
+ * Requires a string title so conditional `test.skip()` calls inside a test body don't count.
+ */
+const TEST_DECLARATION_PATTERN = /\btest(?:\.(?:only|skip|fixme|fail|slow))?\s*\(\s*['"`]/g;
+
+/**
+ * Matches a Playwright tag — `@smoke` in a title or a `tag: '@smoke'` option.
+ * The lookbehind skips e-mail addresses and member accesses.
+ */
+const TEST_TAG_PATTERN = /(?<![\w.@])@[A-Za-z][\w-]*/g;
+
+/** Trailing `:line` suffix of a Playwright location filter */
+const LOCATION_SUFFIX_PATTERN = /:(\d+)$/;
+
+/**
+ * A spec file, optionally narrowed to the test declared at a given line.
+ */
+export interface TestLocation {
+  readonly file: string;
+  readonly line?: number;
+}
+
+/**
+ * Find the 1-based line numbers of every test declaration in a spec file's source.
+ * Tests generated in a loop share one declaration line, matching what Playwright
+ * reports as `test.location.line` for each of them.
+ *
+ * Pure function — no I/O.
+ */
+export function findTestDeclarations(source: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let scanned = 0;
+
+  for (const match of source.matchAll(TEST_DECLARATION_PATTERN)) {
+    for (let i = scanned; i < match.index; i++) {
+      if (source.charCodeAt(i) === 10) line++;
+    }
+    scanned = match.index;
+    if (lines.at(-1) !== line) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Find the distinct Playwright tags mentioned in a spec file's source, sorted.
+ * A cheap scan, not a parser — callers should only trust tags they already know.
+ *
+ * Pure function — no I/O.
+ */
+export function findTestTags(source: string): string[] {
+  return [...new Set(source.match(TEST_TAG_PATTERN) ?? [])].sort();
+}
+
+/**
+ * Format a location as a Playwright CLI filter: `file` or `file:line`.
+ */
+export function formatTestLocation(location: TestLocation): string {
+  return location.line !== undefined ? `${location.file}:${location.line}` : location.file;
+}
+
+/**
+ * Parse a Playwright CLI filter produced by formatTestLocation back into its parts.
+ */
+export function parseTestLocation(filter: string): TestLocation {
+  const match = LOCATION_SUFFIX_PATTERN.exec(filter);
+  if (!match) {
+    return { file: filter };
+  }
+  return { file: filter.slice(0, match.index), line: parseInt(match[1]!, 10) };
+}
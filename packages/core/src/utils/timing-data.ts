@@ -5,9 +5,15 @@ import { dirname } from 'node:path';
 import { type Result, ok, err } from '../result.js';
 import { AppError } from '../errors/app-error.js';
 import { ErrorCode } from '../errors/error-codes.js';
-import { ShardTimingDataSchema, MAX_DURATION_WINDOW, type ShardTimingData } from '../schemas/shard-timing-data.js';
+import {
+  ShardTimingDataSchema,
+  MAX_DURATION_WINDOW,
+  type ShardTimingData,
+  type DurationEstimator,
+} from '../schemas/shard-timing-data.js';
 import { type VersionedData } from '../schemas/versioned-data.js';
 import { type TestResult } from '../schemas/test-result.js';
+import { addToSketch, sketchFromDurations, sketchQuantile } from './duration-sketch.js';
 
 import { z } from 'zod';
 
@@ -17,6 +23,9 @@ const TIMING_DATA_VERSION = 2 as const;
 /** Maximum number of duration samples to keep per test */
 const MAX_SAMPLES = 50 as const;
 
+/** Weight of the newest sample in `ewmaDuration` — 0.3 follows a slowdown within a few runs */
+const EWMA_ALPHA = 0.3 as const;
+
 /** Default path for timing data file */
 export const DEFAULT_TIMING_DATA_PATH = '.sorry-currents/timing-data.json';
 
@@ -33,6 +42,41 @@ export function computeStdDev(durations: readonly number[]): number {
   return Math.round(Math.sqrt(sumSquaredDiffs / durations.length));
 }
 
+/**
+ * Compute a percentile (0–100) of a list of durations by nearest rank —
+ * the result is always one of the recorded durations.
+ * Returns 0 for empty arrays.
+ */
+export function computePercentile(durations: readonly number[], percentile: number): number {
+  if (durations.length === 0) return 0;
+
+  const sorted = [...durations].sort((a, b) => a - b);
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]!;
+}
+
+/**
+ * Pick a test's expected duration using the given estimator.
+ * A manual `overrideDuration` always wins. Entries written before an
+ * estimator was tracked fall back to the window, then to `avgDuration`.
+ */
+export function estimateDuration(entry: ShardTimingData, estimator: DurationEstimator): number {
+  if (entry.overrideDuration !== undefined) {
+    return entry.overrideDuration;
+  }
+  switch (estimator) {
+    case 'ewma':
+      return entry.ewmaDuration ?? entry.avgDuration;
+    case 'median':
+      return entry.medianDuration ??
+        (entry.lastDurations.length > 0 ? computePercentile(entry.lastDurations, 50) : entry.avgDuration);
+    case 'p95':
+      return entry.p95Duration;
+    case 'mean':
+      return entry.avgDuration;
+  }
+}
+
 /**
  * Read and validate timing data from a JSON file.
  * Returns an empty array (not an error) when the file doesn't exist — this is
@@ -116,52 +160,69 @@ export function updateTimingData(
 
   // Merge in new results
   for (const result of testResults) {
-    // Skip skipped/interrupted tests — no useful timing data
+    const existingEntry = dataMap.get(result.id);
+
+    // Skip skipped/interrupted tests — no useful timing data, but the test still exists
     if (result.status === 'skipped' || result.status === 'interrupted') {
+      if (existingEntry) {
+        existingEntry.lastSeen = lastSeenAt(result, existingEntry.lastSeen);
+      }
       continue;
     }
 
-    const existingEntry = dataMap.get(result.id);
-
     if (existingEntry) {
-      // Update running average and p95
+      // Update running average
       const newSamples = existingEntry.samples + 1;
       const newAvg =
         (existingEntry.avgDuration * existingEntry.samples + result.duration) / newSamples;
 
-      // Approximate p95 update — weighted towards higher values
-      const newP95 = Math.max(
-        existingEntry.p95Duration,
-        result.duration > existingEntry.p95Duration
-          ? result.duration
-          : existingEntry.p95Duration * 0.95 + result.duration * 0.05,
-      );
+      const prevEwma = existingEntry.ewmaDuration ?? existingEntry.avgDuration;
+      const newEwma = EWMA_ALPHA * result.duration + (1 - EWMA_ALPHA) * prevEwma;
 
       // Maintain rolling duration window for stdDev (FIFO eviction at MAX_DURATION_WINDOW)
       const prevDurations = existingEntry.lastDurations ?? [];
       const newDurations = [...prevDurations, result.duration].slice(-MAX_DURATION_WINDOW);
 
+      // Entries from before sketches existed are seeded from their window
+      const sketch = addToSketch(
+        existingEntry.sketch ?? sketchFromDurations(prevDurations),
+        result.duration,
+      );
+
       dataMap.set(result.id, {
         testId: result.id,
         file: result.file,
+        line: result.line ?? existingEntry.line,
         project: result.project,
+        tags: result.tags.length > 0 ? result.tags : undefined,
         avgDuration: Math.round(newAvg),
-        p95Duration: Math.round(newP95),
+        p95Duration: sketchQuantile(sketch, 0.95),
+        ewmaDuration: Math.round(newEwma),
+        medianDuration: sketchQuantile(sketch, 0.5),
         samples: Math.min(newSamples, MAX_SAMPLES),
         lastDurations: newDurations,
         stdDev: computeStdDev(newDurations),
+        sketch,
+        lastSeen: lastSeenAt(result, existingEntry.lastSeen),
+        overrideDuration: existingEntry.overrideDuration,
       });
     } else {
       // New test — initialize with first sample
       dataMap.set(result.id, {
         testId: result.id,
         file: result.file,
+        line: result.line,
         project: result.project,
+        tags: result.tags.length > 0 ? result.tags : undefined,
         avgDuration: result.duration,
         p95Duration: result.duration,
+        ewmaDuration: result.duration,
+        medianDuration: result.duration,
         samples: 1,
         lastDurations: [result.duration],
         stdDev: 0,
+        sketch: addToSketch(undefined, result.duration),
+        lastSeen: result.startedAt,
       });
     }
   }
@@ -169,6 +230,94 @@ export function updateTimingData(
   return [...dataMap.values()];
 }
 
+/**
+ * Set a manual estimate for a spec file, split across its tests in proportion
+ * to their recorded averages (evenly when none are recorded). Passing
+ * `undefined` clears the file's overrides. Returns `undefined` when the file
+ * has no timing entries.
+ * Pure function — no I/O.
+ */
+export function overrideFileDuration(
+  data: readonly ShardTimingData[],
+  file: string,
+  durationMs: number | undefined,
+): ShardTimingData[] | undefined {
+  const fileEntries = data.filter((entry) => entry.file === file);
+  if (fileEntries.length === 0) {
+    return undefined;
+  }
+
+  const totalAvg = fileEntries.reduce((sum, entry) => sum + entry.avgDuration, 0);
+  return data.map((entry) => {
+    if (entry.file !== file) return entry;
+    if (durationMs === undefined) {
+      const { overrideDuration: _cleared, ...rest } = entry;
+      return rest;
+    }
+    const share = totalAvg > 0 ? entry.avgDuration / totalAvg : 1 / fileEntries.length;
+    return { ...entry, overrideDuration: Math.round(durationMs * share) };
+  });
+}
+
+/**
+ * When a test was last seen: when it ran, not when its report was imported —
+ * so merging an old report doesn't make its tests look fresh, or move
+ * `lastSeen` back for tests seen since.
+ */
+function lastSeenAt(result: TestResult, previous: string | undefined): string {
+  return previous !== undefined && Date.parse(previous) > Date.parse(result.startedAt)
+    ? previous
+    : result.startedAt;
+}
+
+/**
+ * What makes a timing entry stale. Either criterion alone is enough.
+ */
+export interface StaleTimingCriteria {
+  /** Entries not seen in a run for longer than this are stale. Entries without `lastSeen` never age out. */
+  readonly maxAgeMs?: number;
+  /** Entries whose file this returns false for are stale — the spec was deleted or renamed. */
+  readonly fileExists?: (file: string) => boolean;
+  /** Reference time for `maxAgeMs` — defaults to now. */
+  readonly now?: Date;
+}
+
+/**
+ * Split timing data into entries still worth planning with and stale ones,
+ * left behind by tests that were deleted or renamed.
+ * Pure function — the caller decides how files are checked and what to write.
+ */
+export function partitionStaleTimingData(
+  data: readonly ShardTimingData[],
+  criteria: StaleTimingCriteria,
+): { readonly fresh: ShardTimingData[]; readonly stale: ShardTimingData[] } {
+  const now = (criteria.now ?? new Date()).getTime();
+  // Many tests share a file — check each file once
+  const fileStatus = new Map<string, boolean>();
+  const fileExists = (file: string): boolean => {
+    if (!criteria.fileExists) return true;
+    if (!fileStatus.has(file)) {
+      fileStatus.set(file, criteria.fileExists(file));
+    }
+    return fileStatus.get(file)!;
+  };
+
+  const fresh: ShardTimingData[] = [];
+  const stale: ShardTimingData[] = [];
+  for (const entry of data) {
+    const tooOld =
+      criteria.maxAgeMs !== undefined &&
+      entry.lastSeen !== undefined &&
+      now - Date.parse(entry.lastSeen) > criteria.maxAgeMs;
+    if (tooOld || !fileExists(entry.file)) {
+      stale.push(entry);
+    } else {
+      fresh.push(entry);
+    }
+  }
+  return { fresh, stale };
+}
+
 function isVersionedData(data: unknown): data is VersionedData<unknown> {
   return (
     typeof data === 'object' &&
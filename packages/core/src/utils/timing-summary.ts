@@ -0,0 +1,89 @@
+import { type ShardTimingData, type DurationEstimator } from '../schemas/shard-timing-data.js';
+import { estimateDuration } from './timing-data.js';
+
+/**
+ * Timing data of one spec file, summed over its tests.
+ */
+export interface FileTimingSummary {
+  readonly file: string;
+  readonly tests: number;
+  /** Sum of the tests' estimates. */
+  readonly estimate: number;
+  /** Combined standard deviation, treating tests as independent: √Σσ². */
+  readonly stdDev: number;
+  /** Fewest samples recorded for any test in the file — how much the estimate can be trusted. */
+  readonly samples: number;
+  /** Whether any test in the file has a manual override. */
+  readonly overridden: boolean;
+}
+
+/**
+ * How a file's estimate changed between two timing data files.
+ */
+export interface FileTimingDiff {
+  readonly file: string;
+  readonly status: 'added' | 'removed' | 'changed' | 'unchanged';
+  /** Estimate in the first file — 0 when added. */
+  readonly before: number;
+  /** Estimate in the second file — 0 when removed. */
+  readonly after: number;
+  readonly testsBefore: number;
+  readonly testsAfter: number;
+}
+
+/**
+ * Group timing data by spec file, slowest first.
+ * Pure function — no I/O.
+ */
+export function summarizeTimingByFile(
+  data: readonly ShardTimingData[],
+  estimator: DurationEstimator = 'mean',
+): FileTimingSummary[] {
+  const byFile = new Map<string, ShardTimingData[]>();
+  for (const entry of data) {
+    const entries = byFile.get(entry.file) ?? [];
+    entries.push(entry);
+    byFile.set(entry.file, entries);
+  }
+
+  return [...byFile.entries()]
+    .map(([file, entries]) => ({
+      file,
+      tests: entries.length,
+      estimate: entries.reduce((sum, e) => sum + estimateDuration(e, estimator), 0),
+      stdDev: Math.round(Math.sqrt(entries.reduce((sum, e) => sum + e.stdDev ** 2, 0))),
+      samples: Math.min(...entries.map((e) => e.samples)),
+      overridden: entries.some((e) => e.overrideDuration !== undefined),
+    }))
+    .sort((a, b) => b.estimate - a.estimate || a.file.localeCompare(b.file));
+}
+
+/**
+ * Compare per-file estimates of two timing data files, largest change first.
+ * Pure function — no I/O.
+ */
+export function diffTimingData(
+  before: readonly ShardTimingData[],
+  after: readonly ShardTimingData[],
+  estimator: DurationEstimator = 'mean',
+): FileTimingDiff[] {
+  const beforeByFile = new Map(summarizeTimingByFile(before, estimator).map((s) => [s.file, s]));
+  const afterByFile = new Map(summarizeTimingByFile(after, estimator).map((s) => [s.file, s]));
+  const files = new Set([...beforeByFile.keys(), ...afterByFile.keys()]);
+
+  return [...files]
+    .map((file): FileTimingDiff => {
+      const a = beforeByFile.get(file);
+      const b = afterByFile.get(file);
+      const status = !a ? 'added' : !b ? 'removed' : a.estimate === b.estimate ? 'unchanged' : 'changed';
+      return {
+        file,
+        status,
+        before: a?.estimate ?? 0,
+        after: b?.estimate ?? 0,
+        testsBefore: a?.tests ?? 0,
+        testsAfter: b?.tests ?? 0,
+      };
+    })
+    .sort((x, y) => Math.abs(y.after - y.before) - Math.abs(x.after - x.before) || x.file.localeCompare(y.file));
+}
@@ -0,0 +1,137 @@
+import { readFile, writeFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { type Result, ok, err } from '../result.js';
+import { AppError } from '../errors/app-error.js';
+import { ErrorCode } from '../errors/error-codes.js';
+import { WorkQueueItemSchema, type WorkQueueItem } from '../schemas/work-queue.js';
+import { type VersionedData } from '../schemas/versioned-data.js';
+
+import { z } from 'zod';
+
+/** Current schema version for work queue files */
+const WORK_QUEUE_VERSION = 1 as const;
+
+/** File inside the queue directory holding the ordered item list */
+export const WORK_QUEUE_FILE = 'queue.json';
+
+/** Directory inside the queue directory holding one lock directory per claimed item */
+const CLAIMS_DIR = 'claims';
+
+/**
+ * An item won by a runner, with its position in the queue.
+ */
+export interface WorkQueueClaim {
+  readonly index: number;
+  readonly item: WorkQueueItem;
+}
+
+/**
+ * Write a fresh work queue to a directory, discarding claims from any previous run.
+ * Items are handed out in the order given — callers pass them longest first.
+ */
+export async function writeWorkQueue(
+  dir: string,
+  items: readonly WorkQueueItem[],
+): Promise<Result<void>> {
+  const path = join(dir, WORK_QUEUE_FILE);
+  try {
+    await rm(join(dir, CLAIMS_DIR), { recursive: true, force: true });
+    await mkdir(join(dir, CLAIMS_DIR), { recursive: true });
+
+    const versioned: VersionedData<readonly WorkQueueItem[]> = {
+      version: WORK_QUEUE_VERSION,
+      generatedBy: `sorry-currents@0.1.0`,
+      timestamp: new Date().toISOString(),
+      data: items,
+    };
+
+    await writeFile(path, JSON.stringify(versioned, null, 2) + '\n', 'utf-8');
+    return ok(undefined);
+  } catch (cause) {
+    return err(AppError.fileWriteError(path, cause as Error));
+  }
+}
+
+/**
+ * Read and validate the work queue from a directory.
+ * Unlike timing data, a missing queue is an error — `run --queue` is
+ * pointless without one.
+ */
+export async function readWorkQueue(
+  dir: string,
+): Promise<Result<WorkQueueItem[]>> {
+  const path = join(dir, WORK_QUEUE_FILE);
+
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch {
+    return err(AppError.fileNotFound(path));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (cause) {
+    return err(AppError.fileParseError(path, cause as Error));
+  }
+
+  const data = isVersionedData(parsed) ? parsed.data : parsed;
+
+  const validated = z.array(WorkQueueItemSchema).safeParse(data);
+  if (!validated.success) {
+    return err(AppError.validation(validated.error, path));
+  }
+
+  return ok(validated.data);
+}
+
+/**
+ * Claim the next unclaimed item, scanning forward from `startIndex`.
+ *
+ * Each claim is a `mkdir` of `claims/<index>` — atomic on local and shared
+ * filesystems alike, so exactly one runner wins each item without a lock
+ * server. Returns `undefined` once every item has been claimed.
+ */
+export async function claimNextWorkItem(
+  dir: string,
+  items: readonly WorkQueueItem[],
+  runnerId: string,
+  startIndex = 0,
+): Promise<Result<WorkQueueClaim | undefined>> {
+  for (let index = startIndex; index < items.length; index++) {
+    const claimDir = join(dir, CLAIMS_DIR, String(index));
+    try {
+      await mkdir(claimDir);
+    } catch (cause) {
+      if ((cause as NodeJS.ErrnoException).code === 'EEXIST') {
+        continue;
+      }
+      return err(
+        new AppError(
+          ErrorCode.FILE_WRITE_ERROR,
+          `Failed to claim work queue item: ${claimDir}`,
+          { path: claimDir, index },
+          cause as Error,
+        ),
+      );
+    }
+
+    // Record the owner for debugging — the directory itself is the lock
+    await writeFile(join(claimDir, 'runner'), `${runnerId}\n`, 'utf-8').catch(() => undefined);
+
+    return ok({ index, item: items[index]! });
+  }
+
+  return ok(undefined);
+}
+
+function isVersionedData(data: unknown): data is VersionedData<unknown> {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'version' in data &&
+    'data' in data
+  );
+}
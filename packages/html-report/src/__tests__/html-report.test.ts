@@ -92,6 +92,130 @@ describe('ReportBuilder', () => {
     }
   });
 
+  it('should cluster the failed attempts of flaky tests', () => {
+    const run = makeRunResult();
+    const attempt = { duration: 1000, attachments: [], startedAt: now, workerId: 1 };
+    const tests = run.tests.map((t) =>
+      t.isFlaky
+        ? {
+            ...t,
+            attempts: [
+              { ...attempt, retry: 0, status: 'failed' as const, errors: [{ message: 'Socket hang up' }] },
+              { ...attempt, retry: 1, status: 'passed' as const, errors: [] },
+            ],
+          }
+        : t,
+    );
+
+    const result = new ReportBuilder()
+      .withRunResult({ ...run, tests })
+      .build();
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toContain('"message":"Socket hang up","count":1');
+      expect(result.value).toContain('failedAttempts');
+    }
+  });
+
+  it('should embed step trees and render them in test rows', () => {
+    const run = makeRunResult();
+    const tests = run.tests.map((t) =>
+      t.id === 'test2'
+        ? {
+            ...t,
+            steps: [
+              { title: 'beforeEach hook', category: 'hook', duration: 400 },
+              { title: 'submit form', category: 'test.step', duration: 1500, error: 'Timeout exceeded' },
+            ],
+          }
+        : t,
+    );
+
+    const result = new ReportBuilder()
+      .withRunResult({ ...run, tests })
+      .build();
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toContain('"title":"submit form","category":"test.step","duration":1500');
+      expect(result.value).toContain('renderSteps(t.steps, t.duration)');
+    }
+  });
+
+  it('should embed captured output and render it in test rows', () => {
+    const run = makeRunResult();
+    const tests = run.tests.map((t) =>
+      t.id === 'test2' ? { ...t, stdout: 'connecting to db\n', stderr: 'ECONNREFUSED\n' } : t,
+    );
+
+    const result = new ReportBuilder()
+      .withRunResult({ ...run, tests })
+      .build();
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toContain('"stdout":"connecting to db\\n","stderr":"ECONNREFUSED\\n"');
+      expect(result.value).toContain('output-pre');
+    }
+  });
+
+  it('should render the output of earlier attempts', () => {
+    const run = makeRunResult();
+    const tests = run.tests.map((t) =>
+      t.id === 'test2'
+        ? { ...t, attempts: [{ retry: 0, status: 'failed' as const, duration: 100, errors: [], attachments: [], startedAt: t.startedAt, workerId: 0, stdout: 'first try\n' }] }
+        : t,
+    );
+
+    const result = new ReportBuilder()
+      .withRunResult({ ...run, tests })
+      .build();
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toContain('"stdout":"first try\\n"');
+      expect(result.value).toContain("renderOutput(a, ' (attempt ' + (a.retry + 1) + ')')");
+    }
+  });
+
+  it('should not let captured output close the embedded script', () => {
+    const run = makeRunResult();
+    const tests = run.tests.map((t) => (t.id === 'test1' ? { ...t, stdout: '<html></script><b>' } : t));
+
+    const result = new ReportBuilder()
+      .withRunResult({ ...run, tests })
+      .build();
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).not.toContain('</script><b>');
+      expect(result.value).toContain('\\u003c/script>\\u003cb>');
+    }
+  });
+
+  it('should flag crashed shards and list the tests that never reported', () => {
+    const result = new ReportBuilder()
+      .withRunResult(makeRunResult({
+        status: 'interrupted',
+        crashedShards: [{
+          runId: 'run-1',
+          shardIndex: 2,
+          reportedTests: 1,
+          missingTests: [{ id: 'test9', file: 'd.spec.ts', title: 'never ran', project: 'default' }],
+        }],
+      }))
+      .build();
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toContain('"crashedShards":[{"runId":"run-1","shardIndex":2');
+      expect(result.value).toContain('"title":"never ran"');
+      expect(result.value).toContain('renderCrashedShards()');
+      expect(result.value).toContain('Crashed Shards');
+    }
+  });
+
   it('should include error cluster data', () => {
     const result = new ReportBuilder()
       .withRunResult(makeRunResult())
@@ -146,6 +270,29 @@ describe('ReportBuilder', () => {
     }
   });
 
+  it('should include plan accuracy data when provided', () => {
+    const planAccuracy = [{
+      runId: 'run-1', timestamp: now, strategy: 'lpt' as const,
+      shards: [
+        { shardIndex: 1, predicted: 10_000, actual: 12_000 },
+        { shardIndex: 2, predicted: 10_000, actual: 9_000 },
+      ],
+      balanceRatio: 1.33, meanAbsolutePercentError: 15,
+      worstFiles: [{ file: 'a.spec.ts', predicted: 1000, actual: 3000 }],
+    }];
+
+    const result = new ReportBuilder()
+      .withRunResult(makeRunResult())
+      .withPlanAccuracy(planAccuracy)
+      .build();
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toContain('"balanceRatio":1.33');
+      expect(result.value).toContain('Predicted vs Actual');
+    }
+  });
+
   it('should include artifact base URL when provided', () => {
     const result = new ReportBuilder()
       .withRunResult(makeRunResult())
@@ -169,7 +316,7 @@ describe('ReportBuilder', () => {
     }
   });
 
-  it('should include all tabs: Tests, Errors, Shards, Flaky, History', () => {
+  it('should include all tabs: Tests, Errors, Shards, Flaky, Quarantined, History', () => {
     const result = new ReportBuilder()
       .withRunResult(makeRunResult())
       .build();
@@ -180,6 +327,7 @@ describe('ReportBuilder', () => {
       expect(result.value).toContain('data-tab="errors"');
       expect(result.value).toContain('data-tab="shards"');
       expect(result.value).toContain('data-tab="flaky"');
+      expect(result.value).toContain('data-tab="quarantined"');
       expect(result.value).toContain('data-tab="history"');
     }
   });
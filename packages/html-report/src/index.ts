@@ -2,6 +2,7 @@ import type {
   RunResult,
   TestHistory,
   ErrorCluster,
+  PlanAccuracy,
   Result,
 } from '@sorry-currents/core';
 import { ok, err, AppError, ErrorCode, clusterErrors } from '@sorry-currents/core';
@@ -20,6 +21,7 @@ export interface HtmlReportOptions {
 interface ReportData {
   readonly runResult: RunResult;
   readonly history?: readonly TestHistory[];
+  readonly planAccuracy?: readonly PlanAccuracy[];
   readonly artifactBaseUrl?: string;
   readonly theme: 'light' | 'dark' | 'auto';
   readonly title: string;
@@ -34,6 +36,7 @@ interface ReportData {
  * const html = new ReportBuilder()
  *   .withRunResult(merged)
  *   .withHistory(history)
+ *   .withPlanAccuracy(planAccuracy)
  *   .withArtifacts('/artifacts')
  *   .withTheme('dark')
  *   .build();
@@ -42,6 +45,7 @@ interface ReportData {
 export class ReportBuilder {
   private runResult: RunResult | undefined;
   private history: readonly TestHistory[] | undefined;
+  private planAccuracy: readonly PlanAccuracy[] | undefined;
   private artifactBaseUrl: string | undefined;
   private theme: 'light' | 'dark' | 'auto' = 'auto';
   private title = 'sorry-currents Test Report';
@@ -56,6 +60,11 @@ export class ReportBuilder {
     return this;
   }
 
+  withPlanAccuracy(planAccuracy: readonly PlanAccuracy[]): this {
+    this.planAccuracy = planAccuracy;
+    return this;
+  }
+
   withArtifacts(baseUrl: string): this {
     this.artifactBaseUrl = baseUrl;
     return this;
@@ -86,6 +95,7 @@ export class ReportBuilder {
     const reportData: ReportData = {
       runResult: this.runResult,
       history: this.history,
+      planAccuracy: this.planAccuracy,
       artifactBaseUrl: this.artifactBaseUrl,
       theme: this.theme,
       title: this.title,
@@ -120,15 +130,17 @@ export function generateHtmlReport(
 // ─── HTML rendering ────────────────────────────────────────────────
 
 function renderHtml(data: ReportData): string {
-  const { runResult, history, errorClusters, theme, title, artifactBaseUrl } = data;
+  const { runResult, history, planAccuracy, errorClusters, theme, title, artifactBaseUrl } = data;
 
-  // Prepare embedded JSON data
+  // Prepare embedded JSON data — `<` is escaped so captured output containing
+  // `</script>` can't end the script element early
   const embeddedData = JSON.stringify({
     run: runResult,
     history: history ?? [],
+    planAccuracy: planAccuracy ?? [],
     errorClusters,
     artifactBaseUrl: artifactBaseUrl ?? null,
-  });
+  }).replace(/</g, '\\u003c');
 
   return `<!DOCTYPE html>
 <html lang="en" data-theme="${theme}">
@@ -151,6 +163,7 @@ function renderHtml(data: ReportData): string {
     <button class="tab" data-tab="errors">Error Clusters</button>
     <button class="tab" data-tab="shards">Shards</button>
     <button class="tab" data-tab="flaky">Flaky</button>
+    <button class="tab" data-tab="quarantined">Quarantined</button>
     <button class="tab" data-tab="history">History</button>
   </nav>
 
@@ -160,6 +173,7 @@ function renderHtml(data: ReportData): string {
       <option value="all">All statuses</option>
       <option value="failed">Failed</option>
       <option value="flaky">Flaky</option>
+      <option value="quarantined">Quarantined</option>
       <option value="passed">Passed</option>
       <option value="skipped">Skipped</option>
     </select>
@@ -247,16 +261,26 @@ tr:hover { background: var(--hover); }
 .badge-fail { background: var(--fail-bg); color: var(--fail); }
 .badge-flaky { background: var(--flaky-bg); color: var(--flaky); }
 .badge-skip { background: var(--skip-bg); color: var(--skip); }
+.badge-quarantine { background: var(--skip-bg); color: var(--fg2); margin-left: 4px; }
 .badge-timeout { background: var(--fail-bg); color: var(--fail); }
 
 .file-path { font-family: var(--mono); font-size: 0.8rem; color: var(--fg2); }
 .test-title { font-weight: 500; }
 .duration { font-family: var(--mono); font-size: 0.85rem; white-space: nowrap; }
 .error-pre { font-family: var(--mono); font-size: 0.8rem; background: var(--bg2); padding: 8px 12px; border-radius: var(--radius); overflow-x: auto; margin-top: 6px; white-space: pre-wrap; word-break: break-word; border: 1px solid var(--border); max-height: 200px; }
+.output-pre { font-family: var(--mono); font-size: 0.8rem; background: var(--bg2); padding: 8px 12px; border-radius: var(--radius); overflow-x: auto; margin-top: 6px; white-space: pre-wrap; word-break: break-word; border: 1px solid var(--border); max-height: 300px; overflow-y: auto; }
 .expandable { cursor: pointer; }
 .expandable .details { display: none; margin-top: 8px; }
 .expandable.open .details { display: block; }
 
+.step-list { list-style: none; padding-left: 16px; font-size: 0.8rem; }
+.details > .step-list { padding-left: 0; }
+.step-list li { margin: 2px 0; }
+.step-row { display: flex; gap: 8px; align-items: center; }
+.step-bar { flex: 0 0 80px; height: 6px; background: var(--bg2); border-radius: 3px; overflow: hidden; }
+.step-bar span { display: block; height: 100%; background: var(--blue); }
+.step-error { color: var(--fail); font-family: var(--mono); }
+
 .cluster-card { background: var(--bg2); border: 1px solid var(--border); border-radius: var(--radius); padding: 16px; margin-bottom: 12px; }
 .cluster-card h3 { font-size: 0.95rem; margin-bottom: 8px; }
 .cluster-meta { font-size: 0.8rem; color: var(--fg2); margin-bottom: 8px; }
@@ -268,6 +292,7 @@ tr:hover { background: var(--hover); }
 .shard-bar .bar-value { font-size: 0.75rem; font-weight: 600; position: absolute; top: -18px; }
 .shard-info { display: grid; grid-template-columns: repeat(auto-fill, minmax(200px, 1fr)); gap: 12px; margin-top: 28px; }
 .shard-card { background: var(--bg2); border: 1px solid var(--border); border-radius: var(--radius); padding: 12px; }
+.shard-card.crashed { border-color: var(--fail); }
 .shard-card h4 { font-size: 0.85rem; margin-bottom: 4px; }
 .shard-card .shard-detail { font-size: 0.8rem; color: var(--fg2); }
 
@@ -292,7 +317,8 @@ footer { margin-top: 40px; padding-top: 16px; border-top: 1px solid var(--border
 
 const JS = `
 (function() {
-  const { run, history, errorClusters, artifactBaseUrl } = REPORT;
+  const { run, history, planAccuracy, errorClusters, artifactBaseUrl } = REPORT;
+  const crashedShards = run.crashedShards || [];
 
   // State
   let currentTab = 'tests';
@@ -329,6 +355,8 @@ const JS = `
       { label: 'Failed', value: run.failedTests, cls: 'fail' },
       { label: 'Flaky', value: run.flakyTests, cls: 'flaky' },
       { label: 'Skipped', value: run.skippedTests, cls: 'skip' },
+      ...(run.quarantinedTests ? [{ label: 'Quarantined', value: run.quarantinedTests, cls: '' }] : []),
+      ...(crashedShards.length > 0 ? [{ label: 'Crashed Shards', value: crashedShards.length, cls: 'fail' }] : []),
       { label: 'Duration', value: fmtDur(run.duration), cls: '' },
     ];
     el.innerHTML = stats.map(s =>
@@ -343,6 +371,7 @@ const JS = `
       case 'errors': el.innerHTML = renderErrorsTab(); break;
       case 'shards': el.innerHTML = renderShardsTab(); break;
       case 'flaky': el.innerHTML = renderFlakyTab(); break;
+      case 'quarantined': el.innerHTML = renderQuarantinedTab(); break;
       case 'history': el.innerHTML = renderHistoryTab(); break;
     }
     bindTableSort();
@@ -371,16 +400,48 @@ const JS = `
     const attachments = (t.attachments && t.attachments.length > 0 && artifactBaseUrl)
       ? '<div class="details">' + t.attachments.map(a => '<a href="' + artifactBaseUrl + '/' + a.path + '" target="_blank">' + esc(a.name) + '</a> ').join('') + '</div>'
       : '';
-    const expandable = (errors || attachments) ? ' expandable' : '';
+    const steps = (t.steps && t.steps.length > 0)
+      ? '<div class="details">' + renderSteps(t.steps, t.duration) + '</div>'
+      : '';
+    // Earlier attempts keep their own output — often the failures a flaky test recovered from
+    const earlier = (t.attempts || []).filter(a => a.retry !== t.retries && (a.stdout || a.stderr));
+    const output = (t.stdout || t.stderr || earlier.length > 0)
+      ? '<div class="details">' +
+        earlier.map(a => renderOutput(a, ' (attempt ' + (a.retry + 1) + ')')).join('') +
+        renderOutput(t, '') +
+        '</div>'
+      : '';
+    const expandable = (errors || attachments || steps || output) ? ' expandable' : '';
     return '<tr class="' + expandable + '" onclick="this.classList.toggle(\\'open\\')">' +
       '<td>' + badge + '</td>' +
-      '<td><span class="test-title">' + esc(t.title) + '</span>' + errors + attachments + '</td>' +
+      '<td><span class="test-title">' + esc(t.title) + '</span>' + steps + errors + output + attachments + '</td>' +
       '<td class="file-path">' + esc(t.file) + '</td>' +
       '<td class="duration">' + fmtDur(t.duration) + '</td>' +
       '<td>' + esc(t.project) + '</td>' +
       '</tr>';
   }
 
+  function renderOutput(o, label) {
+    return (o.stdout ? '<div class="cluster-meta">stdout' + label + '</div><div class="output-pre">' + esc(o.stdout) + '</div>' : '') +
+      (o.stderr ? '<div class="cluster-meta">stderr' + label + '</div><div class="output-pre">' + esc(o.stderr) + '</div>' : '');
+  }
+
+  /** Step tree with each step's share of the test's duration */
+  function renderSteps(steps, total) {
+    return '<ul class="step-list">' + steps.map(s => {
+      const pct = total > 0 ? Math.min(100, Math.round((s.duration / total) * 100)) : 0;
+      return '<li><div class="step-row">' +
+        '<span class="step-bar"><span style="width:' + pct + '%"></span></span>' +
+        '<span class="duration">' + fmtDur(s.duration) + '</span>' +
+        '<span>' + esc(s.title) + '</span>' +
+        '<span class="file-path">' + esc(s.category) + '</span>' +
+        '</div>' +
+        (s.error ? '<div class="step-error">' + esc(s.error) + '</div>' : '') +
+        (s.steps ? renderSteps(s.steps, total) : '') +
+        '</li>';
+    }).join('') + '</ul>';
+  }
+
   // --- Error Clusters Tab ---
   function renderErrorsTab() {
     if (errorClusters.length === 0) return '<div class="empty-state">No error clusters found. All tests passed! 🎉</div>';
@@ -403,8 +464,14 @@ const JS = `
       shardMap[idx].tests.push(t);
       shardMap[idx].duration += t.duration;
     }
+    // A shard can crash before any of its tests reported
+    for (const c of crashedShards) {
+      const idx = c.shardIndex || 1;
+      if (!shardMap[idx]) shardMap[idx] = { tests: [], duration: 0 };
+      shardMap[idx].crash = c;
+    }
     const shards = Object.keys(shardMap).sort((a,b) => +a - +b);
-    if (shards.length <= 1 && run.shardCount <= 1) return '<div class="empty-state">Single shard — no distribution to visualize.</div>';
+    if (shards.length <= 1 && run.shardCount <= 1 && crashedShards.length === 0) return '<div class="empty-state">Single shard — no distribution to visualize.</div>';
 
     const maxDur = Math.max(...shards.map(s => shardMap[s].duration), 1);
 
@@ -420,13 +487,71 @@ const JS = `
       const sd = shardMap[s];
       const failed = sd.tests.filter(t => t.status === 'failed').length;
       const flaky = sd.tests.filter(t => t.isFlaky).length;
-      html += '<div class="shard-card"><h4>Shard ' + s + '</h4>' +
+      html += '<div class="shard-card' + (sd.crash ? ' crashed' : '') + '"><h4>Shard ' + s + (sd.crash ? ' <span class="badge badge-fail">💥 crashed</span>' : '') + '</h4>' +
         '<div class="shard-detail">' + sd.tests.length + ' tests · ' + fmtDur(sd.duration) + '</div>' +
         (failed ? '<div class="shard-detail" style="color:var(--fail)">' + failed + ' failed</div>' : '') +
         (flaky ? '<div class="shard-detail" style="color:var(--flaky)">' + flaky + ' flaky</div>' : '') +
+        (sd.crash ? '<div class="shard-detail" style="color:var(--fail)">' + sd.crash.missingTests.length + ' never reported</div>' : '') +
         '</div>';
     }
     html += '</div>';
+    html += renderCrashedShards();
+    html += renderPlanAccuracy();
+    return html;
+  }
+
+  /** Shards whose process died before writing a run result, with the tests that never reported */
+  function renderCrashedShards() {
+    if (crashedShards.length === 0) return '';
+    return '<h2 style="margin-top:24px">Crashed Shards</h2>' +
+      '<div class="cluster-meta">These shards stopped before the reporter finished — their results were rebuilt from the tests that reported.</div>' +
+      crashedShards.map(c =>
+        '<div class="cluster-card"><h3>Shard ' + (c.shardIndex || 1) + ' · ' + c.reportedTests + ' reported · ' + c.missingTests.length + ' never reported</h3>' +
+        (c.missingTests.length > 0
+          ? '<table><thead><tr><th>Test</th><th>File</th><th>Project</th></tr></thead><tbody>' +
+            c.missingTests.map(t =>
+              '<tr><td>' + esc(t.title) + '</td><td class="file-path">' + esc(t.file) + '</td><td>' + esc(t.project) + '</td></tr>'
+            ).join('') +
+            '</tbody></table>'
+          : '<div class="cluster-meta">No unreported tests recorded.</div>') +
+        '</div>'
+      ).join('');
+  }
+
+  function renderPlanAccuracy() {
+    const acc = planAccuracy.find(a => a.runId === run.id);
+    if (!acc) return '';
+
+    let html = '<h2 style="margin-top:24px">Predicted vs Actual</h2>' +
+      '<div class="cluster-meta">Balance ratio ' + acc.balanceRatio.toFixed(2) + ' (slowest ÷ fastest shard) · ' +
+      'Mean estimate error ' + acc.meanAbsolutePercentError.toFixed(1) + '% · Strategy ' + esc(acc.strategy) + '</div>' +
+      '<table><thead><tr><th>Shard</th><th>Capacity</th><th>Predicted</th><th>Actual</th><th>Diff</th></tr></thead><tbody>' +
+      acc.shards.map(s =>
+        '<tr><td>Shard ' + s.shardIndex + '</td>' +
+        '<td>' + (s.capacity !== undefined ? s.capacity : '—') + '</td>' +
+        '<td class="duration">' + fmtDur(s.predicted) + '</td>' +
+        '<td class="duration">' + fmtDur(s.actual) + '</td>' +
+        '<td>' + fmtDiff(s.predicted, s.actual) + '</td></tr>'
+      ).join('') +
+      '</tbody></table>';
+
+    if (acc.worstFiles.length > 0) {
+      html += '<h2 style="margin-top:24px">Worst-Estimated Files</h2>' +
+        '<table><thead><tr><th>File</th><th>Predicted</th><th>Actual</th><th>Diff</th></tr></thead><tbody>' +
+        acc.worstFiles.map(f =>
+          '<tr><td class="file-path">' + esc(f.file) + '</td>' +
+          '<td class="duration">' + fmtDur(f.predicted) + '</td>' +
+          '<td class="duration">' + fmtDur(f.actual) + '</td>' +
+          '<td>' + fmtDiff(f.predicted, f.actual) + '</td></tr>'
+        ).join('') +
+        '</tbody></table>';
+    }
+
+    if (planAccuracy.length > 1) {
+      html += '<div class="cluster-meta" style="margin-top:12px">Balance ratio over last ' + planAccuracy.length + ' runs ' +
+        sparkline(planAccuracy.map(a => Math.round(a.balanceRatio * 100))) +
+        ' · Estimate error ' + sparkline(planAccuracy.map(a => Math.round(a.meanAbsolutePercentError))) + '</div>';
+    }
     return html;
   }
 
@@ -445,7 +570,16 @@ const JS = `
       '</tr></thead><tbody>' +
       flaky.map(t => {
         const h = histMap[t.id];
-        return '<tr><td class="test-title">' + esc(t.title) + '</td><td class="file-path">' + esc(t.file) + '</td>' +
+        // The failures the test recovered from — what to debug
+        const failedAttempts = (t.attempts || []).filter(a => a.status === 'failed' || a.status === 'timedOut');
+        const errors = failedAttempts.length > 0
+          ? '<div class="details">' + failedAttempts.map(a =>
+              '<div class="cluster-meta">Attempt ' + (a.retry + 1) + ' · ' + a.status + ' · worker ' + a.workerId + ' · ' + fmtDur(a.duration) + '</div>' +
+              a.errors.map(e => '<div class="error-pre">' + esc(e.message) + (e.stack ? '\\n\\n' + esc(e.stack) : '') + '</div>').join('')
+            ).join('') + '</div>'
+          : '';
+        return '<tr class="' + (errors ? 'expandable' : '') + '" onclick="this.classList.toggle(\\'open\\')">' +
+          '<td><span class="test-title">' + esc(t.title) + '</span>' + errors + '</td><td class="file-path">' + esc(t.file) + '</td>' +
           '<td>' + t.retries + '</td><td class="duration">' + fmtDur(t.duration) + '</td>' +
           (history.length > 0 ? '<td>' + (h ? (h.flakinessRate * 100).toFixed(1) + '%' : '—') + '</td><td>' + (h ? sparkline(h.lastDurations) : '—') + '</td>' : '') +
           '</tr>';
@@ -453,6 +587,22 @@ const JS = `
       '</tbody></table>';
   }
 
+  // --- Quarantined Tab ---
+  function renderQuarantinedTab() {
+    const quarantined = run.tests.filter(t => t.quarantined);
+    if (quarantined.length === 0) return '<div class="empty-state">No quarantined tests in this run.</div>';
+
+    return '<h2>Quarantined Tests (' + quarantined.length + ')</h2>' +
+      '<div class="cluster-meta">These tests ran, but their failures don\'t fail the run.</div>' +
+      '<table><thead><tr><th>Status</th><th>Test</th><th>File</th><th>Retries</th><th>Duration</th></tr></thead><tbody>' +
+      quarantined.map(t =>
+        '<tr><td>' + statusBadge(t) + '</td><td class="test-title">' + esc(t.title) + '</td>' +
+        '<td class="file-path">' + esc(t.file) + '</td><td>' + t.retries + '</td>' +
+        '<td class="duration">' + fmtDur(t.duration) + '</td></tr>'
+      ).join('') +
+      '</tbody></table>';
+  }
+
   // --- History Tab ---
   function renderHistoryTab() {
     if (history.length === 0) return '<div class="empty-state">No historical data available yet. History builds up after multiple runs.</div>';
@@ -482,6 +632,7 @@ const JS = `
   // --- Helpers ---
   function applyFilters(tests) {
     if (statusFilter === 'flaky') return tests.filter(t => t.isFlaky);
+    if (statusFilter === 'quarantined') return tests.filter(t => t.quarantined);
     if (statusFilter !== 'all') tests = tests.filter(t => t.status === statusFilter);
     if (searchQuery) {
       const q = searchQuery.toLowerCase();
@@ -518,6 +669,11 @@ const JS = `
   }
 
   function statusBadge(t) {
+    const badge = baseStatusBadge(t);
+    return t.quarantined ? badge + '<span class="badge badge-quarantine">🔒 Quarantined</span>' : badge;
+  }
+
+  function baseStatusBadge(t) {
     if (t.isFlaky) return '<span class="badge badge-flaky">⚠️ Flaky</span>';
     switch (t.status) {
       case 'passed': return '<span class="badge badge-pass">✅ Passed</span>';
@@ -536,6 +692,12 @@ const JS = `
       '</span>';
   }
 
+  function fmtDiff(predicted, actual) {
+    if (!predicted) return '—';
+    const pct = ((actual - predicted) / predicted) * 100;
+    return (pct >= 0 ? '+' : '') + pct.toFixed(1) + '%';
+  }
+
   function fmtDur(ms) {
     if (ms < 1000) return ms + 'ms';
     if (ms < 60000) return (ms / 1000).toFixed(1) + 's';
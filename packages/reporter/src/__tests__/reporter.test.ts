@@ -3,6 +3,8 @@ import { mkdtemp, rm, readdir, readFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
+import { RunResultSchema, RunEventSchema } from '@sorry-currents/core';
+
 import SorryCurrentsReporter from '../index.js';
 
 /**
@@ -23,7 +25,10 @@ function makeFullConfig(overrides: Record<string, unknown> = {}): any {
 
 function makeSuite(testCount = 5): any {
   return {
-    allTests: () => Array.from({ length: testCount }, (_, i) => ({ id: `t${i}` })),
+    allTests: () =>
+      Array.from({ length: testCount }, (_, i) =>
+        makeTestCase({ title: `test ${i}`, titlePath: () => ['describe', `test ${i}`] }),
+      ),
   };
 }
 
@@ -46,6 +51,8 @@ function makePWTestResult(overrides: Record<string, unknown> = {}): any {
     retry: 0,
     errors: [],
     attachments: [],
+    stdout: [],
+    stderr: [],
     startTime: new Date('2025-01-15T10:00:00.000Z'),
     workerIndex: 0,
     ...overrides,
@@ -97,6 +104,9 @@ describe('SorryCurrentsReporter', () => {
     expect(result.totalTests).toBe(1);
     expect(result.status).toBe('passed');
     expect(result.environment.playwrightVersion).toBe('1.40.0');
+    expect(result.tests[0].line).toBe(10);
+    expect(result.config.workers).toBe(4);
+    expect(result.config.fullyParallel).toBe(false);
   });
 
   describe('status mapping (Bug #1 fix)', () => {
@@ -238,6 +248,35 @@ describe('SorryCurrentsReporter', () => {
       expect(result.tests[0].isFlaky).toBe(true);
       expect(result.flakyTests).toBe(1);
     });
+
+    it('should keep every attempt with its own errors and worker', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+      reporter.onBegin(makeFullConfig(), makeSuite());
+
+      const test = makeTestCase();
+
+      reporter.onTestEnd(test, makePWTestResult({ status: 'failed', retry: 0, workerIndex: 0, errors: [{ message: 'first fail' }] }));
+      reporter.onTestEnd(test, makePWTestResult({ status: 'timedOut', retry: 1, workerIndex: 1, errors: [{ message: 'timed out' }] }));
+      reporter.onTestEnd(test, makePWTestResult({ status: 'passed', retry: 2, workerIndex: 2 }));
+
+      await reporter.onEnd(makeFullResult());
+
+      const runsDir = join(outputDir, 'runs');
+      const runs = await readdir(runsDir);
+      const runDir = join(runsDir, runs[0]!);
+      const raw = await readFile(join(runDir, 'run-result.json'), 'utf-8');
+      const result = JSON.parse(raw);
+
+      const attempts = result.tests[0].attempts;
+      expect(attempts.map((a: any) => [a.retry, a.status, a.workerId])).toEqual([
+        [0, 'failed', 0],
+        [1, 'timedOut', 1],
+        [2, 'passed', 2],
+      ]);
+      expect(attempts[0].errors[0].message).toBe('first fail');
+      expect(result.tests[0].errors).toEqual([]);
+      expect(RunResultSchema.safeParse(result).success).toBe(true);
+    });
   });
 
   describe('SORRY_CURRENTS_RUN_ID env var (Bug #5 fix)', () => {
@@ -279,6 +318,271 @@ describe('SorryCurrentsReporter', () => {
     });
   });
 
+  describe('step timing', () => {
+    function makeStep(title: string, parent?: any, overrides: Record<string, unknown> = {}): any {
+      return { title, category: 'test.step', duration: 100, parent, ...overrides };
+    }
+
+    async function readRun(): Promise<any> {
+      const runsDir = join(outputDir, 'runs');
+      const runs = await readdir(runsDir);
+      const raw = await readFile(join(runsDir, runs[0]!, 'run-result.json'), 'utf-8');
+      return JSON.parse(raw);
+    }
+
+    it('should record a step tree with durations and errors', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+      reporter.onBegin(makeFullConfig(), makeSuite());
+
+      const test = makeTestCase();
+      const result = makePWTestResult();
+      const hook = makeStep('beforeEach hook', undefined, { category: 'hook', duration: 300 });
+      const login = makeStep('log in', undefined, { duration: 900 });
+      const click = makeStep('click submit', login, {
+        category: 'pw:api',
+        duration: 700,
+        error: { message: 'Timeout 5000ms exceeded.\nCall log: ...' },
+      });
+
+      for (const step of [hook, login, click]) reporter.onStepBegin(test, result, step);
+      reporter.onStepEnd(test, result, hook);
+      reporter.onStepEnd(test, result, click);
+      reporter.onStepEnd(test, result, login);
+      reporter.onTestEnd(test, result);
+      await reporter.onEnd(makeFullResult());
+
+      const run = await readRun();
+      expect(run.tests[0].steps).toEqual([
+        { title: 'beforeEach hook', category: 'hook', duration: 300 },
+        {
+          title: 'log in',
+          category: 'test.step',
+          duration: 900,
+          steps: [{ title: 'click submit', category: 'pw:api', duration: 700, error: 'Timeout 5000ms exceeded.' }],
+        },
+      ]);
+      expect(RunResultSchema.safeParse(run).success).toBe(true);
+    });
+
+    it('should cap the step tree in depth and count', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+      reporter.onBegin(makeFullConfig(), makeSuite());
+
+      const test = makeTestCase();
+      const result = makePWTestResult();
+      let parent: any;
+      for (let depth = 1; depth <= 5; depth++) {
+        parent = makeStep(`level ${depth}`, parent);
+        reporter.onStepBegin(test, result, parent);
+      }
+      for (let i = 0; i < 100; i++) {
+        reporter.onStepBegin(test, result, makeStep(`step ${i}`));
+      }
+      reporter.onTestEnd(test, result);
+      await reporter.onEnd(makeFullResult());
+
+      const steps = (await readRun()).tests[0].steps;
+      const level3 = steps[0].steps[0].steps[0];
+      expect(level3.title).toBe('level 3');
+      expect(level3.steps).toBeUndefined();
+      // 3 nested levels plus 47 top-level steps make 50
+      expect(steps).toHaveLength(48);
+    });
+
+    it('should omit steps when none were reported', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+      reporter.onBegin(makeFullConfig(), makeSuite());
+
+      reporter.onTestEnd(makeTestCase(), makePWTestResult());
+      await reporter.onEnd(makeFullResult());
+
+      expect((await readRun()).tests[0]).not.toHaveProperty('steps');
+    });
+  });
+
+  describe('output capture', () => {
+    async function readTest(): Promise<any> {
+      const runsDir = join(outputDir, 'runs');
+      const runs = await readdir(runsDir);
+      const raw = await readFile(join(runsDir, runs[0]!, 'run-result.json'), 'utf-8');
+      return JSON.parse(raw).tests[0];
+    }
+
+    it('should keep stdout and stderr of a failed test', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+      reporter.onBegin(makeFullConfig(), makeSuite());
+
+      reporter.onTestEnd(
+        makeTestCase(),
+        makePWTestResult({
+          status: 'failed',
+          stdout: ['server started\n', Buffer.from('listening on 3000\n')],
+          stderr: ['warning: slow query\n'],
+        }),
+      );
+      await reporter.onEnd(makeFullResult());
+
+      const test = await readTest();
+      expect(test.stdout).toBe('server started\nlistening on 3000\n');
+      expect(test.stderr).toBe('warning: slow query\n');
+    });
+
+    it('should capture output of passing attempts only when captureOutput is always', async () => {
+      for (const captureOutput of ['failures', 'always'] as const) {
+        await rm(outputDir, { recursive: true, force: true });
+        const reporter = new SorryCurrentsReporter({ outputDir, silent: true, captureOutput });
+        reporter.onBegin(makeFullConfig(), makeSuite());
+
+        reporter.onTestEnd(makeTestCase(), makePWTestResult({ stdout: ['hello\n'] }));
+        await reporter.onEnd(makeFullResult());
+
+        expect((await readTest()).stdout).toBe(captureOutput === 'always' ? 'hello\n' : undefined);
+      }
+    });
+
+    it('should keep the output of each failed attempt in attempts', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+      reporter.onBegin(makeFullConfig(), makeSuite());
+
+      const test = makeTestCase();
+      reporter.onTestEnd(test, makePWTestResult({ status: 'failed', stdout: ['first try\n'] }));
+      reporter.onTestEnd(test, makePWTestResult({ status: 'passed', retry: 1, stdout: ['second try\n'] }));
+      await reporter.onEnd(makeFullResult());
+
+      const result = await readTest();
+      expect(result.attempts.map((a: any) => a.stdout)).toEqual(['first try\n', undefined]);
+      expect(result).not.toHaveProperty('stdout');
+    });
+
+    it('should keep the end of output larger than maxOutputSize', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true, maxOutputSize: 10 });
+      reporter.onBegin(makeFullConfig(), makeSuite());
+
+      reporter.onTestEnd(makeTestCase(), makePWTestResult({ status: 'failed', stdout: ['0123456789abcdefghij'] }));
+      await reporter.onEnd(makeFullResult());
+
+      const test = await readTest();
+      expect(test.stdout).toBe('[… 10 bytes truncated]\nabcdefghij');
+      expect(test).not.toHaveProperty('stderr');
+    });
+
+    it('should not split a multi-byte character when truncating', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true, maxOutputSize: 5 });
+      reporter.onBegin(makeFullConfig(), makeSuite());
+
+      // 'é' is 2 bytes — the last 5 bytes start in the middle of the first one
+      reporter.onTestEnd(makeTestCase(), makePWTestResult({ status: 'failed', stdout: ['ééé'] }));
+      await reporter.onEnd(makeFullResult());
+
+      expect((await readTest()).stdout).toBe('[… 2 bytes truncated]\néé');
+    });
+
+    it('should not capture output when captureOutput is never', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true, captureOutput: 'never' });
+      reporter.onBegin(makeFullConfig(), makeSuite());
+
+      reporter.onTestEnd(makeTestCase(), makePWTestResult({ status: 'failed', stdout: ['hello\n'] }));
+      await reporter.onEnd(makeFullResult());
+
+      expect(await readTest()).not.toHaveProperty('stdout');
+    });
+  });
+
+  describe('event log', () => {
+    async function readEvents(name: string): Promise<any[]> {
+      const runsDir = join(outputDir, 'runs');
+      const runs = await readdir(runsDir);
+      const raw = await readFile(join(runsDir, runs[0]!, name), 'utf-8');
+      return raw.trim().split('\n').map((line) => JSON.parse(line));
+    }
+
+    it('should append run and test events in order', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+      reporter.onBegin(makeFullConfig(), makeSuite(2));
+
+      const test = makeTestCase();
+      reporter.onTestBegin(test, makePWTestResult({ retry: 0 }));
+      reporter.onTestEnd(test, makePWTestResult({ status: 'failed', retry: 0, errors: [{ message: 'boom\nat line 3' }] }));
+      reporter.onTestBegin(test, makePWTestResult({ retry: 1 }));
+      reporter.onTestEnd(test, makePWTestResult({ status: 'passed', retry: 1 }));
+      await reporter.onEnd(makeFullResult());
+
+      const events = await readEvents('events.ndjson');
+      expect(events.map((e) => e.type)).toEqual(['run-begin', 'test-begin', 'test-end', 'test-begin', 'test-end', 'run-end']);
+      expect(events[0]).toMatchObject({ totalTests: 2 });
+      expect(events[0].tests.map((t: any) => [t.file, t.title])).toEqual([
+        ['tests/example.spec.ts', 'describe > test 0'],
+        ['tests/example.spec.ts', 'describe > test 1'],
+      ]);
+      expect(events[2]).toMatchObject({ status: 'failed', retry: 0, error: 'boom', title: 'describe > should work' });
+      expect(events[4]).toMatchObject({ status: 'passed', retry: 1, isFlaky: true });
+      expect(events[5]).toMatchObject({ status: 'passed' });
+      expect(events.every((e) => RunEventSchema.safeParse(e).success)).toBe(true);
+    });
+
+    it('should write one log per shard', async () => {
+      const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+      reporter.onBegin(makeFullConfig({ shard: { current: 2, total: 3 } }), makeSuite(1));
+      await reporter.onEnd(makeFullResult());
+
+      const events = await readEvents('events-shard-2-of-3.ndjson');
+      expect(events[0]).toMatchObject({ type: 'run-begin', shardIndex: 2, shardTotal: 3 });
+    });
+
+    it('should append a batch to its runner\'s log', async () => {
+      const originalEnv = process.env;
+      process.env = {
+        ...originalEnv,
+        SORRY_CURRENTS_RUN_ID: 'run-7-batch-2',
+        SORRY_CURRENTS_PARENT_RUN_ID: 'run-7',
+        SORRY_CURRENTS_SHARD_INDEX: '1',
+        SORRY_CURRENTS_SHARD_TOTAL: '2',
+      };
+
+      try {
+        const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+        reporter.onBegin(makeFullConfig(), makeSuite(1));
+        const test = makeTestCase();
+        reporter.onTestBegin(test, makePWTestResult());
+        reporter.onTestEnd(test, makePWTestResult());
+        await reporter.onEnd(makeFullResult());
+      } finally {
+        process.env = originalEnv;
+      }
+
+      const runsDir = join(outputDir, 'runs');
+      expect(await readdir(join(runsDir, 'run-7-batch-2'))).not.toContain('events-shard-1-of-2.ndjson');
+      const raw = await readFile(join(runsDir, 'run-7', 'events-shard-1-of-2.ndjson'), 'utf-8');
+      const events = raw.trim().split('\n').map((line) => JSON.parse(line));
+      expect(events.map((e) => e.type)).toEqual(['batch-begin', 'test-begin', 'test-end', 'batch-end']);
+      expect(events[0]).toMatchObject({ batchRunId: 'run-7-batch-2', totalTests: 1 });
+      expect(events[3]).toMatchObject({ batchRunId: 'run-7-batch-2', status: 'passed' });
+      expect(events.every((e) => RunEventSchema.safeParse(e).success)).toBe(true);
+    });
+
+    it('should append a work-queue batch to the log named after its runner', async () => {
+      const originalEnv = process.env;
+      process.env = {
+        ...originalEnv,
+        SORRY_CURRENTS_RUN_ID: 'run-7-runner-a-batch-1',
+        SORRY_CURRENTS_PARENT_RUN_ID: 'run-7',
+        SORRY_CURRENTS_RUNNER_ID: 'runner-a',
+      };
+      delete process.env['SORRY_CURRENTS_SHARD_INDEX'];
+      delete process.env['SORRY_CURRENTS_SHARD_TOTAL'];
+
+      try {
+        const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+        reporter.onBegin(makeFullConfig(), makeSuite(1));
+        await reporter.onEnd(makeFullResult());
+      } finally {
+        process.env = originalEnv;
+      }
+
+      expect(await readdir(join(outputDir, 'runs', 'run-7'))).toEqual(['events-runner-runner-a.ndjson']);
+    });
+  });
+
   describe('printsToStdio', () => {
     it('should return false', () => {
       const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
@@ -336,5 +640,30 @@ describe('SorryCurrentsReporter', () => {
       expect(result.shardIndex).toBe(3);
       expect(result.shardCount).toBe(5);
     });
+
+    it('should fall back to SORRY_CURRENTS_SHARD_* env vars for plan shards', async () => {
+      const originalEnv = process.env;
+      process.env = {
+        ...originalEnv,
+        SORRY_CURRENTS_SHARD_INDEX: '2',
+        SORRY_CURRENTS_SHARD_TOTAL: '3',
+      };
+
+      try {
+        const reporter = new SorryCurrentsReporter({ outputDir, silent: true });
+        reporter.onBegin(makeFullConfig(), makeSuite());
+        reporter.onTestEnd(makeTestCase(), makePWTestResult());
+        await reporter.onEnd(makeFullResult());
+      } finally {
+        process.env = originalEnv;
+      }
+
+      const runsDir = join(outputDir, 'runs');
+      const runs = await readdir(runsDir);
+      const runDir = join(runsDir, runs[0]!);
+      const files = await readdir(runDir);
+
+      expect(files).toContain('shard-2-of-3.json');
+    });
   });
 });
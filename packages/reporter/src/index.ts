@@ -1,10 +1,13 @@
-import { mkdir, writeFile } from 'node:fs/promises';
+import { appendFile, mkdir, writeFile } from 'node:fs/promises';
 import { dirname, join, relative } from 'node:path';
 
 import {
   type Logger,
   type TestResult,
+  type TestAttempt,
+  type TestStep,
   type RunResult,
+  type RunEvent,
   type ReporterOptions,
   ReporterOptionsSchema,
   ConsoleLogger,
@@ -12,6 +15,8 @@ import {
   generateTestId,
   detectFlaky,
   detectCI,
+  detectBranch,
+  eventLogFileName,
 } from '@sorry-currents/core';
 
 /**
@@ -43,15 +48,90 @@ function mapPlaywrightRunStatus(status: string): RunResult['status'] {
   return PW_RUN_STATUS_MAP[status] ?? 'failed';
 }
 
+/**
+ * Join an attempt's output chunks, keeping at most the last `maxSize` bytes —
+ * the end of the output is usually closest to the failure. The cut moves
+ * forward to the next character, so a multi-byte character is never split.
+ * Undefined when there is none.
+ */
+function joinOutput(chunks: readonly (string | Buffer)[], maxSize: number): string | undefined {
+  const output = Buffer.concat(chunks.map((c) => (typeof c === 'string' ? Buffer.from(c) : c)));
+  if (output.length === 0 || maxSize === 0) return undefined;
+  if (output.length <= maxSize) return output.toString('utf-8');
+  let dropped = output.length - maxSize;
+  // UTF-8 continuation bytes are 10xxxxxx
+  while (dropped < output.length && (output[dropped]! & 0xc0) === 0x80) dropped++;
+  return `[… ${dropped} bytes truncated]\n` + output.subarray(dropped).toString('utf-8');
+}
+
+/** Whether an attempt keeps its output under `captureOutput` */
+function capturesOutput(mode: ReporterOptions['captureOutput'], status: TestResult['status']): boolean {
+  if (mode === 'always') return true;
+  return mode === 'failures' && (status === 'failed' || status === 'timedOut' || status === 'interrupted');
+}
+
+/** The per-attempt part of a mapped result */
+function toAttempt(result: TestResult): TestAttempt {
+  return {
+    retry: result.retries,
+    status: result.status,
+    duration: result.duration,
+    errors: result.errors,
+    attachments: result.attachments,
+    startedAt: result.startedAt,
+    workerId: result.workerId,
+    ...(result.stdout !== undefined ? { stdout: result.stdout } : {}),
+    ...(result.stderr !== undefined ? { stderr: result.stderr } : {}),
+  };
+}
+
 import type {
   Reporter,
   FullConfig,
   Suite,
   TestCase,
   TestResult as PWTestResult,
+  TestStep as PWTestStep,
   FullResult,
 } from '@playwright/test/reporter';
 
+/** Steps nested deeper than this are dropped — top-level steps are depth 1 */
+const MAX_STEP_DEPTH = 3;
+
+/** Steps recorded per attempt; later ones are dropped to keep results compact */
+const MAX_STEPS = 50;
+
+/** A step recorded while the test runs; `duration` and `error` are filled in when it ends */
+interface StepNode {
+  readonly title: string;
+  readonly category: string;
+  duration: number;
+  error?: string;
+  readonly steps: StepNode[];
+}
+
+/** Steps recorded for one attempt */
+interface StepTree {
+  readonly roots: StepNode[];
+  readonly nodes: Map<PWTestStep, StepNode>;
+}
+
+function stepDepth(step: PWTestStep): number {
+  let depth = 1;
+  for (let parent = step.parent; parent; parent = parent.parent) depth++;
+  return depth;
+}
+
+function toTestSteps(nodes: readonly StepNode[]): TestStep[] {
+  return nodes.map((node) => ({
+    title: node.title,
+    category: node.category,
+    duration: node.duration,
+    ...(node.error !== undefined ? { error: node.error } : {}),
+    ...(node.steps.length > 0 ? { steps: toTestSteps(node.steps) } : {}),
+  }));
+}
+
 /**
  * Custom Playwright Reporter that captures test execution data
  * and writes it to the sorry-currents output directory.
@@ -66,13 +146,17 @@ class SorryCurrentsReporter implements Reporter {
   private readonly options: ReporterOptions;
   private readonly logger: Logger;
   private readonly testResults: TestResult[] = [];
-  /** Track the highest retry seen per test to deduplicate retry attempts */
+  /** Latest attempt per test, carrying every attempt seen so far in `attempts` */
   private readonly testRetryMap = new Map<string, TestResult>();
+  /** Steps of attempts still running, dropped once the attempt ends */
+  private readonly stepTrees = new Map<PWTestResult, StepTree>();
   private config: FullConfig | null = null;
   private suite: Suite | null = null;
   private startTime: string = '';
   private cachedRunId: string | null = null;
   private readonly writeQueue: Promise<void>[] = [];
+  /** Appends to the event log, chained so events land in order */
+  private eventLog: Promise<void> = Promise.resolve();
 
   constructor(rawOptions: Record<string, unknown> = {}) {
     this.options = ReporterOptionsSchema.parse(rawOptions);
@@ -94,23 +178,125 @@ class SorryCurrentsReporter implements Reporter {
     // Ensure output directories exist (fire-and-forget, non-blocking)
     const runsDir = this.getRunDir();
     const testsDir = join(runsDir, 'tests');
-    this.enqueueWrite(mkdir(testsDir, { recursive: true }).then(() => {}));
+    const created = Promise.all([
+      mkdir(testsDir, { recursive: true }),
+      mkdir(dirname(this.getEventLogPath()), { recursive: true }),
+    ]).then(() => {});
+    this.enqueueWrite(created);
+    this.eventLog = created.catch(() => {});
+
+    try {
+      const shardInfo = this.getShardInfo();
+      const tests = suite.allTests();
+      const planned = tests.map((test) => this.identifyTest(test));
+      if (this.getParentRunId()) {
+        this.appendEvent({
+          type: 'batch-begin',
+          timestamp: this.startTime,
+          batchRunId: this.getRunId(),
+          totalTests: tests.length,
+          tests: planned,
+        });
+      } else {
+        this.appendEvent({
+          type: 'run-begin',
+          timestamp: this.startTime,
+          runId: this.getRunId(),
+          totalTests: tests.length,
+          ...(shardInfo ? { shardIndex: shardInfo.current, shardTotal: shardInfo.total } : {}),
+          tests: planned,
+        });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to record run start', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 
-  onTestEnd(test: TestCase, result: PWTestResult): void {
+  onTestBegin(test: TestCase, result: PWTestResult): void {
+    try {
+      const { id, title, file, project } = this.identifyTest(test);
+      this.appendEvent({
+        type: 'test-begin',
+        timestamp: new Date().toISOString(),
+        testId: id,
+        title,
+        file,
+        project,
+        retry: result.retry,
+      });
+    } catch (error) {
+      this.logger.warn('Failed to record test start', {
+        testTitle: test?.title ?? 'unknown',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  onStepBegin(_test: TestCase, result: PWTestResult, step: PWTestStep): void {
     try {
-      const testResult = this.mapTestResult(test, result);
-
-      // Deduplicate retry attempts: Playwright calls onTestEnd for every attempt.
-      // We keep only the latest attempt (highest retry count) per test ID.
-      const existing = this.testRetryMap.get(testResult.id);
-      if (existing && existing.retries >= testResult.retries) {
-        // We already have a later or equal attempt — skip this one
-        return;
+      let tree = this.stepTrees.get(result);
+      if (!tree) {
+        tree = { roots: [], nodes: new Map() };
+        this.stepTrees.set(result, tree);
       }
+      if (tree.nodes.size >= MAX_STEPS || stepDepth(step) > MAX_STEP_DEPTH) return;
+
+      const parent = step.parent ? tree.nodes.get(step.parent) : undefined;
+      // The parent was dropped, so its children go too
+      if (step.parent && !parent) return;
+
+      const node: StepNode = { title: step.title, category: step.category, duration: 0, steps: [] };
+      (parent?.steps ?? tree.roots).push(node);
+      tree.nodes.set(step, node);
+    } catch (error) {
+      this.logger.warn('Failed to record test step', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  onStepEnd(_test: TestCase, result: PWTestResult, step: PWTestStep): void {
+    const node = this.stepTrees.get(result)?.nodes.get(step);
+    if (!node) return;
+    node.duration = Math.max(0, step.duration);
+    const message = step.error?.message;
+    if (message) {
+      node.error = message.split('\n')[0];
+    }
+  }
+
+  onTestEnd(test: TestCase, result: PWTestResult): void {
+    try {
+      const attemptResult = this.mapTestResult(test, result);
+      this.stepTrees.delete(result);
+      this.appendEvent({
+        type: 'test-end',
+        timestamp: new Date().toISOString(),
+        testId: attemptResult.id,
+        title: attemptResult.title,
+        file: attemptResult.file,
+        project: attemptResult.project,
+        retry: attemptResult.retries,
+        status: attemptResult.status,
+        duration: attemptResult.duration,
+        isFlaky: attemptResult.isFlaky,
+        ...(attemptResult.errors[0] ? { error: attemptResult.errors[0].message.split('\n')[0] } : {}),
+      });
+
+      // Playwright calls onTestEnd for every attempt. The latest attempt (highest
+      // retry count) describes the test; all of them are kept in `attempts`.
+      const existing = this.testRetryMap.get(attemptResult.id);
+      const attempts = [
+        ...(existing?.attempts ?? []).filter((a) => a.retry !== attemptResult.retries),
+        toAttempt(attemptResult),
+      ].sort((a, b) => a.retry - b.retry);
+      const latest = existing && existing.retries > attemptResult.retries ? existing : attemptResult;
+      const testResult: TestResult = { ...latest, attempts };
       this.testRetryMap.set(testResult.id, testResult);
 
-      // Crash-resilient: write each test result immediately (overwrites previous attempt)
+      // Crash-resilient: write each test result immediately (overwrites the previous attempt's file)
       const testFile = join(this.getRunDir(), 'tests', `${testResult.id}.json`);
       this.enqueueWrite(
         this.safeWriteJson(testFile, testResult),
@@ -153,6 +339,19 @@ class SorryCurrentsReporter implements Reporter {
         await this.safeWriteJson(join(runDir, shardFile), runResult);
       }
 
+      // Last, so a watcher sees the run end only once its results are on disk
+      const ended = {
+        timestamp: new Date().toISOString(),
+        status: runResult.status,
+        duration: runResult.duration,
+      };
+      this.appendEvent(
+        this.getParentRunId()
+          ? { type: 'batch-end', batchRunId: this.getRunId(), ...ended }
+          : { type: 'run-end', ...ended },
+      );
+      await this.eventLog;
+
       this.logger.info('sorry-currents results written', {
         outputDir: runDir,
         totalTests: this.testResults.length,
@@ -168,18 +367,34 @@ class SorryCurrentsReporter implements Reporter {
 
   // --- Private helpers ---
 
-  private mapTestResult(test: TestCase, result: PWTestResult): TestResult {
+  /** ID, file, full title and project of a test, as recorded in its results */
+  private identifyTest(test: TestCase): Pick<TestResult, 'id' | 'file' | 'title' | 'project'> {
     const file = relative(
       this.config?.rootDir ?? process.cwd(),
       test.location.file,
     );
     const project = test.parent.project()?.name ?? '';
-
     return {
       id: generateTestId(file, test.title, project),
       file,
       title: test.titlePath().join(' > '),
       project,
+    };
+  }
+
+  private mapTestResult(test: TestCase, result: PWTestResult): TestResult {
+    const { id, file, title, project } = this.identifyTest(test);
+    const steps = toTestSteps(this.stepTrees.get(result)?.roots ?? []);
+    const capture = capturesOutput(this.options.captureOutput, mapPlaywrightStatus(result.status));
+    const stdout = capture ? joinOutput(result.stdout, this.options.maxOutputSize) : undefined;
+    const stderr = capture ? joinOutput(result.stderr, this.options.maxOutputSize) : undefined;
+
+    return {
+      id,
+      file,
+      line: test.location.line,
+      title,
+      project,
       status: mapPlaywrightStatus(result.status),
       duration: result.duration,
       retries: result.retry,
@@ -211,6 +426,9 @@ class SorryCurrentsReporter implements Reporter {
       startedAt: new Date(result.startTime).toISOString(),
       workerId: result.workerIndex,
       shardIndex: this.getShardInfo()?.current,
+      ...(steps.length > 0 ? { steps } : {}),
+      ...(stdout !== undefined ? { stdout } : {}),
+      ...(stderr !== undefined ? { stderr } : {}),
     };
   }
 
@@ -248,13 +466,14 @@ class SorryCurrentsReporter implements Reporter {
         ci: detectCI(),
       },
       git: {
-        branch: process.env['GITHUB_REF_NAME'] ?? process.env['CI_COMMIT_BRANCH'] ?? 'unknown',
+        branch: detectBranch() ?? 'unknown',
         commit: process.env['GITHUB_SHA'] ?? process.env['CI_COMMIT_SHA'] ?? 'unknown',
         commitMessage: process.env['GITHUB_EVENT_HEAD_COMMIT_MESSAGE'] ?? '',
         author: process.env['GITHUB_ACTOR'] ?? process.env['GITLAB_USER_LOGIN'] ?? 'unknown',
       },
       config: {
         workers: this.config?.workers ?? 1,
+        fullyParallel: this.config?.fullyParallel ?? false,
         projects: this.config?.projects.map((p) => p.name) ?? [],
         retries: this.testResults[0]?.retries ?? 0,
         timeout: this.config?.projects[0]?.timeout ?? 30_000,
@@ -293,10 +512,32 @@ class SorryCurrentsReporter implements Reporter {
     return join(this.options.outputDir, 'runs', this.getRunId());
   }
 
+  /**
+   * Run this invocation is one batch of — `sorry-currents run` sets it when it
+   * splits a runner's work into several Playwright invocations, each reporting
+   * under its own run ID. Events then go to the runner's log, not the batch's.
+   */
+  private getParentRunId(): string | undefined {
+    const parent = process.env['SORRY_CURRENTS_PARENT_RUN_ID'];
+    return parent && parent !== this.getRunId() ? parent : undefined;
+  }
+
+  private getEventLogPath(): string {
+    const runId = this.getParentRunId() ?? this.getRunId();
+    // `sorry-currents run --queue` names the runner, which has no shard index
+    const runnerId = process.env['SORRY_CURRENTS_RUNNER_ID'] || undefined;
+    return join(this.options.outputDir, 'runs', runId, eventLogFileName(this.getShardInfo(), runnerId));
+  }
+
   private getShardInfo(): { current: number; total: number } | null {
     const shard = this.config?.shard;
-    if (!shard) return null;
-    return { current: shard.current, total: shard.total };
+    if (shard) return { current: shard.current, total: shard.total };
+
+    // `sorry-currents run --shard-plan` runs a shard's files without Playwright's --shard
+    const current = parseInt(process.env['SORRY_CURRENTS_SHARD_INDEX'] ?? '', 10);
+    const total = parseInt(process.env['SORRY_CURRENTS_SHARD_TOTAL'] ?? '', 10);
+    if (Number.isFinite(current) && Number.isFinite(total)) return { current, total };
+    return null;
   }
 
   private async safeWriteJson(filePath: string, data: unknown): Promise<void> {
@@ -312,6 +553,20 @@ class SorryCurrentsReporter implements Reporter {
     }
   }
 
+  /** Append an event to this shard's event log, after the events before it */
+  private appendEvent(event: RunEvent): void {
+    const path = this.getEventLogPath();
+    this.eventLog = this.eventLog
+      .then(() => appendFile(path, JSON.stringify(event) + '\n', 'utf-8'))
+      .catch((error: unknown) => {
+        this.logger.warn('Failed to append to event log', {
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    this.enqueueWrite(this.eventLog);
+  }
+
   private enqueueWrite(promise: Promise<void>): void {
     this.writeQueue.push(promise);
   }
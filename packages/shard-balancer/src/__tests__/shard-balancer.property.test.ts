@@ -5,6 +5,7 @@ import {
   LPTStrategy,
   RoundRobinStrategy,
   FileGroupStrategy,
+  OptimalStrategy,
   type TestTimingEntry,
 } from '../index.js';
 
@@ -232,3 +233,31 @@ describe('FileGroupStrategy — property-based tests', () => {
     );
   });
 });
+
+describe('OptimalStrategy — property-based tests', () => {
+  const strategy = new OptimalStrategy();
+  const lpt = new LPTStrategy();
+
+  it('should never be worse than LPT', () => {
+    fc.assert(
+      fc.property(testListArb, shardCountArb, (tests, shards) => {
+        const plan = strategy.balance(tests, shards);
+        expect(plan.maxShardDuration).toBeLessThanOrEqual(lpt.balance(tests, shards).maxShardDuration);
+        expect(plan.improvementOverLpt).toBeGreaterThanOrEqual(0);
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it('should assign every unique file to exactly one shard', () => {
+    fc.assert(
+      fc.property(testListArb, shardCountArb, (tests, shards) => {
+        const plan = strategy.balance(tests, shards);
+        const assigned = plan.shards.flatMap((s) => s.tests);
+        expect(new Set(assigned).size).toBe(assigned.length);
+        expect(new Set(assigned)).toEqual(new Set(tests.map((t) => t.file)));
+      }),
+      { numRuns: 100 },
+    );
+  });
+});
@@ -4,11 +4,19 @@ import {
   LPTStrategy,
   RoundRobinStrategy,
   FileGroupStrategy,
+  LPTSplitStrategy,
+  OptimalStrategy,
   getStrategy,
   listStrategies,
   timingDataToEntries,
+  estimateNewFiles,
   calculateOptimalShardCount,
+  calculateDurationFloor,
+  createWorkQueue,
+  computeTradeoffCurve,
+  selectShardCount,
   type TestTimingEntry,
+  type TradeoffPoint,
 } from '../index.js';
 
 describe('LPTStrategy', () => {
@@ -204,6 +212,618 @@ describe('FileGroupStrategy', () => {
   });
 });
 
+describe('LPTSplitStrategy', () => {
+  const strategy = new LPTSplitStrategy();
+
+  it('should split an oversized file into file:line units', () => {
+    const tests: TestTimingEntry[] = [
+      { testId: 'a1', file: 'a.spec.ts', line: 3, estimatedDuration: 30_000 },
+      { testId: 'a2', file: 'a.spec.ts', line: 10, estimatedDuration: 30_000 },
+      { testId: 'a3', file: 'a.spec.ts', line: 17, estimatedDuration: 30_000 },
+      { testId: 'b1', file: 'b.spec.ts', line: 1, estimatedDuration: 10_000 },
+      { testId: 'c1', file: 'c.spec.ts', line: 1, estimatedDuration: 10_000 },
+    ];
+
+    const plan = strategy.balance(tests, 3);
+
+    // File-level LPT is stuck at 90s; splitting brings the makespan to 40s
+    expect(plan.strategy).toBe('lpt-split');
+    expect(plan.totalTests).toBe(5);
+    expect(plan.maxShardDuration).toBe(40_000);
+
+    const allFilters = plan.shards.flatMap((s) => s.tests).sort();
+    expect(allFilters).toEqual([
+      'a.spec.ts:10',
+      'a.spec.ts:17',
+      'a.spec.ts:3',
+      'b.spec.ts',
+      'c.spec.ts',
+    ]);
+  });
+
+  it('should keep a file whole when any test lacks a line', () => {
+    const tests: TestTimingEntry[] = [
+      { testId: 'a1', file: 'a.spec.ts', line: 3, estimatedDuration: 30_000 },
+      { testId: 'a2', file: 'a.spec.ts', estimatedDuration: 30_000 },
+      { testId: 'b1', file: 'b.spec.ts', line: 1, estimatedDuration: 10_000 },
+    ];
+
+    const plan = strategy.balance(tests, 2);
+
+    expect(plan.shards.flatMap((s) => s.tests).sort()).toEqual(['a.spec.ts', 'b.spec.ts']);
+    expect(plan.maxShardDuration).toBe(60_000);
+  });
+
+  it('should sum tests sharing a declaration line into one unit', () => {
+    const tests: TestTimingEntry[] = [
+      { testId: 'a1', file: 'a.spec.ts', line: 5, estimatedDuration: 20_000 },
+      { testId: 'a2', file: 'a.spec.ts', line: 5, estimatedDuration: 20_000 },
+      { testId: 'a3', file: 'a.spec.ts', line: 9, estimatedDuration: 40_000 },
+    ];
+
+    const plan = strategy.balance(tests, 2);
+
+    expect(plan.shards).toHaveLength(2);
+    expect(plan.shards.map((s) => s.estimatedDuration)).toEqual([40_000, 40_000]);
+    expect(plan.shards.flatMap((s) => s.tests).sort()).toEqual(['a.spec.ts:5', 'a.spec.ts:9']);
+  });
+
+  it('should collapse locations that land on a single shard back to the file', () => {
+    const tests: TestTimingEntry[] = [
+      { testId: 'a1', file: 'a.spec.ts', line: 1, estimatedDuration: 50_000 },
+      { testId: 'a2', file: 'a.spec.ts', line: 8, estimatedDuration: 1_000 },
+      { testId: 'b1', file: 'b.spec.ts', line: 1, estimatedDuration: 50_000 },
+    ];
+
+    // a.spec.ts (51s) exceeds the 50.5s even share and is split, but both of
+    // its units end up on the same shard, so no location filter is needed
+    const plan = strategy.balance(tests, 2);
+    const allFilters = plan.shards.flatMap((s) => s.tests).sort();
+
+    expect(allFilters).toEqual(['a.spec.ts', 'b.spec.ts']);
+  });
+
+  it('should behave like file-level LPT when no file is oversized', () => {
+    const tests: TestTimingEntry[] = [
+      { testId: 'a1', file: 'a.spec.ts', line: 1, estimatedDuration: 10_000 },
+      { testId: 'a2', file: 'a.spec.ts', line: 5, estimatedDuration: 10_000 },
+      { testId: 'b1', file: 'b.spec.ts', line: 1, estimatedDuration: 20_000 },
+    ];
+
+    const plan = strategy.balance(tests, 2);
+
+    expect(plan.shards.flatMap((s) => s.tests).sort()).toEqual(['a.spec.ts', 'b.spec.ts']);
+    expect(plan.maxShardDuration).toBe(20_000);
+  });
+
+  it('should handle empty test list', () => {
+    const plan = strategy.balance([], 4);
+    expect(plan.shards).toHaveLength(1);
+    expect(plan.totalTests).toBe(0);
+  });
+
+  it('should throw for zero shardCount', () => {
+    expect(() => strategy.balance([], 0)).toThrow('shardCount must be positive');
+  });
+});
+
+describe('OptimalStrategy', () => {
+  const strategy = new OptimalStrategy();
+
+  it('should beat LPT where greedy assignment is suboptimal', () => {
+    // LPT: [3, 2, 2] | [3, 2] → 7s max. Optimal: [3, 3] | [2, 2, 2] → 6s
+    const tests: TestTimingEntry[] = [
+      { testId: 'a', file: 'a.spec.ts', estimatedDuration: 3_000 },
+      { testId: 'b', file: 'b.spec.ts', estimatedDuration: 3_000 },
+      { testId: 'c', file: 'c.spec.ts', estimatedDuration: 2_000 },
+      { testId: 'd', file: 'd.spec.ts', estimatedDuration: 2_000 },
+      { testId: 'e', file: 'e.spec.ts', estimatedDuration: 2_000 },
+    ];
+
+    const lpt = new LPTStrategy().balance(tests, 2);
+    const plan = strategy.balance(tests, 2);
+
+    expect(lpt.maxShardDuration).toBe(7_000);
+    expect(plan.strategy).toBe('optimal');
+    expect(plan.maxShardDuration).toBe(6_000);
+    expect(plan.minShardDuration).toBe(6_000);
+    expect(plan.improvementOverLpt).toBe(14.29);
+  });
+
+  it('should report zero improvement over LPT when LPT is already optimal', () => {
+    const tests: TestTimingEntry[] = [
+      { testId: 'a', file: 'a.spec.ts', estimatedDuration: 10_000 },
+      { testId: 'b', file: 'b.spec.ts', estimatedDuration: 10_000 },
+    ];
+
+    const plan = strategy.balance(tests, 2);
+    expect(plan.maxShardDuration).toBe(10_000);
+    expect(plan.improvementOverLpt).toBe(0);
+  });
+
+  it('should keep tests from the same file together', () => {
+    const tests: TestTimingEntry[] = [
+      { testId: 'a1', file: 'a.spec.ts', estimatedDuration: 4_000 },
+      { testId: 'a2', file: 'a.spec.ts', estimatedDuration: 4_000 },
+      { testId: 'b1', file: 'b.spec.ts', estimatedDuration: 5_000 },
+      { testId: 'c1', file: 'c.spec.ts', estimatedDuration: 3_000 },
+    ];
+
+    const plan = strategy.balance(tests, 2);
+    const allFiles = plan.shards.flatMap((s) => s.tests).sort();
+
+    expect(allFiles).toEqual(['a.spec.ts', 'b.spec.ts', 'c.spec.ts']);
+    expect(plan.totalTests).toBe(4);
+    expect(plan.maxShardDuration).toBe(8_000);
+  });
+
+  it('should fall back to the starting partition when no moves are allowed', () => {
+    const tests: TestTimingEntry[] = [
+      { testId: 'a', file: 'a.spec.ts', estimatedDuration: 3_000 },
+      { testId: 'b', file: 'b.spec.ts', estimatedDuration: 2_000 },
+    ];
+
+    const plan = new OptimalStrategy({ maxMoves: 0 }).balance(tests, 2);
+    expect(plan.shards.flatMap((s) => s.tests).sort()).toEqual(['a.spec.ts', 'b.spec.ts']);
+  });
+
+  it('should return the same assignments for the same input', () => {
+    const tests: TestTimingEntry[] = Array.from({ length: 60 }, (_, i) => ({
+      testId: `t${i}`,
+      file: `f${i}.spec.ts`,
+      estimatedDuration: 1_000 + ((i * 7_919) % 13_000),
+    }));
+
+    const first = strategy.balance(tests, 7);
+    const second = new OptimalStrategy().balance(tests, 7);
+    expect(second.shards).toEqual(first.shards);
+  });
+
+  it('should handle empty test list', () => {
+    const plan = strategy.balance([], 4);
+    expect(plan.shards).toHaveLength(1);
+    expect(plan.totalTests).toBe(0);
+  });
+
+  it('should throw for zero shardCount', () => {
+    expect(() => strategy.balance([], 0)).toThrow('shardCount must be positive');
+  });
+});
+
+describe('shard overhead', () => {
+  const tests: TestTimingEntry[] = [
+    { testId: 'a', file: 'a.spec.ts', estimatedDuration: 10_000 },
+    { testId: 'b', file: 'b.spec.ts', estimatedDuration: 4_000 },
+    { testId: 'c', file: 'c.spec.ts', estimatedDuration: 4_000 },
+  ];
+  const overhead = { shardSetup: 20_000, perFile: 1_000 };
+
+  it('should include setup and per-file cost in every strategy\'s shard estimates', () => {
+    for (const name of listStrategies()) {
+      const plan = getStrategy(name)!.balance(tests, 2, { overhead });
+      const total = plan.shards.reduce((sum, s) => sum + s.estimatedDuration, 0);
+
+      // 18s of tests + 3 files × 1s + 2 shards × 20s
+      expect(total).toBe(61_000);
+    }
+  });
+
+  it('should let per-file cost steer LPT assignment', () => {
+    const many: TestTimingEntry[] = [
+      { testId: 'big', file: 'big.spec.ts', estimatedDuration: 6_000 },
+      ...Array.from({ length: 6 }, (_, i) => ({
+        testId: `s${i}`,
+        file: `small${i}.spec.ts`,
+        estimatedDuration: 1_000,
+      })),
+    ];
+
+    // Without overhead 6s vs 6×1s balance perfectly; with 1s per file the
+    // six small files cost 12s and the big one only 7s
+    const plan = new LPTStrategy().balance(many, 2, { overhead: { shardSetup: 0, perFile: 1_000 } });
+    expect(plan.maxShardDuration).toBe(10_000);
+  });
+
+  it('should count a collapsed split file\'s startup once', () => {
+    const located: TestTimingEntry[] = [
+      { testId: 'a1', file: 'a.spec.ts', line: 1, estimatedDuration: 50_000 },
+      { testId: 'a2', file: 'a.spec.ts', line: 8, estimatedDuration: 1_000 },
+      { testId: 'b1', file: 'b.spec.ts', line: 1, estimatedDuration: 50_000 },
+    ];
+
+    const plan = new LPTSplitStrategy().balance(located, 2, { overhead: { shardSetup: 0, perFile: 500 } });
+    expect(plan.shards.flatMap((s) => s.tests).sort()).toEqual(['a.spec.ts', 'b.spec.ts']);
+    expect(plan.maxShardDuration).toBe(51_500);
+  });
+
+  it('should reserve shard setup when calculating shard count', () => {
+    // 4 files × 30s = 120s. Target 60s: 2 shards without overhead,
+    // but with 30s setup only 30s per shard is left for tests → 4 shards
+    const entries: TestTimingEntry[] = Array.from({ length: 4 }, (_, i) => ({
+      testId: `t${i}`,
+      file: `f${i}.spec.ts`,
+      estimatedDuration: 30_000,
+    }));
+
+    expect(calculateOptimalShardCount(entries, 60_000, 10)).toBe(2);
+    expect(calculateOptimalShardCount(entries, 60_000, 10, {
+      overhead: { shardSetup: 30_000, perFile: 0 },
+    })).toBe(4);
+  });
+
+  it('should take the maximum allowed shards when setup exceeds the target', () => {
+    const entries: TestTimingEntry[] = Array.from({ length: 4 }, (_, i) => ({
+      testId: `t${i}`,
+      file: `f${i}.spec.ts`,
+      estimatedDuration: 30_000,
+    }));
+
+    expect(calculateOptimalShardCount(entries, 10_000, 3, {
+      overhead: { shardSetup: 20_000, perFile: 0 },
+    })).toBe(3);
+  });
+
+  it('should add overhead to the duration floor', () => {
+    expect(calculateDurationFloor(tests, { overhead })).toBe(31_000);
+  });
+});
+
+describe('worker simulation', () => {
+  const tests: TestTimingEntry[] = [
+    { testId: 'a1', file: 'a.spec.ts', estimatedDuration: 10_000 },
+    { testId: 'a2', file: 'a.spec.ts', estimatedDuration: 10_000 },
+    { testId: 'b1', file: 'b.spec.ts', estimatedDuration: 5_000 },
+    { testId: 'c1', file: 'c.spec.ts', estimatedDuration: 5_000 },
+  ];
+
+  it('should estimate wall-clock time across workers instead of summed time', () => {
+    const plan = new LPTStrategy().balance(tests, 1, { workers: 2 });
+
+    // a (20s) on one worker, b then c (10s) on the other
+    expect(plan.shards[0]!.estimatedDuration).toBe(20_000);
+    expect(plan.maxShardDuration).toBe(20_000);
+  });
+
+  it('should spread tests of one file across workers with fullyParallel', () => {
+    const plan = new LPTStrategy().balance(tests, 1, { workers: 2, fullyParallel: true });
+
+    // a1 | a2, then b and c fill in → 15s each
+    expect(plan.shards[0]!.estimatedDuration).toBe(15_000);
+  });
+
+  it('should add shard setup once and per-file cost per file', () => {
+    const plan = new LPTStrategy().balance(tests, 1, {
+      workers: 2,
+      overhead: { shardSetup: 30_000, perFile: 1_000 },
+    });
+
+    // a: 21s | b: 6s + c: 6s = 12s → 30s setup + 21s
+    expect(plan.shards[0]!.estimatedDuration).toBe(51_000);
+  });
+
+  it('should leave estimates unchanged with a single worker', () => {
+    const plan = new LPTStrategy().balance(tests, 1, { workers: 1 });
+    expect(plan.shards[0]!.estimatedDuration).toBe(30_000);
+  });
+
+  it('should simulate file:line units from lpt-split', () => {
+    const located: TestTimingEntry[] = [
+      { testId: 'a1', file: 'a.spec.ts', line: 1, estimatedDuration: 40_000 },
+      { testId: 'a2', file: 'a.spec.ts', line: 9, estimatedDuration: 40_000 },
+      { testId: 'b1', file: 'b.spec.ts', line: 1, estimatedDuration: 20_000 },
+    ];
+
+    const plan = new LPTSplitStrategy().balance(located, 2, { workers: 2 });
+    for (const shard of plan.shards) {
+      expect(shard.estimatedDuration).toBeLessThanOrEqual(40_000);
+    }
+  });
+
+  it('should scale shard count capacity by the worker count', () => {
+    const entries: TestTimingEntry[] = Array.from({ length: 8 }, (_, i) => ({
+      testId: `t${i}`,
+      file: `f${i}.spec.ts`,
+      estimatedDuration: 30_000,
+    }));
+
+    // 240s of tests, 60s target: 4 shards with 1 worker, 1 with 4 workers
+    expect(calculateOptimalShardCount(entries, 60_000, 10)).toBe(4);
+    expect(calculateOptimalShardCount(entries, 60_000, 10, { workers: 4 })).toBe(1);
+  });
+
+  it('should use the longest test as the floor with fullyParallel workers', () => {
+    expect(calculateDurationFloor(tests, { workers: 2 })).toBe(20_000);
+    expect(calculateDurationFloor(tests, { workers: 2, fullyParallel: true })).toBe(10_000);
+  });
+});
+
+describe('project splitting', () => {
+  const tests: TestTimingEntry[] = [
+    { testId: 'a-chromium', file: 'a.spec.ts', project: 'chromium', estimatedDuration: 20_000 },
+    { testId: 'a-webkit', file: 'a.spec.ts', project: 'webkit', estimatedDuration: 40_000 },
+    { testId: 'b-chromium', file: 'b.spec.ts', project: 'chromium', estimatedDuration: 10_000 },
+    { testId: 'b-webkit', file: 'b.spec.ts', project: 'webkit', estimatedDuration: 20_000 },
+  ];
+
+  it('should place one file\'s projects on different shards', () => {
+    const plan = new LPTStrategy().balance(tests, 2, { splitProjects: true });
+
+    // webkit a + chromium b (50s) | chromium a + webkit b (40s)
+    expect(plan.maxShardDuration).toBe(50_000);
+    const shardsWithA = plan.shards.filter((s) => s.tests.includes('a.spec.ts'));
+    expect(shardsWithA).toHaveLength(2);
+  });
+
+  it('should group each shard\'s files by project', () => {
+    const plan = new LPTStrategy().balance(tests, 2, { splitProjects: true });
+
+    for (const shard of plan.shards) {
+      expect(shard.groups).toBeDefined();
+      const grouped = shard.groups!.flatMap((g) => g.tests);
+      expect(new Set(grouped)).toEqual(new Set(shard.tests));
+    }
+    const webkitA = plan.shards.find((s) =>
+      s.groups!.some((g) => g.project === 'webkit' && g.tests.includes('a.spec.ts')),
+    );
+    expect(webkitA?.estimatedDuration).toBe(50_000);
+  });
+
+  it('should beat file-level balancing when one project is much slower', () => {
+    const byFile = new LPTStrategy().balance(tests, 2);
+    const byProject = new LPTStrategy().balance(tests, 2, { splitProjects: true });
+
+    // By file: a (60s) | b (30s)
+    expect(byFile.maxShardDuration).toBe(60_000);
+    expect(byProject.maxShardDuration).toBeLessThan(byFile.maxShardDuration);
+  });
+
+  it('should leave groups unset without splitProjects', () => {
+    const plan = new LPTStrategy().balance(tests, 2);
+    expect(plan.shards.every((s) => s.groups === undefined)).toBe(true);
+  });
+
+  it('should keep entries without a project in a group that runs every project', () => {
+    const plan = new LPTStrategy().balance(
+      [{ testId: 'n1', file: 'new.spec.ts', estimatedDuration: 5_000 }],
+      1,
+      { splitProjects: true },
+    );
+
+    expect(plan.shards[0]!.groups).toEqual([{ tests: ['new.spec.ts'] }]);
+  });
+
+  it('should work with every strategy', () => {
+    for (const strategy of [
+      new RoundRobinStrategy(),
+      new FileGroupStrategy(),
+      new LPTSplitStrategy(),
+      new OptimalStrategy(),
+    ]) {
+      const plan = strategy.balance(tests, 2, { splitProjects: true });
+      const pairs = plan.shards.flatMap((s) =>
+        s.groups!.flatMap((g) => g.tests.map((t) => `${g.project}:${t}`)),
+      );
+      expect(pairs.sort()).toEqual([
+        'chromium:a.spec.ts',
+        'chromium:b.spec.ts',
+        'webkit:a.spec.ts',
+        'webkit:b.spec.ts',
+      ]);
+    }
+  });
+
+  it('should simulate each project group as its own invocation', () => {
+    const plan = new LPTStrategy().balance(tests, 1, { splitProjects: true, workers: 2 });
+
+    // chromium: a | b → 20s, then webkit: a | b → 40s
+    expect(plan.shards[0]!.estimatedDuration).toBe(60_000);
+  });
+
+  it('should count (file, project) pairs as units for shard count', () => {
+    // 90s total, 30s target, but only 2 files — 4 pairs allow 3 shards
+    expect(calculateOptimalShardCount(tests, 30_000, 10)).toBe(2);
+    expect(calculateOptimalShardCount(tests, 30_000, 10, { splitProjects: true })).toBe(3);
+  });
+});
+
+describe('shard constraints', () => {
+  const tests: TestTimingEntry[] = [
+    { testId: 'a', file: 'a.spec.ts', estimatedDuration: 40_000 },
+    { testId: 'b', file: 'b.spec.ts', estimatedDuration: 30_000 },
+    { testId: 'c', file: 'c.spec.ts', estimatedDuration: 20_000 },
+    { testId: 'd', file: 'd.spec.ts', estimatedDuration: 10_000 },
+  ];
+  const none = { together: [], apart: [], pinToShard: [] };
+
+  function shardOf(plan: ReturnType<LPTStrategy['balance']>, file: string): number | undefined {
+    return plan.shards.find((s) => s.tests.includes(file))?.shardIndex;
+  }
+
+  it('should keep together groups on one shard', () => {
+    // Unconstrained LPT puts a and d on one shard, b and c on the other
+    const constraints = { ...none, together: [['a.spec.ts', 'b.spec.ts']] };
+    const plan = new LPTStrategy().balance(tests, 2, { constraints });
+
+    expect(shardOf(plan, 'a.spec.ts')).toBe(shardOf(plan, 'b.spec.ts'));
+    expect(plan.maxShardDuration).toBe(70_000);
+  });
+
+  it('should split apart pairs onto different shards', () => {
+    const constraints = { ...none, apart: [['a.spec.ts', 'd.spec.ts'] as [string, string]] };
+    const plan = new LPTStrategy().balance(tests, 2, { constraints });
+
+    expect(shardOf(plan, 'a.spec.ts')).not.toBe(shardOf(plan, 'd.spec.ts'));
+    expect(plan.maxShardDuration).toBe(60_000);
+  });
+
+  it('should place pinned files on their shard', () => {
+    const constraints = { ...none, pinToShard: [{ file: 'd.spec.ts', shard: 2 }] };
+    const plan = new LPTStrategy().balance(tests, 2, { constraints });
+
+    expect(shardOf(plan, 'd.spec.ts')).toBe(2);
+  });
+
+  it('should rebalance the remaining files around constrained ones', () => {
+    const constraints = {
+      ...none,
+      pinToShard: [{ file: 'a.spec.ts', shard: 1 }, { file: 'b.spec.ts', shard: 1 }],
+    };
+    const plan = new LPTStrategy().balance(tests, 2, { constraints });
+
+    // a + b (70s) are fixed on shard 1 — c and d both belong on shard 2
+    expect(plan.shards[1]!.tests.sort()).toEqual(['c.spec.ts', 'd.spec.ts']);
+    expect(plan.shards[1]!.estimatedDuration).toBe(30_000);
+  });
+
+  it('should swap files to rebalance when no single move helps', () => {
+    const constraints = { ...none, pinToShard: [{ file: 'c.spec.ts', shard: 1 }] };
+    const plan = new LPTStrategy().balance(tests.slice(0, 3), 2, { constraints });
+
+    // Pinning c next to a gives 60s | 30s — swapping a for b gives b + c (50s) | a (40s)
+    expect(shardOf(plan, 'c.spec.ts')).toBe(1);
+    expect(plan.maxShardDuration).toBe(50_000);
+  });
+
+  it('should leave the plan untouched when it already honours the constraints', () => {
+    const constraints = { ...none, apart: [['a.spec.ts', 'b.spec.ts'] as [string, string]] };
+    const unconstrained = new LPTStrategy().balance(tests, 2);
+    const plan = new LPTStrategy().balance(tests, 2, { constraints });
+
+    expect(plan.shards.map((s) => s.tests)).toEqual(unconstrained.shards.map((s) => s.tests));
+  });
+
+  it('should leave unsatisfiable constraints broken', () => {
+    const constraints = {
+      ...none,
+      together: [['a.spec.ts', 'b.spec.ts']],
+      apart: [['a.spec.ts', 'b.spec.ts'] as [string, string]],
+    };
+    const plan = new LPTStrategy().balance(tests, 2, { constraints });
+
+    expect(shardOf(plan, 'a.spec.ts')).toBe(shardOf(plan, 'b.spec.ts'));
+  });
+
+  it('should be honoured by every strategy', () => {
+    const constraints = {
+      together: [['b.spec.ts', 'd.spec.ts']],
+      apart: [['a.spec.ts', 'c.spec.ts'] as [string, string]],
+      pinToShard: [{ file: 'c.spec.ts', shard: 1 }],
+    };
+
+    for (const strategy of [
+      new RoundRobinStrategy(),
+      new FileGroupStrategy(),
+      new LPTSplitStrategy(),
+      new OptimalStrategy(),
+    ]) {
+      const plan = strategy.balance(tests, 3, { constraints });
+      expect(shardOf(plan, 'b.spec.ts')).toBe(shardOf(plan, 'd.spec.ts'));
+      expect(shardOf(plan, 'a.spec.ts')).not.toBe(shardOf(plan, 'c.spec.ts'));
+      expect(shardOf(plan, 'c.spec.ts')).toBe(1);
+    }
+  });
+
+  it('should apply to files when projects are split', () => {
+    const projectTests: TestTimingEntry[] = [
+      { testId: 'a-c', file: 'a.spec.ts', project: 'chromium', estimatedDuration: 20_000 },
+      { testId: 'a-w', file: 'a.spec.ts', project: 'webkit', estimatedDuration: 20_000 },
+      { testId: 'b-c', file: 'b.spec.ts', project: 'chromium', estimatedDuration: 20_000 },
+    ];
+    const constraints = { ...none, pinToShard: [{ file: 'a.spec.ts', shard: 2 }] };
+    const plan = new LPTStrategy().balance(projectTests, 2, { splitProjects: true, constraints });
+
+    expect(plan.shards[1]!.groups!.map((g) => g.project).sort()).toEqual(['chromium', 'webkit']);
+    expect(plan.shards[0]!.tests).toEqual(['b.spec.ts']);
+  });
+});
+
+describe('runner capacities', () => {
+  const tests: TestTimingEntry[] = Array.from({ length: 6 }, (_, i) => ({
+    testId: `t${i}`,
+    file: `f${i}.spec.ts`,
+    estimatedDuration: 30_000,
+  }));
+
+  it('should give a faster runner proportionally more work', () => {
+    const plan = new LPTStrategy().balance(tests, 2, { capacities: [1, 2] });
+
+    // 180s of tests: 2 files on the 1× runner, 4 on the 2× runner — both finish at 60s
+    expect(plan.shards[0]!.tests).toHaveLength(2);
+    expect(plan.shards[1]!.tests).toHaveLength(4);
+    expect(plan.shards.map((s) => s.estimatedDuration)).toEqual([60_000, 60_000]);
+  });
+
+  it('should record the capacity each shard was planned for', () => {
+    const plan = new LPTStrategy().balance(tests, 3, { capacities: [1, 1, 2] });
+    expect(plan.shards.map((s) => s.capacity)).toEqual([1, 1, 2]);
+  });
+
+  it('should leave capacity unset without weights', () => {
+    const plan = new LPTStrategy().balance(tests, 2);
+    expect(plan.shards.every((s) => s.capacity === undefined)).toBe(true);
+  });
+
+  it('should not scale shard setup by capacity', () => {
+    const plan = new LPTStrategy().balance(tests, 2, {
+      capacities: [1, 2],
+      overhead: { shardSetup: 10_000, perFile: 0 },
+    });
+    expect(plan.maxShardDuration).toBe(70_000);
+  });
+
+  it('should divide simulated worker time by capacity', () => {
+    const plan = new LPTStrategy().balance(tests, 2, { capacities: [1, 2], workers: 2 });
+
+    // 2 files on 2 workers → 30s; 4 files on 2 workers at 2× → 30s
+    expect(plan.shards.map((s) => s.estimatedDuration)).toEqual([30_000, 30_000]);
+  });
+
+  it('should combine with constraints', () => {
+    const plan = new LPTStrategy().balance(tests, 2, {
+      capacities: [1, 2],
+      constraints: { together: [], apart: [], pinToShard: [{ file: 'f0.spec.ts', shard: 1 }] },
+    });
+
+    expect(plan.shards[0]!.tests).toContain('f0.spec.ts');
+    expect(plan.maxShardDuration).toBe(60_000);
+  });
+
+  it('should balance split locations and optimal partitions by capacity', () => {
+    const located = tests.map((t, i) => ({ ...t, file: 'big.spec.ts', line: (i + 1) * 10 }));
+
+    const split = new LPTSplitStrategy().balance(located, 2, { capacities: [1, 2] });
+    const optimal = new OptimalStrategy().balance(tests, 2, { capacities: [1, 2] });
+
+    expect(split.shards.map((s) => s.tests.length)).toEqual([2, 4]);
+    expect(optimal.shards.map((s) => s.tests.length)).toEqual([2, 4]);
+    expect(optimal.maxShardDuration).toBe(60_000);
+  });
+
+  it('should score improvement against an even split on the same runners', () => {
+    const plan = new LPTStrategy().balance(tests, 2, { capacities: [1, 2] });
+
+    // Even split: 90s per shard, 90s on the 1× runner — placed plan finishes at 60s
+    expect(plan.improvement).toBe(33.33);
+  });
+
+  it('should score improvement over LPT after constraints are applied', () => {
+    // Optimal alone: [3, 3] | [2, 2, 2] → 6s, but a and b must be apart — back to LPT's 7s
+    const fives: TestTimingEntry[] = [
+      { testId: 'a', file: 'a.spec.ts', estimatedDuration: 3_000 },
+      { testId: 'b', file: 'b.spec.ts', estimatedDuration: 3_000 },
+      { testId: 'c', file: 'c.spec.ts', estimatedDuration: 2_000 },
+      { testId: 'd', file: 'd.spec.ts', estimatedDuration: 2_000 },
+      { testId: 'e', file: 'e.spec.ts', estimatedDuration: 2_000 },
+    ];
+    const constraints = { together: [], apart: [['a.spec.ts', 'b.spec.ts'] as [string, string]], pinToShard: [] };
+
+    const plan = new OptimalStrategy().balance(fives, 2, { constraints });
+
+    expect(plan.maxShardDuration).toBe(7_000);
+    expect(plan.improvementOverLpt).toBe(0);
+  });
+});
+
 describe('getStrategy', () => {
   it('should return LPTStrategy for "lpt"', () => {
     const strategy = getStrategy('lpt');
@@ -223,6 +843,18 @@ describe('getStrategy', () => {
     expect(strategy!.name).toBe('file-group');
   });
 
+  it('should return LPTSplitStrategy for "lpt-split"', () => {
+    const strategy = getStrategy('lpt-split');
+    expect(strategy).toBeDefined();
+    expect(strategy!.name).toBe('lpt-split');
+  });
+
+  it('should return OptimalStrategy for "optimal"', () => {
+    const strategy = getStrategy('optimal');
+    expect(strategy).toBeDefined();
+    expect(strategy!.name).toBe('optimal');
+  });
+
   it('should return undefined for unknown strategy', () => {
     const strategy = getStrategy('nonexistent');
     expect(strategy).toBeUndefined();
@@ -235,7 +867,9 @@ describe('listStrategies', () => {
     expect(names).toContain('lpt');
     expect(names).toContain('round-robin');
     expect(names).toContain('file-group');
-    expect(names).toHaveLength(3);
+    expect(names).toContain('lpt-split');
+    expect(names).toContain('optimal');
+    expect(names).toHaveLength(5);
   });
 });
 
@@ -253,6 +887,7 @@ describe('timingDataToEntries', () => {
     expect(entries[0]!.file).toBe('a.spec.ts');
     expect(entries[0]!.estimatedDuration).toBe(5000);
     expect(entries[1]!.estimatedDuration).toBe(3000);
+    expect(entries[1]!.project).toBe('mobile');
   });
 
   it('should use default duration for zero avgDuration', () => {
@@ -268,6 +903,81 @@ describe('timingDataToEntries', () => {
     const entries = timingDataToEntries([], 10_000);
     expect(entries).toHaveLength(0);
   });
+
+  it('should use the selected estimator as the base duration', () => {
+    const timingData = [
+      {
+        testId: 'test1', file: 'a.spec.ts', project: 'default',
+        avgDuration: 5000, p95Duration: 9000, ewmaDuration: 7000, medianDuration: 4000,
+        samples: 10, stdDev: 500, lastDurations: [4000, 4000, 9000],
+      },
+    ];
+
+    expect(timingDataToEntries(timingData, 10_000, 0, 'ewma')[0]!.estimatedDuration).toBe(7000);
+    expect(timingDataToEntries(timingData, 10_000, 0, 'median')[0]!.estimatedDuration).toBe(4000);
+    expect(timingDataToEntries(timingData, 10_000, 1, 'ewma')[0]!.estimatedDuration).toBe(7500);
+    // p95 is already pessimistic — the risk factor doesn't pad it again
+    expect(timingDataToEntries(timingData, 10_000, 1, 'p95')[0]!.estimatedDuration).toBe(9000);
+  });
+
+  it('should use a manual override as-is, whatever the estimator and risk factor', () => {
+    const timingData = [
+      {
+        testId: 'test1', file: 'a.spec.ts', project: 'default',
+        avgDuration: 5000, p95Duration: 9000, overrideDuration: 20_000,
+        samples: 10, stdDev: 500, lastDurations: [],
+      },
+    ];
+
+    expect(timingDataToEntries(timingData, 10_000, 2, 'ewma')[0]!.estimatedDuration).toBe(20_000);
+  });
+});
+
+describe('estimateNewFiles', () => {
+  const known: TestTimingEntry[] = [
+    { testId: 'c1', file: 'tests/checkout/cart.spec.ts', project: 'chromium', estimatedDuration: 4000 },
+    { testId: 'c2', file: 'tests/checkout/pay.spec.ts', project: 'chromium', estimatedDuration: 6000 },
+    { testId: 'a1', file: 'tests/admin/users.spec.ts', project: 'chromium', estimatedDuration: 1000, tags: ['@admin'] },
+    { testId: 'a2', file: 'tests/admin/users.spec.ts', project: 'webkit', estimatedDuration: 3000, tags: ['@admin'] },
+  ];
+
+  it('should use the average test of the same directory, times the declared test count', () => {
+    const [estimate] = estimateNewFiles(known, [{ file: 'tests/checkout/refund.spec.ts', testCount: 3 }], 30_000);
+    expect(estimate).toEqual({ file: 'tests/checkout/refund.spec.ts', estimatedDuration: 15_000, heuristic: 'directory' });
+  });
+
+  it('should sum per-project averages, since a file runs under every project', () => {
+    const [estimate] = estimateNewFiles(known, [{ file: 'tests/admin/roles.spec.ts', testCount: 2 }], 30_000);
+    // (1000 chromium + 3000 webkit) per test
+    expect(estimate!.estimatedDuration).toBe(8000);
+  });
+
+  it('should fall back to tests sharing a tag', () => {
+    const [estimate] = estimateNewFiles(
+      known,
+      [{ file: 'tests/settings/audit.spec.ts', testCount: 1, tags: ['@admin'] }],
+      30_000,
+    );
+    expect(estimate!.heuristic).toBe('tags');
+    expect(estimate!.estimatedDuration).toBe(4000);
+  });
+
+  it('should fall back to the whole suite per project', () => {
+    const [estimate] = estimateNewFiles(known, [{ file: 'tests/other/new.spec.ts', testCount: 1 }], 30_000);
+    expect(estimate!.heuristic).toBe('suite');
+    // chromium avg (4000 + 6000 + 1000) / 3 + webkit 3000
+    expect(estimate!.estimatedDuration).toBe(6667);
+  });
+
+  it('should count a file with no recognised declarations as one test', () => {
+    const [estimate] = estimateNewFiles(known, [{ file: 'tests/checkout/loop.spec.ts', testCount: 0 }], 30_000);
+    expect(estimate!.estimatedDuration).toBe(5000);
+  });
+
+  it('should use the default duration when there are no known tests', () => {
+    const [estimate] = estimateNewFiles([], [{ file: 'a.spec.ts', testCount: 4 }], 30_000);
+    expect(estimate).toEqual({ file: 'a.spec.ts', estimatedDuration: 30_000, heuristic: 'default' });
+  });
 });
 
 describe('calculateOptimalShardCount', () => {
@@ -348,4 +1058,121 @@ describe('calculateOptimalShardCount', () => {
     const result = calculateOptimalShardCount(entries, 60_000, 10);
     expect(result).toBe(1);
   });
+
+  it('should count per-test units when files can be split', () => {
+    // 1 file with 4 located tests totaling 120s, target 30s → 4 shards
+    const entries: TestTimingEntry[] = Array.from({ length: 4 }, (_, i) => ({
+      testId: `a${i}`,
+      file: 'a.spec.ts',
+      line: i * 10 + 1,
+      estimatedDuration: 30_000,
+    }));
+    expect(calculateOptimalShardCount(entries, 30_000, 10)).toBe(1);
+    expect(calculateOptimalShardCount(entries, 30_000, 10, { splitFiles: true })).toBe(4);
+  });
+});
+
+describe('calculateDurationFloor', () => {
+  const entries: TestTimingEntry[] = [
+    { testId: 'a1', file: 'a.spec.ts', line: 3, estimatedDuration: 60_000 },
+    { testId: 'a2', file: 'a.spec.ts', line: 9, estimatedDuration: 40_000 },
+    { testId: 'b1', file: 'b.spec.ts', estimatedDuration: 50_000 },
+  ];
+
+  it('should return the longest file by default', () => {
+    expect(calculateDurationFloor(entries)).toBe(100_000);
+  });
+
+  it('should return the longest test when files can be split', () => {
+    expect(calculateDurationFloor(entries, { splitFiles: true })).toBe(60_000);
+  });
+
+  it('should return 0 for empty entries', () => {
+    expect(calculateDurationFloor([])).toBe(0);
+  });
+});
+
+describe('createWorkQueue', () => {
+  it('should aggregate by file and order longest first', () => {
+    const entries: TestTimingEntry[] = [
+      { testId: 'a1', file: 'a.spec.ts', estimatedDuration: 5_000 },
+      { testId: 'b1', file: 'b.spec.ts', estimatedDuration: 20_000 },
+      { testId: 'a2', file: 'a.spec.ts', estimatedDuration: 10_000 },
+      { testId: 'c1', file: 'c.spec.ts', estimatedDuration: 1_000 },
+    ];
+
+    expect(createWorkQueue(entries)).toEqual([
+      { test: 'b.spec.ts', estimatedDuration: 20_000 },
+      { test: 'a.spec.ts', estimatedDuration: 15_000 },
+      { test: 'c.spec.ts', estimatedDuration: 1_000 },
+    ]);
+  });
+
+  it('should return empty queue for empty entries', () => {
+    expect(createWorkQueue([])).toEqual([]);
+  });
+});
+
+describe('computeTradeoffCurve', () => {
+  const entries: TestTimingEntry[] = Array.from({ length: 4 }, (_, i) => ({
+    testId: `t${i}`,
+    file: `f${i}.spec.ts`,
+    estimatedDuration: 60_000,
+  }));
+
+  it('should record wall-clock and billed time per shard count', () => {
+    const curve = computeTradeoffCurve(entries, new LPTStrategy(), 4, {
+      overhead: { shardSetup: 30_000, perFile: 0 },
+    });
+
+    expect(curve).toEqual([
+      { shardCount: 1, wallClock: 270_000, billed: 270_000 },
+      { shardCount: 2, wallClock: 150_000, billed: 300_000 },
+      { shardCount: 3, wallClock: 150_000, billed: 450_000 },
+      { shardCount: 4, wallClock: 90_000, billed: 360_000 },
+    ]);
+  });
+
+  it('should stop once there are more shards than files', () => {
+    const curve = computeTradeoffCurve(entries, new LPTStrategy(), 10);
+    expect(curve.map((p) => p.shardCount)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('selectShardCount', () => {
+  const curve: TradeoffPoint[] = [
+    { shardCount: 1, wallClock: 270_000, billed: 270_000 },
+    { shardCount: 2, wallClock: 150_000, billed: 300_000 },
+    { shardCount: 3, wallClock: 150_000, billed: 450_000 },
+    { shardCount: 4, wallClock: 90_000, billed: 360_000 },
+  ];
+
+  it('should pick the fastest point for time without a target', () => {
+    expect(selectShardCount(curve, 'time')).toBe(4);
+  });
+
+  it('should pick the fewest shards meeting the target for time', () => {
+    expect(selectShardCount(curve, 'time', 200_000)).toBe(2);
+  });
+
+  it('should pick the cheapest point for cost', () => {
+    expect(selectShardCount(curve, 'cost')).toBe(1);
+  });
+
+  it('should only consider points meeting the target for cost', () => {
+    expect(selectShardCount(curve, 'cost', 200_000)).toBe(2);
+  });
+
+  it('should weigh both for balanced', () => {
+    // 1: 3.0 + 1.0, 2: 1.67 + 1.11, 3: 1.67 + 1.67, 4: 1.0 + 1.33
+    expect(selectShardCount(curve, 'balanced')).toBe(4);
+  });
+
+  it('should fall back to the whole curve when no point meets the target', () => {
+    expect(selectShardCount(curve, 'cost', 10_000)).toBe(1);
+  });
+
+  it('should return 1 for an empty curve', () => {
+    expect(selectShardCount([], 'balanced')).toBe(1);
+  });
 });
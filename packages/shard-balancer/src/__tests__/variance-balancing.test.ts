@@ -7,7 +7,7 @@ import {
   LPTStrategy,
 } from '../index.js';
 
-import type { ShardTimingData } from '@sorry-currents/core';
+import { sketchFromDurations, sketchQuantile, type ShardTimingData } from '@sorry-currents/core';
 
 // --- computePessimisticDuration ---
 
@@ -145,3 +145,39 @@ describe('LPT with variance-padded entries', () => {
     expect(planWithPadding.maxShardDuration).toBeGreaterThanOrEqual(planNoPadding.maxShardDuration);
   });
 });
+
+// --- Quantile risk model ---
+
+describe('quantile risk model', () => {
+  // Long right tail: mostly ~1s, occasionally 10s
+  const durations = Array.from({ length: 60 }, (_, i) => (i % 10 === 0 ? 10_000 : 1000));
+  const sketch = sketchFromDurations(durations)!;
+
+  it('should pad to a quantile of the sketch instead of avg + k*stdDev', () => {
+    const p98 = sketchQuantile(sketch, 0.97725);
+    expect(computePessimisticDuration(1900, 2700, 2, sketch)).toBe(Math.max(1900, p98));
+  });
+
+  it('should never return less than avg', () => {
+    // p84 of a mostly-1s distribution is below the mean
+    expect(computePessimisticDuration(1900, 2700, 1, sketch)).toBe(1900);
+  });
+
+  it('should ignore the sketch when riskFactor is 0', () => {
+    expect(computePessimisticDuration(1900, 2700, 0, sketch)).toBe(1900);
+  });
+
+  it('should use sketches only with the quantile model, falling back to stdDev without one', () => {
+    const data: ShardTimingData[] = [
+      { testId: 't1', file: 'a.spec.ts', project: 'default', avgDuration: 1900, p95Duration: 10_000, samples: 60, stdDev: 2700, lastDurations: [], sketch },
+      { testId: 't2', file: 'b.spec.ts', project: 'default', avgDuration: 3000, p95Duration: 4000, samples: 5, stdDev: 500, lastDurations: [] },
+    ];
+
+    const stddev = timingDataToEntries(data, 10_000, 2);
+    const quantile = timingDataToEntries(data, 10_000, 2, 'mean', 'quantile');
+
+    expect(stddev[0]!.estimatedDuration).toBe(1900 + 2 * 2700);
+    expect(quantile[0]!.estimatedDuration).toBe(Math.max(1900, sketchQuantile(sketch, 0.97725)));
+    expect(quantile[1]!.estimatedDuration).toBe(4000);
+  });
+});
@@ -2,6 +2,17 @@ import type {
   ShardPlan,
   ShardAssignment,
   ShardTimingData,
+  ShardOverhead,
+  ShardConstraints,
+  WorkQueueItem,
+  DurationEstimator,
+  DurationSketch,
+} from '@sorry-currents/core';
+import {
+  estimateDuration,
+  formatTestLocation,
+  parseTestLocation,
+  sketchQuantile,
 } from '@sorry-currents/core';
 
 /**
@@ -10,7 +21,30 @@ import type {
  */
 export interface ShardStrategy {
   readonly name: string;
-  balance(tests: readonly TestTimingEntry[], shardCount: number): ShardPlan;
+  balance(tests: readonly TestTimingEntry[], shardCount: number, options?: BalanceOptions): ShardPlan;
+}
+
+/**
+ * How a shard actually executes, beyond the per-test durations themselves.
+ * Reflected in each shard's `estimatedDuration`.
+ */
+export interface BalanceOptions {
+  /** Fixed per-shard setup (`shardSetup`) and per-file startup (`perFile`) cost, in ms. */
+  readonly overhead?: Pick<ShardOverhead, 'shardSetup' | 'perFile'>;
+  /** Playwright workers per shard — above 1, estimates are simulated wall-clock time. */
+  readonly workers?: number;
+  /** Playwright `fullyParallel` — tests of one file may run on different workers. */
+  readonly fullyParallel?: boolean;
+  /** Balance (file, project) pairs, so a file's projects may run on different shards. */
+  readonly splitProjects?: boolean;
+  /** Placement rules — `together` groups, `apart` pairs and `pinToShard` files. */
+  readonly constraints?: ShardConstraints;
+  /**
+   * Relative speed of each shard's runner, by shard index (e.g. `[1, 1, 4]` for
+   * two 2-core runners and one 8-core). Test time on a shard is divided by its
+   * capacity, and shards are balanced to finish together.
+   */
+  readonly capacities?: readonly number[];
 }
 
 /**
@@ -20,31 +54,61 @@ export interface ShardStrategy {
 export interface TestTimingEntry {
   readonly testId: string;
   readonly file: string;
+  /** Line of the test declaration — required for a file to be split by `lpt-split`. */
+  readonly line?: number;
+  /** Playwright project the timing was recorded under — used by `splitProjects`. */
+  readonly project?: string;
+  /** Playwright tags — used to estimate new files with the same tags. */
+  readonly tags?: readonly string[];
   readonly estimatedDuration: number;
   /** Standard deviation of recent durations — used for risk-adjusted balancing. */
   readonly stdDev?: number;
 }
 
+/** How the risk factor turns a test's spread into padding. */
+export const RISK_MODELS = ['stddev', 'quantile'] as const;
+
+export type RiskModel = (typeof RISK_MODELS)[number];
+
 /**
  * Compute a risk-adjusted (pessimistic) duration estimate.
  *
  * Returns avg + k * stdDev, where k is the risk factor.
  * When stdDev is 0 or undefined, returns avg unchanged.
+ * Given a duration sketch, instead reads the quantile a normal distribution
+ * would put k standard deviations above the mean (k=1 → p84, k=2 → p98)
+ * from the test's real distribution — skewed durations aren't assumed normal.
+ * Never returns less than avg.
  * Pure function — quantifies execution time uncertainty as extra duration padding.
  *
  * @param avg - Average duration in ms
  * @param stdDev - Standard deviation of recent durations in ms
- * @param riskFactor - How many standard deviations to add (0 = no padding, 1 = 68th percentile, 2 = 95th percentile)
+ * @param riskFactor - How many standard deviations to add (0 = no padding); with a sketch, the quantile read (1 = p84, 2 = p98)
+ * @param sketch - Quantile sketch of the test's durations, for the quantile risk model
  */
 export function computePessimisticDuration(
   avg: number,
   stdDev: number | undefined,
   riskFactor: number,
+  sketch?: DurationSketch,
 ): number {
-  if (!stdDev || riskFactor <= 0) return avg;
+  if (riskFactor <= 0) return avg;
+  if (sketch && sketch.centroids.length > 0) {
+    return Math.max(avg, sketchQuantile(sketch, normalCdf(riskFactor)));
+  }
+  if (!stdDev) return avg;
   return Math.round(avg + riskFactor * stdDev);
 }
 
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
 // --- Shared helpers ---
 
 function validateShardCount(shardCount: number): void {
@@ -57,15 +121,35 @@ function effectiveCount(shardCount: number, testCount: number): number {
   return Math.min(shardCount, testCount || 1);
 }
 
-function createEmptyBuckets(count: number): { tests: string[]; duration: number }[] {
-  return Array.from({ length: count }, () => ({ tests: [], duration: 0 }));
+/** Every bucket starts with the shard setup cost already on the clock. */
+function createEmptyBuckets(count: number, shardSetup = 0): { tests: string[]; duration: number }[] {
+  return Array.from({ length: count }, () => ({ tests: [], duration: shardSetup }));
+}
+
+/**
+ * The bucket that would finish `duration` more work soonest — the lightest,
+ * or with `capacities`, the one with the least load per unit of capacity.
+ * Shard setup sits on every bucket's clock and isn't scaled. Ties go to the
+ * lowest index.
+ */
+function soonestBucket<T extends { duration: number }>(
+  buckets: readonly T[],
+  duration: number,
+  shardSetup: number,
+  capacities?: readonly number[],
+): T {
+  const finish = (i: number): number => (buckets[i]!.duration - shardSetup + duration) / (capacities?.[i] ?? 1);
+  let soonest = 0;
+  for (let i = 1; i < buckets.length; i++) {
+    if (finish(i) < finish(soonest)) soonest = i;
+  }
+  return buckets[soonest]!;
 }
 
 function toShardPlan(
   buckets: { tests: string[]; duration: number }[],
   strategy: ShardPlan['strategy'],
   totalTests: number,
-  improvement?: number,
 ): ShardPlan {
   const shardAssignments: ShardAssignment[] = buckets.map((shard, i) => ({
     shardIndex: i + 1,
@@ -81,53 +165,465 @@ function toShardPlan(
     totalTests,
     maxShardDuration: durations.length > 0 ? Math.max(...durations) : 0,
     minShardDuration: durations.length > 0 ? Math.min(...durations) : 0,
-    improvement,
     generatedAt: new Date().toISOString(),
   };
 }
 
+/** What `finalizePlan` reports about a strategy's plan — nothing unless asked. */
+interface PlanScoring {
+  /** Set `improvement`, over splitting the work evenly by shard */
+  readonly improvement?: boolean;
+  /** Set `improvementOverLpt`, against this LPT plan for the same work */
+  readonly lptBaseline?: ShardPlan;
+}
+
+/**
+ * Shared tail of every strategy: apply constraints and runner capacities,
+ * score the plan as placed, then simulate workers.
+ */
+function finalizePlan(
+  plan: ShardPlan,
+  tests: readonly TestTimingEntry[],
+  options: BalanceOptions,
+  scoring: PlanScoring = {},
+): ShardPlan {
+  const placed = enforcePlacement(plan, tests, options);
+  const scored: ShardPlan = {
+    ...placed,
+    ...(scoring.improvement ? { improvement: improvementOverEvenSplit(placed, tests, options) } : {}),
+    ...(scoring.lptBaseline
+      ? {
+          improvementOverLpt: percentFaster(
+            enforcePlacement(scoring.lptBaseline, tests, options).maxShardDuration,
+            placed.maxShardDuration,
+          ),
+        }
+      : {}),
+  };
+  return simulateWorkers(scored, tests, options);
+}
+
+/**
+ * How much sooner `plan` finishes than splitting its work evenly across the
+ * same shards — where, with capacities, the slowest runner finishes last.
+ */
+function improvementOverEvenSplit(
+  plan: ShardPlan,
+  tests: readonly TestTimingEntry[],
+  options: BalanceOptions,
+): number {
+  const { shardSetup = 0, perFile = 0 } = options.overhead ?? {};
+  const testsByFile = indexByFile(tests);
+  const total = plan.shards
+    .flatMap((shard) => shard.tests)
+    .reduce((sum, filter) => sum + unitDuration(filter, testsByFile, perFile), 0);
+  const evenShare = total / Math.max(plan.shards.length, 1);
+  const naiveMax = shardSetup + Math.max(
+    ...plan.shards.map((_, i) => evenShare / (options.capacities?.[i] ?? 1)),
+    0,
+  );
+  return percentFaster(naiveMax, plan.maxShardDuration);
+}
+
+/** Percent by which `makespan` beats `baseline`, to two decimals. */
+function percentFaster(baseline: number, makespan: number): number {
+  return baseline > 0 ? Math.round(((baseline - makespan) / baseline) * 100 * 100) / 100 : 0;
+}
+
+interface ConstrainedBlock {
+  readonly filters: string[];
+  readonly files: Set<string>;
+  duration: number;
+  /** Duration of the longest single unit — decides where a group starts */
+  heaviestUnit: number;
+  pin?: number;
+  shard: number;
+}
+
+/**
+ * Move units so the plan honours `options.constraints` and `options.capacities`.
+ * Strategies balance without looking at constraints, and round-robin ignores
+ * capacities too; this pass pulls each `together` group onto one shard, puts pinned files on their
+ * shard and pulls `apart` pairs away from each other, then moves or swaps
+ * unpinned work off the shard that finishes last for as long as that makes it
+ * finish sooner — with capacities, a faster runner takes on more.
+ *
+ * Best effort — rules that contradict each other or the shard count stay
+ * broken, for `checkShardConstraints` to report. A plan the rules don't
+ * touch is returned as is.
+ */
+function enforcePlacement(
+  plan: ShardPlan,
+  tests: readonly TestTimingEntry[],
+  options: BalanceOptions,
+): ShardPlan {
+  const constraints = options.constraints ?? { together: [], apart: [], pinToShard: [] };
+  const { capacities } = options;
+  if (
+    constraints.together.length === 0 &&
+    constraints.apart.length === 0 &&
+    constraints.pinToShard.length === 0 &&
+    capacities === undefined
+  ) {
+    return plan;
+  }
+  const { shardSetup = 0, perFile = 0 } = options.overhead ?? {};
+  const shardCount = plan.shards.length;
+  const testsByFile = indexByFile(tests);
+  const capacity = (shard: number): number => capacities?.[shard] ?? 1;
+
+  // Union `together` groups that share a file into one group root per file
+  const parent = new Map<string, string>();
+  const root = (file: string): string => {
+    let current = file;
+    while (parent.has(current) && parent.get(current) !== current) current = parent.get(current)!;
+    return current;
+  };
+  for (const group of constraints.together) {
+    for (const file of group) {
+      if (!parent.has(file)) parent.set(file, file);
+      parent.set(root(file), root(group[0]!));
+    }
+  }
+
+  const pins = new Map(constraints.pinToShard.map((p) => [p.file, p.shard - 1]));
+  const partners = new Map<string, Set<string>>();
+  for (const [a, b] of constraints.apart) {
+    partners.set(a, (partners.get(a) ?? new Set()).add(b));
+    partners.set(b, (partners.get(b) ?? new Set()).add(a));
+  }
+
+  const blocks = new Map<string, ConstrainedBlock>();
+  plan.shards.forEach((shard, shardIdx) => {
+    for (const filter of shard.tests) {
+      const file = constraintFile(filter);
+      const key = parent.has(file) ? `together:${root(file)}` : `unit:${filter}`;
+      const duration = unitDuration(filter, testsByFile, perFile);
+      const block = blocks.get(key) ??
+        { filters: [], files: new Set<string>(), duration: 0, heaviestUnit: -1, shard: shardIdx };
+      // A group starts on the shard its heaviest member was balanced onto
+      if (duration > block.heaviestUnit) {
+        block.heaviestUnit = duration;
+        block.shard = shardIdx;
+      }
+      block.filters.push(filter);
+      block.files.add(file);
+      block.duration += duration;
+      block.pin ??= pins.get(file);
+      blocks.set(key, block);
+    }
+  });
+
+  const placed = [...blocks.values()];
+  const originalShard = new Map(plan.shards.flatMap((shard, i) => shard.tests.map((f) => [f, i] as const)));
+  for (const block of placed) {
+    if (block.pin !== undefined && block.pin < shardCount) {
+      block.shard = block.pin;
+    }
+  }
+
+  const loads = new Array<number>(shardCount).fill(0);
+  for (const block of placed) loads[block.shard]! += block.duration;
+  /** When a shard's tests finish, given its runner's capacity */
+  const finish = (shard: number, load = loads[shard]!): number => load / capacity(shard);
+
+  const conflicts = (block: ConstrainedBlock, shard: number): boolean =>
+    [...block.files].some((f) => partners.has(f)) &&
+    placed.some((other) =>
+      other !== block &&
+      other.shard === shard &&
+      [...block.files].some((f) => [...other.files].some((o) => partners.get(f)?.has(o))),
+    );
+  const movable = (block: ConstrainedBlock): boolean => block.pin === undefined;
+  const move = (block: ConstrainedBlock, shard: number): void => {
+    loads[block.shard]! -= block.duration;
+    loads[shard]! += block.duration;
+    block.shard = shard;
+  };
+
+  // Separate `apart` pairs — heaviest first, each to the shard without a partner that would finish first
+  for (const block of [...placed].sort((a, b) => b.duration - a.duration)) {
+    if (!movable(block) || !conflicts(block, block.shard)) continue;
+    let target: number | undefined;
+    for (let shard = 0; shard < shardCount; shard++) {
+      if (
+        !conflicts(block, shard) &&
+        (target === undefined ||
+          finish(shard, loads[shard]! + block.duration) < finish(target, loads[target]! + block.duration))
+      ) {
+        target = shard;
+      }
+    }
+    if (target !== undefined) move(block, target);
+  }
+
+  // Moves above may have unbalanced the plan — finish the last shard sooner while
+  // moving one of its blocks elsewhere, or swapping it for a shorter one, helps
+  for (;;) {
+    const finishes = loads.map((_, shard) => finish(shard));
+    const longest = finishes.indexOf(Math.max(...finishes));
+    let best: { block: ConstrainedBlock; swap?: ConstrainedBlock; shard: number; makespan: number } | undefined;
+    for (const block of placed) {
+      if (block.shard !== longest || !movable(block)) continue;
+      for (let shard = 0; shard < shardCount; shard++) {
+        if (shard === longest || conflicts(block, shard)) continue;
+        const candidates = [
+          undefined,
+          ...placed.filter((o) => o.shard === shard && movable(o) && o.duration < block.duration),
+        ];
+        for (const swap of candidates) {
+          if (swap && conflicts(swap, longest)) continue;
+          const delta = block.duration - (swap?.duration ?? 0);
+          const makespan = Math.max(
+            finish(longest, loads[longest]! - delta),
+            finish(shard, loads[shard]! + delta),
+          );
+          if (makespan < finishes[longest]! && (!best || makespan < best.makespan)) {
+            best = { block, swap, shard, makespan };
+          }
+        }
+      }
+    }
+    if (!best) break;
+    if (best.swap) move(best.swap, longest);
+    move(best.block, best.shard);
+  }
+
+  if (
+    capacities === undefined &&
+    placed.every((b) => b.filters.every((f) => originalShard.get(f) === b.shard))
+  ) {
+    return plan;
+  }
+
+  const shardOf = new Map(placed.flatMap((b) => b.filters.map((f) => [f, b.shard] as const)));
+  const allFilters = plan.shards.flatMap((shard) => shard.tests);
+
+  return withShardDurations(plan, plan.shards.map((shard, i) => ({
+    ...shard,
+    tests: allFilters.filter((f) => shardOf.get(f) === i),
+    estimatedDuration: shardSetup + Math.round(finish(i)),
+    ...(capacities !== undefined ? { capacity: capacity(i) } : {}),
+  })));
+}
+
+/** The spec file a unit belongs to, as constraint files name it — without any project prefix. */
+function constraintFile(filter: string): string {
+  const { file } = parseTestLocation(filter);
+  return file.slice(file.indexOf(PROJECT_UNIT_SEPARATOR) + 1);
+}
+
+/**
+ * Re-estimate each shard as wall-clock time with `workers` Playwright workers.
+ *
+ * Replays Playwright's dispatch: test groups go out in file path order to
+ * whichever worker frees up first. A group is a whole file — or a single test
+ * with `fullyParallel`. Summed durations overstate a multi-worker shard by up
+ * to the worker count.
+ */
+function simulateWorkers(
+  plan: ShardPlan,
+  tests: readonly TestTimingEntry[],
+  options: BalanceOptions,
+): ShardPlan {
+  const workers = options.workers ?? 1;
+  if (workers <= 1) {
+    return plan;
+  }
+  const shardSetup = options.overhead?.shardSetup ?? 0;
+  const testsByFile = indexByFile(tests);
+
+  return withShardDurations(plan, plan.shards.map((shard) => ({
+    ...shard,
+    estimatedDuration:
+      shardSetup + Math.round(simulateMakespan(shard.tests, testsByFile, options) / (shard.capacity ?? 1)),
+  })));
+}
+
+function indexByFile(tests: readonly TestTimingEntry[]): Map<string, TestTimingEntry[]> {
+  const testsByFile = new Map<string, TestTimingEntry[]>();
+  for (const test of tests) {
+    const fileTests = testsByFile.get(test.file) ?? [];
+    fileTests.push(test);
+    testsByFile.set(test.file, fileTests);
+  }
+  return testsByFile;
+}
+
+/** Tests a Playwright filter selects — a whole file, or the tests declared at `file:line`. */
+function testsOfUnit(
+  filter: string,
+  testsByFile: ReadonlyMap<string, readonly TestTimingEntry[]>,
+): readonly TestTimingEntry[] {
+  const { file, line } = parseTestLocation(filter);
+  return (testsByFile.get(file) ?? []).filter((t) => line === undefined || t.line === line);
+}
+
+/** Summed duration of a unit's tests, plus the cost of loading it. */
+function unitDuration(
+  filter: string,
+  testsByFile: ReadonlyMap<string, readonly TestTimingEntry[]>,
+  perFile: number,
+): number {
+  return testsOfUnit(filter, testsByFile).reduce((sum, t) => sum + t.estimatedDuration, perFile);
+}
+
+/** Wall-clock time for one Playwright invocation over `filters`, excluding shard setup. */
+function simulateMakespan(
+  filters: readonly string[],
+  testsByFile: ReadonlyMap<string, readonly TestTimingEntry[]>,
+  options: BalanceOptions,
+): number {
+  const workers = options.workers ?? 1;
+  const perFile = options.overhead?.perFile ?? 0;
+
+  const groups: { filter: string; duration: number }[] = [];
+  for (const filter of filters) {
+    const unitTests = testsOfUnit(filter, testsByFile);
+    if (options.fullyParallel) {
+      // The worker that picks up a file's first test pays its startup cost
+      unitTests.forEach((t, i) => {
+        groups.push({ filter, duration: t.estimatedDuration + (i === 0 ? perFile : 0) });
+      });
+    } else {
+      groups.push({
+        filter,
+        duration: unitTests.reduce((sum, t) => sum + t.estimatedDuration, perFile),
+      });
+    }
+  }
+  groups.sort((a, b) => a.filter.localeCompare(b.filter));
+
+  const busyUntil = new Array<number>(workers).fill(0);
+  for (const group of groups) {
+    let next = 0;
+    for (let w = 1; w < workers; w++) {
+      if (busyUntil[w]! < busyUntil[next]!) next = w;
+    }
+    busyUntil[next]! += group.duration;
+  }
+
+  return Math.max(...busyUntil);
+}
+
+/** Replace a plan's shards, keeping its max/min durations in step. */
+function withShardDurations(plan: ShardPlan, shards: ShardAssignment[]): ShardPlan {
+  const durations = shards.map((s) => s.estimatedDuration);
+  return {
+    ...plan,
+    shards,
+    maxShardDuration: durations.length > 0 ? Math.max(...durations) : 0,
+    minShardDuration: durations.length > 0 ? Math.min(...durations) : 0,
+  };
+}
+
+/**
+ * Joins project and file into the unit key balanced under `splitProjects`.
+ * NUL can't appear in a path or a project name, so the key splits back unambiguously.
+ */
+const PROJECT_UNIT_SEPARATOR = '\u0000';
+
+/** Re-key entries so each (file, project) pair is its own schedulable file. */
+function toProjectUnits(tests: readonly TestTimingEntry[]): TestTimingEntry[] {
+  return tests.map((test) => ({
+    ...test,
+    file: `${test.project ?? ''}${PROJECT_UNIT_SEPARATOR}${test.file}`,
+  }));
+}
+
+function parseProjectUnit(key: string): { project: string; filter: string } {
+  const separator = key.indexOf(PROJECT_UNIT_SEPARATOR);
+  return { project: key.slice(0, separator), filter: key.slice(separator + 1) };
+}
+
+/**
+ * Balance (file, project) pairs instead of files, so one spec file's projects
+ * can land on different shards — each with its own project-specific duration.
+ *
+ * The shard's `groups` list one Playwright invocation per project, run one
+ * after another; `tests` is the union of their filters. Entries without a
+ * project form a group without one, which runs every project.
+ */
+function balanceByProject(
+  strategy: ShardStrategy,
+  tests: readonly TestTimingEntry[],
+  shardCount: number,
+  options: BalanceOptions,
+): ShardPlan {
+  const units = toProjectUnits(tests);
+  const plan = strategy.balance(units, shardCount, { ...options, splitProjects: false });
+  const shardSetup = options.overhead?.shardSetup ?? 0;
+  const testsByFile = indexByFile(units);
+
+  return withShardDurations(plan, plan.shards.map((shard) => {
+    const keysByProject = new Map<string, string[]>();
+    for (const key of shard.tests) {
+      const { project } = parseProjectUnit(key);
+      keysByProject.set(project, [...(keysByProject.get(project) ?? []), key]);
+    }
+
+    // Simulated estimates assumed one invocation — re-simulate each project's in turn
+    const estimatedDuration = (options.workers ?? 1) > 1
+      ? shardSetup + Math.round(
+          [...keysByProject.values()].reduce(
+            (sum, keys) => sum + simulateMakespan(keys, testsByFile, options),
+            0,
+          ) / (shard.capacity ?? 1),
+        )
+      : shard.estimatedDuration;
+
+    const groups = [...keysByProject].map(([project, keys]) => ({
+      ...(project ? { project } : {}),
+      tests: keys.map((key) => parseProjectUnit(key).filter),
+    }));
+
+    return {
+      ...shard,
+      tests: [...new Set(groups.flatMap((g) => g.tests))],
+      estimatedDuration,
+      groups,
+    };
+  }));
+}
+
 /**
  * Longest Processing Time First (LPT) algorithm.
  *
  * Aggregates individual test entries by file (since Playwright runs at the
  * file level), then sorts files by total duration descending and assigns
- * each file to the shard with the lowest current load.
+ * each file to the shard that would finish it soonest — the one with the
+ * lowest current load, divided by its runner's capacity when given.
  * Produces near-optimal results for most real-world test suites.
  */
 export class LPTStrategy implements ShardStrategy {
   readonly name = 'lpt' as const;
 
-  balance(tests: readonly TestTimingEntry[], shardCount: number): ShardPlan {
+  balance(tests: readonly TestTimingEntry[], shardCount: number, options: BalanceOptions = {}): ShardPlan {
     validateShardCount(shardCount);
+    if (options.splitProjects) {
+      return balanceByProject(this, tests, shardCount, options);
+    }
+    const { shardSetup = 0, perFile = 0 } = options.overhead ?? {};
 
     // Aggregate individual test entries by file — Playwright can only
     // shard at the file level, so we must keep all tests in a file together.
     const fileMap = new Map<string, number>();
     for (const test of tests) {
-      fileMap.set(test.file, (fileMap.get(test.file) ?? 0) + test.estimatedDuration);
+      fileMap.set(test.file, (fileMap.get(test.file) ?? perFile) + test.estimatedDuration);
     }
 
     const files = [...fileMap.entries()].sort((a, b) => b[1] - a[1]);
     const effective = effectiveCount(shardCount, files.length);
-    const shards = createEmptyBuckets(effective);
+    const shards = createEmptyBuckets(effective, shardSetup);
 
-    // Assign each file to the lightest shard
+    // Assign each file to the shard that finishes it soonest
     for (const [file, duration] of files) {
-      const lightest = shards.reduce((min, shard) =>
-        shard.duration < min.duration ? shard : min,
-      );
-      lightest.tests.push(file);
-      lightest.duration += duration;
+      const soonest = soonestBucket(shards, duration, shardSetup, options.capacities);
+      soonest.tests.push(file);
+      soonest.duration += duration;
     }
 
-    // Calculate improvement over naive (even count) distribution
-    const totalDuration = [...fileMap.values()].reduce((sum, d) => sum + d, 0);
-    const maxDuration = Math.max(...shards.map((s) => s.duration), 0);
-    const naiveMax = totalDuration / effective;
-    const improvement =
-      naiveMax > 0 ? ((naiveMax - maxDuration) / naiveMax) * 100 : 0;
-
-    return toShardPlan(shards, 'lpt', tests.length, Math.round(improvement * 100) / 100);
+    return finalizePlan(toShardPlan(shards, 'lpt', tests.length), tests, options, { improvement: true });
   }
 }
 
@@ -139,18 +635,22 @@ export class LPTStrategy implements ShardStrategy {
 export class RoundRobinStrategy implements ShardStrategy {
   readonly name = 'round-robin' as const;
 
-  balance(tests: readonly TestTimingEntry[], shardCount: number): ShardPlan {
+  balance(tests: readonly TestTimingEntry[], shardCount: number, options: BalanceOptions = {}): ShardPlan {
     validateShardCount(shardCount);
+    if (options.splitProjects) {
+      return balanceByProject(this, tests, shardCount, options);
+    }
+    const { shardSetup = 0, perFile = 0 } = options.overhead ?? {};
 
     // Aggregate by file
     const fileMap = new Map<string, number>();
     for (const test of tests) {
-      fileMap.set(test.file, (fileMap.get(test.file) ?? 0) + test.estimatedDuration);
+      fileMap.set(test.file, (fileMap.get(test.file) ?? perFile) + test.estimatedDuration);
     }
 
     const files = [...fileMap.entries()];
     const effective = effectiveCount(shardCount, files.length);
-    const shards = createEmptyBuckets(effective);
+    const shards = createEmptyBuckets(effective, shardSetup);
 
     for (let i = 0; i < files.length; i++) {
       const [file, duration] = files[i]!;
@@ -159,7 +659,7 @@ export class RoundRobinStrategy implements ShardStrategy {
       shards[idx]!.duration += duration;
     }
 
-    return toShardPlan(shards, 'round-robin', tests.length);
+    return finalizePlan(toShardPlan(shards, 'round-robin', tests.length), tests, options);
   }
 }
 
@@ -173,8 +673,12 @@ export class RoundRobinStrategy implements ShardStrategy {
 export class FileGroupStrategy implements ShardStrategy {
   readonly name = 'file-group' as const;
 
-  balance(tests: readonly TestTimingEntry[], shardCount: number): ShardPlan {
+  balance(tests: readonly TestTimingEntry[], shardCount: number, options: BalanceOptions = {}): ShardPlan {
     validateShardCount(shardCount);
+    if (options.splitProjects) {
+      return balanceByProject(this, tests, shardCount, options);
+    }
+    const { shardSetup = 0, perFile = 0 } = options.overhead ?? {};
 
     // Group tests by file, summing durations
     const fileMap = new Map<string, { tests: TestTimingEntry[]; totalDuration: number }>();
@@ -184,7 +688,7 @@ export class FileGroupStrategy implements ShardStrategy {
         existing.tests.push(test);
         existing.totalDuration += test.estimatedDuration;
       } else {
-        fileMap.set(test.file, { tests: [test], totalDuration: test.estimatedDuration });
+        fileMap.set(test.file, { tests: [test], totalDuration: perFile + test.estimatedDuration });
       }
     }
 
@@ -193,27 +697,407 @@ export class FileGroupStrategy implements ShardStrategy {
     );
 
     const effective = effectiveCount(shardCount, groups.length);
-    const shards = createEmptyBuckets(effective);
+    const shards = createEmptyBuckets(effective, shardSetup);
 
     // LPT on file groups
     for (const [file, group] of groups) {
-      const lightest = shards.reduce((min, shard) =>
-        shard.duration < min.duration ? shard : min,
-      );
-      lightest.tests.push(file);
-      lightest.duration += group.totalDuration;
+      const soonest = soonestBucket(shards, group.totalDuration, shardSetup, options.capacities);
+      soonest.tests.push(file);
+      soonest.duration += group.totalDuration;
+    }
+
+    return finalizePlan(toShardPlan(shards, 'file-group', tests.length), tests, options);
+  }
+}
+
+/**
+ * LPT with test-level splitting for oversized spec files.
+ *
+ * A single long file puts a hard floor under the makespan of every file-level
+ * strategy, no matter how many shards are added. Files whose duration exceeds
+ * an even share of the total (total / shardCount) are broken into per-test
+ * units addressed as `file:line`, which Playwright accepts as positional
+ * location filters. Everything else is scheduled exactly as LPTStrategy would.
+ *
+ * A file is only split when every one of its entries carries a line number —
+ * otherwise a test without a known location would silently never run.
+ * Locations of a split file that all land on one shard are collapsed back
+ * into the plain file path.
+ */
+export class LPTSplitStrategy implements ShardStrategy {
+  readonly name = 'lpt-split' as const;
+
+  balance(tests: readonly TestTimingEntry[], shardCount: number, options: BalanceOptions = {}): ShardPlan {
+    validateShardCount(shardCount);
+    if (options.splitProjects) {
+      return balanceByProject(this, tests, shardCount, options);
+    }
+    const { shardSetup = 0, perFile = 0 } = options.overhead ?? {};
+
+    const files = groupByLocation(tests);
+    const totalDuration = [...files.values()].reduce((sum, g) => sum + g.duration, 0);
+
+    // Use the requested count, not the file-limited effective count — a suite
+    // dominated by one huge file is exactly the case splitting exists for.
+    const splitThreshold = totalDuration / shardCount;
+
+    // Each unit is loaded separately, so each pays the per-file startup cost
+    const units: { file: string; filter: string; duration: number }[] = [];
+    for (const [file, group] of files) {
+      if (isSplittable(group) && group.duration > splitThreshold) {
+        for (const [line, duration] of group.locations) {
+          units.push({ file, filter: formatTestLocation({ file, line }), duration: duration + perFile });
+        }
+      } else {
+        units.push({ file, filter: file, duration: group.duration + perFile });
+      }
+    }
+    units.sort((a, b) => b.duration - a.duration);
+
+    const effective = effectiveCount(shardCount, units.length);
+    const shards = createEmptyBuckets(effective, shardSetup);
+    const unitFiles = new Map<string, string>();
+
+    for (const unit of units) {
+      const soonest = soonestBucket(shards, unit.duration, shardSetup, options.capacities);
+      soonest.tests.push(unit.filter);
+      soonest.duration += unit.duration;
+      unitFiles.set(unit.filter, unit.file);
+    }
+
+    collapseUnsplitLocations(shards, unitFiles, perFile);
+
+    return finalizePlan(toShardPlan(shards, 'lpt-split', tests.length), tests, options, { improvement: true });
+  }
+}
+
+interface LocationGroup {
+  duration: number;
+  /** Summed duration per declaration line — tests generated in a loop share one. */
+  readonly locations: Map<number, number>;
+  /** False as soon as one entry of the file lacks a line number. */
+  fullyLocated: boolean;
+}
+
+function groupByLocation(tests: readonly TestTimingEntry[]): Map<string, LocationGroup> {
+  const files = new Map<string, LocationGroup>();
+  for (const test of tests) {
+    let group = files.get(test.file);
+    if (!group) {
+      group = { duration: 0, locations: new Map(), fullyLocated: true };
+      files.set(test.file, group);
+    }
+    group.duration += test.estimatedDuration;
+    if (test.line === undefined) {
+      group.fullyLocated = false;
+    } else {
+      group.locations.set(test.line, (group.locations.get(test.line) ?? 0) + test.estimatedDuration);
+    }
+  }
+  return files;
+}
+
+function isSplittable(group: LocationGroup): boolean {
+  return group.fullyLocated && group.locations.size > 1;
+}
+
+/**
+ * Replace the `file:line` filters of a split file with the plain file path
+ * when all of them ended up on the same shard — which then loads it only once.
+ */
+function collapseUnsplitLocations(
+  shards: { tests: string[]; duration: number }[],
+  unitFiles: ReadonlyMap<string, string>,
+  perFile: number,
+): void {
+  const shardsPerFile = new Map<string, Set<number>>();
+  shards.forEach((shard, i) => {
+    for (const filter of shard.tests) {
+      const file = unitFiles.get(filter) ?? filter;
+      const seen = shardsPerFile.get(file) ?? new Set<number>();
+      seen.add(i);
+      shardsPerFile.set(file, seen);
+    }
+  });
+
+  for (const shard of shards) {
+    const collapsed: string[] = [];
+    for (const filter of shard.tests) {
+      const file = unitFiles.get(filter) ?? filter;
+      const onOneShard = shardsPerFile.get(file)!.size === 1;
+      const target = onOneShard ? file : filter;
+      if (!collapsed.includes(target)) {
+        collapsed.push(target);
+      }
+    }
+    shard.duration -= (shard.tests.length - collapsed.length) * perFile;
+    shard.tests = collapsed;
+  }
+}
+
+/** Default number of moves and swaps OptimalStrategy's local search may make */
+const DEFAULT_OPTIMAL_MAX_MOVES = 1000;
+
+/**
+ * Options for OptimalStrategy.
+ */
+export interface OptimalStrategyOptions {
+  /**
+   * Moves and swaps the local search may make. A count rather than a time
+   * budget, so the same inputs give the same plan on every machine.
+   */
+  readonly maxMoves?: number;
+}
+
+/**
+ * Near-optimal file-level balancing: LPT's result, improved.
+ *
+ * 1. Build two starting partitions — LPT and Karmarkar–Karp multi-way
+ *    differencing — and keep the one with the smaller makespan
+ * 2. Refine it with local search: move a file out of the shard that finishes
+ *    last, or swap it with a smaller file from another shard, whenever that
+ *    makes the later of the two shards finish sooner. Stops at a local optimum
+ *    or after `maxMoves` moves — deterministic, so shards that each plan for
+ *    themselves agree on who runs which file.
+ *
+ * With `capacities`, a shard finishes when its load divided by its capacity
+ * has run, and Karmarkar–Karp's heaviest bins go to the fastest runners.
+ *
+ * Never worse than LPT. `improvementOverLpt` reports the gain in percent,
+ * measured after constraints are applied to both.
+ */
+export class OptimalStrategy implements ShardStrategy {
+  readonly name = 'optimal' as const;
+  private readonly maxMoves: number;
+
+  constructor(options: OptimalStrategyOptions = {}) {
+    this.maxMoves = options.maxMoves ?? DEFAULT_OPTIMAL_MAX_MOVES;
+  }
+
+  balance(tests: readonly TestTimingEntry[], shardCount: number, options: BalanceOptions = {}): ShardPlan {
+    validateShardCount(shardCount);
+    if (options.splitProjects) {
+      return balanceByProject(this, tests, shardCount, options);
     }
+    const { shardSetup = 0, perFile = 0 } = options.overhead ?? {};
+
+    const fileMap = new Map<string, number>();
+    for (const test of tests) {
+      fileMap.set(test.file, (fileMap.get(test.file) ?? perFile) + test.estimatedDuration);
+    }
+
+    const files = [...fileMap.entries()].sort((a, b) => b[1] - a[1]);
+    const durations = files.map(([, duration]) => duration);
+    const effective = effectiveCount(shardCount, files.length);
 
-    return toShardPlan(shards, 'file-group', tests.length);
+    const { capacities } = options;
+
+    const lpt = lptPartition(durations, effective, capacities);
+    const kk = toRunners(karmarkarKarpPartition(durations, effective), durations, capacities);
+    const lptMax = makespan(lpt, durations, capacities);
+    const start = makespan(kk, durations, capacities) < lptMax ? kk : lpt;
+    const refined = refinePartition(start, durations, this.maxMoves, capacities);
+
+    const toBuckets = (bins: readonly (readonly number[])[]): { tests: string[]; duration: number }[] =>
+      bins.map((bin) => {
+        const indices = [...bin].sort((a, b) => a - b);
+        return {
+          tests: indices.map((i) => files[i]![0]),
+          duration: shardSetup + indices.reduce((sum, i) => sum + durations[i]!, 0),
+        };
+      });
+
+    return finalizePlan(toShardPlan(toBuckets(refined), 'optimal', tests.length), tests, options, {
+      improvement: true,
+      lptBaseline: toShardPlan(toBuckets(lpt), 'lpt', tests.length),
+    });
   }
 }
 
+/**
+ * LPT over item indices — `durations` must be sorted descending.
+ */
+function lptPartition(
+  durations: readonly number[],
+  binCount: number,
+  capacities?: readonly number[],
+): number[][] {
+  const bins = Array.from({ length: binCount }, () => ({ items: [] as number[], duration: 0 }));
+
+  durations.forEach((duration, i) => {
+    const soonest = soonestBucket(bins, duration, 0, capacities);
+    soonest.items.push(i);
+    soonest.duration += duration;
+  });
+
+  return bins.map((bin) => bin.items);
+}
+
+interface DifferencingNode {
+  /** Bin loads, heaviest first */
+  readonly loads: number[];
+  readonly bins: number[][];
+}
+
+/**
+ * Karmarkar–Karp multi-way differencing. Every item starts as its own
+ * k-way partial partition; the two partitions with the largest spread are
+ * repeatedly merged heaviest-bin-with-lightest-bin until one remains.
+ */
+function karmarkarKarpPartition(durations: readonly number[], binCount: number): number[][] {
+  const spread = (node: DifferencingNode): number => node.loads[0]! - node.loads[binCount - 1]!;
+
+  // Kept sorted by spread ascending — the widest two are always at the end
+  const nodes: DifferencingNode[] = durations
+    .map((duration, i) => ({
+      loads: [duration, ...new Array<number>(binCount - 1).fill(0)],
+      bins: [[i], ...Array.from({ length: binCount - 1 }, () => [] as number[])],
+    }))
+    .sort((a, b) => spread(a) - spread(b));
+
+  while (nodes.length > 1) {
+    const a = nodes.pop()!;
+    const b = nodes.pop()!;
+
+    const combined = a.loads
+      .map((load, j) => ({
+        load: load + b.loads[binCount - 1 - j]!,
+        bin: [...a.bins[j]!, ...b.bins[binCount - 1 - j]!],
+      }))
+      .sort((x, y) => y.load - x.load);
+
+    const node: DifferencingNode = {
+      loads: combined.map((c) => c.load),
+      bins: combined.map((c) => c.bin),
+    };
+
+    let lo = 0;
+    let hi = nodes.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (spread(nodes[mid]!) < spread(node)) lo = mid + 1;
+      else hi = mid;
+    }
+    nodes.splice(lo, 0, node);
+  }
+
+  return nodes[0]?.bins ?? Array.from({ length: binCount }, () => []);
+}
+
+/**
+ * Hand the heaviest bins to the fastest runners. Karmarkar–Karp balances
+ * equal bins with no order to them. Without capacities the bins are returned
+ * as is.
+ */
+function toRunners(
+  bins: readonly (readonly number[])[],
+  durations: readonly number[],
+  capacities?: readonly number[],
+): number[][] {
+  if (capacities === undefined) {
+    return bins.map((bin) => [...bin]);
+  }
+  const load = (bin: readonly number[]): number => bin.reduce((sum, i) => sum + durations[i]!, 0);
+  const heaviestFirst = [...bins].sort((a, b) => load(b) - load(a));
+  const fastestFirst = bins
+    .map((_, runner) => runner)
+    .sort((a, b) => (capacities[b] ?? 1) - (capacities[a] ?? 1));
+
+  const assigned: number[][] = bins.map(() => []);
+  fastestFirst.forEach((runner, k) => {
+    assigned[runner] = [...heaviestFirst[k]!];
+  });
+  return assigned;
+}
+
+/** When the last bin finishes — its load divided by its runner's capacity. */
+function makespan(
+  bins: readonly (readonly number[])[],
+  durations: readonly number[],
+  capacities?: readonly number[],
+): number {
+  return Math.max(
+    ...bins.map((bin, b) => bin.reduce((sum, i) => sum + durations[i]!, 0) / (capacities?.[b] ?? 1)),
+    0,
+  );
+}
+
+/**
+ * Local search on the bin that finishes last. Each accepted move or swap
+ * strictly lowers the later finish of the pair it touches — the pair becomes
+ * more balanced, so the search can't cycle and ends at a local optimum (or
+ * after `maxMoves`). A bin finishes when its load divided by its capacity has run.
+ */
+function refinePartition(
+  start: readonly (readonly number[])[],
+  durations: readonly number[],
+  maxMoves: number,
+  capacities?: readonly number[],
+): number[][] {
+  const bins = start.map((bin) => [...bin]);
+  const loads = bins.map((bin) => bin.reduce((sum, i) => sum + durations[i]!, 0));
+  const finish = (bin: number, load: number): number => load / (capacities?.[bin] ?? 1);
+
+  for (let moves = 0; moves < maxMoves; moves++) {
+    let heaviest = 0;
+    for (let b = 1; b < bins.length; b++) {
+      if (finish(b, loads[b]!) > finish(heaviest, loads[heaviest]!)) heaviest = b;
+    }
+    const heavyLoad = loads[heaviest]!;
+    const heavyFinish = finish(heaviest, heavyLoad);
+
+    let best: { pairMax: number; other: number; from: number; to?: number } | undefined;
+
+    for (let other = 0; other < bins.length; other++) {
+      if (other === heaviest) continue;
+      const otherLoad = loads[other]!;
+
+      for (let from = 0; from < bins[heaviest]!.length; from++) {
+        const moving = durations[bins[heaviest]![from]!]!;
+
+        // Move a file to the other bin
+        const movePairMax = Math.max(finish(heaviest, heavyLoad - moving), finish(other, otherLoad + moving));
+        if (movePairMax < heavyFinish && (!best || movePairMax < best.pairMax)) {
+          best = { pairMax: movePairMax, other, from };
+        }
+
+        // Swap it with a smaller file from the other bin
+        for (let to = 0; to < bins[other]!.length; to++) {
+          const delta = moving - durations[bins[other]![to]!]!;
+          if (delta <= 0) continue;
+          const swapPairMax = Math.max(finish(heaviest, heavyLoad - delta), finish(other, otherLoad + delta));
+          if (swapPairMax < heavyFinish && (!best || swapPairMax < best.pairMax)) {
+            best = { pairMax: swapPairMax, other, from, to };
+          }
+        }
+      }
+    }
+
+    if (!best) break;
+
+    const [moved] = bins[heaviest]!.splice(best.from, 1);
+    loads[heaviest]! -= durations[moved!]!;
+    if (best.to !== undefined) {
+      const [swapped] = bins[best.other]!.splice(best.to, 1);
+      loads[best.other]! -= durations[swapped!]!;
+      bins[heaviest]!.push(swapped!);
+      loads[heaviest]! += durations[swapped!]!;
+    }
+    bins[best.other]!.push(moved!);
+    loads[best.other]! += durations[moved!]!;
+  }
+
+  return bins;
+}
+
 // --- Strategy registry ---
 
 const strategyRegistry = new Map<string, ShardStrategy>([
   ['lpt', new LPTStrategy()],
   ['round-robin', new RoundRobinStrategy()],
   ['file-group', new FileGroupStrategy()],
+  ['lpt-split', new LPTSplitStrategy()],
+  ['optimal', new OptimalStrategy()],
 ]);
 
 /** Get a strategy by name, or undefined if not found. */
@@ -230,37 +1114,146 @@ export function listStrategies(): readonly string[] {
  * Convert ShardTimingData[] to TestTimingEntry[], applying a default
  * duration for tests without history data.
  *
+ * `estimator` picks the base statistic (mean, ewma, median or p95).
  * When riskFactor > 0 and stdDev data is available, uses pessimistic
- * duration estimates (avg + k * stdDev) to make shard balancing resilient
- * to execution time variance.
+ * duration estimates (base + k * stdDev) to make shard balancing resilient
+ * to execution time variance. With the `quantile` risk model, entries that
+ * have a duration sketch are padded to a quantile of it instead.
+ * `p95` is already pessimistic and is not padded.
  */
 export function timingDataToEntries(
   timingData: readonly ShardTimingData[],
   defaultDuration: number,
   riskFactor: number = 0,
+  estimator: DurationEstimator = 'mean',
+  riskModel: RiskModel = 'stddev',
 ): TestTimingEntry[] {
   return timingData.map((td) => {
-    const baseDuration = td.avgDuration > 0 ? td.avgDuration : defaultDuration;
+    const estimate = estimateDuration(td, estimator);
+    const baseDuration = estimate > 0 ? estimate : defaultDuration;
     const stdDev = td.stdDev ?? 0;
-    const estimatedDuration = riskFactor > 0
-      ? computePessimisticDuration(baseDuration, stdDev, riskFactor)
+    // p95 and manual overrides are already pessimistic — padding them again would double-count
+    const estimatedDuration = riskFactor > 0 && estimator !== 'p95' && td.overrideDuration === undefined
+      ? computePessimisticDuration(
+          baseDuration,
+          stdDev,
+          riskFactor,
+          riskModel === 'quantile' ? td.sketch : undefined,
+        )
       : baseDuration;
 
     return {
       testId: td.testId,
       file: td.file,
+      line: td.line,
+      project: td.project || undefined,
+      tags: td.tags,
       estimatedDuration,
       stdDev,
     };
   });
 }
 
+/** Which tests a new file's estimate was borrowed from, most specific first. */
+export const NEW_FILE_HEURISTICS = ['directory', 'tags', 'suite', 'default'] as const;
+
+export type NewFileHeuristic = (typeof NEW_FILE_HEURISTICS)[number];
+
+/**
+ * A spec file with no timing data, as found on disk.
+ */
+export interface NewFileInfo {
+  readonly file: string;
+  /** Test declarations in the source — 0 when unknown. */
+  readonly testCount: number;
+  /** Playwright tags found in the source. */
+  readonly tags?: readonly string[];
+}
+
+/**
+ * Estimated duration of a new spec file, and how it was arrived at.
+ */
+export interface NewFileEstimate {
+  readonly file: string;
+  readonly estimatedDuration: number;
+  readonly heuristic: NewFileHeuristic;
+}
+
+/**
+ * Estimate spec files that have no timing data from tests that do.
+ *
+ * Borrows the average test duration of, in order of preference: tests in the
+ * same directory, tests sharing a tag with the file, or the whole suite —
+ * averaged per project and summed, since a file runs under every project —
+ * and multiplies it by the file's declared test count (at least 1).
+ * Falls back to `defaultDuration` only when there are no known tests at all.
+ *
+ * Pure function — no I/O.
+ */
+export function estimateNewFiles(
+  known: readonly TestTimingEntry[],
+  files: readonly NewFileInfo[],
+  defaultDuration: number,
+): NewFileEstimate[] {
+  return files.map(({ file, testCount, tags = [] }) => {
+    const tests = Math.max(testCount, 1);
+    const directory = parentDirectory(file);
+
+    const candidates: readonly (readonly [NewFileHeuristic, readonly TestTimingEntry[]])[] = [
+      ['directory', known.filter((e) => parentDirectory(e.file) === directory)],
+      ['tags', tags.length > 0 ? known.filter((e) => e.tags?.some((t) => tags.includes(t))) : []],
+      ['suite', known],
+    ];
+
+    const match = candidates.find(([, group]) => group.length > 0);
+    if (!match) {
+      return { file, estimatedDuration: defaultDuration, heuristic: 'default' };
+    }
+
+    const [heuristic, group] = match;
+    return {
+      file,
+      estimatedDuration: Math.round(tests * perTestDurationAcrossProjects(group)),
+      heuristic,
+    };
+  });
+}
+
+/** Average test duration per project, summed over the projects present. */
+function perTestDurationAcrossProjects(entries: readonly TestTimingEntry[]): number {
+  const byProject = new Map<string, { total: number; count: number }>();
+  for (const entry of entries) {
+    const key = entry.project ?? '';
+    const acc = byProject.get(key) ?? { total: 0, count: 0 };
+    acc.total += entry.estimatedDuration;
+    acc.count += 1;
+    byProject.set(key, acc);
+  }
+  return [...byProject.values()].reduce((sum, { total, count }) => sum + total / count, 0);
+}
+
+function parentDirectory(file: string): string {
+  return file.slice(0, Math.max(file.lastIndexOf('/'), file.lastIndexOf('\\'), 0));
+}
+
+/**
+ * Options shared by the shard-count helpers.
+ */
+export interface ShardCountOptions extends BalanceOptions {
+  /** Whether the chosen strategy may split oversized files into `file:line` units (`lpt-split`). */
+  readonly splitFiles?: boolean;
+}
+
 /**
  * Calculate the optimal number of shards to hit a target wall-clock duration.
  *
- * Aggregates tests by file (since Playwright shards at file level), sums total
- * estimated duration, then divides by the target. Result is clamped between 1
- * and min(maxShards, fileCount) so we never exceed the file count or budget.
+ * Aggregates tests into the units the strategy can schedule — whole files,
+ * per-test locations when `splitFiles` is set, (file, project) pairs when
+ * `splitProjects` is — sums total estimated duration
+ * (plus per-file overhead), then divides by what's left of the target after
+ * shard setup — times the worker count, since each shard runs that many tests
+ * at once. Result is clamped between 1 and min(maxShards, unitCount) so we
+ * never exceed the unit count or budget.
  *
  * Pure function — no I/O.
  */
@@ -268,31 +1261,174 @@ export function calculateOptimalShardCount(
   entries: readonly TestTimingEntry[],
   targetDurationMs: number,
   maxShards: number,
+  options: ShardCountOptions = {},
 ): number {
   if (entries.length === 0 || targetDurationMs <= 0) {
     return 1;
   }
 
-  // Aggregate by file — Playwright can only shard at file level
-  const fileMap = new Map<string, number>();
-  for (const entry of entries) {
-    fileMap.set(entry.file, (fileMap.get(entry.file) ?? 0) + entry.estimatedDuration);
+  const units = schedulableUnitDurations(entries, options);
+  const totalDuration = units.reduce((sum, d) => sum + d, 0);
+
+  // When setup alone eats the target, no count reaches it — take as many as allowed
+  const capacity = (targetDurationMs - (options.overhead?.shardSetup ?? 0)) * (options.workers ?? 1);
+  const idealCount = capacity > 0 ? Math.ceil(totalDuration / capacity) : Infinity;
+
+  // Clamp: at least 1, at most min(maxShards, unitCount)
+  const upperBound = Math.min(maxShards, units.length);
+  const clamped = Math.max(1, Math.min(idealCount, upperBound));
+
+  return clamped;
+}
+
+/**
+ * The longest indivisible unit of work — a file, a `file:line` unit, or with
+ * fullyParallel workers a single test — plus shard setup. A hard floor on the
+ * makespan that no shard count can get below. When it exceeds the target
+ * duration, only splitting the offending file (`lpt-split`) can help.
+ *
+ * Pure function — no I/O.
+ */
+export function calculateDurationFloor(
+  entries: readonly TestTimingEntry[],
+  options: ShardCountOptions = {},
+): number {
+  if (entries.length === 0) {
+    return 0;
+  }
+  // With fullyParallel workers, even a single file is spread across workers
+  const perTest = options.fullyParallel && (options.workers ?? 1) > 1;
+  const longestUnit = perTest
+    ? Math.max(...entries.map((e) => e.estimatedDuration)) + (options.overhead?.perFile ?? 0)
+    : Math.max(...schedulableUnitDurations(entries, options));
+  return longestUnit + (options.overhead?.shardSetup ?? 0);
+}
+
+/** What `plan` optimizes the shard count for. */
+export const OPTIMIZE_OBJECTIVES = ['time', 'cost', 'balanced'] as const;
+
+export type OptimizeObjective = (typeof OPTIMIZE_OBJECTIVES)[number];
+
+/**
+ * One shard count on the cost/time trade-off curve.
+ */
+export interface TradeoffPoint {
+  readonly shardCount: number;
+  /** Longest shard including overhead — the wall-clock time of the run, in ms */
+  readonly wallClock: number;
+  /** Runner time paid for — shardCount × wallClock, in ms */
+  readonly billed: number;
+}
+
+/**
+ * Balance the suite at every shard count from 1 to maxShards and record the
+ * resulting wall-clock and billed time. Stops early once the strategy can't
+ * use more shards (fewer units than shards) — later points would repeat.
+ *
+ * Pure function — no I/O.
+ */
+export function computeTradeoffCurve(
+  entries: readonly TestTimingEntry[],
+  strategy: ShardStrategy,
+  maxShards: number,
+  options: BalanceOptions = {},
+): TradeoffPoint[] {
+  const curve: TradeoffPoint[] = [];
+
+  for (let requested = 1; requested <= maxShards; requested++) {
+    const plan = strategy.balance(entries, requested, options);
+    const shardCount = plan.shards.length;
+    if (shardCount < requested) break;
+
+    curve.push({
+      shardCount,
+      wallClock: plan.maxShardDuration,
+      billed: shardCount * plan.maxShardDuration,
+    });
   }
 
-  const totalDuration = [...fileMap.values()].reduce((sum, d) => sum + d, 0);
-  const fileCount = fileMap.size;
+  return curve;
+}
 
-  // The longest single file is a hard floor — can't go below it no matter the shard count
-  const longestFile = Math.max(...fileMap.values());
+/**
+ * Pick a shard count from a trade-off curve.
+ *
+ * - `time` — fewest shards that meet the target, or the fastest point without one
+ * - `cost` — fewest billed minutes
+ * - `balanced` — lowest sum of wall-clock and billed time, each relative to its best
+ *
+ * With a target, only points that meet it are considered (all points when none do).
+ * Ties go to fewer shards. Pure function — no I/O.
+ */
+export function selectShardCount(
+  curve: readonly TradeoffPoint[],
+  objective: OptimizeObjective,
+  targetDurationMs?: number,
+): number {
+  if (curve.length === 0) {
+    return 1;
+  }
 
-  // Ideal shard count to hit the target (but can't split a file across shards)
-  const idealCount = Math.ceil(totalDuration / targetDurationMs);
+  const meeting = targetDurationMs !== undefined
+    ? curve.filter((p) => p.wallClock <= targetDurationMs)
+    : [];
+  const candidates = meeting.length > 0 ? meeting : curve;
 
-  // Clamp: at least 1, at most min(maxShards, fileCount)
-  const upperBound = Math.min(maxShards, fileCount);
-  const clamped = Math.max(1, Math.min(idealCount, upperBound));
+  if (objective === 'time' && targetDurationMs !== undefined && meeting.length > 0) {
+    return meeting[0]!.shardCount;
+  }
 
-  return clamped;
+  const bestWallClock = Math.min(...candidates.map((p) => p.wallClock));
+  const bestBilled = Math.min(...candidates.map((p) => p.billed));
+
+  const score = (p: TradeoffPoint): number => {
+    switch (objective) {
+      case 'time':
+        return p.wallClock;
+      case 'cost':
+        return p.billed;
+      case 'balanced':
+        return (bestWallClock > 0 ? p.wallClock / bestWallClock : 1) +
+          (bestBilled > 0 ? p.billed / bestBilled : 1);
+    }
+  };
+
+  return candidates.reduce((best, p) => (score(p) < score(best) ? p : best)).shardCount;
+}
+
+/**
+ * Order spec files for a dynamic work queue: longest first, so the files that
+ * would otherwise finish last go out while every runner is still busy — the
+ * same ordering LPT uses, with runners picking instead of being assigned.
+ *
+ * Pure function — no I/O.
+ */
+export function createWorkQueue(entries: readonly TestTimingEntry[]): WorkQueueItem[] {
+  const fileDurations = new Map<string, number>();
+  for (const entry of entries) {
+    fileDurations.set(entry.file, (fileDurations.get(entry.file) ?? 0) + entry.estimatedDuration);
+  }
+
+  return [...fileDurations.entries()]
+    .map(([test, estimatedDuration]) => ({ test, estimatedDuration }))
+    .sort((a, b) => b.estimatedDuration - a.estimatedDuration);
+}
+
+function schedulableUnitDurations(
+  entries: readonly TestTimingEntry[],
+  options: ShardCountOptions,
+): number[] {
+  const perFile = options.overhead?.perFile ?? 0;
+  const durations: number[] = [];
+  const units = options.splitProjects ? toProjectUnits(entries) : entries;
+  for (const group of groupByLocation(units).values()) {
+    if (options.splitFiles && isSplittable(group)) {
+      durations.push(...[...group.locations.values()].map((d) => d + perFile));
+    } else {
+      durations.push(group.duration + perFile);
+    }
+  }
+  return durations;
 }
 
 // Re-export types and strategies